@@ -0,0 +1,315 @@
+#!/usr/bin/env node
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import { parseArgs } from 'util';
+import { pathToFileURL } from 'url';
+import { downloadInstagramContent } from './services/instagram.js';
+import { downloadFacebookContent } from './services/facebook.js';
+import { downloadTestContent } from './services/testContent.js';
+import { getExtractor, listPlatforms, resolveExtractor } from './services/extractorRegistry.js';
+import { closeAllBrowsers } from './utils/browserPool.js';
+import { classifyError } from './utils/extractionError.js';
+import { getConfig } from './utils/config.js';
+import { configureLogger, getLogContext, newCorrelationId, runWithLogContext } from './utils/logger.js';
+import { API_ERROR_CODES, CONTENT_TYPES, FAILURE_CODES, JOB_PHASES, parseUrlList } from '../shared/apiContract.js';
+
+/*
+ * Command-line downloader for build machines: runs the same extraction services as the server,
+ * without Express or the React app.
+ *
+ *   node server/cli.js [options] <url...>
+ *   node server/cli.js [options] --file urls.txt
+ *   cat urls.txt | node server/cli.js [options]        (or '-' as a URL argument)
+ *
+ * Progress goes to stderr and results to stdout, so `--json` output (one JSON object per line)
+ * can be piped straight into another tool. The services' JSON logs (see logger.js) are dropped
+ * unless --verbose sends them to stderr; each URL gets its own correlationId, which is on its
+ * log lines and its JSON events. The exit code tells the kind of failure (EXIT_CODES).
+ */
+
+const HELP = `Usage: node server/cli.js [options] <url...>
+
+Downloads the media of each post into --out. URLs come from the arguments, from --file,
+or one per line from stdin ('-' or no URL arguments with piped input).
+
+Options:
+  -p, --platform <id>       Platform for URLs no extractor recognises (${listPlatforms().map(platform => platform.id).join(', ')})
+  -t, --type <type>         Content type: ${CONTENT_TYPES.join(', ')} (default: post)
+  -o, --out <dir>           Directory to save files into (default: ./downloads)
+  -c, --concurrency <n>     Posts downloaded at once (default: 2)
+  -f, --file <path>         Read URLs from a text or CSV file ('#' comments are skipped)
+      --json                Print JSON lines instead of human-readable progress
+  -v, --verbose             Show the services' JSON logs on stderr (at LOG_LEVEL)
+  -h, --help                Show this help
+
+Exit codes:
+  0  every URL downloaded
+  1  other failure (extraction failed, unsupported URL, or failures of different kinds)
+  2  invalid arguments
+  3  no media found, or the post is unavailable
+  4  login required, or the imported session expired
+  5  network failure (page timed out or the CDN refused the media)
+`;
+
+export const EXIT_CODES = Object.freeze({
+    OK: 0,
+    FAILED: 1,
+    USAGE: 2,
+    NO_MEDIA: 3,
+    LOGIN_REQUIRED: 4,
+    NETWORK: 5,
+});
+
+const EXIT_CODE_BY_FAILURE = {
+    [FAILURE_CODES.NO_MEDIA_FOUND]: EXIT_CODES.NO_MEDIA,
+    [FAILURE_CODES.CONTENT_UNAVAILABLE]: EXIT_CODES.NO_MEDIA,
+    [FAILURE_CODES.LOGIN_REQUIRED]: EXIT_CODES.LOGIN_REQUIRED,
+    [FAILURE_CODES.SESSION_EXPIRED]: EXIT_CODES.LOGIN_REQUIRED,
+    [FAILURE_CODES.NAVIGATION_TIMEOUT]: EXIT_CODES.NETWORK,
+    [FAILURE_CODES.CDN_FETCH_REFUSED]: EXIT_CODES.NETWORK,
+};
+
+// The service entry point for each platform
+const DOWNLOADERS = {
+    instagram: downloadInstagramContent,
+    facebook: downloadFacebookContent,
+    test: downloadTestContent,
+};
+
+export class CliUsageError extends Error {
+    constructor(message, { cause } = {}) {
+        super(message, { cause });
+        this.name = 'CliUsageError';
+    }
+}
+
+// Parse argv into options. Throws CliUsageError for anything the user has to fix.
+export function parseCliArgs(argv) {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                platform: { type: 'string', short: 'p' },
+                type: { type: 'string', short: 't', default: 'post' },
+                out: { type: 'string', short: 'o', default: 'downloads' },
+                concurrency: { type: 'string', short: 'c', default: '2' },
+                file: { type: 'string', short: 'f' },
+                json: { type: 'boolean', default: false },
+                verbose: { type: 'boolean', short: 'v', default: false },
+                help: { type: 'boolean', short: 'h', default: false },
+            },
+        });
+    } catch (error) {
+        throw new CliUsageError(error.message, { cause: error });
+    }
+    const { values, positionals } = parsed;
+
+    const platform = values.platform?.toLowerCase();
+    if (platform !== undefined && !getExtractor(platform)) {
+        throw new CliUsageError(`--platform must be one of: ${Object.keys(DOWNLOADERS).join(', ')}.`);
+    }
+    if (!CONTENT_TYPES.includes(values.type)) {
+        throw new CliUsageError(`--type must be one of: ${CONTENT_TYPES.join(', ')}.`);
+    }
+    const concurrency = Number(values.concurrency);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+        throw new CliUsageError('--concurrency must be a whole number of at least 1.');
+    }
+
+    return {
+        urls: positionals.filter(arg => arg !== '-'),
+        readStdin: positionals.includes('-'),
+        file: values.file ?? null,
+        platform: platform ?? null,
+        contentType: values.type,
+        outDir: path.resolve(values.out),
+        concurrency,
+        json: values.json,
+        verbose: values.verbose,
+        help: values.help,
+    };
+}
+
+// The process exit code for a run, given the failure code of every URL that failed.
+// A single kind of failure gets its own code; a mix of kinds is just FAILED.
+export function exitCodeFor(failureCodes) {
+    if (failureCodes.length === 0) return EXIT_CODES.OK;
+    const exitCodes = new Set(failureCodes.map(code => EXIT_CODE_BY_FAILURE[code] ?? EXIT_CODES.FAILED));
+    return exitCodes.size === 1 ? [...exitCodes][0] : EXIT_CODES.FAILED;
+}
+
+async function readStream(stream) {
+    const chunks = [];
+    for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+// All URLs to download, in order: arguments, then --file, then stdin
+export async function collectUrls(options, stdin = process.stdin) {
+    const urls = [...options.urls];
+    if (options.file) {
+        const text = await fsPromises.readFile(options.file, 'utf8').catch(error => {
+            throw new CliUsageError(`Cannot read --file ${options.file}: ${error.message}`, { cause: error });
+        });
+        urls.push(...parseUrlList(text));
+    }
+    if (options.readStdin || (urls.length === 0 && !options.file && !stdin.isTTY)) {
+        urls.push(...parseUrlList(await readStream(stdin)));
+    }
+    return urls;
+}
+
+// Run `task` over `items` with at most `concurrency` in flight, keeping results in input order
+async function mapWithConcurrency(items, concurrency, task) {
+    const results = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await task(items[index], index);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+    return results;
+}
+
+// Human-readable or JSON-lines output. Progress goes to stderr in human mode so stdout only
+// lists the saved files.
+function createReporter({ json, total, stdout = process.stdout, stderr = process.stderr }) {
+    const line = (stream, text) => stream.write(`${text}\n`);
+    const label = (index) => `[${index + 1}/${total}]`;
+
+    if (json) {
+        // Events are emitted inside the URL's log context, so they carry its correlationId
+        const emit = (event) => {
+            const { correlationId } = getLogContext();
+            line(stdout, JSON.stringify(correlationId ? { ...event, correlationId } : event));
+        };
+        return {
+            progress: (index, url, phase, detail) => emit({ type: 'progress', url, phase, ...detail }),
+            success: (index, url, platform, result) => emit({ type: 'result', url, platform, success: true, items: result.items, metadata: result.metadata ?? null }),
+            failure: (index, url, platform, error) => emit({ type: 'result', url, platform, success: false, error }),
+            summary: (summary) => emit({ type: 'summary', ...summary }),
+        };
+    }
+    return {
+        progress: (index, url, phase, detail) => {
+            const fetched = detail?.itemCount ? ` (file ${detail.itemIndex + 1} of ${detail.itemCount})` : '';
+            line(stderr, `${label(index)} ${url}: ${phase.replace(/_/g, ' ')}${fetched}`);
+        },
+        success: (index, url, platform, result) => {
+            line(stdout, `${label(index)} ${url}: ${result.items.length} file(s)${result.reused ? ' (already downloaded)' : ''}`);
+            for (const item of result.items) {
+                line(stdout, `    ${item.localPath ?? item.downloadUrl}  ${item.size}  ${item.mediaType}`);
+            }
+        },
+        failure: (index, url, platform, error) => line(stderr, `${label(index)} ${url}: failed [${error.code}] ${error.message}`),
+        summary: ({ downloaded, failed, files, exitCode }) =>
+            line(stderr, `Done: ${downloaded} downloaded (${files} file(s)), ${failed} failed. Exit code ${exitCode}.`),
+    };
+}
+
+// Download one URL, reporting phase changes. Resolves to `{ failureCode }` (null on success)
+// and the number of files saved.
+function downloadOne(url, index, options, reporter) {
+    return runWithLogContext({ correlationId: newCorrelationId() }, () => downloadInContext(url, index, options, reporter));
+}
+
+async function downloadInContext(url, index, options, reporter) {
+    const extractor = resolveExtractor(url, options.platform);
+    if (!extractor || !DOWNLOADERS[extractor.id]) {
+        const code = API_ERROR_CODES.UNSUPPORTED_PLATFORM;
+        reporter.failure(index, url, null, { code, message: 'No extractor recognises this URL; pass --platform to pick one.' });
+        return { failureCode: code, files: 0 };
+    }
+
+    // Byte counts arrive many times a second; only a new phase or a new file is worth a line
+    let lastReported = null;
+    const onProgress = (phase, detail = {}) => {
+        const key = `${phase}:${detail.itemIndex ?? ''}`;
+        if (key === lastReported) return;
+        lastReported = key;
+        reporter.progress(index, url, phase, detail);
+    };
+
+    try {
+        onProgress(JOB_PHASES.QUEUED);
+        const result = await DOWNLOADERS[extractor.id](url, options.contentType, options.outDir, onProgress);
+        reporter.success(index, url, extractor.id, result);
+        return { failureCode: null, files: result.items.length };
+    } catch (error) {
+        const code = classifyError(error);
+        reporter.failure(index, url, extractor.id, { code, message: error.message });
+        return { failureCode: code, files: 0 };
+    }
+}
+
+// Send the services' logs to stderr (--verbose) or nowhere, keeping stdout for results
+function redirectServiceLogs(verbose) {
+    configureLogger({
+        level: verbose ? getConfig().logging.level : 'silent',
+        write: (level, line) => process.stderr.write(`${line}\n`),
+    });
+}
+
+export async function main(argv = process.argv.slice(2)) {
+    let options;
+    let urls;
+    try {
+        options = parseCliArgs(argv);
+        if (options.help) {
+            process.stdout.write(HELP);
+            return EXIT_CODES.OK;
+        }
+        urls = await collectUrls(options);
+        if (urls.length === 0) {
+            throw new CliUsageError('No URLs given. Pass them as arguments, with --file, or on stdin.');
+        }
+    } catch (error) {
+        if (!(error instanceof CliUsageError)) throw error;
+        process.stderr.write(`${error.message}\nRun with --help for usage.\n`);
+        return EXIT_CODES.USAGE;
+    }
+
+    redirectServiceLogs(options.verbose);
+    await fsPromises.mkdir(options.outDir, { recursive: true });
+    const reporter = createReporter({ json: options.json, total: urls.length });
+
+    try {
+        const outcomes = await mapWithConcurrency(urls, options.concurrency, (url, index) => downloadOne(url, index, options, reporter));
+        const failureCodes = outcomes.map(outcome => outcome.failureCode).filter(Boolean);
+        const exitCode = exitCodeFor(failureCodes);
+        reporter.summary({
+            downloaded: urls.length - failureCodes.length,
+            failed: failureCodes.length,
+            files: outcomes.reduce((total, outcome) => total + outcome.files, 0),
+            exitCode,
+        });
+        return exitCode;
+    } finally {
+        await closeAllBrowsers(); // The pool is shared by every download; nothing else will close it
+    }
+}
+
+// Ctrl+C or a CI cancellation: close Chromium instead of leaving it behind, then exit like a shell would
+function exitOnSignal(signal, exitCode) {
+    process.once(signal, async () => {
+        process.stderr.write(`${signal} received: closing browsers\n`);
+        await closeAllBrowsers().catch(() => {});
+        process.exit(exitCode);
+    });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(path.resolve(process.argv[1])).href) {
+    exitOnSignal('SIGINT', 130);
+    exitOnSignal('SIGTERM', 143);
+    main().then(
+        (exitCode) => { process.exitCode = exitCode; },
+        (error) => {
+            process.stderr.write(`Unexpected error: ${error.stack ?? error}\n`);
+            process.exitCode = EXIT_CODES.FAILED;
+        },
+    );
+}
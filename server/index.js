@@ -1,28 +1,125 @@
 import express from 'express';
 import cors from 'cors';
+import multer from 'multer';
 import path from 'path';
 import { promises as fsPromises } from 'fs'; // Use fs.promises for async operations
-import { fileURLToPath } from 'url';
-import { downloadInstagramContent } from './services/instagram.js'; // Ensure this is also async-ready
-import { downloadFacebookContent } from './services/facebook.js';
-import { downloadTestContent } from './services/testContent.js'; // Ensure this is also async-ready
-import { closeAllBrowsers } from './utils/browserPool.js'; // Import closeAllBrowsers
+import { getExtractor, resolveExtractor, listPlatforms } from './services/extractorRegistry.js';
+import { downloadWithExtractor, enumerateWithExtractor } from './services/mediaPipeline.js';
+import { closeAllBrowsers, getPoolStatus } from './utils/browserPool.js';
+import { checkJobCapacity, createJob, getJob, getJobOwner, getJobQueueStatus, onJobFinished, runJob, subscribeToJob, isTerminalPhase } from './utils/jobStore.js';
+import { addBatchEntries, checkBatchCapacity, completeDiscovery, createBatch, getBatch, getBatchOwner, getBatchQueueStatus, retryFailedEntries, subscribeToBatch } from './utils/batchStore.js';
+import { createMediaIndex, normalizePageUrl } from './utils/mediaIndex.js';
+import { classifyError } from './utils/extractionError.js';
+import { getExtractionStats } from './utils/extractionStats.js';
+import { createSessionStore } from './utils/sessionStore.js';
+import { parseVideoQuality } from './utils/videoRenditions.js';
+import { CookieImportError, parseCookieFile } from './utils/cookieJar.js';
+import { CONTENT_TYPES_BY_FORMAT, THUMBNAIL_WIDTH, getVariant, variantSourcePath } from './utils/imageVariants.js';
+import { createStorage } from './utils/storage.js';
+import { createRetentionSweeper, removeDownload } from './utils/retention.js';
+import { createRateLimitMiddleware, createTokenBucketLimiter, sendTooManyRequests } from './utils/rateLimiter.js';
+import { ApiKeyError, createApiKeyStore } from './utils/apiKeys.js';
+import { canAccess, createAuth, isAdmin } from './utils/auth.js';
+import { WebhookError, createSigningSecret, createWebhookDispatcher } from './utils/webhooks.js';
+import { describeConfig, getConfig } from './utils/config.js';
+import { bindLogContext, createLogger, newCorrelationId, runWithLogContext } from './utils/logger.js';
+import {
+  API_ERROR_CODES,
+  BATCH_MAX_URLS,
+  REQUEST_ID_HEADER,
+  batchRequestSchema,
+  createApiKeyRequestSchema,
+  createErrorEnvelope,
+  downloadRequestSchema,
+  enumerateRequestSchema,
+  loginRequestSchema,
+  parseUrlList,
+  pinRequestSchema,
+  registerWebhookRequestSchema,
+  validate,
+  variantQuerySchema,
+} from '../shared/apiContract.js';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+// Every setting, from the environment and CONFIG_FILE (see config.js). Invalid values stop the
+// server here, before it listens.
+const config = getConfig();
 
 const app = express();
-const PORT = process.env.PORT || 3001;
+const PORT = config.server.port;
 
-// Helper for logging (can be replaced with Winston/Pino)
-const logger = {
-  info: (...args) => console.log('[SERVER INFO]', ...args),
-  warn: (...args) => console.warn('[SERVER WARN]', ...args),
-  error: (...args) => console.error('[SERVER ERROR]', ...args),
-};
+const logger = createLogger('Server');
 
 // Create downloads directory if it doesn't exist
-const downloadsDir = path.join(__dirname, 'downloads');
+const downloadsDir = config.paths.downloadsDir;
+// Where finished downloads are kept: the downloads directory itself (STORAGE_BACKEND=local, the
+// default) or an S3-compatible bucket, which survives redeploys (see storage.js)
+const { s3 } = config.storage;
+const storage = createStorage({
+  backend: config.storage.backend,
+  rootDir: downloadsDir,
+  // Files and thumbnails are linked from PUBLIC_BASE_URL, which is what clients reach behind a proxy
+  publicBaseUrl: config.server.publicBaseUrl,
+  s3: {
+    endpoint: s3.endpoint,
+    bucket: s3.bucket,
+    region: s3.region ?? undefined,
+    accessKeyId: s3.accessKeyId,
+    secretAccessKey: s3.secretAccessKey,
+    prefix: s3.prefix ?? undefined,
+    urlExpirySeconds: s3.urlExpirySeconds ?? undefined,
+  },
+  cacheDir: config.paths.storageCache,
+});
+// Persistent record of downloaded files (source URLs, hashes), used for dedupe and listing
+const mediaIndex = createMediaIndex({
+  indexPath: config.paths.mediaIndex,
+  storage,
+});
+// Retention (see retention.js): files unused for RETENTION_TTL_HOURS expire, and past
+// STORAGE_QUOTA_MB the least recently used are evicted. Both are off unless set.
+const retention = createRetentionSweeper({
+  storage,
+  downloadsDir,
+  mediaIndex,
+  ttlSeconds: config.retention.ttlHours && config.retention.ttlHours * 3600,
+  maxBytes: config.retention.quotaMb && Math.round(config.retention.quotaMb * 1024 * 1024),
+  intervalMs: config.retention.sweepMinutes * 60 * 1000,
+});
+// Logged-in sessions imported from cookie exports, encrypted at rest (see sessionStore.js)
+const sessions = createSessionStore({
+  storePath: config.paths.sessionStore,
+  secret: config.auth.sessionSecret,
+});
+// API keys (see apiKeys.js and auth.js). Setting ADMIN_API_KEY turns authentication on: every API
+// route but the health check and sign-in then needs a key or a browser session, and each key sees
+// only the files it downloaded. Without it the server stays open, as a single-user local install.
+const apiKeys = createApiKeyStore({
+  storePath: config.paths.apiKeyStore,
+  adminKey: config.auth.adminApiKey,
+});
+const auth = createAuth({
+  keys: apiKeys,
+  required: Boolean(config.auth.adminApiKey),
+  secret: config.auth.sessionSecret,
+  // A frontend on another site (as on Render) only gets the cookie back with SameSite=None
+  sameSite: config.auth.sessionCookieSameSite,
+  secureCookie: config.server.nodeEnv === 'production',
+  // Pages that may use the cookie to change things: the web client's (CORS_ORIGINS) and the server's own
+  trustedOrigins: [...config.server.corsOrigins, config.server.publicBaseUrl],
+});
+// Signed webhooks for finished jobs: registered ones get every job, a request's callbackUrl its own
+// (see webhooks.js), signed with a secret of the job's, handed out with the job. Receivers on the
+// server's own network are refused unless listed in WEBHOOK_ALLOWED_HOSTS. FEATURE_WEBHOOKS=false stops
+// all deliveries; registrations and the log are kept.
+const webhooks = createWebhookDispatcher({
+  storePath: config.paths.webhookStore,
+  allowedHosts: config.webhooks.allowedHosts,
+});
+if (config.features.webhooks) {
+  onJobFinished((snapshot, context) => {
+    webhooks.notifyJob(snapshot, context).catch(error => logger.error(`Failed to notify webhooks of job ${snapshot.id}:`, error.message));
+  });
+}
 (async () => {
   try {
     await fsPromises.access(downloadsDir); // Check if directory exists
@@ -37,63 +134,365 @@ const downloadsDir = path.join(__dirname, 'downloads');
       // Critical error, consider exiting or handling
     }
   }
+  // Pick up files downloaded before the index existed and forget ones deleted by hand
+  await mediaIndex.reconcile().catch(error => logger.error('Failed to reconcile media index:', error.message));
+  // Catch up on whatever expired while the server was down, then keep sweeping
+  await retention.sweep().catch(error => logger.error('Initial retention sweep failed:', error.message));
+  retention.start();
+  // Retry deliveries that were still pending when the server last stopped
+  if (config.features.webhooks) {
+    await webhooks.start().catch(error => logger.error('Failed to resume webhook deliveries:', error.message));
+  }
 })();
 
 
-app.use(cors());
+// Behind a reverse proxy (Render, nginx), TRUST_PROXY makes req.ip the client's address:
+// a hop count, 'true', or the proxy addresses Express accepts
+if (config.server.trustProxy) {
+  const { trustProxy } = config.server;
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy === 'true' ? true : trustProxy);
+}
+
+// Token buckets for the endpoints that start downloads (see rateLimiter.js): per IP, bursts of
+// RATE_LIMIT_BURST then RATE_LIMIT_PER_MINUTE; signed-in API keys use the API_KEY_ ones
+const limitDownloadRequests = createRateLimitMiddleware({
+  apiKeyOf: (req) => (auth.required ? req.user?.id : null),
+  perIp: createTokenBucketLimiter({
+    capacity: config.rateLimit.burst,
+    refillPerSecond: config.rateLimit.perMinute / 60,
+  }),
+  perApiKey: createTokenBucketLimiter({
+    capacity: config.rateLimit.apiKeyBurst,
+    refillPerSecond: config.rateLimit.apiKeyPerMinute / 60,
+  }),
+});
+
+// Correlation id per request (see logger.js): taken from a proxy's X-Request-Id when it looks like
+// one, otherwise new. Everything logged while handling the request - and by the jobs it queues -
+// carries it, and the client gets it back in the same header.
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+app.use((req, res, next) => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const correlationId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : newCorrelationId();
+  res.set(REQUEST_ID_HEADER, correlationId);
+  runWithLogContext({ correlationId }, () => {
+    const startedAt = Date.now();
+    res.on('finish', () => logger.info(`${req.method} ${req.originalUrl} ${res.statusCode} in ${Date.now() - startedAt}ms`));
+    next();
+  });
+});
+
+// Browser origins allowed to call the API: CORS_ORIGINS, comma-separated ('*' for any), by default
+// the Vite dev and preview servers. Credentials are allowed so the session cookie goes along, and
+// the request id is exposed so the client can show it.
+const corsOrigins = config.server.corsOrigins.map(origin => origin.replace(/\/$/, ''));
+app.use(cors({ origin: corsOrigins.includes('*') ? true : corsOrigins, credentials: true, exposedHeaders: [REQUEST_ID_HEADER] }));
 app.use(express.json());
-app.use(express.urlencoded({ extended: true })); // For parsing URL-encoded bodies
 
-// Serve static files from downloads directory
-app.use('/downloads', express.static(downloadsDir));
+// Media index records the signed-in user may see; 404 (not 403) for others' files, so names don't leak
+async function findOwnedRecord(req, filename) {
+  const record = await mediaIndex.get(filename);
+  return record && canAccess(req.user, record.owners) ? record : null;
+}
+
+// Serve static files from downloads directory; objects in a bucket are fetched from presigned URLs
+if (storage.kind === 'local') {
+  const checkFileAccess = async (req, res, next) => {
+    try {
+      if (isAdmin(req.user) || (await findOwnedRecord(req, path.basename(req.path)))) {
+        return next();
+      }
+      res.status(404).json(createErrorEnvelope(API_ERROR_CODES.NOT_FOUND, 'File not found'));
+    } catch (error) {
+      next(error);
+    }
+  };
+  // Served files count as accessed, for least-recently-used eviction
+  const touchServedFile = (req, res, next) => {
+    res.on('finish', () => {
+      if (res.statusCode < 300) {
+        mediaIndex.touch(path.basename(req.path)).catch(error => logger.warn('Failed to record access:', error.message));
+      }
+    });
+    next();
+  };
+  app.use('/downloads', auth.authenticate, checkFileAccess, touchServedFile, express.static(storage.rootDir));
+}
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
   res.json({ status: 'OK', message: 'Social Media Downloader API is running' });
 });
 
-// Download endpoint
-app.post('/api/download', async (req, res, next) => { // Added next for error middleware
+// --- Authentication ---
+// Who the browser is signed in as (user null when it isn't), and whether signing in is needed at all
+app.get('/api/auth/session', async (req, res, next) => {
   try {
-    const { url, platform, contentType } = req.body;
+    const { user, expiresAt } = await auth.identify(req);
+    res.json({ authRequired: auth.required, user, expiresAt });
+  } catch (error) {
+    logger.error('Failed to read session:', error.message);
+    next(error);
+  }
+});
 
-    // --- Robust Input Validation ---
-    if (!url || typeof url !== 'string' || url.trim() === '') {
-      return res.status(400).json({ error: 'URL is required and must be a non-empty string.' });
+// Sign a browser in with an API key: { apiKey }. The key is checked once and traded for a session cookie.
+app.post('/api/auth/session', async (req, res, next) => {
+  try {
+    const validation = validate(loginRequestSchema, req.body);
+    if (!validation.ok) {
+      return res.status(400).json(validation.error);
+    }
+    if (!auth.required) {
+      return res.json({ authRequired: false, user: (await auth.identify(req)).user, expiresAt: null });
     }
-    // Basic URL format check (can be more rigorous with a regex or validator library)
-    if (!url.startsWith('http://') && !url.startsWith('https://')) {
-        return res.status(400).json({ error: 'Invalid URL format. Must start with http:// or https://' });
+    const user = await apiKeys.authenticate(validation.value.apiKey);
+    if (!user) {
+      logger.warn(`Failed sign-in from ${req.ip}`);
+      return res.status(401).json(createErrorEnvelope(API_ERROR_CODES.UNAUTHORIZED, 'Invalid or revoked API key.'));
     }
+    const expiresAt = auth.startSession(res, user);
+    logger.info(`Signed in ${user.name} (${user.id}) until ${expiresAt}`);
+    res.json({ authRequired: true, user, expiresAt });
+  } catch (error) {
+    logger.error('Sign-in error:', error.message);
+    next(error);
+  }
+});
 
-    const allowedPlatforms = ['instagram', 'facebook', 'test']; // 'test' is for the test-content service
-    if (!platform || typeof platform !== 'string' || !allowedPlatforms.includes(platform.toLowerCase())) {
-      return res.status(400).json({ error: `Platform is required and must be one of: ${allowedPlatforms.join(', ')}.` });
+// Sign the browser out; the API key itself stays valid
+app.delete('/api/auth/session', (req, res) => {
+  auth.endSession(res);
+  res.status(204).end();
+});
+
+// Everything below needs a key or a session while authentication is on
+app.use('/api', auth.authenticate);
+
+// Key management (admins): list keys, issue one ({ name, role? }; the key is only shown in this
+// response) and revoke one. Revoking also ends the browser sessions signed in with it.
+app.get('/api/keys', auth.requireAdmin, async (req, res, next) => {
+  try {
+    res.json(await apiKeys.list());
+  } catch (error) {
+    logger.error('Failed to list API keys:', error.message);
+    next(error);
+  }
+});
+
+app.post('/api/keys', auth.requireAdmin, async (req, res, next) => {
+  try {
+    const validation = validate(createApiKeyRequestSchema, req.body);
+    if (!validation.ok) {
+      return res.status(400).json(validation.error);
+    }
+    res.status(201).json(await apiKeys.create(validation.value));
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return res.status(400).json(createErrorEnvelope(API_ERROR_CODES.INVALID_REQUEST, error.message));
     }
+    logger.error('Failed to create API key:', error.message);
+    next(error);
+  }
+});
 
-    const allowedContentTypes = ['image', 'video', 'reel', 'story']; // Adjust as per your actual content types
-    if (!contentType || typeof contentType !== 'string' || !allowedContentTypes.includes(contentType.toLowerCase())) {
-      return res.status(400).json({ error: `ContentType is required and must be one of: ${allowedContentTypes.join(', ')}.` });
+app.delete('/api/keys/:id', auth.requireAdmin, async (req, res, next) => {
+  try {
+    const info = await apiKeys.revoke(req.params.id);
+    if (!info) {
+      return res.status(404).json(createErrorEnvelope(API_ERROR_CODES.NOT_FOUND, 'API key not found.'));
     }
-    // --- End Robust Input Validation ---
+    res.json(info);
+  } catch (error) {
+    logger.error('Failed to revoke API key:', error.message);
+    next(error);
+  }
+});
+// --- End Authentication ---
 
-    let result;
-    const lowerCasePlatform = platform.toLowerCase();
-    const lowerCaseContentType = contentType.toLowerCase();
+// --- Webhooks ---
+// Delivery log, newest first: every delivery for admins, those of the user's own jobs otherwise.
+// ?jobId= narrows it to one job.
+app.get('/api/webhooks/deliveries', async (req, res, next) => {
+  try {
+    const jobId = typeof req.query.jobId === 'string' && req.query.jobId ? req.query.jobId : null;
+    res.json(await webhooks.listDeliveries({ jobId, owner: isAdmin(req.user) ? null : req.user.id }));
+  } catch (error) {
+    logger.error('Failed to list webhook deliveries:', error.message);
+    next(error);
+  }
+});
 
-    // Check if it's a test URL or 'test' platform
-    if (url.includes('test-content') || url.includes('demo') || lowerCasePlatform === 'test') {
-      result = await downloadTestContent(url, lowerCaseContentType, downloadsDir);
-    } else if (lowerCasePlatform === 'instagram') {
-      result = await downloadInstagramContent(url, lowerCaseContentType, downloadsDir);
-    } else if (lowerCasePlatform === 'facebook') {
-      result = await downloadFacebookContent(url, lowerCaseContentType, downloadsDir);
-    } else {
-        // This case should ideally not be reached due to `allowedPlatforms` check
-        return res.status(400).json({ error: 'Unsupported platform.' });
+// One delivery with the payload that was sent
+app.get('/api/webhooks/deliveries/:id', async (req, res, next) => {
+  try {
+    const delivery = await webhooks.getDelivery(req.params.id);
+    if (!delivery || !canAccess(req.user, delivery.owner)) {
+      return res.status(404).json(createErrorEnvelope(API_ERROR_CODES.NOT_FOUND, 'Delivery not found.'));
     }
+    res.json(delivery);
+  } catch (error) {
+    logger.error('Failed to read webhook delivery:', error.message);
+    next(error);
+  }
+});
 
-    res.json(result);
+// Webhooks registered for every job (admins): list, register ({ url, events?, description? };
+// the signing secret is only in this response) and remove
+app.get('/api/webhooks', auth.requireAdmin, async (req, res, next) => {
+  try {
+    res.json(await webhooks.list());
+  } catch (error) {
+    logger.error('Failed to list webhooks:', error.message);
+    next(error);
+  }
+});
+
+app.post('/api/webhooks', auth.requireAdmin, async (req, res, next) => {
+  try {
+    const validation = validate(registerWebhookRequestSchema, req.body);
+    if (!validation.ok) {
+      return res.status(400).json(validation.error);
+    }
+    res.status(201).json(await webhooks.register(validation.value));
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return res.status(400).json(createErrorEnvelope(API_ERROR_CODES.INVALID_REQUEST, error.message));
+    }
+    logger.error('Failed to register webhook:', error.message);
+    next(error);
+  }
+});
+
+app.delete('/api/webhooks/:id', auth.requireAdmin, async (req, res, next) => {
+  try {
+    if (!(await webhooks.remove(req.params.id))) {
+      return res.status(404).json(createErrorEnvelope(API_ERROR_CODES.NOT_FOUND, 'Webhook not found.'));
+    }
+    res.status(204).end();
+  } catch (error) {
+    logger.error('Failed to remove webhook:', error.message);
+    next(error);
+  }
+});
+// --- End Webhooks ---
+
+// Diagnostics describe the whole server, so they are for admins
+app.use('/api/diagnostics', auth.requireAdmin);
+
+// Browser pool state: launched browsers, open pages, queued requests
+app.get('/api/diagnostics/browser-pool', (req, res) => {
+  res.json(getPoolStatus());
+});
+
+// Batch queue: how many batch jobs run at once, how many are waiting for a slot and how many may wait
+app.get('/api/diagnostics/batch-queue', (req, res) => {
+  res.json(getBatchQueueStatus());
+});
+
+// Job queue: how many jobs run at once, how many wait, and how many may wait before new ones are refused
+app.get('/api/diagnostics/job-queue', (req, res) => {
+  res.json(getJobQueueStatus());
+});
+
+// Effective configuration with secrets masked, and where each setting came from (env, file, default)
+app.get('/api/diagnostics/config', (req, res) => {
+  res.json(describeConfig(config));
+});
+
+// Extraction strategies: how often the plain-HTTP fast path and the browser found media, per platform
+app.get('/api/diagnostics/extraction-strategies', (req, res) => {
+  res.json(getExtractionStats());
+});
+
+// Platforms the server can download from, for building the client's platform picker
+app.get('/api/platforms', (req, res) => {
+  res.json(listPlatforms());
+});
+
+// --- Input Validation (schemas shared with the client in shared/apiContract.js) ---
+// The platform hint is optional, but one that names no extractor is a mistake worth reporting:
+// an ErrorEnvelope for it, or null when it's absent or known
+function unknownPlatformError(platform) {
+  if (platform === undefined || getExtractor(platform.toLowerCase())) return null;
+  const allowedPlatforms = listPlatforms().map(p => p.id);
+  return createErrorEnvelope(API_ERROR_CODES.INVALID_REQUEST, `platform must be one of: ${allowedPlatforms.join(', ')}.`);
+}
+
+// Checks a DownloadRequest and picks its extractor. Returns { error } (an ErrorEnvelope) when
+// the request can't be queued, otherwise { extractor, url, contentType, allowFallback, quality, callbackUrl }.
+function resolveDownloadRequest(body) {
+  const validation = validate(downloadRequestSchema, body);
+  if (!validation.ok) {
+    return { error: validation.error };
+  }
+  const { url, platform, contentType, allowFallback = false, quality, callbackUrl = null } = validation.value;
+
+  // Platform is optional: the extractor is picked from the URL, the hint only helps unknown hosts
+  const platformError = unknownPlatformError(platform);
+  if (platformError) {
+    return { error: platformError };
+  }
+
+  const extractor = resolveExtractor(url, platform?.toLowerCase());
+  if (!extractor) {
+    return { error: createErrorEnvelope(API_ERROR_CODES.UNSUPPORTED_PLATFORM, 'Unsupported platform: no extractor recognises this URL.') };
+  }
+  // FEATURE_SAMPLE_FALLBACK=false: failures stay failures, whatever the request asks for
+  return { extractor, url, contentType, allowFallback: allowFallback && config.features.sampleFallback, quality: parseVideoQuality(quality), callbackUrl };
+}
+// --- End Input Validation ---
+
+// A full queue would only make new work wait behind everyone else; tell the client when to come back
+function sendQueueFull(res, { retryAfterSeconds }, what) {
+  logger.warn(`Job queue full; turning away ${what}`);
+  sendTooManyRequests(res, {
+    code: API_ERROR_CODES.QUEUE_FULL,
+    message: `The server is busy with other downloads. Retry in ${retryAfterSeconds}s.`,
+    retryAfterSeconds,
+    scope: 'server',
+  });
+}
+
+// The background task of a download job; the files it produces or reuses are `owner`'s
+const downloadTask = ({ extractor, url, contentType, allowFallback, quality }, owner) =>
+  (onProgress) => downloadWithExtractor(extractor, url, contentType, downloadsDir, onProgress, { allowFallback, mediaIndex, sessions, quality, storage, owner });
+
+// Download endpoint: validates the request, enqueues a job and returns its id right away.
+// The scrape and file write run in the background; follow them via /api/download/:id/progress.
+app.post('/api/download', limitDownloadRequests, async (req, res, next) => { // Added next for error middleware
+  try {
+    const resolved = resolveDownloadRequest(req.body);
+    if (resolved.error) {
+      return res.status(400).json(resolved.error);
+    }
+    const { extractor, url, contentType, callbackUrl } = resolved;
+    if (callbackUrl) {
+      try {
+        await webhooks.checkTarget(callbackUrl);
+      } catch (error) {
+        if (!(error instanceof WebhookError)) throw error;
+        return res.status(400).json(createErrorEnvelope(API_ERROR_CODES.INVALID_REQUEST, `callbackUrl: ${error.message}`, { callbackUrl: error.message }));
+      }
+    }
+
+    const capacity = checkJobCapacity();
+    if (!capacity.available) {
+      return sendQueueFull(res, capacity, url);
+    }
+
+    // The callback is signed with a secret only this response reveals
+    const callbackSecret = callbackUrl ? createSigningSecret() : null;
+    const job = createJob({ url, platform: extractor.id, contentType, owner: req.user.id, callbackUrl, callbackSecret });
+    logger.info(`Queued ${extractor.id} download job ${job.id} for ${url}`);
+    runJob(job.id, downloadTask(resolved, req.user.id));
+
+    res.status(202).json({
+      jobId: job.id,
+      phase: job.phase,
+      progressUrl: `/api/download/${job.id}/progress`,
+      ...(callbackSecret ? { callbackSecret } : {}),
+    });
   } catch (error) {
     logger.error('Download request processing error:', error.message);
     logger.error(error.stack); // Log full stack trace
@@ -102,80 +501,387 @@ app.post('/api/download', async (req, res, next) => { // Added next for error mi
   }
 });
 
-// Get download progress (Still a placeholder)
+// Current state of a download job (for clients that poll instead of streaming)
+app.get('/api/download/:id', (req, res) => {
+  const job = getJob(req.params.id);
+  if (!job || !canAccess(req.user, getJobOwner(job.id))) {
+    return res.status(404).json(createErrorEnvelope(API_ERROR_CODES.NOT_FOUND, 'Download job not found.'));
+  }
+  res.json(job);
+});
+
+// Send `initial` and every snapshot from `subscribe` as Server-Sent Events, ending the stream
+// once `isDone(snapshot)` says no more updates will come
+function streamSnapshots(req, res, initial, subscribe, isDone) {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+
+  let unsubscribe = () => {};
+  let heartbeat = null;
+  const cleanup = () => {
+    unsubscribe();
+    clearInterval(heartbeat);
+  };
+
+  const sendSnapshot = (snapshot) => {
+    res.write(`event: progress\ndata: ${JSON.stringify(snapshot)}\n\n`);
+    if (isDone(snapshot)) {
+      cleanup();
+      res.end();
+    }
+  };
+
+  sendSnapshot(initial); // Send the current state first so late subscribers catch up
+  if (isDone(initial)) return;
+
+  unsubscribe = subscribe(sendSnapshot);
+  // Comment lines keep proxies from closing an idle stream
+  heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+  req.on('close', cleanup);
+}
+
+// Stream download progress as Server-Sent Events until the job completes or fails
 app.get('/api/download/:id/progress', (req, res) => {
   const { id } = req.params;
-  // In a real implementation, you'd track progress in a database or cache
-  logger.info(`Request for download progress for ID: ${id}`);
-  res.json({
-    id,
-    progress: Math.floor(Math.random() * 100), // Placeholder for actual progress
-    status: 'downloading',
-    message: 'Progress tracking not fully implemented yet.'
-  });
+  const job = getJob(id);
+  if (!job || !canAccess(req.user, getJobOwner(id))) {
+    return res.status(404).json(createErrorEnvelope(API_ERROR_CODES.NOT_FOUND, 'Download job not found.'));
+  }
+  streamSnapshots(req, res, job, (listener) => subscribeToJob(id, listener), (snapshot) => isTerminalPhase(snapshot.phase));
 });
 
-// List downloaded files
-app.get('/api/downloads', async (req, res, next) => { // Added next for error middleware
+// URL lists arrive as a pasted array/text in JSON, or as an uploaded .txt/.csv file
+const uploadUrlList = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 1024 * 1024, files: 1 },
+  fileFilter: (req, file, callback) => {
+    const accepted = /\.(txt|csv)$/i.test(file.originalname) || ['text/plain', 'text/csv'].includes(file.mimetype);
+    callback(accepted ? null : Object.assign(new Error('Upload a .txt or .csv file with one URL per line.'), { statusCode: 400, code: API_ERROR_CODES.INVALID_REQUEST }), accepted);
+  },
+}).single('file');
+
+// Batch download endpoint: validates every URL, queues a job for each valid one and answers with
+// the batch summary. Invalid, unsupported and duplicate URLs are reported per entry, not fatal.
+app.post('/api/batch', limitDownloadRequests, (req, res, next) => {
+  uploadUrlList(req, res, bindLogContext((uploadError) => {
+    try {
+      if (uploadError) {
+        const message = uploadError instanceof multer.MulterError ? `Upload rejected: ${uploadError.message}.` : uploadError.message;
+        return res.status(400).json(createErrorEnvelope(API_ERROR_CODES.INVALID_REQUEST, message));
+      }
+
+      const validation = validate(batchRequestSchema, req.body);
+      if (!validation.ok) {
+        return res.status(400).json(validation.error);
+      }
+      const { platform, contentType, allowFallback = false, quality } = validation.value;
+
+      const { urls = [] } = req.body;
+      const listed = req.file
+        ? parseUrlList(req.file.buffer.toString('utf8'))
+        : Array.isArray(urls) ? urls.map(url => String(url).trim()).filter(Boolean) : parseUrlList(urls);
+      if (listed.length === 0) {
+        return res.status(400).json(createErrorEnvelope(API_ERROR_CODES.INVALID_REQUEST, 'No URLs found. Paste one URL per line or upload a .txt/.csv file.'));
+      }
+      if (listed.length > BATCH_MAX_URLS) {
+        return res.status(400).json(createErrorEnvelope(API_ERROR_CODES.INVALID_REQUEST, `A batch can hold at most ${BATCH_MAX_URLS} URLs; got ${listed.length}.`));
+      }
+
+      const firstSeen = new Map(); // normalised URL -> position in the list
+      const entries = listed.map((url, index) => {
+        const resolved = resolveDownloadRequest({ url, platform, contentType, allowFallback, quality });
+        if (resolved.error) {
+          return { url, rejected: resolved.error };
+        }
+        const key = normalizePageUrl(resolved.url);
+        if (firstSeen.has(key)) {
+          return { url, rejected: createErrorEnvelope(API_ERROR_CODES.INVALID_REQUEST, `Duplicate of URL ${firstSeen.get(key) + 1} in this batch.`) };
+        }
+        firstSeen.set(key, index);
+        return {
+          url,
+          request: { url: resolved.url, platform: resolved.extractor.id, contentType },
+          makeTask: downloadTask(resolved, req.user.id),
+        };
+      });
+
+      // Batch entries wait in their own bounded queue (see batchStore.js)
+      const accepted = entries.filter(entry => !entry.rejected).length;
+      const capacity = checkBatchCapacity(accepted);
+      if (!capacity.available) {
+        return sendQueueFull(res, capacity, `a batch of ${accepted} URL(s)`);
+      }
+
+      const batch = createBatch({ contentType, allowFallback, quality, entries, owner: req.user.id });
+      res.status(202).json({
+        batchId: batch.id,
+        progressUrl: `/api/batch/${batch.id}/progress`,
+        batch,
+      });
+    } catch (error) {
+      logger.error('Batch request processing error:', error.message);
+      next(error);
+    }
+  }));
+});
+
+const DEFAULT_ENUMERATE_LIMIT = 24; // Two screens of a profile grid
+
+// Enumeration endpoint: takes a profile, page or highlight URL and answers right away with an empty
+// batch. The listing is scrolled in the background and every item found is queued like a batch URL.
+app.post('/api/enumerate', limitDownloadRequests, (req, res, next) => {
   try {
-    const files = await fsPromises.readdir(downloadsDir);
-    const filesData = await Promise.all(
-      files.map(async (filename) => {
-        const filePath = path.join(downloadsDir, filename);
-        try {
-          const stats = await fsPromises.stat(filePath);
+    const validation = validate(enumerateRequestSchema, req.body);
+    if (!validation.ok) {
+      return res.status(400).json(validation.error);
+    }
+    const { url, platform, limit = DEFAULT_ENUMERATE_LIMIT, since, allowFallback = false, quality } = validation.value;
+
+    const platformError = unknownPlatformError(platform);
+    if (platformError) {
+      return res.status(400).json(platformError);
+    }
+    const extractor = resolveExtractor(url, platform?.toLowerCase());
+    if (!extractor) {
+      return res.status(400).json(createErrorEnvelope(API_ERROR_CODES.UNSUPPORTED_PLATFORM, 'Unsupported platform: no extractor recognises this URL.'));
+    }
+    const listing = extractor.describeListing?.(url);
+    if (!listing) {
+      return res.status(400).json(createErrorEnvelope(API_ERROR_CODES.INVALID_REQUEST, `This ${extractor.describe().name} URL is not a profile, page or highlight.`));
+    }
+
+    // Room for as many items as may be found; any that no longer fit once found are rejected
+    const capacity = checkBatchCapacity(limit);
+    if (!capacity.available) {
+      return sendQueueFull(res, capacity, `an enumeration of ${url}`);
+    }
+
+    const owner = req.user.id;
+    const batch = createBatch({ contentType: listing.contentType, allowFallback, quality, source: { url, kind: listing.kind }, owner });
+    logger.info(`Enumerating ${extractor.id} ${listing.kind} ${url} into batch ${batch.id}`);
+
+    enumerateWithExtractor(extractor, url, { limit, since, sessions })
+      .then((items) => {
+        const seen = new Set();
+        const entries = items.map(({ url: itemUrl, contentType }) => {
+          const resolved = resolveDownloadRequest({ url: itemUrl, platform: extractor.id, contentType, allowFallback, quality });
+          if (resolved.error) {
+            return { url: itemUrl, rejected: resolved.error };
+          }
+          const key = normalizePageUrl(resolved.url);
+          if (seen.has(key)) {
+            return null; // Listings repeat items (pinned posts, re-rendered grids); they aren't worth reporting
+          }
+          seen.add(key);
           return {
-            filename,
-            size: stats.size,
-            created: stats.birthtime,
-            downloadUrl: `http://localhost:${PORT}/downloads/${filename}`,
+            url: itemUrl,
+            request: { url: resolved.url, platform: extractor.id, contentType },
+            makeTask: downloadTask(resolved, owner),
           };
-        } catch (statError) {
-          logger.warn(`Could not stat file ${filePath}:`, statError.message);
-          return null; // Skip files that can't be stat-ed (e.g., deleted during processing)
-        }
+        }).filter(Boolean);
+        addBatchEntries(batch.id, entries);
+        completeDiscovery(batch.id);
       })
-    );
-    res.json(filesData.filter(Boolean)); // Filter out nulls
+      .catch((error) => {
+        logger.error(`Enumeration for batch ${batch.id} failed:`, error.message);
+        completeDiscovery(batch.id, { error: { code: classifyError(error), message: error.message } });
+      });
+
+    res.status(202).json({
+      batchId: batch.id,
+      progressUrl: `/api/batch/${batch.id}/progress`,
+      batch,
+    });
+  } catch (error) {
+    logger.error('Enumerate request processing error:', error.message);
+    next(error);
+  }
+});
+
+// Current batch summary: counts, aggregate progress and every URL's job
+app.get('/api/batch/:id', (req, res) => {
+  const batch = getBatch(req.params.id);
+  if (!batch || !canAccess(req.user, getBatchOwner(batch.id))) {
+    return res.status(404).json(createErrorEnvelope(API_ERROR_CODES.NOT_FOUND, 'Batch not found.'));
+  }
+  res.json(batch);
+});
+
+// Stream batch summaries until every queued URL has finished or failed
+app.get('/api/batch/:id/progress', (req, res) => {
+  const { id } = req.params;
+  const batch = getBatch(id);
+  if (!batch || !canAccess(req.user, getBatchOwner(id))) {
+    return res.status(404).json(createErrorEnvelope(API_ERROR_CODES.NOT_FOUND, 'Batch not found.'));
+  }
+  streamSnapshots(req, res, batch, (listener) => subscribeToBatch(id, listener), (snapshot) => snapshot.phase === 'completed');
+});
+
+// Queue the failed URLs of a batch again; rejected ones are left alone since they'd fail the same way
+app.post('/api/batch/:id/retry', limitDownloadRequests, (req, res) => {
+  const current = getBatch(req.params.id);
+  if (!current || !canAccess(req.user, getBatchOwner(req.params.id))) {
+    return res.status(404).json(createErrorEnvelope(API_ERROR_CODES.NOT_FOUND, 'Batch not found.'));
+  }
+  const capacity = checkBatchCapacity(current.counts.failed);
+  if (!capacity.available) {
+    return sendQueueFull(res, capacity, `a retry of batch ${current.id}`);
+  }
+  const batch = retryFailedEntries(req.params.id);
+  if (!batch) {
+    return res.status(404).json(createErrorEnvelope(API_ERROR_CODES.NOT_FOUND, 'Batch not found.'));
+  }
+  res.status(202).json({ batchId: batch.id, progressUrl: `/api/batch/${batch.id}/progress`, batch });
+});
+
+// List the signed-in user's downloaded files (every file for admins), newest first, from the media index.
+// Optional query filters: q (free text), author, hashtag, platform.
+app.get('/api/downloads', async (req, res, next) => { // Added next for error middleware
+  try {
+    const { q, author, hashtag, platform } = req.query;
+    const asFilter = (value) => (typeof value === 'string' && value.trim() ? value : undefined);
+    const records = await mediaIndex.list({
+      q: asFilter(q),
+      author: asFilter(author),
+      hashtag: asFilter(hashtag),
+      platform: asFilter(platform),
+      owner: isAdmin(req.user) ? undefined : req.user.id,
+    });
+    res.json(records.map(record => ({
+      filename: record.filename,
+      size: record.bytes,
+      created: record.createdAt,
+      downloadUrl: storage.urlFor(record.filename),
+      platform: record.platform,
+      contentType: record.contentType,
+      mediaType: record.mediaType,
+      pageUrl: record.pageUrl,
+      sourceUrl: record.sourceUrl,
+      sha256: record.sha256,
+      metadata: record.metadata ?? null,
+      pinned: record.pinned ?? false,
+      accessedAt: record.accessedAt ?? record.createdAt,
+      thumbnailUrl: record.mediaType === 'image' || record.hasPoster
+        ? `${config.server.publicBaseUrl}/api/downloads/${record.filename}/thumbnail`
+        : null,
+    })));
   } catch (error) {
     logger.error('Failed to list downloads:', error.message);
     next(error);
   }
 });
 
-// Delete downloaded file
-app.delete('/api/downloads/:filename', async (req, res, next) => { // Added next for error middleware
+// --- Filename Sanitization for Security ---
+// Returns an error message for filenames that could escape the downloads directory, or null.
+function checkFilename(filename) {
+  // Prevent path traversal
+  if (filename.includes('/') || filename.includes('..') || path.isAbsolute(filename)) {
+    logger.warn(`Attempted path traversal with filename: ${filename}`);
+    return 'Invalid filename. Path traversal attempts detected.';
+  }
+  // Only allow alphanumeric, _, -, .
+  if (!/^[a-zA-Z0-9_\-\.]+$/.test(filename)) {
+    logger.warn(`Filename contains disallowed characters: ${filename}`);
+    return 'Invalid filename characters.';
+  }
+  return null;
+}
+// --- End Filename Sanitization ---
+
+// Sends a resized/re-encoded copy of a file's image (or a video's poster frame).
+// Without sharp installed, thumbnails fall back to the original image; other variants are 501.
+async function sendVariant(req, res, filename, { width, format }, { fallbackToOriginal }) {
+  const record = await findOwnedRecord(req, filename);
+  if (!record) {
+    return res.status(404).json(createErrorEnvelope(API_ERROR_CODES.NOT_FOUND, 'File not found'));
+  }
+  const sourcePath = await variantSourcePath(storage, record);
+  if (!sourcePath) {
+    return res.status(404).json(createErrorEnvelope(API_ERROR_CODES.NOT_FOUND, 'This file has no image to render (video without a poster frame).'));
+  }
+
+  const variantPath = await getVariant(downloadsDir, filename, sourcePath, { width, format });
+  if (!variantPath) {
+    if (fallbackToOriginal) {
+      return res.sendFile(sourcePath);
+    }
+    return res.status(501).json(createErrorEnvelope(API_ERROR_CODES.FEATURE_UNAVAILABLE, 'Image variants need the sharp module, which is not available on this server.'));
+  }
+  res.sendFile(variantPath, {
+    headers: { 'Content-Type': CONTENT_TYPES_BY_FORMAT[format], 'Cache-Control': 'public, max-age=86400' },
+  });
+}
+
+// Small preview for the downloaded files list
+app.get('/api/downloads/:filename/thumbnail', async (req, res, next) => {
   try {
     const { filename } = req.params;
+    const invalid = checkFilename(filename);
+    if (invalid) {
+      return res.status(400).json(createErrorEnvelope(API_ERROR_CODES.INVALID_REQUEST, invalid));
+    }
+    await sendVariant(req, res, filename, { width: THUMBNAIL_WIDTH, format: 'webp' }, { fallbackToOriginal: true });
+  } catch (error) {
+    logger.error('Failed to render thumbnail:', error.message);
+    next(error);
+  }
+});
 
-    // --- Filename Sanitization for Security ---
-    // Prevent path traversal
-    if (filename.includes('/') || filename.includes('..') || path.isAbsolute(filename)) {
-        logger.warn(`Attempted malicious filename deletion: ${filename}`);
-        return res.status(400).json({ error: 'Invalid filename. Path traversal attempts detected.' });
+// Resized/re-encoded copy of a downloaded image: ?width=16..4096&format=webp|avif|jpeg (default webp)
+app.get('/api/downloads/:filename/variant', async (req, res, next) => {
+  try {
+    const { filename } = req.params;
+    const invalid = checkFilename(filename);
+    if (invalid) {
+      return res.status(400).json(createErrorEnvelope(API_ERROR_CODES.INVALID_REQUEST, invalid));
     }
-    // Optional: Add regex to only allow specific characters in filenames
-    if (!/^[a-zA-Z0-9_\-\.]+$/.test(filename)) { // Example: alphanumeric, _, -, .
-        logger.warn(`Filename contains disallowed characters: ${filename}`);
-        return res.status(400).json({ error: 'Invalid filename characters.' });
+    const validation = validate(variantQuerySchema, req.query);
+    if (!validation.ok) {
+      return res.status(400).json(validation.error);
     }
-    // --- End Filename Sanitization ---
+    const { width = null, format = 'webp' } = validation.value;
+    await sendVariant(req, res, filename, { width, format }, { fallbackToOriginal: false });
+  } catch (error) {
+    logger.error('Failed to render image variant:', error.message);
+    next(error);
+  }
+});
 
-    const filePath = path.join(downloadsDir, filename);
+// Delete downloaded file. A file other users downloaded as well only leaves the caller's list;
+// it is removed once nobody owns it. Admins remove it outright.
+app.delete('/api/downloads/:filename', async (req, res, next) => { // Added next for error middleware
+  try {
+    const { filename } = req.params;
+    const invalid = checkFilename(filename);
+    if (invalid) {
+      return res.status(400).json(createErrorEnvelope(API_ERROR_CODES.INVALID_REQUEST, invalid));
+    }
 
     try {
-      await fsPromises.access(filePath); // Check if file exists
-      await fsPromises.unlink(filePath);
-      logger.info(`File deleted successfully: ${filePath}`);
+      if (!isAdmin(req.user)) {
+        if (!(await findOwnedRecord(req, filename))) {
+          return res.status(404).json(createErrorEnvelope(API_ERROR_CODES.NOT_FOUND, 'File not found'));
+        }
+        const remainingOwners = await mediaIndex.removeOwner(filename, req.user.id);
+        if (remainingOwners?.length > 0) {
+          logger.info(`${req.user.id} gave up ${filename}; ${remainingOwners.length} other owner(s) keep it`);
+          return res.json({ success: true, message: 'File deleted successfully' });
+        }
+      }
+      // Sidecar, poster, cached variants and the index record go too (and a stale record alone)
+      if (!(await removeDownload({ storage, downloadsDir, mediaIndex }, filename))) {
+        logger.warn(`Attempted to delete non-existent file: ${filename}`);
+        return res.status(404).json(createErrorEnvelope(API_ERROR_CODES.NOT_FOUND, 'File not found'));
+      }
+      logger.info(`File deleted successfully: ${filename} (${storage.kind} storage)`);
       res.json({ success: true, message: 'File deleted successfully' });
     } catch (error) {
-      if (error.code === 'ENOENT') {
-        logger.warn(`Attempted to delete non-existent file: ${filePath}`);
-        res.status(404).json({ error: 'File not found' });
-      } else {
-        logger.error(`Failed to delete file ${filePath}:`, error.message);
-        next(error); // Pass other errors to the error handling middleware
-      }
+      logger.error(`Failed to delete file ${filename}:`, error.message);
+      next(error); // Pass other errors to the error handling middleware
     }
   } catch (error) {
     logger.error('Error processing delete request:', error.message);
@@ -183,6 +889,116 @@ app.delete('/api/downloads/:filename', async (req, res, next) => { // Added next
   }
 });
 
+// Pin a file so retention never removes it, or unpin it: { pinned: boolean }
+app.put('/api/downloads/:filename/pin', async (req, res, next) => {
+  try {
+    const { filename } = req.params;
+    const invalid = checkFilename(filename);
+    if (invalid) {
+      return res.status(400).json(createErrorEnvelope(API_ERROR_CODES.INVALID_REQUEST, invalid));
+    }
+    const validation = validate(pinRequestSchema, req.body);
+    if (!validation.ok) {
+      return res.status(400).json(validation.error);
+    }
+    const record = (await findOwnedRecord(req, filename)) && await mediaIndex.setPinned(filename, validation.value.pinned);
+    if (!record) {
+      return res.status(404).json(createErrorEnvelope(API_ERROR_CODES.NOT_FOUND, 'File not found'));
+    }
+    logger.info(`${record.pinned ? 'Pinned' : 'Unpinned'} ${filename}`);
+    res.json({ filename, pinned: record.pinned });
+  } catch (error) {
+    logger.error('Failed to pin file:', error.message);
+    next(error);
+  }
+});
+
+// Usage against the retention rules, and what the next sweep will remove (of the user's own files)
+app.get('/api/storage', async (req, res, next) => {
+  try {
+    res.json(await retention.report({ owner: isAdmin(req.user) ? null : req.user.id }));
+  } catch (error) {
+    logger.error('Failed to report storage usage:', error.message);
+    next(error);
+  }
+});
+
+// Cookie exports: a Netscape cookies.txt or a JSON export, uploaded as `file`
+const uploadCookieFile = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 256 * 1024, files: 1 },
+  fileFilter: (req, file, callback) => {
+    const accepted = /\.(txt|json)$/i.test(file.originalname) || ['text/plain', 'application/json'].includes(file.mimetype);
+    callback(accepted ? null : Object.assign(new Error('Upload a cookies.txt or .json cookie export.'), { statusCode: 400, code: API_ERROR_CODES.INVALID_REQUEST }), accepted);
+  },
+}).single('file');
+
+// Platforms a login session can be imported for; null for unknown ones
+function sessionPlatform(id) {
+  const extractor = getExtractor(String(id).toLowerCase());
+  return extractor?.describe().supportsSessions ? extractor : null;
+}
+
+// List imported sessions: status, expiry and cookie domains, never the cookies themselves
+app.get('/api/sessions', async (req, res, next) => {
+  try {
+    res.json(await sessions.list());
+  } catch (error) {
+    logger.error('Failed to list sessions:', error.message);
+    next(error);
+  }
+});
+
+// Import a cookie export as the platform's session, replacing any earlier one. Accepts an uploaded
+// file, or JSON with `cookies` as the export's text or its parsed array. Sessions are used for
+// everyone's downloads, so only admins manage them.
+app.post('/api/sessions/:platform', auth.requireAdmin, (req, res, next) => {
+  uploadCookieFile(req, res, bindLogContext(async (uploadError) => {
+    try {
+      if (uploadError) {
+        const message = uploadError instanceof multer.MulterError ? `Upload rejected: ${uploadError.message}.` : uploadError.message;
+        return res.status(400).json(createErrorEnvelope(API_ERROR_CODES.INVALID_REQUEST, message));
+      }
+      const extractor = sessionPlatform(req.params.platform);
+      if (!extractor) {
+        return res.status(400).json(createErrorEnvelope(API_ERROR_CODES.UNSUPPORTED_PLATFORM, `Sessions can't be imported for '${req.params.platform}'.`));
+      }
+
+      const { cookies } = req.body ?? {};
+      const text = req.file ? req.file.buffer.toString('utf8')
+        : typeof cookies === 'string' ? cookies
+        : Array.isArray(cookies) ? JSON.stringify(cookies)
+        : null;
+      if (!text) {
+        return res.status(400).json(createErrorEnvelope(API_ERROR_CODES.INVALID_REQUEST, 'Upload a cookie export as `file`, or send it as `cookies`.'));
+      }
+
+      const { hostnames } = extractor.describe();
+      const session = await sessions.importSession(extractor.id, parseCookieFile(text), { hostnames, sessionCookies: extractor.sessionCookies });
+      res.status(201).json(session);
+    } catch (error) {
+      if (error instanceof CookieImportError) {
+        return res.status(400).json(createErrorEnvelope(API_ERROR_CODES.INVALID_REQUEST, error.message));
+      }
+      logger.error('Session import error:', error.message);
+      next(error);
+    }
+  }));
+});
+
+// Revoke a platform's session; later downloads go out logged out
+app.delete('/api/sessions/:platform', auth.requireAdmin, async (req, res, next) => {
+  try {
+    if (!(await sessions.revoke(String(req.params.platform).toLowerCase()))) {
+      return res.status(404).json(createErrorEnvelope(API_ERROR_CODES.NOT_FOUND, 'No session stored for this platform.'));
+    }
+    res.status(204).end();
+  } catch (error) {
+    logger.error('Session revoke error:', error.message);
+    next(error);
+  }
+});
+
 
 // --- Centralized Error Handling Middleware ---
 app.use((err, req, res, next) => {
@@ -192,20 +1008,20 @@ app.use((err, req, res, next) => {
   const statusCode = err.statusCode || 500;
   const message = statusCode === 500 ? 'An unexpected error occurred on the server.' : err.message;
 
-  res.status(statusCode).json({
-    error: true,
-    message: message,
+  res.status(statusCode).json(createErrorEnvelope(
+    // err.code is useful for file system errors like 'ENOENT'
+    err.code || (statusCode < 500 ? API_ERROR_CODES.INVALID_REQUEST : API_ERROR_CODES.INTERNAL_ERROR),
+    message,
     // In production, avoid sending detailed error info to client unless needed for specific debugging and secured.
     // For now, keeping error.message for dev/testing clarity.
-    details: process.env.NODE_ENV === 'development' ? err.message : undefined,
-    code: err.code || undefined // useful for file system errors like 'ENOENT'
-  });
+    config.server.nodeEnv === 'development' ? err.message : undefined
+  ));
 });
 // --- End Centralized Error Handling Middleware ---
 
 
 const server = app.listen(PORT, () => {
-  logger.info(`Server running on http://localhost:${PORT}`);
+  logger.info(`Server running on port ${PORT}, reachable at ${config.server.publicBaseUrl}`);
   logger.info(`Downloads will be saved to: ${downloadsDir}`);
 });
 
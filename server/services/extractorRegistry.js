@@ -0,0 +1,41 @@
+import { instagramExtractor } from './instagram.js';
+import { facebookExtractor } from './facebook.js';
+import { testContentExtractor } from './testContent.js';
+
+// Registered platform extractors, in match priority order.
+// To add a platform, write an extractor (see mediaPipeline.js for the shape) and register it here.
+const extractors = [];
+
+export function registerExtractor(extractor) {
+    for (const method of ['matches', 'extract', 'describe']) {
+        if (typeof extractor[method] !== 'function') {
+            throw new Error(`Extractor '${extractor.id}' is missing required method '${method}'.`);
+        }
+    }
+    if (extractors.some(existing => existing.id === extractor.id)) {
+        throw new Error(`An extractor with id '${extractor.id}' is already registered.`);
+    }
+    extractors.push(extractor);
+}
+
+export function getExtractor(id) {
+    return extractors.find(extractor => extractor.id === id) || null;
+}
+
+export function findExtractorForUrl(url) {
+    return extractors.find(extractor => extractor.matches(url)) || null;
+}
+
+// Pick an extractor from the URL itself. An explicit platform choice is only used when
+// no extractor recognises the URL (e.g. the 'test' platform on an arbitrary URL).
+export function resolveExtractor(url, platformHint) {
+    return findExtractorForUrl(url) || (platformHint ? getExtractor(platformHint) : null);
+}
+
+export function listPlatforms() {
+    return extractors.map(extractor => extractor.describe());
+}
+
+registerExtractor(instagramExtractor);
+registerExtractor(facebookExtractor);
+registerExtractor(testContentExtractor);
@@ -0,0 +1,278 @@
+import { collectWhileScrolling, downloadWithExtractor } from './mediaPipeline.js';
+import { mediaFromJsonLd, metadataFromJsonLd, readJsonLd, readOpenGraph } from '../utils/staticPage.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('Facebook');
+
+const HOSTNAMES = ['facebook.com', 'www.facebook.com', 'web.facebook.com', 'm.facebook.com', 'fb.watch'];
+// First path segments that are Facebook's own pages rather than a page or profile name
+const RESERVED_PATHS = ['watch', 'reel', 'reels', 'stories', 'photo', 'photo.php', 'story.php', 'permalink.php',
+    'groups', 'events', 'marketplace', 'login', 'share', 'hashtag', 'help', 'settings'];
+
+// Facebook inlines its data as huge JSON blobs inside <script> tags that are awkward to parse
+// whole, so the fast path pulls the few fields it needs out with patterns. Values are JSON
+// strings (escaped slashes and all), decoded with JSON.parse.
+const JSON_STRING = '"((?:[^"\\\\]|\\\\.)*)"';
+const VIDEO_URL_PATTERN = new RegExp(`"(browser_native_hd_url|playable_url_quality_hd|browser_native_sd_url|playable_url)":\\s*${JSON_STRING}`, 'g');
+const VIDEO_THUMBNAIL_PATTERN = new RegExp(`"preferred_thumbnail":\\s*\\{\\s*"image":\\s*\\{\\s*"uri":\\s*${JSON_STRING}`);
+const PHOTO_PATTERN = new RegExp(`"(?:viewer_image|photo_image)":\\s*\\{[^{}]*?"uri":\\s*${JSON_STRING}`, 'g');
+const DURATION_PATTERN = /"playable_duration_in_ms":\s*(\d+)/;
+const DASH_MANIFEST_PATTERN = new RegExp(`"(?:dash_manifest|manifest_xml)":\\s*${JSON_STRING}`);
+const DASH_MANIFEST_URL_PATTERN = new RegExp(`"dash_manifest_url":\\s*${JSON_STRING}`);
+const HD_VIDEO_FIELDS = ['browser_native_hd_url', 'playable_url_quality_hd'];
+
+const decodeJsonString = (raw) => {
+    try {
+        return JSON.parse(`"${raw}"`);
+    } catch {
+        return null;
+    }
+};
+
+// Media named in the page's inline script data: the post's video, else its photos. The video
+// comes with its HD and SD renditions (Facebook doesn't say their heights), HD first. Videos
+// without progressive files name a DASH manifest instead (inline XML or a link), which the
+// pipeline reads.
+function mediaFromScripts(scriptText, fallbackPoster) {
+    const videoUrls = [...scriptText.matchAll(VIDEO_URL_PATTERN)]
+        .map(([, field, raw]) => ({ label: HD_VIDEO_FIELDS.includes(field) ? 'HD' : 'SD', url: decodeJsonString(raw) }))
+        .filter(video => video.url);
+    const dashManifest = decodeJsonString(DASH_MANIFEST_PATTERN.exec(scriptText)?.[1] ?? '');
+    const dashManifestUrl = decodeJsonString(DASH_MANIFEST_URL_PATTERN.exec(scriptText)?.[1] ?? '');
+    const dash = dashManifest?.includes('<MPD') ? { manifest: dashManifest } : dashManifestUrl ? { url: dashManifestUrl } : null;
+
+    if (videoUrls.length > 0 || dash) {
+        const thumbnail = VIDEO_THUMBNAIL_PATTERN.exec(scriptText);
+        const poster = (thumbnail && decodeJsonString(thumbnail[1])) || fallbackPoster;
+        const durationMs = Number(DURATION_PATTERN.exec(scriptText)?.[1]);
+        const item = {
+            type: 'video',
+            ...(poster ? { poster } : {}),
+            ...(durationMs > 0 ? { duration: durationMs / 1000 } : {}),
+        };
+        if (videoUrls.length === 0) {
+            return [{ ...item, dash }];
+        }
+        const renditions = ['HD', 'SD']
+            .map(label => videoUrls.find(video => video.label === label))
+            .filter(Boolean);
+        return [{ url: renditions[0].url, ...item, renditions }];
+    }
+    const photos = [...new Set([...scriptText.matchAll(PHOTO_PATTERN)].map(([, raw]) => decodeJsonString(raw)).filter(Boolean))];
+    return photos.map(url => ({ url, type: 'image' }));
+}
+
+export const facebookExtractor = {
+    id: 'facebook',
+    requiresBrowser: true,
+    // Consider a more robust waitUntil if networkidle2 is too slow/unreliable for Facebook
+    navigation: { waitUntil: 'domcontentloaded' }, // Timeout: timeouts.navigationMs in config.js
+    referer: 'https://www.facebook.com/',
+    fallbackOnFailure: true,
+    // Facebook needs both the user id and the session secret cookie to treat a visitor as logged in
+    sessionCookies: ['c_user', 'xs'],
+    // What a logged-out visitor sees instead of the post (checked only when no media was found)
+    blockers: {
+        loginPaths: ['/login', '/checkpoint'],
+        loginSelectors: ['form#login_form', 'form[action*="/login"] input[name="pass"]'],
+        unavailableTexts: ["This content isn't available", "This page isn't available", 'The link you followed may be broken'],
+    },
+
+    matches(url) {
+        try {
+            return HOSTNAMES.includes(new URL(url).hostname.toLowerCase());
+        } catch {
+            return false;
+        }
+    },
+
+    describe() {
+        return {
+            id: 'facebook',
+            name: 'Facebook',
+            hostnames: HOSTNAMES,
+            contentTypes: ['post', 'story', 'reel', 'highlight'],
+            selectable: true,
+            supportsSessions: true,
+        };
+    },
+
+    // Pages and profiles (facebook.com/<name>/, profile.php?id=) list posts; their videos tab
+    // (facebook.com/<name>/videos) lists videos.
+    describeListing(url) {
+        let parsed;
+        try {
+            parsed = new URL(url);
+        } catch {
+            return null;
+        }
+        if (parsed.hostname.toLowerCase() === 'fb.watch') return null;
+        const segments = parsed.pathname.split('/').filter(Boolean);
+        if (segments[0] === 'profile.php') {
+            return parsed.searchParams.get('id') ? { kind: 'page', contentType: 'post' } : null;
+        }
+        if (segments.length === 0 || RESERVED_PATHS.includes(segments[0].toLowerCase())) return null;
+        if (segments.length === 1) return { kind: 'page', contentType: 'post' };
+        if (segments.length === 2 && segments[1] === 'videos') return { kind: 'videos', contentType: 'reel' };
+        return null;
+    },
+
+    async enumerate(page, { limit, since, kind }) {
+        // Page feeds load a few posts at a time as you scroll; dates come from the post's own timestamp
+        return collectWhileScrolling(page, () => page.evaluate((listingKind) => {
+            const selector = listingKind === 'videos'
+                ? 'a[href*="/videos/"]'
+                : 'a[href*="/posts/"], a[href*="/permalink/"], a[href*="/photos/"], a[href*="story.php"], a[href*="/videos/"]';
+            const items = [];
+            document.querySelectorAll(selector).forEach(link => {
+                const href = new URL(link.getAttribute('href'), location.href);
+                // Video links double as the tab's own URL (/<name>/videos/); only numbered ones are items
+                if (href.pathname.includes('/videos/') && !/\/videos\/\d+/.test(href.pathname)) return;
+                const keep = ['story_fbid', 'id', 'fbid'].filter(param => href.searchParams.has(param));
+                const query = keep.length ? `?${keep.map(param => `${param}=${href.searchParams.get(param)}`).join('&')}` : '';
+
+                const article = link.closest('[role="article"]') || link;
+                const unixTime = article.querySelector('abbr[data-utime]')?.getAttribute('data-utime');
+                const postedAt = article.querySelector('time[datetime]')?.getAttribute('datetime')
+                    || (unixTime ? new Date(Number(unixTime) * 1000).toISOString() : null);
+                items.push({
+                    url: `${href.origin}${href.pathname}${query}`,
+                    contentType: href.pathname.includes('/videos/') ? 'reel' : 'post',
+                    postedAt,
+                });
+            });
+            return items;
+        }, kind), { limit, since });
+    },
+
+    // Server-rendered post pages carry the video and photo URLs in their inline script data, so
+    // a plain fetch often suffices. ld+json is the fallback; Open Graph only fills in attribution.
+    async extractStatic($) {
+        const openGraph = readOpenGraph($);
+        const scriptText = $('script:not([src])').map((_, element) => $(element).text()).get().join('\n');
+        const jsonLd = readJsonLd($);
+        const fromScripts = mediaFromScripts(scriptText, openGraph.image || null);
+        const fromOpenGraph = { handle: null, displayName: openGraph.title || null, caption: openGraph.description || null };
+        const fromJsonLd = metadataFromJsonLd(jsonLd);
+
+        return {
+            media: fromScripts.length > 0 ? fromScripts : mediaFromJsonLd(jsonLd),
+            metadata: fromJsonLd
+                ? { ...fromJsonLd, displayName: fromJsonLd.displayName || fromOpenGraph.displayName, caption: fromJsonLd.caption || fromOpenGraph.caption }
+                : fromOpenGraph,
+        };
+    },
+
+    async extract(page) {
+        // --- More Robust Waiting Strategy ---
+        // Wait for potential common Facebook content containers or a dynamic element
+        // This is still a heuristic, Facebook's DOM changes frequently.
+        const contentSelector = 'div[role="main"]'; // Main content area
+        try {
+            await page.waitForSelector(contentSelector, { timeout: 10000 });
+            logger.info('Main content selector found. Waiting for a bit more dynamic load...');
+            await page.waitForTimeout(3000); // Small additional wait after main selector
+        } catch (selectorError) {
+            logger.warn(`Could not find main content selector '${contentSelector}' on time. Proceeding anyway.`);
+        }
+        // --- End Robust Waiting Strategy ---
+
+        const mediaData = await page.evaluate(() => {
+            const media = [];
+
+            // Robust selectors for video and image based on common FB patterns
+            const postSelectors = [
+                'video[src*=".mp4"]', // Direct video src
+                'img[src*=".jpg"]',   // Direct image src
+                'div[data-imgperflog] > img', // Images in image performance log divs
+                'div[data-visualcompletion="media-vc"] img', // Images in media visual completion divs
+                'div[data-visualcompletion="media-vc"] video', // Videos in media visual completion divs
+                'a[href*="/videos/"] img', // Thumbnail for videos inside links
+                'a[href*="/photos/"] img', // Photos of multi-photo posts and albums
+            ];
+            // Open Graph tags only describe the cover item, so they are a last resort
+            const metaSelectors = [
+                'meta[property="og:image"]', // Open Graph image
+                'meta[property="og:video"]', // Open Graph video
+            ];
+
+            const foundSources = new Set(); // To prevent duplicates
+
+            const collect = (selectors) => selectors.forEach(selector => {
+                document.querySelectorAll(selector).forEach(el => {
+                    let src = el.src || el.getAttribute('src') || el.content; // Check src, attribute, or content for meta tags
+                    if (src) {
+                        // Clean up potential query parameters if they're not part of the core resource
+                        src = src.split('?')[0];
+                        // blob: URLs are Media Source streams, not files we can fetch
+                        if (!src.startsWith('blob:') && (src.includes('fbcdn.net') || src.includes('facebook.com'))) {
+                            // Skip avatars, reaction icons and emoji that share the CDN (heuristic)
+                            const isIcon = el.tagName.toLowerCase() === 'img' && (el.naturalWidth < 200 || el.naturalHeight < 200);
+                            if (!isIcon && !foundSources.has(src)) {
+                                const type = el.tagName.toLowerCase() === 'video' || el.getAttribute('property') === 'og:video' ? 'video' : 'image';
+                                // Poster frame for the video thumbnail: the element's poster, or og:image for og:video
+                                const poster = type !== 'video' ? null
+                                    : el.tagName.toLowerCase() === 'video' ? el.poster || null
+                                    : document.querySelector('meta[property="og:image"]')?.content || null;
+                                media.push({ url: src, type, ...(poster ? { poster } : {}) });
+                                foundSources.add(src);
+                            }
+                        }
+                    }
+                });
+            });
+
+            collect(postSelectors);
+            if (media.length === 0) {
+                collect(metaSelectors);
+            }
+
+            return media;
+        });
+
+        // The <video> element usually plays one rendition (or a blob: stream); the page's script
+        // data names the HD and SD files, so a video found there wins
+        const scriptText = await page.evaluate(() => [...document.querySelectorAll('script:not([src])')].map(script => script.textContent).join('\n'));
+        const scriptVideos = mediaFromScripts(scriptText, mediaData.find(media => media.type === 'video')?.poster || null)
+            .filter(media => media.type === 'video');
+        if (scriptVideos.length > 0) {
+            logger.info(scriptVideos[0].dash
+                ? 'Found a DASH manifest for the video in the page data.'
+                : `Found ${scriptVideos[0].renditions.length} video rendition(s) in the page data.`);
+            return scriptVideos;
+        }
+
+        return mediaData;
+    },
+
+    // Raw attribution for buildPostMetadata. Facebook's markup is unstable, so each field tries
+    // the post body first and Open Graph tags second.
+    async extractMetadata(page) {
+        return page.evaluate(() => {
+            const main = document.querySelector('div[role="main"]') || document.body;
+            const meta = (property) => document.querySelector(`meta[property="${property}"]`)?.content || null;
+            const authorLink = main.querySelector('h2 a[href], h3 a[href], strong a[href]');
+            const message = main.querySelector('[data-ad-preview="message"], [data-ad-comet-preview="message"]');
+            const timestamp = main.querySelector('abbr[data-utime]')?.getAttribute('data-utime')
+                || main.querySelector('time[datetime]')?.getAttribute('datetime');
+
+            // Reaction and view counts live in aria-labels ("1.2K reactions") or plain spans ("3,456 views")
+            const countText = (pattern) => [...main.querySelectorAll('[aria-label], span')]
+                .map(el => el.getAttribute('aria-label') || el.textContent.trim())
+                .find(value => value && value.length < 80 && pattern.test(value)) || null;
+
+            return {
+                handle: authorLink?.getAttribute('href') || null,
+                displayName: authorLink?.textContent?.trim() || meta('og:title'),
+                caption: message?.textContent?.trim() || meta('og:description'),
+                postedAt: timestamp || null,
+                likes: countText(/[\d.,]+\s*[KMB]?\s+(reactions|likes?)\b/i),
+                views: countText(/[\d.,]+\s*[KMB]?\s+(views|plays)\b/i),
+            };
+        });
+    },
+};
+
+export async function downloadFacebookContent(url, contentType, downloadsDir, onProgress, options) {
+    return downloadWithExtractor(facebookExtractor, url, contentType, downloadsDir, onProgress, options);
+}
@@ -1,37 +1,214 @@
-import axios from 'axios';
-import { promises as fsPromises } from 'fs'; // Use fs.promises for async operations
-import path from 'path';
-import { v4 as uuidv4 } from 'uuid';
-import UserAgent from 'user-agents';
-import { getBrowser, releaseBrowser } from '../utils/browserPool.js'; // Import the pool functions
-
-// Helper for logging (can be replaced with Winston/Pino in full prod setup)
-const logger = {
-    info: (...args) => console.log('[INFO][Instagram]', ...args),
-    warn: (...args) => console.warn('[WARN][Instagram]', ...args),
-    error: (...args) => console.error('[ERROR][Instagram]', ...args),
-};
+import { collectWhileScrolling, downloadWithExtractor } from './mediaPipeline.js';
+import { getConfig } from '../utils/config.js';
+import { findObjects, mediaFromJsonLd, metadataFromJsonLd, readInlineJson, readJsonLd, readOpenGraph } from '../utils/staticPage.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('Instagram');
+
+const MAX_CAROUSEL_SLIDES = 20; // Instagram allows up to 20 items per carousel post
+const HOSTNAMES = ['instagram.com', 'www.instagram.com'];
+// First path segments that are Instagram's own pages rather than a profile handle
+const RESERVED_PATHS = ['p', 'reel', 'reels', 'stories', 'explore', 'accounts', 'tv', 'direct', 'about', 'legal'];
+const MAX_HIGHLIGHT_FRAMES = 100; // Highlights hold at most 100 stories
+
+// Largest rendition in one of Instagram's candidate lists ([{ url, width, height }])
+function largestCandidate(candidates) {
+    if (!Array.isArray(candidates)) return null;
+    const area = (candidate) => (candidate.width || 0) * (candidate.height || 0);
+    return candidates.reduce((best, candidate) => (candidate?.url && (!best || area(candidate) > area(best)) ? candidate : best), null)?.url || null;
+}
 
-export async function downloadInstagramContent(url, contentType, downloadsDir) {
-    let browserInstance; // To hold the browser from the pool
-    let page;
-    let downloadedFilePath = null; // Track path for cleanup if download fails partially
+// Media of a post item as inlined for the web app: carousel_media slides, or the item itself.
+// Videos list every rendition in video_versions; the largest is the default. Some reels only
+// come as a DASH manifest (video_dash_manifest), read by the pipeline.
+function mediaFromItem(item) {
+    const slides = Array.isArray(item.carousel_media) && item.carousel_media.length > 0 ? item.carousel_media : [item];
+    return slides.slice(0, MAX_CAROUSEL_SLIDES).flatMap(slide => {
+        const image = largestCandidate(slide.image_versions2?.candidates);
+        const video = largestCandidate(slide.video_versions);
+        if (video) {
+            // The same file is often listed twice under different version types
+            const renditions = slide.video_versions
+                .filter((version, index, versions) => version?.url && versions.findIndex(other => other?.url === version.url) === index)
+                .map(version => ({ url: version.url, width: version.width ?? null, height: version.height ?? null }));
+            return [{
+                url: video,
+                type: 'video',
+                ...(image ? { poster: image } : {}),
+                renditions,
+                ...(slide.video_duration ? { duration: slide.video_duration } : {}),
+            }];
+        }
+        if (typeof slide.video_dash_manifest === 'string' && slide.video_dash_manifest.includes('<MPD')) {
+            return [{
+                type: 'video',
+                ...(image ? { poster: image } : {}),
+                dash: { manifest: slide.video_dash_manifest },
+                ...(slide.video_duration ? { duration: slide.video_duration } : {}),
+            }];
+        }
+        return image ? [{ url: image, type: 'image' }] : [];
+    });
+}
 
-    try {
-        logger.info(`Starting Instagram download for URL: ${url} (ContentType: ${contentType})`);
+// The same from the older GraphQL shape (shortcode_media with edge_sidecar_to_children)
+function mediaFromShortcodeMedia(node) {
+    const slides = node.edge_sidecar_to_children?.edges?.map(edge => edge.node).filter(Boolean) ?? [node];
+    return slides.slice(0, MAX_CAROUSEL_SLIDES).flatMap(slide => {
+        if (slide.is_video && slide.video_url) {
+            return [{ url: slide.video_url, type: 'video', ...(slide.display_url ? { poster: slide.display_url } : {}) }];
+        }
+        if (slide.is_video && slide.dash_info?.video_dash_manifest) {
+            return [{ type: 'video', ...(slide.display_url ? { poster: slide.display_url } : {}), dash: { manifest: slide.dash_info.video_dash_manifest } }];
+        }
+        return slide.display_url ? [{ url: slide.display_url, type: 'image' }] : [];
+    });
+}
 
-        browserInstance = await getBrowser(); // Get a browser from the pool
-        page = await browserInstance.newPage();
+function metadataFromItem(item) {
+    const owner = item.user || item.owner || {};
+    return {
+        handle: owner.username ?? null,
+        displayName: owner.full_name ?? null,
+        caption: item.caption?.text ?? item.edge_media_to_caption?.edges?.[0]?.node?.text ?? null,
+        postedAt: item.taken_at ?? item.taken_at_timestamp ?? null,
+        likes: item.like_count ?? item.edge_media_preview_like?.count ?? null,
+        views: item.play_count ?? item.view_count ?? item.video_view_count ?? null,
+    };
+}
+
+// Same Open Graph formats extractMetadata falls back on
+function metadataFromOpenGraph({ title = '', description = '' }) {
+    const titleMatch = /^(.*?)\s*\(@([\w.]+)\)/.exec(title);
+    const quotedCaption = /:\s*["“](.*)["”]\s*$/s.exec(description || title);
+    return {
+        handle: titleMatch?.[2] || null,
+        displayName: titleMatch?.[1] || null,
+        caption: quotedCaption?.[1] || null,
+        postedAt: null,
+        likes: /[\d.,]+\s*[KMB]?\s+likes?\b/i.exec(description)?.[0] ?? null,
+        views: /[\d.,]+\s*[KMB]?\s+(views|plays)\b/i.exec(description)?.[0] ?? null,
+    };
+}
+
+// Fill the gaps in `primary` from the fallbacks, field by field
+const mergeMetadata = (primary, ...fallbacks) => Object.fromEntries(Object.keys(primary).map(key =>
+    [key, [primary, ...fallbacks].map(source => source?.[key]).find(value => value !== null && value !== undefined) ?? null]));
+
+export const instagramExtractor = {
+    id: 'instagram',
+    requiresBrowser: true,
+    // For Instagram, 'networkidle0' might be more reliable as it heavily relies on XHR.
+    // Or specific element waiting as they load content dynamically.
+    navigation: { waitUntil: 'networkidle0' }, // Timeout: timeouts.navigationMs in config.js
+    referer: 'https://www.instagram.com/',
+    fallbackOnFailure: true,
+    // The cookie that carries an Instagram login; an imported session without it is useless
+    sessionCookies: ['sessionid'],
+    // What a logged-out visitor sees instead of the post (checked only when no media was found)
+    blockers: {
+        loginPaths: ['/accounts/login', '/challenge'],
+        loginSelectors: ['form#loginForm', 'input[name="username"][type="text"]'],
+        unavailableTexts: ["Sorry, this page isn't available", 'This account is private', 'This content is no longer available'],
+    },
+
+    matches(url) {
+        try {
+            return HOSTNAMES.includes(new URL(url).hostname.toLowerCase());
+        } catch {
+            return false;
+        }
+    },
+
+    describe() {
+        return {
+            id: 'instagram',
+            name: 'Instagram',
+            hostnames: HOSTNAMES,
+            contentTypes: ['post', 'story', 'reel', 'highlight'],
+            selectable: true,
+            supportsSessions: true,
+        };
+    },
 
-        const userAgent = new UserAgent();
-        await page.setUserAgent(userAgent.toString());
-        await page.setViewport({ width: 1366, height: 768 });
+    // Profiles (instagram.com/<handle>/) list posts and reels; highlights
+    // (instagram.com/stories/highlights/<id>/) list story frames.
+    describeListing(url) {
+        let segments;
+        try {
+            segments = new URL(url).pathname.split('/').filter(Boolean);
+        } catch {
+            return null;
+        }
+        if (segments[0] === 'stories' && segments[1] === 'highlights' && segments[2]) {
+            return { kind: 'highlight', contentType: 'highlight' };
+        }
+        if (segments.length === 1 && !RESERVED_PATHS.includes(segments[0].toLowerCase())) {
+            return { kind: 'profile', contentType: 'post' };
+        }
+        return null;
+    },
+
+    async enumerate(page, { url, limit, since, kind }) {
+        if (kind === 'highlight') {
+            // Each frame of a highlight gets its own URL as the viewer steps through it
+            const frames = [];
+            const nextSelector = 'button[aria-label="Next"]';
+            for (let frame = 0; frame < Math.min(limit, MAX_HIGHLIGHT_FRAMES); frame++) {
+                const frameUrl = await page.evaluate(() => location.href);
+                if (frames.some(item => item.url === frameUrl)) break; // Wrapped around or didn't move
+                frames.push({ url: frameUrl, contentType: 'highlight' });
+                const nextButton = await page.$(nextSelector);
+                if (!nextButton) break;
+                await nextButton.click();
+                await page.waitForTimeout(800); // Let the next frame load
+            }
+            logger.info(`Highlight ${url}: found ${frames.length} frame(s).`);
+            return frames;
+        }
 
-        logger.info(`Navigating to Instagram URL: ${url}`);
-        // For Instagram, 'networkidle0' might be more reliable as it heavily relies on XHR.
-        // Or specific element waiting as they load content dynamically.
-        await page.goto(url, { waitUntil: 'networkidle0', timeout: 45000 }); // Increased timeout
+        // The profile grid links each post and reel; only the newest dozen or so render before scrolling
+        return collectWhileScrolling(page, () => page.evaluate(() => {
+            const items = [];
+            document.querySelectorAll('a[href*="/p/"], a[href*="/reel/"]').forEach(link => {
+                const href = new URL(link.getAttribute('href'), location.href);
+                const postedAt = link.querySelector('time[datetime]')?.getAttribute('datetime') || null;
+                items.push({
+                    url: `${href.origin}${href.pathname}`,
+                    contentType: href.pathname.includes('/reel/') ? 'reel' : 'post',
+                    postedAt,
+                });
+            });
+            return items;
+        }), { limit, since });
+    },
+
+    // Post and reel pages inline the media item for the web app to hydrate from; when Instagram
+    // serves it (usually to logged-in sessions) no browser is needed. ld+json is the older fallback.
+    // Open Graph tags only describe the cover item, so here they only fill in attribution.
+    async extractStatic($) {
+        const payloads = readInlineJson($);
+        const item = payloads.flatMap(payload => findObjects(payload, object =>
+            Array.isArray(object.carousel_media) || Array.isArray(object.video_versions) || typeof object.video_dash_manifest === 'string'
+            || Array.isArray(object.image_versions2?.candidates)))[0];
+        const legacy = item ? null : payloads.flatMap(payload => findObjects(payload, object =>
+            typeof object.display_url === 'string' && typeof object.shortcode === 'string'))[0];
+        const jsonLd = readJsonLd($);
+        const fromOpenGraph = metadataFromOpenGraph(readOpenGraph($));
+
+        if (item || legacy) {
+            return {
+                media: item ? mediaFromItem(item) : mediaFromShortcodeMedia(legacy),
+                metadata: mergeMetadata(metadataFromItem(item || legacy), metadataFromJsonLd(jsonLd), fromOpenGraph),
+            };
+        }
+        return {
+            media: mediaFromJsonLd(jsonLd).slice(0, MAX_CAROUSEL_SLIDES),
+            metadata: mergeMetadata(metadataFromJsonLd(jsonLd) || fromOpenGraph, fromOpenGraph),
+        };
+    },
 
+    async extract(page, { url }) {
         // --- More Robust Waiting Strategy for Instagram ---
         // Instagram often loads content dynamically. We need to wait for key elements.
         // Common selectors for Instagram posts (these are highly subject to change by Instagram!)
@@ -39,7 +216,7 @@ export async function downloadInstagramContent(url, contentType, downloadsDir) {
         const mediaSelector = 'article img[srcset], article video[src]'; // Images or videos within the post
         try {
             // Wait for the main article to appear
-            await page.waitForSelector(contentAreaSelector, { timeout: 15000 });
+            await page.waitForSelector(contentAreaSelector, { timeout: getConfig().timeouts.selectorMs });
             logger.info('Instagram main content area found. Waiting for media elements...');
 
             // Wait for at least one image or video to appear within the article
@@ -83,21 +260,26 @@ export async function downloadInstagramContent(url, contentType, downloadsDir) {
         }
         // --- End Robust Waiting Strategy ---
 
-        const mediaData = await page.evaluate(() => {
+        // Collects media currently rendered on the page. Carousel posts only render the
+        // visible slide and its neighbours, so this is called once per slide below.
+        const collectVisibleMedia = () => page.evaluate(() => {
             const media = [];
             const foundSources = new Set(); // To prevent duplicates
 
             // More specific Instagram selectors
-            const selectors = [
+            const postSelectors = [
                 'article img[srcset]',          // Images with srcset within an article (common for posts)
                 'article video[src]',           // Videos with src within an article (common for posts)
                 'main img[src*="scontent"]',    // Images from scontent CDNs in main content
                 'main video[src*="scontent"]',  // Videos from scontent CDNs in main content
+            ];
+            // Open Graph tags only describe the cover item, so they are a last resort
+            const metaSelectors = [
                 'meta[property="og:image"]',    // Open Graph image
                 'meta[property="og:video"]',    // Open Graph video
             ];
 
-            selectors.forEach(selector => {
+            const collect = (selectors) => selectors.forEach(selector => {
                 document.querySelectorAll(selector).forEach(el => {
                     let src = el.src || el.getAttribute('src') || el.content; // Check src, attribute, or content for meta tags
                     if (src) {
@@ -108,10 +290,12 @@ export async function downloadInstagramContent(url, contentType, downloadsDir) {
                             // Filter out small thumbnails or irrelevant images (heuristic)
                             const isThumbnail = el.tagName.toLowerCase() === 'img' && (el.naturalWidth < 300 || el.naturalHeight < 300);
                             if (!isThumbnail && !foundSources.has(src)) {
-                                media.push({
-                                    url: src,
-                                    type: el.tagName.toLowerCase() === 'video' || el.getAttribute('property') === 'og:video' ? 'video' : 'image'
-                                });
+                                const type = el.tagName.toLowerCase() === 'video' || el.getAttribute('property') === 'og:video' ? 'video' : 'image';
+                                // Poster frame for the video thumbnail: the element's poster, or og:image for og:video
+                                const poster = type !== 'video' ? null
+                                    : el.tagName.toLowerCase() === 'video' ? el.poster || null
+                                    : document.querySelector('meta[property="og:image"]')?.content || null;
+                                media.push({ url: src, type, ...(poster ? { poster } : {}) });
                                 foundSources.add(src);
                             }
                         }
@@ -119,158 +303,65 @@ export async function downloadInstagramContent(url, contentType, downloadsDir) {
                 });
             });
 
+            collect(postSelectors);
+            if (media.length === 0) {
+                collect(metaSelectors);
+            }
             return media;
         });
 
-        if (mediaData.length === 0) {
-            logger.warn(`No media found for URL: ${url}. Falling back.`);
-            throw new Error('No media found in Instagram post for given URL.');
-        }
-
-        const media = mediaData[0]; // Take the first found media
-        const fileExtension = media.type === 'video' ? 'mp4' : 'jpg';
-        const filename = `instagram_${contentType}_${uuidv4()}.${fileExtension}`;
-        const filePath = path.join(downloadsDir, filename);
-        downloadedFilePath = filePath; // Store for potential cleanup
-
-        logger.info(`Attempting to download media from: ${media.url} to ${filePath}`);
-
-        const response = await axios({
-            method: 'GET',
-            url: media.url,
-            responseType: 'stream',
-            headers: {
-                'User-Agent': userAgent.toString(),
-                'Referer': 'https://www.instagram.com/', // Mimic a browser referer
-            },
-            timeout: 60000 // Added a timeout for the download stream
+        const mediaData = [];
+        const collectedSources = new Set();
+        const addMedia = (found) => found.forEach(media => {
+            if (!collectedSources.has(media.url)) {
+                collectedSources.add(media.url);
+                mediaData.push(media);
+            }
         });
 
-        const writer = fsPromises.createWriteStream(filePath); // Use async createWriteStream
-        response.data.pipe(writer);
+        addMedia(await collectVisibleMedia());
+        // Step through carousel (sidecar) slides until the "Next" arrow disappears
+        const carouselNextSelector = 'article button[aria-label="Next"]';
+        for (let slide = 1; slide < MAX_CAROUSEL_SLIDES; slide++) {
+            const nextButton = await page.$(carouselNextSelector);
+            if (!nextButton) break;
+            await nextButton.click();
+            await page.waitForTimeout(800); // Let the next slide's media load
+            addMedia(await collectVisibleMedia());
+        }
 
-        await new Promise((resolve, reject) => {
-            writer.on('finish', resolve);
-            writer.on('error', (err) => {
-                logger.error(`File write stream error for ${filePath}:`, err);
-                // Clean up partially written file if error occurs
-                fsPromises.unlink(filePath).catch(unlinkErr => logger.error(`Error cleaning up partial file ${filePath}:`, unlinkErr));
-                reject(err);
-            });
-        });
-        logger.info(`File successfully written to: ${filePath}`);
+        return mediaData;
+    },
 
-        const stats = await fsPromises.stat(filePath); // Use async stat
+    // Raw attribution for buildPostMetadata. The rendered post is preferred; Open Graph tags
+    // ('Name (@handle) on Instagram: "caption"', '12 likes, 3 comments - handle on ...') fill gaps.
+    async extractMetadata(page) {
+        return page.evaluate(() => {
+            const text = (selector) => document.querySelector(selector)?.textContent?.trim() || null;
+            const meta = (property) => document.querySelector(`meta[property="${property}"]`)?.content || '';
+            const ogTitle = meta('og:title');
+            const ogDescription = meta('og:description');
 
-        return {
-            success: true,
-            downloadUrl: `http://localhost:3001/downloads/${filename}`, // Ensure this matches your server's exposed port
-            filename,
-            contentType: media.type,
-            size: formatFileSize(stats.size),
-            localPath: filePath,
-            thumbnail: media.type === 'image' ? `http://localhost:3001/downloads/${filename}` : null
-        };
+            const titleMatch = /^(.*?)\s*\(@([\w.]+)\)/.exec(ogTitle);
+            const quotedCaption = /:\s*["“](.*)["”]\s*$/s.exec(ogDescription || ogTitle);
 
-    } catch (error) {
-        logger.error(`Instagram download failed for URL: ${url}. Error:`, error.message);
-        logger.error(error.stack); // Log full stack trace for debugging
+            // Counts show up as "1,234 likes" / "12K views" next to the post actions
+            const countText = (pattern) => [...document.querySelectorAll('article section span, article section a, article a[href*="liked_by"]')]
+                .map(el => el.textContent.trim())
+                .find(value => pattern.test(value)) || (pattern.exec(ogDescription)?.[0] ?? null);
 
-        // Clean up partially downloaded file if it exists and was not fully written
-        if (downloadedFilePath) {
-            try {
-                await fsPromises.unlink(downloadedFilePath);
-                logger.info(`Cleaned up partial file: ${downloadedFilePath}`);
-            } catch (unlinkErr) {
-                if (unlinkErr.code !== 'ENOENT') { // ENOENT means file didn't exist
-                    logger.error(`Failed to clean up partial file ${downloadedFilePath}:`, unlinkErr);
-                }
-            }
-        }
-
-        // Fallback to test content if real download fails
-        try {
-            const fallbackResult = await downloadFallbackContent(contentType, downloadsDir, 'instagram');
-            logger.info('Serving fallback content due to primary download failure.');
             return {
-                ...fallbackResult,
-                note: `Primary download failed: ${error.message}. Serving fallback content.`
+                handle: document.querySelector('article header a[href^="/"]')?.getAttribute('href') || titleMatch?.[2] || null,
+                displayName: titleMatch?.[1] || null,
+                caption: text('article h1') || quotedCaption?.[1] || null,
+                postedAt: document.querySelector('article time[datetime]')?.getAttribute('datetime') || null,
+                likes: countText(/[\d.,]+\s*[KMB]?\s+likes?\b/i),
+                views: countText(/[\d.,]+\s*[KMB]?\s+(views|plays)\b/i),
             };
-        } catch (fallbackError) {
-            logger.error(`Fallback download also failed for URL: ${url}. Error:`, fallbackError.message);
-            throw new Error(`Failed to download content from Instagram or provide fallback: ${error.message}`);
-        }
-
-    } finally {
-        if (page) {
-            await page.close(); // Close the page, but not the browser
-        }
-        if (browserInstance) {
-            releaseBrowser(browserInstance); // Release the browser back to the pool
-        }
-    }
-}
-
-// --- downloadFallbackContent function (updated to use fs.promises) ---
-async function downloadFallbackContent(contentType, downloadsDir, platform) {
-    try {
-        const sampleUrls = {
-            image: 'https://picsum.photos/800/600',
-            video: 'https://sample-videos.com/zip/10/mp4/SampleVideo_1280x720_1mb.mp4'
-        };
-
-        const isVideo = contentType === 'reel' || contentType === 'story' || contentType === 'video';
-        const mediaType = isVideo ? 'video' : 'image';
-        const fileExtension = isVideo ? 'mp4' : 'jpg';
-        const filename = `${platform}_${contentType}_fallback_${uuidv4()}.${fileExtension}`;
-        const filePath = path.join(downloadsDir, filename);
-
-        logger.info(`Attempting to download fallback content: ${sampleUrls[mediaType]} to ${filePath}`);
-
-        const response = await axios({
-            method: 'GET',
-            url: sampleUrls[mediaType],
-            responseType: 'stream',
-            timeout: 30000 // Added timeout for fallback download
-        });
-
-        const writer = fsPromises.createWriteStream(filePath);
-        response.data.pipe(writer);
-
-        await new Promise((resolve, reject) => {
-            writer.on('finish', resolve);
-            writer.on('error', (err) => {
-                logger.error(`Fallback file write stream error for ${filePath}:`, err);
-                fsPromises.unlink(filePath).catch(unlinkErr => logger.error(`Error cleaning up partial fallback file ${filePath}:`, unlinkErr));
-                reject(err);
-            });
         });
-        logger.info(`Fallback file successfully written to: ${filePath}`);
-
-        const stats = await fsPromises.stat(filePath);
-
-        return {
-            success: true,
-            downloadUrl: `http://localhost:3001/downloads/${filename}`,
-            filename,
-            contentType: mediaType,
-            size: formatFileSize(stats.size),
-            localPath: filePath,
-            thumbnail: mediaType === 'image' ? `http://localhost:3001/downloads/${filename}` : null,
-            note: 'Fallback content - real social media content may be difficult to scrape.'
-        };
-    } catch (error) {
-        logger.error(`Critical: Fallback download failed: ${error.message}`);
-        logger.error(error.stack);
-        throw new Error(`Fallback download failed: ${error.message}`);
-    }
-}
+    },
+};
 
-function formatFileSize(bytes) {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+export async function downloadInstagramContent(url, contentType, downloadsDir, onProgress, options) {
+    return downloadWithExtractor(instagramExtractor, url, contentType, downloadsDir, onProgress, options);
 }
-
@@ -0,0 +1,684 @@
+import { promises as fsPromises } from 'fs'; // Use fs.promises for async operations
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import UserAgent from 'user-agents';
+import { getBrowser, releaseBrowser } from '../utils/browserPool.js'; // Import the pool functions
+import { downloadToFile, fetchBuffer, probeContentLength } from '../utils/fileDownloader.js';
+import { parseMpd, selectAudio } from '../utils/dashManifest.js';
+import { downloadDashStreams } from '../utils/dashDownloader.js';
+import { buildPostMetadata } from '../utils/postMetadata.js';
+import { posterKeyFor, posterPathFor } from '../utils/imageVariants.js';
+import { createLocalStorage } from '../utils/storage.js';
+import { getConfig } from '../utils/config.js';
+import { cookieHeaderFor } from '../utils/cookieJar.js';
+import { fetchStaticPage, isBlockedPage } from '../utils/staticPage.js';
+import { recordStrategy } from '../utils/extractionStats.js';
+import { describeRenditions, estimateBytes, isRecordedChoice, selectRendition } from '../utils/videoRenditions.js';
+import { JOB_PHASES } from '../utils/jobStore.js';
+import { ExtractionError, FAILURE_CODES, toExtractionError } from '../utils/extractionError.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('Pipeline');
+
+/*
+ * Shared download pipeline. Platform extractors (see extractorRegistry.js) only find media;
+ * everything else - browser checkout, page setup, navigation, streaming files to disk,
+ * progress reporting, cleanup, failure classification and fallback content - happens here.
+ *
+ * An extractor is a plain object:
+ *   id               registry key, also used as the filename prefix
+ *   requiresBrowser  true to get a Puppeteer page already navigated to the URL
+ *   navigation       optional page.goto options (waitUntil, timeout)
+ *   referer          optional Referer header for media requests
+ *   sessionCookies   optional names of the cookies that carry a login, checked when a session is
+ *                    imported (see sessionStore.js)
+ *   fallbackOnFailure  whether sample content may be served when extraction fails (the request must also opt in)
+ *   blockers         optional hints for explaining an empty page (see diagnoseEmptyPage):
+ *                    { loginPaths, loginSelectors, unavailableTexts }
+ *   note             optional note attached to every successful result
+ *   matches(url)     whether this extractor handles the URL
+ *   extract(page, { url, contentType })  resolves to [{ url, type: 'image' | 'video', poster?, renditions?, duration?, dash? }]
+ *                    (poster: the video's poster frame URL, saved for its thumbnail; renditions: every
+ *                    quality the video is offered in, see videoRenditions.js; duration in seconds;
+ *                    dash: { manifest } with inline MPD XML or { url } of one, for videos only offered
+ *                    as DASH - `url` may then be left out, see expandDashManifests)
+ *   extractStatic($, { url, contentType })  optional fast path tried before the browser: reads
+ *                    the page fetched over plain HTTP (a cheerio document, see staticPage.js) and
+ *                    resolves to { media, metadata } shaped like extract/extractMetadata. No media
+ *                    means the browser runs as usual.
+ *   extractMetadata(page, { url, contentType })  optional; resolves to raw attribution strings
+ *                    for buildPostMetadata (author, caption, timestamp, counts)
+ *   describeListing(url)  optional; for profile/page/highlight URLs, { kind, contentType } where
+ *                    contentType is what the listed items default to. null for single posts.
+ *   enumerate(page, { url, limit, since })  optional, with describeListing; resolves to the listed
+ *                    items [{ url, contentType, postedAt? }] (see collectWhileScrolling)
+ *   describe()       public platform description for GET /api/platforms
+ */
+
+const DEFAULT_NAVIGATION = { waitUntil: 'domcontentloaded', timeout: getConfig().timeouts.navigationMs };
+
+// Failures are thrown as ExtractionError with a FAILURE_CODES code. Sample content is only
+// served instead when both the extractor and the request (`allowFallback`) allow it.
+// With a `mediaIndex`, a post downloaded before is answered from disk without opening the page.
+// With `sessions`, the platform's imported login cookies go along with the page and media requests.
+// Browser-based extractors with extractStatic try a plain HTTP fetch first; the result's
+// `strategy` says which one found the media, and both are counted in extractionStats.js.
+// `quality` ('best' | 'smallest' | a height) picks among the renditions of each video.
+// `owner` (an API key id, see apiKeys.js) is recorded as an owner of every file the download
+// produced or reused.
+// Files are fetched into `downloadsDir` and then kept in `storage` (see storage.js), which by
+// default is that same directory.
+export async function downloadWithExtractor(extractor, url, contentType, downloadsDir, onProgress = () => {}, { allowFallback = false, mediaIndex = null, sessions = null, quality = 'best', storage = createLocalStorage({ rootDir: downloadsDir }), owner = null } = {}) {
+    const { name } = extractor.describe();
+    let browserInstance; // To hold the browser from the pool
+    let page;
+    let session = NO_SESSION;
+    let strategy = null; // 'static' | 'browser' once media is being looked for that way
+    let found = false;
+    const userAgent = new UserAgent();
+
+    try {
+        logger.info(`Starting ${name} download for URL: ${url} (ContentType: ${contentType})`);
+
+        // Only in the quality asked for: another one means another file
+        const previousDownload = mediaIndex ? await mediaIndex.findByPage(url, contentType, record => isRecordedChoice(record.renditions, quality)) : [];
+        if (previousDownload.length > 0) {
+            logger.info(`${name} post already downloaded (${previousDownload.length} file(s)); reusing them.`);
+            for (const record of previousDownload) {
+                await claimExisting(mediaIndex, record.filename, owner); // Counts as an access for retention
+            }
+            onProgress(JOB_PHASES.FINALIZING);
+            return {
+                success: true,
+                items: previousDownload.map(record => toDownloadItem(record, storage, { reused: true, ...recordedRenditionsOf(record) })),
+                reused: true,
+                metadata: previousDownload[0].metadata ?? null,
+            };
+        }
+
+        session = await loadSession(extractor, sessions);
+        const staticResult = extractor.requiresBrowser
+            ? await tryStaticExtraction(extractor, url, contentType, { userAgent: userAgent.toString(), cookies: session.cookies })
+            : null;
+
+        if (staticResult) {
+            strategy = 'static';
+        } else if (extractor.requiresBrowser) {
+            strategy = 'browser';
+            onProgress(JOB_PHASES.LAUNCHING_BROWSER);
+            browserInstance = await getBrowser(); // Get a browser from the pool
+            page = await browserInstance.newPage();
+
+            await page.setUserAgent(userAgent.toString());
+            await page.setViewport({ width: 1366, height: 768 });
+            await applySession(page, session);
+
+            onProgress(JOB_PHASES.EXTRACTING);
+            logger.info(`Navigating to ${name} URL: ${url}`);
+            const response = await page.goto(url, { ...DEFAULT_NAVIGATION, ...extractor.navigation });
+            if (response && [404, 410].includes(response.status())) {
+                throw new ExtractionError(FAILURE_CODES.CONTENT_UNAVAILABLE, `${name} returned HTTP ${response.status()}: the post was removed or never existed.`);
+            }
+        } else {
+            onProgress(JOB_PHASES.EXTRACTING);
+        }
+
+        const mediaData = staticResult ? staticResult.media : await extractor.extract(page ?? null, { url, contentType });
+        const metadata = staticResult ? staticResult.metadata
+            : mediaData.length > 0 ? await readMetadata(extractor, page ?? null, { url, contentType }) : null;
+
+        if (strategy === 'browser' && mediaData.length > 0) {
+            found = true;
+            recordStrategy(extractor.id, 'browser', true);
+        }
+        if (mediaData.length === 0) {
+            logger.warn(`No media found for URL: ${url}.`);
+            throw await diagnoseEmptyPage(page, extractor, name);
+        }
+
+        // Carousels and albums yield several items; download every distinct one
+        logger.info(`Found ${mediaData.length} media item(s) for URL: ${url}`);
+        const headers = {
+            'User-Agent': userAgent.toString(),
+            ...(extractor.referer ? { 'Referer': extractor.referer } : {}), // Mimic a browser referer
+        };
+        const expanded = await expandDashManifests(mediaData, { headers, cookies: session.cookies, pageUrl: url });
+        const items = await downloadMediaItems(await chooseRenditions(expanded, quality, { headers, cookies: session.cookies }), {
+            prefix: `${extractor.id}_${contentType}`,
+            downloadsDir,
+            headers,
+            cookies: session.cookies,
+            onProgress,
+            mediaIndex,
+            storage,
+            source: { platform: extractor.id, contentType, pageUrl: url, metadata },
+            owner,
+        });
+        onProgress(JOB_PHASES.FINALIZING);
+
+        return {
+            success: true,
+            items,
+            metadata,
+            ...(strategy ? { strategy } : {}),
+            ...(extractor.note ? { note: extractor.note } : {}),
+        };
+
+    } catch (error) {
+        logger.error(`${name} download failed for URL: ${url}. Error:`, error.message);
+        logger.error(error.stack); // Log full stack trace for debugging
+        if (strategy === 'browser' && !found) {
+            recordStrategy(extractor.id, 'browser', false); // Navigation failures and empty pages alike
+        }
+
+        const failure = await explainSessionFailure(toExtractionError(error, `${name} download failed: ${error.message}`), session, extractor, sessions);
+        if (!allowFallback || !extractor.fallbackOnFailure) {
+            throw failure;
+        }
+
+        // Fallback to test content if real download fails. Only on request: it is easy to mistake for the real post.
+        try {
+            const fallbackResult = await downloadFallbackContent(contentType, downloadsDir, extractor.id, mediaIndex, storage, owner);
+            logger.info(`Serving fallback content due to primary download failure (${failure.code}).`);
+            return {
+                ...fallbackResult,
+                fallback: true,
+                failure: { code: failure.code, message: failure.message },
+                note: `Primary download failed: ${error.message}. Serving fallback content.`
+            };
+        } catch (fallbackError) {
+            logger.error(`Fallback download also failed for URL: ${url}. Error:`, fallbackError.message);
+            throw new ExtractionError(failure.code, `Failed to download content from ${name} or provide fallback: ${error.message}`, { cause: error });
+        }
+
+    } finally {
+        if (page) {
+            // Close the page, but not the browser. A crashed browser takes its pages with it.
+            await page.close().catch(closeError => logger.warn(`Could not close page: ${closeError.message}`));
+        }
+        if (browserInstance) {
+            releaseBrowser(browserInstance); // Release the browser back to the pool
+        }
+    }
+}
+
+const NO_SESSION = { status: 'none', cookies: [] };
+
+// The platform's imported session (see sessionStore.js), read once per job. Resolves to
+// { status: 'none' | 'expired' | 'active', cookies } for the page, media requests and failures.
+async function loadSession(extractor, sessions) {
+    if (!sessions) return NO_SESSION;
+    const session = await sessions.cookiesFor(extractor.id);
+    if (session.status === 'active' && session.cookies.length > 0) {
+        logger.info(`Using the imported ${extractor.id} session (${session.cookies.length} cookie(s)).`);
+        return session;
+    }
+    if (session.status === 'expired') {
+        logger.warn(`The imported ${extractor.id} session has expired; continuing logged out. ${session.reason ?? ''}`);
+    }
+    return { ...NO_SESSION, status: session.status };
+}
+
+// Load the session's cookies into the page before navigating
+async function applySession(page, session) {
+    if (session.cookies.length > 0) {
+        await page.setCookie(...session.cookies);
+    }
+}
+
+// Fast path: read the post from its HTML over plain HTTP (see staticPage.js) before paying for a
+// browser. Resolves to { media, metadata } (metadata already through buildPostMetadata), or null
+// when the browser has to look: an error status, a login wall, nothing usable inline, or any
+// failure along the way. Either outcome is counted in extractionStats.js.
+// Turned off entirely by features.staticExtraction in config.js.
+async function tryStaticExtraction(extractor, url, contentType, { userAgent, cookies }) {
+    if (!getConfig().features.staticExtraction || typeof extractor.extractStatic !== 'function') return null;
+    let result = null;
+    try {
+        const headers = withCookies({
+            'User-Agent': userAgent,
+            ...(extractor.referer ? { 'Referer': extractor.referer } : {}),
+        }, cookies, url);
+        const { status, url: finalUrl, $ } = await fetchStaticPage(url, { headers });
+        if (status >= 400) {
+            logger.info(`Static fetch of ${url} returned HTTP ${status}; trying the browser.`);
+        } else if (isBlockedPage($, finalUrl, extractor.blockers)) {
+            logger.info(`Static fetch of ${url} hit a login wall or notice; trying the browser.`);
+        } else {
+            const { media = [], metadata = null } = (await extractor.extractStatic($, { url: finalUrl, contentType })) || {};
+            if (media.length > 0) {
+                // Inline payloads sometimes carry paths rather than full URLs
+                const absolute = (value) => new URL(value, finalUrl).href;
+                result = {
+                    media: media.map(item => ({
+                        ...item,
+                        url: item.url ? absolute(item.url) : item.url, // DASH-only videos have none yet
+                        ...(item.dash?.url ? { dash: { ...item.dash, url: absolute(item.dash.url) } } : {}),
+                        ...(item.poster ? { poster: absolute(item.poster) } : {}),
+                        ...(item.renditions ? { renditions: item.renditions.map(rendition => ({ ...rendition, url: absolute(rendition.url) })) } : {}),
+                    })),
+                    metadata: metadata ? buildPostMetadata(metadata) : null,
+                };
+                logger.info(`Found ${media.length} media item(s) in the static HTML of ${url}; skipping the browser.`);
+            } else {
+                logger.info(`No media in the static HTML of ${url}; trying the browser.`);
+            }
+        }
+    } catch (error) {
+        logger.warn(`Static extraction failed for ${url} (${error.message}); trying the browser.`);
+    }
+    recordStrategy(extractor.id, 'static', result !== null);
+    return result;
+}
+
+// A login wall is the session's fault when one was applied (or has run out): say so, and flag
+// an applied one as expired so the operator sees it in GET /api/sessions
+async function explainSessionFailure(failure, session, extractor, sessions) {
+    if (failure.code !== FAILURE_CODES.LOGIN_REQUIRED || session.status === 'none') {
+        return failure;
+    }
+    const { name } = extractor.describe();
+    if (session.status === 'active') {
+        await sessions.markExpired(extractor.id, `${name} showed a login wall with the session applied; it was probably logged out.`);
+    }
+    return new ExtractionError(FAILURE_CODES.SESSION_EXPIRED, `The imported ${name} session has expired. Import fresh cookies, then retry.`, { cause: failure });
+}
+
+const DEFAULT_SCROLL_DELAY_MS = 1200;
+const MAX_IDLE_SCROLLS = 3; // Scrolls in a row that turn up nothing new before we call the listing exhausted
+const MAX_OUTDATED_ITEMS = 3; // Pinned posts sit above newer ones, so one old item doesn't end the listing
+
+/**
+ * Scroll an infinite listing, calling `collectVisible()` (resolving to [{ url, postedAt? }]) after
+ * each scroll, until `limit` items are found, the listing stops growing, or it reaches items
+ * posted before `since`. Items without a date are always kept. Used by extractors' enumerate().
+ */
+export async function collectWhileScrolling(page, collectVisible, { limit, since = null, scrollDelayMs = DEFAULT_SCROLL_DELAY_MS }) {
+    const cutoff = since ? new Date(since).getTime() : null;
+    const found = new Map();
+    const outdated = new Set(); // Old items stay rendered, so count each one once
+    let idleScrolls = 0;
+
+    for (;;) {
+        const before = found.size;
+        for (const item of await collectVisible()) {
+            if (found.size >= limit || outdated.size >= MAX_OUTDATED_ITEMS) break;
+            if (found.has(item.url) || outdated.has(item.url)) continue;
+            if (cutoff !== null && item.postedAt && new Date(item.postedAt).getTime() < cutoff) {
+                outdated.add(item.url);
+                continue;
+            }
+            found.set(item.url, item);
+        }
+        if (found.size >= limit || outdated.size >= MAX_OUTDATED_ITEMS) break;
+
+        idleScrolls = found.size === before ? idleScrolls + 1 : 0;
+        if (idleScrolls >= MAX_IDLE_SCROLLS) break;
+        await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+        await page.waitForTimeout(scrollDelayMs); // Let the next page of the listing load
+    }
+    return [...found.values()];
+}
+
+// List the items of a profile, page or highlight without downloading them. Resolves to
+// [{ url, contentType, postedAt }], newest first as the listing shows them, at most `limit`.
+export async function enumerateWithExtractor(extractor, url, { limit, since = null, sessions = null } = {}) {
+    const { name } = extractor.describe();
+    const listing = extractor.describeListing?.(url);
+    if (!listing || typeof extractor.enumerate !== 'function') {
+        throw new ExtractionError(FAILURE_CODES.NO_MEDIA_FOUND, `${name} can't list items from this URL; use a profile, page or highlight link.`);
+    }
+
+    let browserInstance;
+    let page;
+    let session = NO_SESSION;
+    try {
+        logger.info(`Enumerating ${name} ${listing.kind} at ${url} (limit ${limit}${since ? `, since ${since}` : ''})`);
+        browserInstance = await getBrowser();
+        page = await browserInstance.newPage();
+        await page.setUserAgent(new UserAgent().toString());
+        await page.setViewport({ width: 1366, height: 768 });
+        session = await loadSession(extractor, sessions);
+        await applySession(page, session);
+
+        const response = await page.goto(url, { ...DEFAULT_NAVIGATION, ...extractor.navigation });
+        if (response && [404, 410].includes(response.status())) {
+            throw new ExtractionError(FAILURE_CODES.CONTENT_UNAVAILABLE, `${name} returned HTTP ${response.status()}: the ${listing.kind} was removed or never existed.`);
+        }
+
+        const items = (await extractor.enumerate(page, { url, limit, since, kind: listing.kind }))
+            .slice(0, limit)
+            .map(item => ({ url: item.url, contentType: item.contentType || listing.contentType, postedAt: item.postedAt ?? null }));
+        if (items.length === 0) {
+            throw await diagnoseEmptyPage(page, extractor, name);
+        }
+        logger.info(`Found ${items.length} item(s) on ${name} ${listing.kind} ${url}`);
+        return items;
+    } catch (error) {
+        logger.error(`${name} enumeration failed for URL: ${url}. Error:`, error.message);
+        throw await explainSessionFailure(toExtractionError(error, `${name} enumeration failed: ${error.message}`), session, extractor, sessions);
+    } finally {
+        if (page) {
+            await page.close().catch(closeError => logger.warn(`Could not close page: ${closeError.message}`));
+        }
+        if (browserInstance) {
+            releaseBrowser(browserInstance);
+        }
+    }
+}
+
+// Videos offered only as DASH get their manifest read (fetched first if the extractor found a
+// link rather than the XML): each video representation becomes a rendition, paired with the best
+// audio track, and chooseRenditions picks among them like any others. Relative URLs in an
+// inline manifest resolve against the page.
+async function expandDashManifests(mediaData, { headers, cookies, pageUrl }) {
+    return Promise.all(mediaData.map(async (media) => {
+        if (media.type !== 'video' || !media.dash || media.dash.video) {
+            return media;
+        }
+        const manifestUrl = media.dash.url || pageUrl;
+        const xml = media.dash.manifest
+            ?? (await fetchBuffer(manifestUrl, { headers: withCookies(headers, cookies, manifestUrl) })).toString('utf8');
+        const manifest = parseMpd(xml, manifestUrl);
+        if (manifest.video.length === 0) {
+            throw new ExtractionError(FAILURE_CODES.NO_MEDIA_FOUND, 'The video\'s DASH manifest offers no video track that can be downloaded.');
+        }
+        const audio = selectAudio(manifest.audio);
+        const renditions = manifest.video.map(video => ({
+            url: (video.initialization ?? video.segments[0]).url,
+            width: video.width,
+            height: video.height,
+            bitrate: video.bandwidth + (audio?.bandwidth ?? 0),
+            dash: { video, audio, durationSeconds: manifest.durationSeconds },
+        }));
+        const duration = media.duration ?? manifest.durationSeconds;
+        logger.info(`DASH manifest lists ${manifest.video.length} video and ${manifest.audio.length} audio representation(s).`);
+        return { ...media, url: renditions[0].url, dash: renditions[0].dash, renditions, ...(duration ? { duration } : {}) };
+    }));
+}
+
+// Point each video with several renditions at the one `quality` asks for, and keep the options
+// (with approximate sizes) to report back, and what the choice was made from to record in the
+// media index. Sizes the extractor couldn't work out from bitrate
+// and duration are asked of the CDN, which is only worth it when there's a choice to make.
+async function chooseRenditions(mediaData, quality, { headers, cookies }) {
+    return Promise.all(mediaData.map(async (media) => {
+        if (media.type !== 'video' || !Array.isArray(media.renditions) || media.renditions.length < 2) {
+            return media;
+        }
+        const renditions = await Promise.all(media.renditions.map(async (rendition) => ({
+            ...rendition,
+            bytes: estimateBytes(rendition, media.duration)
+                ?? await probeContentLength(rendition.url, { headers: withCookies(headers, cookies, rendition.url) }),
+        })));
+        const selected = selectRendition(renditions, quality);
+        logger.info(`Picked the ${selected.height ? `${selected.height}p` : selected.label || 'first'} rendition of ${renditions.length} for quality '${quality}'.`);
+        return {
+            ...media,
+            url: selected.url,
+            ...(selected.dash ? { dash: selected.dash } : {}),
+            renditionOptions: describeRenditions(renditions, selected),
+            recordedRenditions: renditions.map(({ width, height, bitrate, bytes, label }, index) => ({
+                width: width ?? null, height: height ?? null, bitrate: bitrate ?? null, bytes: bytes ?? null, label: label ?? null,
+                ...(renditions[index] === selected ? { selected: true } : {}),
+            })),
+        };
+    }));
+}
+
+// Attribution is a bonus: a page we can't read metadata from still yields its media.
+async function readMetadata(extractor, page, context) {
+    if (typeof extractor.extractMetadata !== 'function') return null;
+    try {
+        return buildPostMetadata(await extractor.extractMetadata(page, context));
+    } catch (error) {
+        logger.warn(`Could not read post metadata for ${context.url}: ${error.message}`);
+        return null;
+    }
+}
+
+// Work out why a page produced no media. The extractor's `blockers` describe what its login wall
+// and "content unavailable" pages look like; without a page (or a match) it is NO_MEDIA_FOUND.
+async function diagnoseEmptyPage(page, extractor, name) {
+    const { loginPaths = [], loginSelectors = [], unavailableTexts = [] } = extractor.blockers || {};
+
+    if (page) {
+        try {
+            const { pathname } = new URL(page.url());
+            const pageState = await page.evaluate((selectors, texts) => {
+                const bodyText = (document.body?.innerText || '').replace(/\u2019/g, "'"); // Normalise curly apostrophes
+                return {
+                    hasLoginForm: selectors.some(selector => document.querySelector(selector)),
+                    isUnavailable: texts.some(text => bodyText.includes(text)),
+                };
+            }, loginSelectors, unavailableTexts);
+
+            // Private accounts show a login prompt too, so check the unavailable notice first
+            if (pageState.isUnavailable) {
+                return new ExtractionError(FAILURE_CODES.CONTENT_UNAVAILABLE, `This ${name} post is private, removed or otherwise unavailable.`);
+            }
+            if (loginPaths.some(loginPath => pathname.startsWith(loginPath)) || pageState.hasLoginForm) {
+                return new ExtractionError(FAILURE_CODES.LOGIN_REQUIRED, `${name} asked for a login instead of showing the post.`);
+            }
+        } catch (diagnoseError) {
+            logger.warn(`Could not inspect the ${name} page for login walls: ${diagnoseError.message}`);
+        }
+    }
+    return new ExtractionError(FAILURE_CODES.NO_MEDIA_FOUND, `No media found in ${name} post for given URL.`);
+}
+
+// A file already downloaded is being used again: note the access and who now shares it
+async function claimExisting(mediaIndex, filename, owner) {
+    await mediaIndex.touch(filename);
+    if (owner) {
+        await mediaIndex.addOwner(filename, owner);
+    }
+}
+
+// Public item for a file in storage; the download URL is the backend's (static path or presigned URL)
+function toDownloadItem({ filename, mediaType, bytes, sha256, sourceUrl, hasPoster = false }, storage, extra = {}) {
+    const localPath = storage.localPathFor(filename);
+    return {
+        downloadUrl: storage.urlFor(filename),
+        filename,
+        mediaType,
+        size: formatFileSize(bytes),
+        bytes,
+        sha256,
+        ...(localPath ? { localPath } : {}),
+        // Rendered by GET /api/downloads/:filename/thumbnail from the image or the video's poster
+        thumbnail: mediaType === 'image' || hasPoster ? `${getConfig().server.publicBaseUrl}/api/downloads/${filename}/thumbnail` : null,
+        sourceUrl,
+        ...extra,
+    };
+}
+
+// Best-effort: a video without its poster frame is still a successful download, it just has
+// no thumbnail. The poster is cleaned up with the video if the rest of the post fails.
+async function downloadPoster(posterUrl, downloadsDir, filename, headers, downloadedFilePaths) {
+    const posterPath = posterPathFor(downloadsDir, filename);
+    try {
+        await fsPromises.mkdir(path.dirname(posterPath), { recursive: true });
+        await downloadToFile(posterUrl, posterPath, { headers, maxAttempts: 2 });
+        downloadedFilePaths.push(posterPath);
+        return true;
+    } catch (error) {
+        logger.warn(`Could not fetch poster frame ${posterUrl} for ${filename}: ${error.message}`);
+        return false;
+    }
+}
+
+// The rendition options chooseRenditions attached, for the DownloadItem
+const renditionsOf = (media) => (media.renditionOptions ? { renditions: media.renditionOptions } : {});
+
+// The same for a video answered from the media index
+const recordedRenditionsOf = (record) => (record.renditions?.length > 1
+    ? { renditions: describeRenditions(record.renditions, record.renditions.find(rendition => rendition.selected)) }
+    : {});
+
+// Media hosts get the session cookies a browser would send them (usually none for CDN hosts)
+function withCookies(headers, cookies, url) {
+    const cookieHeader = cookies.length > 0 ? cookieHeaderFor(cookies, url) : null;
+    return cookieHeader ? { ...headers, Cookie: cookieHeader } : headers;
+}
+
+// Stream each media item to `<prefix>_<uuid>.<ext>` in downloadsDir, reporting byte progress.
+// Each file is written via a resumable `.part` download (see fileDownloader.js). If any item
+// fails, files already written for this call are removed so a post is never half-downloaded.
+//
+// With a `mediaIndex`, media already on disk is reused instead of stored twice: an item whose
+// CDN URL is indexed is not fetched at all, and a fetched file whose hash matches an indexed one
+// is discarded in favour of it. New files are recorded under `source` ({ platform, contentType,
+// pageUrl, metadata }) once the whole post has downloaded. `reuseExisting: false` records without
+// reusing. Every new file gets a `<filename>.json` sidecar with its source and post metadata.
+// `cookies` (an imported session) are sent to the media hosts they belong to.
+// `owner` owns the new files and is added to the owners of reused ones.
+// Once the whole post is in downloadsDir, its files, sidecars and posters move to `storage`
+// (by default downloadsDir itself, where that's a no-op).
+export async function downloadMediaItems(mediaData, { prefix, downloadsDir, headers = {}, cookies = [], onProgress = () => {}, mediaIndex = null, source = {}, reuseExisting = true, storage = createLocalStorage({ rootDir: downloadsDir }), owner = null }) {
+    const downloadedFilePaths = []; // Track paths for cleanup if the download fails partway
+    const storedKeys = []; // Likewise for what already reached storage
+    const newRecords = [];
+    const items = [];
+    const itemCount = mediaData.length;
+
+    try {
+        for (const [itemIndex, media] of mediaData.entries()) {
+            const knownSource = mediaIndex && reuseExisting ? await mediaIndex.findBySourceUrl(media.url) : null;
+            if (knownSource) {
+                logger.info(`Media ${itemIndex + 1}/${itemCount} already downloaded as ${knownSource.filename}; not fetching ${media.url}`);
+                await claimExisting(mediaIndex, knownSource.filename, owner);
+                items.push(toDownloadItem(knownSource, storage, { reused: true, ...renditionsOf(media) }));
+                continue;
+            }
+
+            const fileExtension = media.type === 'video' ? 'mp4' : 'jpg';
+            const filename = `${prefix}_${uuidv4()}.${fileExtension}`;
+            const filePath = path.join(downloadsDir, filename);
+            downloadedFilePaths.push(filePath); // Store for potential cleanup
+
+            logger.info(`Attempting to download media ${itemIndex + 1}/${itemCount} from: ${media.url} to ${filePath}`);
+
+            const transfer = {
+                headers: withCookies(headers, cookies, media.url),
+                onBytes: (bytesReceived, bytesTotal) =>
+                    onProgress(JOB_PHASES.FETCHING, { bytesReceived, bytesTotal, itemIndex, itemCount }),
+            };
+            // DASH videos come as separate video and audio tracks, muxed into the one file
+            const { bytes, sha256 } = media.dash
+                ? await downloadDashStreams(media.dash, filePath, transfer)
+                : await downloadToFile(media.url, filePath, transfer);
+
+            // Same bytes under a different CDN URL (signed URLs rotate): keep the existing file
+            const knownContent = mediaIndex && reuseExisting ? await mediaIndex.findByHash(sha256) : null;
+            if (knownContent) {
+                logger.info(`Media ${itemIndex + 1}/${itemCount} matches ${knownContent.filename} by SHA-256; discarding the new copy.`);
+                await claimExisting(mediaIndex, knownContent.filename, owner);
+                await fsPromises.unlink(filePath);
+                downloadedFilePaths.pop();
+                items.push(toDownloadItem(knownContent, storage, { reused: true, ...renditionsOf(media) }));
+                continue;
+            }
+
+            const hasPoster = media.type === 'video' && media.poster
+                ? await downloadPoster(media.poster, downloadsDir, filename, withCookies(headers, cookies, media.poster), downloadedFilePaths)
+                : false;
+
+            const record = { filename, mediaType: media.type, bytes, sha256, sourceUrl: media.url, hasPoster, ...(media.recordedRenditions ? { renditions: media.recordedRenditions } : {}) };
+            newRecords.push({ ...record, ...source, itemIndex, itemCount, owners: owner ? [owner] : [] });
+            items.push(toDownloadItem(record, storage, renditionsOf(media)));
+        }
+
+        const downloadedAt = new Date().toISOString();
+        for (const record of newRecords) {
+            const sidecarPath = path.join(downloadsDir, `${record.filename}.json`);
+            downloadedFilePaths.push(sidecarPath);
+            await fsPromises.writeFile(sidecarPath, JSON.stringify({
+                filename: record.filename,
+                platform: record.platform ?? null,
+                contentType: record.contentType ?? null,
+                mediaType: record.mediaType,
+                pageUrl: record.pageUrl ?? null,
+                sourceUrl: record.sourceUrl,
+                sha256: record.sha256,
+                bytes: record.bytes,
+                hasPoster: record.hasPoster,
+                itemIndex: record.itemIndex,
+                itemCount: record.itemCount,
+                downloadedAt,
+                metadata: record.metadata ?? null,
+            }, null, 2));
+        }
+
+        for (const record of newRecords) {
+            const keys = [record.filename, `${record.filename}.json`, ...(record.hasPoster ? [posterKeyFor(record.filename)] : [])];
+            for (const key of keys) {
+                await storage.put(key, path.join(downloadsDir, key));
+                storedKeys.push(key);
+            }
+        }
+
+        if (mediaIndex && newRecords.length > 0) {
+            await mediaIndex.add(newRecords);
+        }
+        return items;
+    } catch (error) {
+        for (const downloadedFilePath of downloadedFilePaths) {
+            try {
+                await fsPromises.unlink(downloadedFilePath);
+                logger.info(`Cleaned up partial file: ${downloadedFilePath}`);
+            } catch (unlinkErr) {
+                if (unlinkErr.code !== 'ENOENT') { // ENOENT means file didn't exist
+                    logger.error(`Failed to clean up partial file ${downloadedFilePath}:`, unlinkErr);
+                }
+            }
+        }
+        for (const key of storedKeys) {
+            await storage.delete(key).catch(deleteError => logger.error(`Failed to remove ${key} from storage:`, deleteError.message));
+        }
+        throw error;
+    }
+}
+
+// Fallback files are indexed so they're listed, but never reused: they aren't any post's media.
+export async function downloadFallbackContent(contentType, downloadsDir, platform, mediaIndex = null, storage = createLocalStorage({ rootDir: downloadsDir }), owner = null) {
+    try {
+        const sampleUrls = {
+            image: 'https://picsum.photos/800/600',
+            video: 'https://sample-videos.com/zip/10/mp4/SampleVideo_1280x720_1mb.mp4'
+        };
+
+        const isVideo = contentType === 'reel' || contentType === 'story' || contentType === 'video';
+        const mediaType = isVideo ? 'video' : 'image';
+
+        logger.info(`Attempting to download fallback content: ${sampleUrls[mediaType]}`);
+
+        const items = await downloadMediaItems([{ url: sampleUrls[mediaType], type: mediaType }], {
+            prefix: `${platform}_${contentType}_fallback`,
+            downloadsDir,
+            mediaIndex,
+            storage,
+            source: { platform, contentType, pageUrl: null },
+            reuseExisting: false,
+            owner,
+        });
+
+        return {
+            success: true,
+            items,
+            note: 'Fallback content - real social media content may be difficult to scrape.'
+        };
+    } catch (error) {
+        logger.error(`Critical: Fallback download failed: ${error.message}`);
+        logger.error(error.stack);
+        throw new Error(`Fallback download failed: ${error.message}`);
+    }
+}
+
+export function formatFileSize(bytes) {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
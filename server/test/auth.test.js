@@ -0,0 +1,159 @@
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import express from 'express';
+import axios from 'axios';
+import { ApiKeyError, createApiKeyStore } from '../utils/apiKeys.js';
+import { LOCAL_PRINCIPAL, canAccess, createAuth } from '../utils/auth.js';
+
+describe('API key store', () => {
+    let workDir;
+    let storePath;
+
+    beforeEach(async () => {
+        workDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'api-keys-'));
+        storePath = path.join(workDir, 'api-keys.json');
+    });
+
+    afterEach(async () => {
+        await fsPromises.rm(workDir, { recursive: true, force: true });
+    });
+
+    it('issues keys, stores only their hash and forgets revoked ones', async () => {
+        const keys = createApiKeyStore({ storePath });
+        const { key, info } = await keys.create({ name: 'Alice' });
+
+        assert.match(key, /^smd_/);
+        assert.equal(info.role, 'user');
+        assert.ok(key.startsWith(info.prefix));
+        assert.ok(!(await fsPromises.readFile(storePath, 'utf8')).includes(key), 'the key itself is never written');
+
+        const reloaded = createApiKeyStore({ storePath });
+        assert.deepEqual(await reloaded.authenticate(key), { id: info.id, name: 'Alice', role: 'user' });
+        assert.equal(await reloaded.authenticate('smd_made-up'), null);
+
+        assert.ok((await reloaded.revoke(info.id)).revokedAt);
+        assert.equal(await reloaded.authenticate(key), null);
+        assert.equal(await reloaded.principalFor(info.id), null);
+        assert.equal(await reloaded.revoke('unknown'), null);
+        await assert.rejects(reloaded.create({ name: 'Mallory', role: 'root' }), ApiKeyError);
+    });
+
+    it('issues no key it could not save', async () => {
+        const keysDir = path.join(workDir, 'keys');
+        const keys = createApiKeyStore({ storePath: path.join(keysDir, 'api-keys.json') });
+        await keys.list();
+        await fsPromises.writeFile(keysDir, ''); // A file where the store's directory should be
+
+        await assert.rejects(keys.create({ name: 'Alice' }), { code: /^(EEXIST|ENOTDIR)$/ });
+        assert.deepEqual(await keys.list(), []);
+    });
+
+    it('accepts the bootstrap admin key from the environment', async () => {
+        const keys = createApiKeyStore({ storePath, adminKey: 'bootstrap-secret' });
+
+        assert.deepEqual(await keys.authenticate('bootstrap-secret'), { id: 'admin', name: 'ADMIN_API_KEY', role: 'admin' });
+        assert.deepEqual(await keys.list(), [], 'it is not one of the stored keys');
+    });
+
+    it('lets admins see everything and users only what they own', () => {
+        const alice = { id: 'alice', name: 'Alice', role: 'user' };
+        assert.equal(canAccess(alice, ['bob', 'alice']), true);
+        assert.equal(canAccess(alice, 'bob'), false);
+        assert.equal(canAccess(alice, []), false, 'unowned files predate keys and are for admins');
+        assert.equal(canAccess(LOCAL_PRINCIPAL, null), true);
+    });
+});
+
+describe('auth middleware', () => {
+    let workDir;
+    let server;
+    let keys;
+    let baseUrl;
+
+    before(async () => {
+        workDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'auth-'));
+        keys = createApiKeyStore({ storePath: path.join(workDir, 'api-keys.json'), adminKey: 'bootstrap-secret' });
+        const auth = createAuth({ keys, required: true, secret: 'test-secret', trustedOrigins: ['http://client.example', '*'] });
+
+        const app = express();
+        app.post('/login', express.json(), async (req, res) => {
+            const user = await keys.authenticate(req.body.apiKey);
+            if (!user) return res.status(401).end();
+            res.json({ expiresAt: auth.startSession(res, user) });
+        });
+        app.get('/me', auth.authenticate, (req, res) => res.json(req.user));
+        app.get('/admin', auth.authenticate, auth.requireAdmin, (req, res) => res.json({ ok: true }));
+        app.post('/admin', auth.authenticate, auth.requireAdmin, (req, res) => res.json({ ok: true }));
+        server = await new Promise(resolve => {
+            const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+        });
+        baseUrl = `http://127.0.0.1:${server.address().port}`;
+    });
+
+    after(async () => {
+        await new Promise(resolve => server?.close(resolve));
+        await fsPromises.rm(workDir, { recursive: true, force: true });
+    });
+
+    const get = (pathname, headers = {}) => axios.get(`${baseUrl}${pathname}`, { headers, validateStatus: () => true });
+
+    it('answers 401 without a valid key', async () => {
+        const anonymous = await get('/me');
+        assert.equal(anonymous.status, 401);
+        assert.equal(anonymous.data.code, 'UNAUTHORIZED');
+        assert.equal((await get('/me', { 'X-API-Key': 'smd_made-up' })).status, 401);
+    });
+
+    it('accepts keys as a bearer token or X-API-Key and checks the role', async () => {
+        const { key, info } = await keys.create({ name: 'Bob' });
+
+        assert.equal((await get('/me', { Authorization: `Bearer ${key}` })).data.id, info.id);
+        assert.equal((await get('/me', { 'X-API-Key': key })).data.name, 'Bob');
+        const forbidden = await get('/admin', { 'X-API-Key': key });
+        assert.equal(forbidden.status, 403);
+        assert.equal(forbidden.data.code, 'FORBIDDEN');
+        assert.equal((await get('/admin', { Authorization: 'Bearer bootstrap-secret' })).status, 200);
+    });
+
+    it('signs browsers in with a cookie that ends with its key', async () => {
+        const { key, info } = await keys.create({ name: 'Carol' });
+        const login = await axios.post(`${baseUrl}/login`, { apiKey: key });
+        const [setCookie] = login.headers['set-cookie'];
+        assert.match(setCookie, /HttpOnly/);
+        assert.match(setCookie, /SameSite=Lax/);
+        const cookie = setCookie.split(';')[0];
+
+        assert.equal((await get('/me', { Cookie: cookie })).data.id, info.id);
+        const [name, value] = cookie.split('=');
+        const [keyId, expiresAt, signature] = value.split('.');
+        const forged = `${name}=${keyId}.${Number(expiresAt) + 1000}.${signature}`;
+        assert.equal((await get('/me', { Cookie: forged })).status, 401, 'the expiry is signed');
+
+        await keys.revoke(info.id);
+        assert.equal((await get('/me', { Cookie: cookie })).status, 401);
+    });
+
+    it('refuses cross-site form posts signed in only by the cookie', async () => {
+        const login = await axios.post(`${baseUrl}/login`, { apiKey: 'bootstrap-secret' });
+        const cookie = login.headers['set-cookie'][0].split(';')[0];
+        const post = (body, headers) => axios.post(`${baseUrl}/admin`, body, { headers: { Cookie: cookie, ...headers }, validateStatus: () => true });
+        const form = 'url=https%3A%2F%2Fattacker.example%2Fhook';
+
+        const refused = await post(form, { Origin: 'https://attacker.example', 'Content-Type': 'application/x-www-form-urlencoded' });
+        assert.equal(refused.status, 403);
+        assert.equal(refused.data.code, 'FORBIDDEN');
+        assert.equal((await post(form, { 'Content-Type': 'application/x-www-form-urlencoded' })).status, 403, 'no origin at all');
+
+        assert.equal((await post(form, { Origin: 'http://client.example', 'Content-Type': 'application/x-www-form-urlencoded' })).status, 200);
+        assert.equal((await post({ url: 'https://hooks.example' }, { Origin: 'https://attacker.example' })).status, 200, 'JSON needs a CORS preflight first');
+        assert.equal((await post(form, { Origin: 'https://attacker.example', 'Content-Type': 'application/x-www-form-urlencoded', 'X-API-Key': 'bootstrap-secret' })).status, 200);
+    });
+
+    it('lets everyone in as the local admin when keys are off', async () => {
+        const open = createAuth({ keys, required: false });
+        assert.deepEqual((await open.identify({ get: () => undefined })).user, LOCAL_PRINCIPAL);
+    });
+});
@@ -0,0 +1,175 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { addBatchEntries, checkBatchCapacity, completeDiscovery, createBatch, getBatch, getBatchQueueStatus, retryFailedEntries, subscribeToBatch } from '../utils/batchStore.js';
+import { parseUrlList } from '../../shared/apiContract.js';
+
+// A task that stays running until the test settles it
+function controllableTask() {
+    let settle;
+    const done = new Promise((resolve, reject) => {
+        settle = { resolve, reject };
+    });
+    return { makeTask: () => done, settle };
+}
+
+function entry(url, makeTask) {
+    return { url, request: { url, platform: 'fake', contentType: 'post' }, makeTask };
+}
+
+// Resolves with the first batch snapshot matching `predicate`
+async function waitForBatch(id, predicate) {
+    const current = getBatch(id);
+    if (predicate(current)) return current;
+    return new Promise(resolve => {
+        const unsubscribe = subscribeToBatch(id, snapshot => {
+            if (predicate(snapshot)) {
+                unsubscribe();
+                resolve(snapshot);
+            }
+        });
+    });
+}
+
+describe('batch downloads', () => {
+    it('splits pasted text and CSV files into URLs', () => {
+        const text = [
+            'url,notes',
+            'https://www.instagram.com/p/one/, first post',
+            '',
+            '# skipped comment',
+            '"https://www.facebook.com/watch?v=2";"second"',
+            'instagram.com/p/missing-scheme',
+        ].join('\r\n');
+
+        assert.deepEqual(parseUrlList(text), [
+            'https://www.instagram.com/p/one/',
+            'https://www.facebook.com/watch?v=2',
+            'instagram.com/p/missing-scheme',
+        ]);
+    });
+
+    it('runs at most the configured number of jobs at once', async () => {
+        const tasks = Array.from({ length: 5 }, () => controllableTask());
+        const batch = createBatch({
+            contentType: 'post',
+            entries: tasks.map((task, index) => entry(`https://example.com/p/${index}`, task.makeTask)),
+        });
+        const { concurrency, maxWaiting } = getBatchQueueStatus();
+
+        await new Promise(resolve => setImmediate(resolve));
+        assert.equal(getBatchQueueStatus().running, Math.min(concurrency, tasks.length));
+        assert.equal(getBatchQueueStatus().waiting, tasks.length - Math.min(concurrency, tasks.length));
+        assert.equal(getBatch(batch.id).phase, 'running');
+        assert.equal(getBatch(batch.id).quality, 'best');
+
+        tasks.forEach(task => task.settle.resolve({ success: true, items: [] }));
+        const finished = await waitForBatch(batch.id, snapshot => snapshot.phase === 'completed');
+        assert.equal(finished.counts.completed, 5);
+        assert.equal(finished.progress, 100);
+        await new Promise(resolve => setImmediate(resolve)); // Slots are freed just after the last job settles
+        assert.deepEqual(getBatchQueueStatus(), { concurrency, running: 0, waiting: 0, maxWaiting });
+    });
+
+    it('bounds the queue of waiting entries', async () => {
+        const { concurrency, maxWaiting } = getBatchQueueStatus();
+        const blocker = controllableTask();
+        const full = createBatch({
+            contentType: 'post',
+            entries: Array.from({ length: concurrency + maxWaiting }, (_, index) => entry(`https://example.com/full/${index}`, blocker.makeTask)),
+        });
+        await new Promise(resolve => setImmediate(resolve));
+
+        assert.equal(getBatchQueueStatus().waiting, maxWaiting);
+        const capacity = checkBatchCapacity(1);
+        assert.equal(capacity.available, false);
+        assert.ok(capacity.retryAfterSeconds >= 1);
+
+        // Entries an enumeration finds once the queue is full are turned away, not queued
+        const enumerated = createBatch({ contentType: 'post', source: { url: 'https://example.com/profile', kind: 'profile' } });
+        const snapshot = addBatchEntries(enumerated.id, [entry('https://example.com/late/1', blocker.makeTask)]);
+        assert.equal(snapshot.entries[0].rejected.code, 'QUEUE_FULL');
+        assert.equal(getBatchQueueStatus().waiting, maxWaiting);
+        completeDiscovery(enumerated.id);
+
+        blocker.settle.resolve({ success: true, items: [] });
+        await waitForBatch(full.id, current => current.phase === 'completed');
+        assert.equal(checkBatchCapacity(maxWaiting).available, true);
+    });
+
+    it('reports rejected URLs per entry and retries only failed ones', async () => {
+        let attempts = 0;
+        const flaky = () => {
+            attempts++;
+            return attempts === 1 ? Promise.reject(new Error('first attempt fails')) : Promise.resolve({ success: true, items: [] });
+        };
+        const batch = createBatch({
+            contentType: 'post',
+            quality: '720',
+            entries: [
+                entry('https://example.com/p/ok', async () => ({ success: true, items: [] })),
+                entry('https://example.com/p/flaky', flaky),
+                { url: 'not a url', rejected: { error: true, code: 'INVALID_REQUEST', message: 'url must be a valid URL.' } },
+            ],
+        });
+        assert.equal(batch.counts.rejected, 1);
+        assert.equal(batch.entries[2].jobId, null);
+
+        const first = await waitForBatch(batch.id, snapshot => snapshot.phase === 'completed');
+        assert.deepEqual(
+            { completed: first.counts.completed, failed: first.counts.failed, rejected: first.counts.rejected },
+            { completed: 1, failed: 1, rejected: 1 }
+        );
+        assert.equal(first.entries[1].job.error.message, 'first attempt fails');
+
+        const failedJobId = first.entries[1].jobId;
+        const retried = retryFailedEntries(batch.id);
+        assert.equal(retried.phase, 'running');
+        assert.notEqual(retried.entries[1].jobId, failedJobId);
+        assert.equal(retried.entries[0].attempts, 1, 'completed entries are not re-run');
+        assert.equal(retried.quality, '720', 'clients retry single entries in the same quality');
+
+        const second = await waitForBatch(batch.id, snapshot => snapshot.phase === 'completed');
+        assert.equal(second.counts.completed, 2);
+        assert.equal(second.entries[1].attempts, 2);
+        assert.equal(attempts, 2);
+    });
+
+    it('keeps an enumerated batch running until discovery is done', async () => {
+        const batch = createBatch({ contentType: 'post', source: { url: 'https://example.com/fixture_user/', kind: 'profile' } });
+        assert.equal(batch.phase, 'running', 'an empty batch is not done while its source is being listed');
+        assert.deepEqual(batch.source, { url: 'https://example.com/fixture_user/', kind: 'profile', status: 'discovering', found: 0, error: null });
+
+        const added = addBatchEntries(batch.id, [
+            entry('https://example.com/p/1', async () => ({ success: true, items: [] })),
+            entry('https://example.com/reel/2', async () => ({ success: true, items: [] })),
+        ]);
+        assert.deepEqual(added.entries.map(item => item.index), [0, 1]);
+        assert.equal(added.source.found, 2);
+
+        // Both downloads finish before the listing does; the batch must wait for it
+        await new Promise(resolve => setTimeout(resolve, 20));
+        const listed = getBatch(batch.id);
+        assert.equal(listed.counts.completed, 2);
+        assert.equal(listed.phase, 'running');
+
+        const done = completeDiscovery(batch.id);
+        assert.equal(done.phase, 'completed');
+        assert.equal(done.source.status, 'done');
+    });
+
+    it('completes an enumerated batch whose listing failed', () => {
+        const batch = createBatch({ contentType: 'post', source: { url: 'https://example.com/private/', kind: 'profile' } });
+        const failed = completeDiscovery(batch.id, { error: { code: 'LOGIN_REQUIRED', message: 'Login wall' } });
+
+        assert.equal(failed.phase, 'completed');
+        assert.equal(failed.source.status, 'failed');
+        assert.equal(failed.source.error.code, 'LOGIN_REQUIRED');
+    });
+
+    it('returns null for unknown batches', () => {
+        assert.equal(getBatch('missing'), null);
+        assert.equal(retryFailedEntries('missing'), null);
+        assert.equal(addBatchEntries('missing', []), null);
+        assert.equal(completeDiscovery('missing'), null);
+    });
+});
@@ -0,0 +1,131 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import { createBrowserPool } from '../utils/browserPool.js';
+
+// Minimal stand-in for a Puppeteer Browser: connection state plus the 'disconnected' event
+class FakeBrowser extends EventEmitter {
+    constructor(id) {
+        super();
+        this.id = id;
+        this.connected = true;
+    }
+
+    isConnected() {
+        return this.connected;
+    }
+
+    async close() {
+        this.crash();
+    }
+
+    crash() {
+        if (!this.connected) return;
+        this.connected = false;
+        this.emit('disconnected');
+    }
+}
+
+function fakeLauncher() {
+    const launched = [];
+    const launch = async () => {
+        const browser = new FakeBrowser(launched.length + 1);
+        launched.push(browser);
+        return browser;
+    };
+    return { launch, launched };
+}
+
+describe('browser pool', () => {
+    it('shares a browser up to the page cap, then launches another', async () => {
+        const { launch, launched } = fakeLauncher();
+        const pool = createBrowserPool({ launch, maxBrowsers: 2, maxPagesPerBrowser: 2 });
+
+        const first = await pool.getBrowser();
+        const second = await pool.getBrowser();
+        const third = await pool.getBrowser();
+
+        assert.equal(first, second);
+        assert.notEqual(first, third);
+        assert.equal(launched.length, 2);
+        assert.deepEqual(pool.getPoolStatus().browsers.map(browser => browser.activePages), [2, 1]);
+        await pool.closeAllBrowsers();
+    });
+
+    it('counts checked-out browsers towards the cap and queues callers', async () => {
+        const { launch, launched } = fakeLauncher();
+        const pool = createBrowserPool({ launch, maxBrowsers: 1, maxPagesPerBrowser: 1 });
+
+        const browser = await pool.getBrowser();
+        const waiting = pool.getBrowser();
+        assert.equal(pool.getPoolStatus().waiting, 1);
+
+        pool.releaseBrowser(browser);
+        assert.equal(await waiting, browser);
+        assert.equal(launched.length, 1);
+        await pool.closeAllBrowsers();
+    });
+
+    it('rejects waiters after the acquire timeout', async () => {
+        const { launch } = fakeLauncher();
+        const pool = createBrowserPool({ launch, maxBrowsers: 1, maxPagesPerBrowser: 1, acquireTimeoutMs: 20 });
+
+        await pool.getBrowser();
+        await assert.rejects(pool.getBrowser(), { code: 'BROWSER_ACQUIRE_TIMEOUT' });
+        assert.equal(pool.getPoolStatus().waiting, 0);
+        await pool.closeAllBrowsers();
+    });
+
+    it('replaces a crashed browser instead of handing it out again', async () => {
+        const { launch, launched } = fakeLauncher();
+        const pool = createBrowserPool({ launch, maxBrowsers: 1, maxPagesPerBrowser: 1 });
+
+        const crashed = await pool.getBrowser();
+        const waiting = pool.getBrowser();
+        crashed.crash();
+        pool.releaseBrowser(crashed);
+
+        const replacement = await waiting;
+        assert.notEqual(replacement, crashed);
+        assert.equal(replacement.isConnected(), true);
+        assert.equal(launched.length, 2);
+        await pool.closeAllBrowsers();
+    });
+
+    it('recycles a browser after its last allowed use', async () => {
+        const { launch, launched } = fakeLauncher();
+        const pool = createBrowserPool({ launch, maxBrowsers: 1, maxPagesPerBrowser: 1, maxUsesPerBrowser: 2 });
+
+        pool.releaseBrowser(await pool.getBrowser());
+        const lastUse = await pool.getBrowser();
+        pool.releaseBrowser(lastUse);
+
+        assert.equal(lastUse.isConnected(), false);
+        assert.notEqual(await pool.getBrowser(), lastUse);
+        assert.equal(launched.length, 2);
+        await pool.closeAllBrowsers();
+    });
+
+    it('reaps idle browsers', async () => {
+        const { launch } = fakeLauncher();
+        const pool = createBrowserPool({ launch, idleTimeoutMs: 1 });
+
+        const browser = await pool.getBrowser();
+        pool.releaseBrowser(browser);
+        await new Promise(resolve => setTimeout(resolve, 1100)); // Reaper runs at most once a second
+
+        assert.equal(browser.isConnected(), false);
+        assert.deepEqual(pool.getPoolStatus().browsers, []);
+    });
+
+    it('closes checked-out browsers on shutdown', async () => {
+        const { launch } = fakeLauncher();
+        const pool = createBrowserPool({ launch });
+
+        const browser = await pool.getBrowser();
+        await pool.closeAllBrowsers();
+
+        assert.equal(browser.isConnected(), false);
+        assert.deepEqual(pool.getPoolStatus().browsers, []);
+    });
+});
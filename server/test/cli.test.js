@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promises as fsPromises } from 'fs';
+import { Readable } from 'stream';
+import { fileURLToPath } from 'url';
+import { CliUsageError, EXIT_CODES, collectUrls, exitCodeFor, parseCliArgs } from '../cli.js';
+
+const cliPath = fileURLToPath(new URL('../cli.js', import.meta.url));
+
+// Run the CLI as a child process with `input` on stdin
+function runCli(args, input = '') {
+    return new Promise(resolve => {
+        const child = execFile(process.execPath, [cliPath, ...args], { timeout: 30000 }, (error, stdout, stderr) => {
+            resolve({ exitCode: child.exitCode, stdout, stderr });
+        });
+        child.stdin.end(input);
+    });
+}
+
+describe('CLI arguments', () => {
+    it('parses options with defaults and rejects bad values', () => {
+        const options = parseCliArgs(['-p', 'TEST', '--type', 'reel', '-c', '3', '--json', 'https://a.example/1', '-']);
+
+        assert.equal(options.platform, 'test');
+        assert.equal(options.contentType, 'reel');
+        assert.equal(options.concurrency, 3);
+        assert.equal(options.json, true);
+        assert.deepEqual(options.urls, ['https://a.example/1']);
+        assert.equal(options.readStdin, true);
+        assert.equal(options.outDir, path.resolve('downloads'));
+
+        assert.throws(() => parseCliArgs(['--platform', 'myspace']), CliUsageError);
+        assert.throws(() => parseCliArgs(['--type', 'album']), CliUsageError);
+        assert.throws(() => parseCliArgs(['--concurrency', '0']), CliUsageError);
+        assert.throws(() => parseCliArgs(['--colour']), CliUsageError);
+    });
+
+    it('reads URLs from arguments, a file and stdin, in that order', async () => {
+        const workDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'cli-'));
+        try {
+            const file = path.join(workDir, 'urls.txt');
+            await fsPromises.writeFile(file, '# weekly batch\nhttps://b.example/2\n\nhttps://c.example/3\n');
+            const options = parseCliArgs(['https://a.example/1', '--file', file, '-']);
+
+            assert.deepEqual(await collectUrls(options, Readable.from(['https://d.example/4\n'])), [
+                'https://a.example/1', 'https://b.example/2', 'https://c.example/3', 'https://d.example/4',
+            ]);
+            await assert.rejects(collectUrls(parseCliArgs(['--file', path.join(workDir, 'missing.txt')])), CliUsageError);
+        } finally {
+            await fsPromises.rm(workDir, { recursive: true, force: true });
+        }
+    });
+
+    it('picks an exit code for the kind of failure', () => {
+        assert.equal(exitCodeFor([]), EXIT_CODES.OK);
+        assert.equal(exitCodeFor(['NO_MEDIA_FOUND', 'CONTENT_UNAVAILABLE']), EXIT_CODES.NO_MEDIA);
+        assert.equal(exitCodeFor(['SESSION_EXPIRED']), EXIT_CODES.LOGIN_REQUIRED);
+        assert.equal(exitCodeFor(['NAVIGATION_TIMEOUT', 'CDN_FETCH_REFUSED']), EXIT_CODES.NETWORK);
+        assert.equal(exitCodeFor(['LOGIN_REQUIRED', 'NAVIGATION_TIMEOUT']), EXIT_CODES.FAILED, 'mixed failures');
+        assert.equal(exitCodeFor(['EXTRACTION_FAILED']), EXIT_CODES.FAILED);
+    });
+});
+
+describe('CLI process', () => {
+    it('exits with the usage code when there is nothing to do', async () => {
+        const { exitCode, stdout, stderr } = await runCli([]);
+
+        assert.equal(exitCode, EXIT_CODES.USAGE);
+        assert.equal(stdout, '');
+        assert.match(stderr, /No URLs given/);
+    });
+
+    it('prints JSON lines for URLs read from stdin', async () => {
+        const { exitCode, stdout } = await runCli(['--json'], 'https://unknown.example/post/1\n');
+        const events = stdout.trim().split('\n').map(line => JSON.parse(line));
+
+        assert.equal(exitCode, EXIT_CODES.FAILED);
+        assert.deepEqual(events.map(event => event.type), ['result', 'summary']);
+        assert.equal(events[0].error.code, 'UNSUPPORTED_PLATFORM');
+        assert.deepEqual(events[1], { type: 'summary', downloaded: 0, failed: 1, files: 0, exitCode: EXIT_CODES.FAILED });
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import { ConfigError, describeConfig, loadConfig } from '../utils/config.js';
+
+describe('configuration', () => {
+    it('has working defaults and derives the public URL and store paths', () => {
+        const config = loadConfig({ env: { PORT: '8080', DATA_DIR: '/var/lib/downloader' } });
+
+        assert.equal(config.server.publicBaseUrl, 'http://localhost:8080');
+        assert.equal(config.paths.mediaIndex, path.join('/var/lib/downloader', 'media-index.json'));
+        assert.equal(config.timeouts.navigationMs, 45000);
+        assert.equal(config.browser.maxBrowsers, 2);
+        assert.equal(config.retention.ttlHours, null);
+        assert.equal(config.features.staticExtraction, true);
+        assert.ok(Object.isFrozen(config.server));
+        assert.equal(config.sources['server.port'], 'env:PORT');
+        assert.equal(config.sources['jobs.maxConcurrent'], 'default');
+    });
+
+    it('reads a config file, with the environment taking precedence', async () => {
+        const workDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'config-'));
+        try {
+            const configFile = path.join(workDir, 'downloader.json');
+            await fsPromises.writeFile(configFile, JSON.stringify({
+                server: { publicBaseUrl: 'https://dl.example.com/', corsOrigins: ['https://app.example.com'] },
+                paths: { downloadsDir: 'files' },
+                browser: { maxBrowsers: 4 },
+                features: { sampleFallback: false },
+            }));
+            const config = loadConfig({ env: { CONFIG_FILE: configFile, BROWSER_POOL_MAX_BROWSERS: '1' } });
+
+            assert.equal(config.server.publicBaseUrl, 'https://dl.example.com', 'no trailing slash');
+            assert.deepEqual(config.server.corsOrigins, ['https://app.example.com']);
+            assert.equal(config.paths.downloadsDir, path.join(workDir, 'files'), 'relative to the file');
+            assert.equal(config.browser.maxBrowsers, 1);
+            assert.equal(config.features.sampleFallback, false);
+            assert.equal(config.sources['browser.maxBrowsers'], 'env:BROWSER_POOL_MAX_BROWSERS');
+            assert.equal(config.sources['server.publicBaseUrl'], 'file');
+
+            await fsPromises.writeFile(configFile, JSON.stringify({ browser: { maxBrowser: 4 } }));
+            assert.throws(() => loadConfig({ env: { CONFIG_FILE: configFile } }), /browser\.maxBrowser \(config file\): not a known setting/);
+            assert.throws(() => loadConfig({ env: { CONFIG_FILE: path.join(workDir, 'missing.json') } }), ConfigError);
+        } finally {
+            await fsPromises.rm(workDir, { recursive: true, force: true });
+        }
+    });
+
+    it('reports every invalid setting at once', () => {
+        let error = null;
+        try {
+            loadConfig({ env: { PORT: 'eighty', PUBLIC_BASE_URL: 'ftp://files', MAX_CONCURRENT_JOBS: '0', FEATURE_WEBHOOKS: 'maybe', STORAGE_BACKEND: 'gcs' } });
+        } catch (caught) {
+            error = caught;
+        }
+
+        assert.ok(error instanceof ConfigError);
+        assert.deepEqual(error.problems, [
+            'PORT: must be a number',
+            'PUBLIC_BASE_URL: must be an http(s) URL',
+            'STORAGE_BACKEND: must be one of: local, s3',
+            'MAX_CONCURRENT_JOBS: must be at least 1',
+            'FEATURE_WEBHOOKS: must be true or false',
+        ]);
+        assert.throws(() => loadConfig({ env: { STORAGE_BACKEND: 's3', S3_BUCKET: 'media' } }), /STORAGE_BACKEND=s3 needs/);
+    });
+
+    it('masks secrets in the description', () => {
+        const description = describeConfig(loadConfig({ env: { ADMIN_API_KEY: 'bootstrap-secret', S3_SECRET_ACCESS_KEY: 'shh' } }));
+
+        assert.equal(description.values.auth.adminApiKey, '********');
+        assert.equal(description.values.storage.s3.secretAccessKey, '********');
+        assert.equal(description.values.auth.sessionSecret, null, 'unset secrets stay visible as unset');
+        assert.ok(!JSON.stringify(description).includes('bootstrap-secret'));
+        assert.ok(!JSON.stringify(description).includes('shh'));
+        assert.equal(description.configFile, null);
+    });
+});
@@ -0,0 +1,182 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import { fileURLToPath } from 'url';
+import { parseIsoDuration, parseMpd, selectAudio } from '../utils/dashManifest.js';
+import { muxFragmentedTracks } from '../utils/mp4Mux.js';
+import { downloadInstagramContent } from '../services/instagram.js';
+import { downloadFacebookContent } from '../services/facebook.js';
+import { startFixtureServer } from './helpers/fixtureServer.js';
+import { createDashTrack, readBoxTree } from './helpers/fmp4.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const REEL_MPD = path.join(__dirname, 'fixtures', 'dash', 'reel.mpd');
+
+const findChild = (box, type) => box.children.find(candidate => candidate.type === type);
+// tkhd, trex and tfhd in the fixtures are version 0, so their track IDs sit at fixed offsets
+const tkhdTrackId = (trak) => findChild(trak, 'tkhd').data.readUInt32BE(12);
+const tfhdTrackId = (moof) => findChild(findChild(moof, 'traf'), 'tfhd').data.readUInt32BE(4);
+
+// Track IDs of the moov, then [sequence number, track ID, sample bytes] of each fragment
+function describeMuxed(buffer) {
+    const boxes = readBoxTree(buffer);
+    const moov = boxes.find(box => box.type === 'moov');
+    const fragments = [];
+    boxes.forEach((box, index) => {
+        if (box.type !== 'moof') return;
+        fragments.push([findChild(box, 'mfhd').data.readUInt32BE(4), tfhdTrackId(box), boxes[index + 1].data]);
+    });
+    return {
+        types: [...new Set(boxes.map(box => box.type))],
+        tracks: moov.children.filter(box => box.type === 'trak').map(tkhdTrackId),
+        defaults: findChild(moov, 'mvex').children.map(trex => trex.data.readUInt32BE(4)),
+        nextTrackId: findChild(moov, 'mvhd').data.readUInt32BE(96),
+        fragments,
+    };
+}
+
+describe('DASH manifests', () => {
+    it('lists video and audio representations with the URL of every segment', async () => {
+        const xml = (await fsPromises.readFile(REEL_MPD, 'utf8')).replaceAll('{{ORIGIN}}', 'https://cdn.example');
+        const manifest = parseMpd(xml, 'https://cdn.example/manifests/reel.mpd');
+
+        assert.equal(manifest.durationSeconds, 6);
+        assert.deepEqual(manifest.video.map(({ id, width, height, bandwidth }) => ({ id, width, height, bandwidth })), [
+            { id: '720', width: 720, height: 1280, bandwidth: 1200000 },
+            { id: '360', width: 360, height: 640, bandwidth: 400000 },
+        ]);
+        assert.deepEqual(manifest.video[1].initialization, { url: 'https://cdn.example/dash/video-360-init.mp4', range: null });
+        assert.deepEqual(manifest.video[1].segments.map(segment => segment.url), [1, 2, 3].map(n => `https://cdn.example/dash/video-360-${n}.m4s`));
+        assert.deepEqual(manifest.audio.map(audio => audio.segments), [
+            [{ url: 'https://cdn.example/dash/audio-low-full.mp4', range: null }],
+            [{ url: 'https://cdn.example/dash/audio-full.mp4', range: null }],
+        ]);
+        assert.equal(selectAudio(manifest.audio).id, 'audio', 'the best audio goes with every video');
+    });
+
+    it('expands padded numbers, open-ended timelines, fixed durations and byte ranges', () => {
+        const manifest = parseMpd(`<MPD mediaPresentationDuration="PT5S"><Period>
+            <AdaptationSet mimeType="video/mp4">
+                <Representation id="a" bandwidth="1" height="240">
+                    <SegmentTemplate timescale="10" media="$RepresentationID$/$Number%03d$.m4s" startNumber="0" duration="20"/>
+                </Representation>
+                <Representation id="b" bandwidth="1" height="240">
+                    <SegmentTemplate timescale="10" media="t-$Time$.m4s"><SegmentTimeline><S t="10" d="20" r="-1"/></SegmentTimeline></SegmentTemplate>
+                </Representation>
+            </AdaptationSet>
+            <AdaptationSet mimeType="audio/mp4"><BaseURL>audio.mp4</BaseURL>
+                <Representation id="c" bandwidth="1">
+                    <SegmentList><Initialization range="0-99"/><SegmentURL mediaRange="100-599"/></SegmentList>
+                </Representation>
+            </AdaptationSet>
+        </Period></MPD>`, 'https://cdn.example/v/manifest.mpd');
+
+        assert.deepEqual(manifest.video[0].segments.map(segment => segment.url.split('/v/')[1]), ['a/000.m4s', 'a/001.m4s', 'a/002.m4s']);
+        assert.deepEqual(manifest.video[1].segments.map(segment => segment.url.split('/v/')[1]), ['t-10.m4s', 't-30.m4s'], 'r="-1" repeats to the end');
+        assert.deepEqual(manifest.audio[0].initialization, { url: 'https://cdn.example/v/audio.mp4', range: { start: 0, end: 99 } });
+        assert.deepEqual(manifest.audio[0].segments, [{ url: 'https://cdn.example/v/audio.mp4', range: { start: 100, end: 599 } }]);
+        assert.equal(parseIsoDuration('PT1M3.5S'), 63.5);
+        assert.throws(() => parseMpd('<MPD type="dynamic"><Period/></MPD>', 'https://cdn.example/live.mpd'), /Live/);
+    });
+});
+
+describe('muxing fragmented tracks', () => {
+    let workDir;
+
+    before(async () => {
+        workDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'mp4-mux-'));
+    });
+
+    after(async () => {
+        await fsPromises.rm(workDir, { recursive: true, force: true });
+    });
+
+    it('merges both tracks into one moov and interleaves their fragments by time', async () => {
+        const video = createDashTrack('video-720');
+        const audio = createDashTrack('audio');
+        const videoPath = path.join(workDir, 'video.mp4');
+        const audioPath = path.join(workDir, 'audio.mp4');
+        await fsPromises.writeFile(videoPath, Buffer.concat([video.init, ...video.segments]));
+        await fsPromises.writeFile(audioPath, Buffer.concat([audio.init, ...audio.segments]));
+
+        const outputPath = path.join(workDir, 'muxed.mp4');
+        const bytes = await muxFragmentedTracks([videoPath, audioPath], outputPath);
+        const muxed = await fsPromises.readFile(outputPath);
+
+        assert.equal(bytes, muxed.length);
+        const described = describeMuxed(muxed);
+        assert.deepEqual(described.types, ['ftyp', 'moov', 'moof', 'mdat'], 'segment types and indexes are dropped');
+        assert.deepEqual(described.tracks, [1, 2]);
+        assert.deepEqual(described.defaults, [1, 2]);
+        assert.equal(described.nextTrackId, 3);
+        // Video fragments start at 0, 2 and 4 seconds, audio ones at 0 and 3
+        assert.deepEqual(described.fragments, [
+            [1, 1, video.payloads[0]],
+            [2, 2, audio.payloads[0]],
+            [3, 1, video.payloads[1]],
+            [4, 2, audio.payloads[1]],
+            [5, 1, video.payloads[2]],
+        ]);
+    });
+
+    it('refuses files without a movie header', async () => {
+        const { init } = createDashTrack('video-720');
+        const headerless = path.join(workDir, 'headerless.mp4');
+        await fsPromises.writeFile(headerless, init.subarray(0, init.readUInt32BE(0))); // Just the ftyp
+
+        await assert.rejects(muxFragmentedTracks([headerless], path.join(workDir, 'out.mp4')), /no moov/);
+    });
+});
+
+// No browser involved: both pages carry their video in inline data
+describe('DASH-only videos', () => {
+    let fixtures;
+    let downloadsDir;
+
+    before(async () => {
+        fixtures = await startFixtureServer();
+        downloadsDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'dash-'));
+    });
+
+    after(async () => {
+        await fixtures?.close();
+        await fsPromises.rm(downloadsDir, { recursive: true, force: true });
+    });
+
+    it('downloads an Instagram reel from its inline manifest with its sound', async () => {
+        const result = await downloadInstagramContent(fixtures.pageUrl('instagram/dash-reel.html'), 'reel', downloadsDir);
+
+        assert.equal(result.strategy, 'static');
+        assert.equal(result.items.length, 1);
+        assert.equal(result.items[0].sourceUrl, fixtures.mediaUrl('/dash/video-540-init.mp4'));
+        const written = await fsPromises.readFile(path.join(downloadsDir, result.items[0].filename));
+        const video = createDashTrack('video-540');
+        const audio = createDashTrack('audio');
+        assert.deepEqual(describeMuxed(written).fragments.map(([, trackId, payload]) => [trackId, payload]), [
+            [1, video.payloads[0]],
+            [2, audio.payloads[0]],
+            [1, video.payloads[1]],
+            [2, audio.payloads[1]],
+            [1, video.payloads[2]],
+        ]);
+        const leftovers = (await fsPromises.readdir(downloadsDir)).filter(name => name.endsWith('.part'));
+        assert.deepEqual(leftovers, [], 'track files are cleaned up');
+    });
+
+    it('fetches a linked Facebook manifest and picks the representation for the quality', async () => {
+        const result = await downloadFacebookContent(fixtures.pageUrl('facebook/dash-video.html'), 'reel', downloadsDir, undefined, { quality: 720 });
+
+        assert.equal(result.items[0].sourceUrl, fixtures.mediaUrl('/dash/video-360-init.mp4'));
+        assert.deepEqual(result.items[0].renditions.map(({ label, approxBytes, selected }) => ({ label, approxBytes, selected })), [
+            { label: '1280p', approxBytes: 996000, selected: false },
+            { label: '640p', approxBytes: 396000, selected: true },
+        ]);
+        const requested = fixtures.mediaRequests.map(request => request.pathname);
+        assert.ok(requested.includes('/dash/audio-full.mp4'), 'the better audio track');
+        assert.ok(!requested.some(pathname => pathname.startsWith('/dash/video-720')), 'only the chosen video representation is fetched');
+        const written = await fsPromises.readFile(path.join(downloadsDir, result.items[0].filename));
+        assert.deepEqual(describeMuxed(written).tracks, [1, 2]);
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { findExtractorForUrl, resolveExtractor, listPlatforms } from '../services/extractorRegistry.js';
+
+describe('extractor registry', () => {
+    it('detects the platform from the URL', () => {
+        assert.equal(findExtractorForUrl('https://www.instagram.com/p/C0ffee123/')?.id, 'instagram');
+        assert.equal(findExtractorForUrl('https://instagram.com/reel/C0ffee123/')?.id, 'instagram');
+        assert.equal(findExtractorForUrl('https://www.facebook.com/fixturepage/posts/101')?.id, 'facebook');
+        assert.equal(findExtractorForUrl('https://fb.watch/abc123/')?.id, 'facebook');
+        assert.equal(findExtractorForUrl('https://example.com/test-content/1')?.id, 'test');
+    });
+
+    it('does not match look-alike hosts', () => {
+        assert.equal(findExtractorForUrl('https://instagram.com.evil.example/p/1'), null);
+        assert.equal(findExtractorForUrl('https://notfacebook.com/post'), null);
+    });
+
+    it('prefers the URL over the platform hint', () => {
+        assert.equal(resolveExtractor('https://www.facebook.com/fixturepage/videos/1', 'instagram')?.id, 'facebook');
+        assert.equal(resolveExtractor('https://example.com/anything', 'test')?.id, 'test');
+        assert.equal(resolveExtractor('https://example.com/anything'), null);
+    });
+
+    it('describes every registered platform', () => {
+        const platforms = listPlatforms();
+        assert.deepEqual(platforms.map(platform => platform.id), ['instagram', 'facebook', 'test']);
+        for (const platform of platforms) {
+            assert.equal(typeof platform.name, 'string');
+            assert.ok(Array.isArray(platform.hostnames));
+            assert.ok(Array.isArray(platform.contentTypes));
+        }
+    });
+});
+
+describe('listing URLs', () => {
+    const listingOf = (url) => findExtractorForUrl(url)?.describeListing(url) ?? null;
+
+    it('recognises Instagram profiles and highlights but not posts', () => {
+        assert.deepEqual(listingOf('https://www.instagram.com/fixture_user/'), { kind: 'profile', contentType: 'post' });
+        assert.deepEqual(listingOf('https://www.instagram.com/stories/highlights/17900000000000000/'), { kind: 'highlight', contentType: 'highlight' });
+        assert.equal(listingOf('https://www.instagram.com/p/C0ffee123/'), null);
+        assert.equal(listingOf('https://www.instagram.com/explore/'), null);
+        assert.equal(listingOf('https://www.instagram.com/stories/fixture_user/3300000000000000000/'), null);
+    });
+
+    it('recognises Facebook pages and their videos tab but not posts', () => {
+        assert.deepEqual(listingOf('https://www.facebook.com/fixturepage'), { kind: 'page', contentType: 'post' });
+        assert.deepEqual(listingOf('https://www.facebook.com/profile.php?id=100000000000001'), { kind: 'page', contentType: 'post' });
+        assert.deepEqual(listingOf('https://www.facebook.com/fixturepage/videos/'), { kind: 'videos', contentType: 'reel' });
+        assert.equal(listingOf('https://www.facebook.com/fixturepage/videos/3003/'), null);
+        assert.equal(listingOf('https://www.facebook.com/watch/'), null);
+        assert.equal(listingOf('https://fb.watch/abc123/'), null);
+    });
+});
@@ -0,0 +1,113 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import { downloadFacebookContent, facebookExtractor } from '../services/facebook.js';
+import { enumerateWithExtractor } from '../services/mediaPipeline.js';
+import { closeAllBrowsers } from '../utils/browserPool.js';
+import { posterPathFor } from '../utils/imageVariants.js';
+import { startFixtureServer } from './helpers/fixtureServer.js';
+import { probeBrowser } from './helpers/browser.js';
+import { mediaForPath } from './helpers/media.js';
+
+const browser = await probeBrowser();
+
+describe('Facebook extractor against saved page snapshots', { skip: browser.available ? false : browser.reason, timeout: 120000 }, () => {
+    let fixtures;
+    let downloadsDir;
+
+    before(async () => {
+        fixtures = await startFixtureServer();
+        downloadsDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'facebook-fixtures-'));
+    });
+
+    after(async () => {
+        await closeAllBrowsers();
+        await fixtures?.close();
+        if (downloadsDir) {
+            await fsPromises.rm(downloadsDir, { recursive: true, force: true });
+        }
+    });
+
+    // Every returned item must be a real file matching the bytes the fixture CDN served
+    async function assertWrittenItems(result, expectedPaths) {
+        assert.equal(result.success, true);
+        assert.equal(result.note, undefined, 'fallback content must not be served for a working fixture');
+        assert.deepEqual(result.items.map(item => item.sourceUrl), expectedPaths.map(fixtures.mediaUrl));
+
+        for (const [index, item] of result.items.entries()) {
+            assert.ok(item.filename.startsWith('facebook_'));
+            const written = await fsPromises.readFile(path.join(downloadsDir, item.filename));
+            assert.deepEqual(written, mediaForPath(expectedPaths[index]).body);
+        }
+    }
+
+    it('downloads every photo of a multi-photo post and skips the avatar', async () => {
+        const result = await downloadFacebookContent(fixtures.pageUrl('facebook/photo-album.html'), 'post', downloadsDir);
+
+        await assertWrittenItems(result, [
+            '/fbcdn.net/v/t39/album-1_960x720.jpg',
+            '/fbcdn.net/v/t39/album-2_720x960.jpg',
+            '/fbcdn.net/v/t39/album-3_960x960.jpg',
+        ]);
+        assert.deepEqual(result.items.map(item => item.mediaType), ['image', 'image', 'image']);
+        assert.deepEqual(result.metadata, {
+            author: { handle: 'fixturepage', displayName: 'Fixture Page' },
+            caption: 'Three shots from the harbour festival #harbourfest with @fixture.friend',
+            hashtags: ['harbourfest'],
+            mentions: ['fixture.friend'],
+            postedAt: '2024-03-01T18:30:00.000Z',
+            likeCount: 2400,
+            viewCount: 18000,
+        });
+    });
+
+    it('downloads the rendered video rather than og:video', async () => {
+        const result = await downloadFacebookContent(fixtures.pageUrl('facebook/video.html'), 'reel', downloadsDir);
+
+        await assertWrittenItems(result, ['/fbcdn.net/v/t42/video-sd.mp4']);
+        assert.equal(result.items[0].mediaType, 'video');
+        // The poster frame is kept for the thumbnail
+        const poster = await fsPromises.readFile(posterPathFor(downloadsDir, result.items[0].filename));
+        assert.deepEqual(poster, mediaForPath('/fbcdn.net/v/t15/video-poster_1280x720.jpg').body);
+        assert.ok(result.items[0].filename.endsWith('.mp4'));
+    });
+
+    it('falls back to og:image when no media is rendered', async () => {
+        const result = await downloadFacebookContent(fixtures.pageUrl('facebook/og-only.html'), 'post', downloadsDir);
+
+        await assertWrittenItems(result, ['/fbcdn.net/v/t39/og-only_1200x630.jpg']);
+    });
+
+    it('reports a login wall instead of serving fallback media', async () => {
+        await assert.rejects(
+            downloadFacebookContent(fixtures.pageUrl('facebook/login-wall.html'), 'post', downloadsDir),
+            { name: 'ExtractionError', code: 'LOGIN_REQUIRED' }
+        );
+    });
+
+    it('reports removed posts as unavailable', async () => {
+        await assert.rejects(
+            downloadFacebookContent(fixtures.pageUrl('facebook/unavailable.html'), 'post', downloadsDir),
+            { name: 'ExtractionError', code: 'CONTENT_UNAVAILABLE' }
+        );
+    });
+
+    it('lists numbered videos from the videos tab, newest first, down to the date cutoff', async () => {
+        const extractor = { ...facebookExtractor, describeListing: () => ({ kind: 'videos', contentType: 'reel' }) };
+        const items = await enumerateWithExtractor(extractor, fixtures.pageUrl('facebook/videos.html'), { limit: 10, since: '2024-01-01' });
+
+        assert.deepEqual(items, [
+            { url: fixtures.mediaUrl('/fixturepage/videos/3003/'), contentType: 'reel', postedAt: '2024-03-01T10:00:00.000Z' },
+            { url: fixtures.mediaUrl('/fixturepage/videos/3002/'), contentType: 'reel', postedAt: '2024-02-01T10:00:00.000Z' },
+        ]);
+    });
+
+    it('sends the Facebook referer with media requests', () => {
+        assert.ok(fixtures.mediaRequests.length > 0);
+        for (const request of fixtures.mediaRequests) {
+            assert.equal(request.headers.referer, 'https://www.facebook.com/');
+        }
+    });
+});
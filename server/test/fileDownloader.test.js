@@ -0,0 +1,112 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { promises as fsPromises } from 'fs';
+import { downloadToFile } from '../utils/fileDownloader.js';
+import { createVideoBytes } from './helpers/media.js';
+
+const BODY = createVideoBytes('/resumable.mp4', 256 * 1024);
+const RETRY = { retryDelayMs: 5 };
+
+/*
+ * Media server with scripted failures, keyed by path:
+ *   /drops-once   first request breaks off halfway, later ones honour Range
+ *   /no-range     breaks off halfway once, and always answers 200 with the full body
+ *   /always-drops every request breaks off halfway
+ *   /forbidden    403
+ */
+async function startFlakyServer() {
+    const requests = [];
+    const server = http.createServer((req, res) => {
+        const { pathname } = new URL(req.url, 'http://flaky.local');
+        const attempt = requests.filter(request => request.pathname === pathname).length + 1;
+        requests.push({ pathname, range: req.headers.range });
+
+        if (pathname === '/forbidden') {
+            res.writeHead(403).end();
+            return;
+        }
+
+        const dropHalfway = pathname === '/always-drops' || attempt === 1;
+        const range = /bytes=(\d+)-/.exec(req.headers.range || '');
+        const start = range && pathname !== '/no-range' ? Number(range[1]) : 0;
+        const headers = { 'Content-Type': 'video/mp4', 'Content-Length': BODY.length - start, ETag: '"fixture"' };
+        if (start > 0) {
+            headers['Content-Range'] = `bytes ${start}-${BODY.length - 1}/${BODY.length}`;
+        }
+        res.writeHead(start > 0 ? 206 : 200, headers);
+
+        if (dropHalfway) {
+            res.write(BODY.subarray(start, start + Math.floor((BODY.length - start) / 2)), () => res.destroy());
+        } else {
+            res.end(BODY.subarray(start));
+        }
+    });
+
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    const origin = `http://127.0.0.1:${server.address().port}`;
+    return {
+        requests,
+        url: (pathname) => `${origin}${pathname}`,
+        close: () => new Promise(resolve => server.close(resolve)),
+    };
+}
+
+describe('resumable file downloads', () => {
+    let flaky;
+    let downloadsDir;
+
+    before(async () => {
+        flaky = await startFlakyServer();
+        downloadsDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'file-downloader-'));
+    });
+
+    after(async () => {
+        await flaky?.close();
+        if (downloadsDir) {
+            await fsPromises.rm(downloadsDir, { recursive: true, force: true });
+        }
+    });
+
+    it('resumes an interrupted download with a Range request', async () => {
+        const finalPath = path.join(downloadsDir, 'resumed.mp4');
+        const result = await downloadToFile(flaky.url('/drops-once'), finalPath, RETRY);
+
+        assert.deepEqual(await fsPromises.readFile(finalPath), BODY);
+        assert.equal(result.bytes, BODY.length);
+        assert.equal(result.sha256, createHash('sha256').update(BODY).digest('hex'));
+
+        const attempts = flaky.requests.filter(request => request.pathname === '/drops-once');
+        assert.equal(attempts.length, 2);
+        assert.equal(attempts[0].range, undefined);
+        assert.match(attempts[1].range, /^bytes=\d+-$/);
+        assert.notEqual(attempts[1].range, 'bytes=0-');
+    });
+
+    it('starts over when the server ignores the Range header', async () => {
+        const finalPath = path.join(downloadsDir, 'restarted.mp4');
+        await downloadToFile(flaky.url('/no-range'), finalPath, RETRY);
+
+        assert.deepEqual(await fsPromises.readFile(finalPath), BODY);
+    });
+
+    it('leaves neither a final nor a part file when every attempt is cut short', async () => {
+        const finalPath = path.join(downloadsDir, 'truncated.mp4');
+
+        await assert.rejects(downloadToFile(flaky.url('/always-drops'), finalPath, { ...RETRY, maxAttempts: 3 }));
+        assert.equal(flaky.requests.filter(request => request.pathname === '/always-drops').length, 3);
+        await assert.rejects(fsPromises.access(finalPath), { code: 'ENOENT' });
+        await assert.rejects(fsPromises.access(`${finalPath}.part`), { code: 'ENOENT' });
+    });
+
+    it('does not retry refusals', async () => {
+        const finalPath = path.join(downloadsDir, 'forbidden.mp4');
+
+        await assert.rejects(downloadToFile(flaky.url('/forbidden'), finalPath, RETRY), { isAxiosError: true });
+        assert.equal(flaky.requests.filter(request => request.pathname === '/forbidden').length, 1);
+        assert.deepEqual(await fsPromises.readdir(downloadsDir).then(files => files.filter(file => file.startsWith('forbidden'))), []);
+    });
+});
@@ -0,0 +1,13 @@
+import { getBrowser, releaseBrowser } from '../../utils/browserPool.js';
+
+// Extractor suites need a working Chromium. Probe once so they can skip cleanly where it
+// can't start (missing system libraries, no bundled browser) instead of failing every case.
+export async function probeBrowser() {
+    try {
+        const browser = await getBrowser();
+        releaseBrowser(browser);
+        return { available: true };
+    } catch (error) {
+        return { available: false, reason: `Chromium could not be launched: ${error.message.split('\n')[0]}` };
+    }
+}
@@ -0,0 +1,15 @@
+// Browserless extractor returning a fixed media list, so the pipeline runs without Chromium.
+// `contentType` is the one kind of content it describes; `metadata`, when given, is the raw post
+// metadata it extracts (see postMetadata.js). Other extractor fields can be overridden.
+export function fakeExtractor(media, { contentType = 'post', metadata = null, ...overrides } = {}) {
+    return {
+        id: 'fake',
+        requiresBrowser: false,
+        fallbackOnFailure: false,
+        matches: () => true,
+        describe: () => ({ id: 'fake', name: 'Fake', hostnames: [], contentTypes: [contentType], selectable: false }),
+        extract: async () => media,
+        ...(metadata ? { extractMetadata: async () => metadata } : {}),
+        ...overrides,
+    };
+}
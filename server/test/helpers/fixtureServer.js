@@ -0,0 +1,63 @@
+import http from 'http';
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import { fileURLToPath } from 'url';
+import { mediaForPath } from './media.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures');
+
+/*
+ * Local stand-in for the platforms and their CDNs.
+ *   /pages/<platform>/<name>.html  saved page snapshot; {{ORIGIN}} is replaced with this server's origin
+ *   /refused/...                   403, like a CDN rejecting an expired or hotlinked URL
+ *   anything else                  generated media (see mediaForPath), logged in `mediaRequests`
+ */
+export async function startFixtureServer() {
+    const mediaRequests = [];
+
+    const server = http.createServer(async (req, res) => {
+        const { pathname } = new URL(req.url, 'http://fixture.local');
+
+        if (pathname.startsWith('/pages/')) {
+            const relative = path.normalize(pathname.slice('/pages/'.length));
+            if (relative.startsWith('..')) {
+                res.writeHead(400).end();
+                return;
+            }
+            try {
+                const html = await fsPromises.readFile(path.join(FIXTURES_DIR, relative), 'utf8');
+                res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+                res.end(html.replaceAll('{{ORIGIN}}', origin));
+            } catch {
+                res.writeHead(404).end();
+            }
+            return;
+        }
+
+        if (pathname.startsWith('/refused/')) {
+            res.writeHead(403).end();
+            return;
+        }
+
+        const media = mediaForPath(pathname);
+        if (!media) {
+            res.writeHead(404).end();
+            return;
+        }
+        mediaRequests.push({ pathname, headers: req.headers });
+        res.writeHead(200, { 'Content-Type': media.contentType, 'Content-Length': media.body.length });
+        res.end(req.method === 'HEAD' ? undefined : media.body);
+    });
+
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    const origin = `http://127.0.0.1:${server.address().port}`;
+
+    return {
+        origin,
+        mediaRequests,
+        pageUrl: (fixture) => `${origin}/pages/${fixture}`,
+        mediaUrl: (pathname) => `${origin}${pathname}`,
+        close: () => new Promise(resolve => server.close(resolve)),
+    };
+}
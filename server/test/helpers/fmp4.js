@@ -0,0 +1,107 @@
+import { createVideoBytes } from './media.js';
+
+// Minimal fragmented MP4 tracks, shaped like DASH packagers write them, for the manifest and
+// muxing tests. The sample bytes are noise: only the box structure is real.
+
+function box(type, ...payloads) {
+    const body = Buffer.concat(payloads);
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(8 + body.length, 0);
+    header.write(type, 4, 'latin1');
+    return Buffer.concat([header, body]);
+}
+
+// Full box: version, 24-bit flags, then the fields
+function fullBox(type, version, flags, ...payloads) {
+    const header = Buffer.alloc(4);
+    header.writeUInt32BE(((version << 24) | flags) >>> 0, 0);
+    return box(type, header, ...payloads);
+}
+
+const u32 = (...values) => {
+    const buffer = Buffer.alloc(4 * values.length);
+    values.forEach((value, index) => buffer.writeUInt32BE(value, index * 4));
+    return buffer;
+};
+const u64 = (value) => {
+    const buffer = Buffer.alloc(8);
+    buffer.writeBigUInt64BE(BigInt(value), 0);
+    return buffer;
+};
+const IDENTITY_MATRIX = u32(0x10000, 0, 0, 0, 0x10000, 0, 0, 0, 0x40000000);
+
+function initSegment({ trackId, handler, timescale, defaultDuration }) {
+    const tkhd = fullBox('tkhd', 0, 3, u32(0, 0, trackId, 0, 0), Buffer.alloc(8), Buffer.alloc(8), IDENTITY_MATRIX, u32(0, 0));
+    const mdhd = fullBox('mdhd', 0, 0, u32(0, 0, timescale, 0), Buffer.from([0x55, 0xc4, 0, 0]));
+    const hdlr = fullBox('hdlr', 0, 0, u32(0), Buffer.from(handler), Buffer.alloc(12), Buffer.from('fixture\0'));
+    const stbl = box('stbl', fullBox('stsd', 0, 0, u32(0)), fullBox('stts', 0, 0, u32(0)), fullBox('stsc', 0, 0, u32(0)),
+        fullBox('stsz', 0, 0, u32(0, 0)), fullBox('stco', 0, 0, u32(0)));
+    const mediaHeader = handler === 'vide' ? fullBox('vmhd', 0, 1, Buffer.alloc(8)) : fullBox('smhd', 0, 0, Buffer.alloc(4));
+    const trak = box('trak', tkhd, box('mdia', mdhd, hdlr, box('minf', mediaHeader, stbl)));
+    const mvhd = fullBox('mvhd', 0, 0, u32(0, 0, 1000, 0, 0x10000), Buffer.from([1, 0]), Buffer.alloc(10), IDENTITY_MATRIX, Buffer.alloc(24), u32(trackId + 1));
+    const trex = fullBox('trex', 0, 0, u32(trackId, 1, defaultDuration, 0, 0));
+    return Buffer.concat([
+        box('ftyp', Buffer.from('iso6'), u32(0), Buffer.from('iso6dash')),
+        box('moov', mvhd, trak, box('mvex', trex)),
+    ]);
+}
+
+// styp + moof + mdat, with sample offsets relative to the moof (default-base-is-moof)
+function mediaSegment({ trackId, sequenceNumber, decodeTime, sampleDuration, payload, samples }) {
+    const sampleSize = Math.ceil(payload.length / samples);
+    const sizes = Array.from({ length: samples }, (_, index) => Math.min(sampleSize, payload.length - index * sampleSize));
+    const moofWith = (dataOffset) => box('moof',
+        fullBox('mfhd', 0, 0, u32(sequenceNumber)),
+        box('traf',
+            fullBox('tfhd', 0, 0x020000, u32(trackId)),
+            fullBox('tfdt', 1, 0, u64(decodeTime)),
+            fullBox('trun', 0, 0x000301, u32(samples, dataOffset), ...sizes.map(size => u32(sampleDuration, size)))));
+    const moof = moofWith(0);
+    return Buffer.concat([
+        box('styp', Buffer.from('msdh'), u32(0), Buffer.from('msdhmsix')),
+        moofWith(moof.length + 8),
+        box('mdat', payload),
+    ]);
+}
+
+/**
+ * A DASH track named `name` ('video-720', 'audio', ...): { init, segments, payloads }, where
+ * payloads are each segment's sample bytes. Videos run at 90 kHz in 2-second segments and audio
+ * at 48 kHz in 3-second ones, both 6 seconds long, so their fragments interleave.
+ */
+export function createDashTrack(name) {
+    const isVideo = name.startsWith('video');
+    const timescale = isVideo ? 90000 : 48000;
+    const segmentSeconds = isVideo ? 2 : 3;
+    const samplesPerSegment = isVideo ? 4 : 3;
+    const sampleDuration = (timescale * segmentSeconds) / samplesPerSegment;
+    const segmentCount = 6 / segmentSeconds;
+
+    const payloads = Array.from({ length: segmentCount }, (_, index) => createVideoBytes(`${name}-${index + 1}`, isVideo ? 3000 : 800));
+    return {
+        init: initSegment({ trackId: 1, handler: isVideo ? 'vide' : 'soun', timescale, defaultDuration: sampleDuration }),
+        segments: payloads.map((payload, index) => mediaSegment({
+            trackId: 1,
+            sequenceNumber: index + 1,
+            decodeTime: index * timescale * segmentSeconds,
+            sampleDuration,
+            payload,
+            samples: samplesPerSegment,
+        })),
+        payloads,
+    };
+}
+
+// Box tree of an MP4 for assertions: [{ type, data, children? }], with children for containers
+const CONTAINERS = ['moov', 'trak', 'mdia', 'minf', 'stbl', 'mvex', 'moof', 'traf'];
+export function readBoxTree(buffer, start = 0, end = buffer.length) {
+    const boxes = [];
+    for (let position = start; position < end;) {
+        const size = buffer.readUInt32BE(position);
+        const type = buffer.toString('latin1', position + 4, position + 8);
+        const data = buffer.subarray(position + 8, position + size);
+        boxes.push({ type, data, ...(CONTAINERS.includes(type) ? { children: readBoxTree(buffer, position + 8, position + size) } : {}) });
+        position += size;
+    }
+    return boxes;
+}
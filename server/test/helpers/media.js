@@ -0,0 +1,91 @@
+import { deflateSync } from 'zlib';
+import { createDashTrack } from './fmp4.js';
+
+// Deterministic stand-ins for CDN media, so fixtures need no binary files in the repo.
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+function crc32(buffer) {
+    let crc = 0xffffffff;
+    for (const byte of buffer) {
+        crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type, data) {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body));
+    return Buffer.concat([length, body, crc]);
+}
+
+// Solid-colour RGB PNG. Browsers decode it, so naturalWidth/naturalHeight heuristics apply.
+export function createPng(width, height, [r, g, b] = [200, 80, 120]) {
+    const row = Buffer.alloc(1 + width * 3); // Leading 0 = no filter
+    for (let x = 0; x < width; x++) {
+        row[1 + x * 3] = r;
+        row[2 + x * 3] = g;
+        row[3 + x * 3] = b;
+    }
+    const raw = Buffer.concat(Array.from({ length: height }, () => row));
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = 8; // Bit depth
+    header[9] = 2; // Colour type: RGB
+
+    return Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        pngChunk('IHDR', header),
+        pngChunk('IDAT', deflateSync(raw)),
+        pngChunk('IEND', Buffer.alloc(0)),
+    ]);
+}
+
+// Pseudo-random bytes derived from `seed`; good enough to compare written files against.
+export function createVideoBytes(seed, length = 64 * 1024) {
+    const bytes = Buffer.alloc(length);
+    let state = crc32(Buffer.from(seed)) || 1;
+    for (let i = 0; i < length; i++) {
+        state ^= state << 13;
+        state ^= state >>> 17;
+        state ^= state << 5;
+        bytes[i] = state & 0xff;
+    }
+    return bytes;
+}
+
+// Media body for a fixture CDN path. Image names carry their size: `photo_1080x1350.jpg`;
+// videos may carry theirs in KiB: `clip-hd-96k.mp4` (64 KiB otherwise). Under /dash/ are
+// fragmented MP4 tracks (see fmp4.js): `<track>-init.mp4`, `<track>-<n>.m4s`, or the whole
+// track as one file, `<track>-full.mp4`.
+export function mediaForPath(pathname) {
+    const dashMatch = pathname.match(/\/dash\/([\w-]+?)-(init|full|\d+)\.(mp4|m4s)$/);
+    if (dashMatch) {
+        const [, name, part] = dashMatch;
+        const track = createDashTrack(name);
+        const body = part === 'init' ? track.init
+            : part === 'full' ? Buffer.concat([track.init, ...track.segments])
+                : track.segments[Number(part) - 1];
+        return body ? { contentType: 'video/mp4', body } : null;
+    }
+    const sizeMatch = pathname.match(/_(\d+)x(\d+)\.(jpg|png)$/);
+    if (sizeMatch) {
+        return { contentType: 'image/png', body: createPng(Number(sizeMatch[1]), Number(sizeMatch[2])) };
+    }
+    if (pathname.endsWith('.mp4')) {
+        const kib = Number(/-(\d+)k\.mp4$/.exec(pathname)?.[1] ?? 64);
+        return { contentType: 'video/mp4', body: createVideoBytes(pathname, kib * 1024) };
+    }
+    return null;
+}
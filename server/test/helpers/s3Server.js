@@ -0,0 +1,92 @@
+import http from 'http';
+import { createHash } from 'crypto';
+
+/*
+ * In-memory stand-in for an S3-compatible bucket (what MinIO serves), path-style:
+ *   PUT/GET/HEAD/DELETE /<bucket>/<key>   objects
+ *   GET /<bucket>?list-type=2&prefix=...  ListObjectsV2, `pageSize` keys per page
+ * Requests need SigV4 credentials, in an Authorization header or a presigned query; PUT bodies
+ * must match their x-amz-content-sha256. The signatures themselves are checked by the signer's
+ * own tests against AWS's published examples.
+ */
+export async function startS3Server({ bucket = 'downloads', pageSize = 1000 } = {}) {
+    const objects = new Map(); // key -> { body, contentType, modifiedAt }
+    const requests = [];
+
+    const xmlEscape = (value) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    const sendXml = (res, status, xml) => {
+        res.writeHead(status, { 'Content-Type': 'application/xml' });
+        res.end(`<?xml version="1.0" encoding="UTF-8"?>${xml}`);
+    };
+    const sendError = (res, status, code) => sendXml(res, status, `<Error><Code>${code}</Code></Error>`);
+
+    function listObjects(res, searchParams) {
+        const prefix = searchParams.get('prefix') || '';
+        const keys = [...objects.keys()].filter(key => key.startsWith(prefix)).sort();
+        const start = Number(searchParams.get('continuation-token') || 0);
+        const page = keys.slice(start, start + pageSize);
+        const truncated = start + pageSize < keys.length;
+        sendXml(res, 200, `<ListBucketResult><Name>${bucket}</Name><KeyCount>${page.length}</KeyCount><IsTruncated>${truncated}</IsTruncated>${
+            truncated ? `<NextContinuationToken>${start + pageSize}</NextContinuationToken>` : ''}${
+            page.map(key => `<Contents><Key>${xmlEscape(key)}</Key><Size>${objects.get(key).body.length}</Size><LastModified>${objects.get(key).modifiedAt}</LastModified></Contents>`).join('')
+        }</ListBucketResult>`);
+    }
+
+    const server = http.createServer(async (req, res) => {
+        const { pathname, searchParams } = new URL(req.url, 'http://s3.local');
+        const chunks = [];
+        for await (const chunk of req) chunks.push(chunk);
+        const body = Buffer.concat(chunks);
+        requests.push({ method: req.method, pathname, presigned: searchParams.has('X-Amz-Signature') });
+
+        const signed = req.headers.authorization?.startsWith('AWS4-HMAC-SHA256 Credential=')
+            || (searchParams.get('X-Amz-Algorithm') === 'AWS4-HMAC-SHA256' && searchParams.has('X-Amz-Signature'));
+        if (!signed) {
+            return sendError(res, 403, 'AccessDenied');
+        }
+
+        const [, bucketName, ...keyParts] = pathname.split('/');
+        if (bucketName !== bucket) {
+            return sendError(res, 404, 'NoSuchBucket');
+        }
+        const key = keyParts.map(decodeURIComponent).join('/');
+
+        if (!key) {
+            return req.method === 'GET' && searchParams.get('list-type') === '2' ? listObjects(res, searchParams) : sendError(res, 400, 'InvalidRequest');
+        }
+
+        if (req.method === 'PUT') {
+            if (createHash('sha256').update(body).digest('hex') !== req.headers['x-amz-content-sha256']) {
+                return sendError(res, 400, 'XAmzContentSHA256Mismatch');
+            }
+            objects.set(key, { body, contentType: req.headers['content-type'] || 'application/octet-stream', modifiedAt: new Date().toISOString() });
+            return res.writeHead(200).end();
+        }
+
+        const object = objects.get(key);
+        if (req.method === 'DELETE') {
+            objects.delete(key);
+            return res.writeHead(204).end();
+        }
+        if (!object) {
+            return req.method === 'HEAD' ? res.writeHead(404).end() : sendError(res, 404, 'NoSuchKey');
+        }
+        res.writeHead(200, {
+            'Content-Type': object.contentType,
+            'Content-Length': object.body.length,
+            'Last-Modified': new Date(object.modifiedAt).toUTCString(),
+        });
+        res.end(req.method === 'HEAD' ? undefined : object.body);
+    });
+
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    const endpoint = `http://127.0.0.1:${server.address().port}`;
+
+    return {
+        endpoint,
+        bucket,
+        objects,
+        requests,
+        close: () => new Promise(resolve => server.close(resolve)),
+    };
+}
@@ -0,0 +1,39 @@
+import http from 'http';
+
+/*
+ * Local endpoint standing in for a webhook consumer. Every POST is recorded with its headers and
+ * raw body; it answers with the next status queued by respondWith(), or 200 once they run out.
+ * `waitForRequests(n)` resolves once n requests have arrived.
+ */
+export async function startWebhookReceiver() {
+    const requests = [];
+    const statuses = [];
+    const waiters = [];
+
+    const server = http.createServer(async (req, res) => {
+        const chunks = [];
+        for await (const chunk of req) chunks.push(chunk);
+        const body = Buffer.concat(chunks).toString('utf8');
+        requests.push({ method: req.method, path: req.url, headers: req.headers, body, json: JSON.parse(body) });
+        const status = statuses.shift() ?? 200;
+        res.writeHead(status, { 'Content-Type': 'text/plain' });
+        res.end(status < 300 ? 'ok' : 'receiver unavailable');
+        for (const waiter of waiters.filter(candidate => requests.length >= candidate.count)) {
+            waiters.splice(waiters.indexOf(waiter), 1);
+            waiter.resolve();
+        }
+    });
+
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${server.address().port}`;
+
+    return {
+        url,
+        requests,
+        respondWith: (...queued) => statuses.push(...queued),
+        waitForRequests: (count) => (requests.length >= count
+            ? Promise.resolve()
+            : new Promise(resolve => waiters.push({ count, resolve }))),
+        close: () => new Promise(resolve => server.close(resolve)),
+    };
+}
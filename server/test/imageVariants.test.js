@@ -0,0 +1,102 @@
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import { createMediaIndex } from '../utils/mediaIndex.js';
+import { createLocalStorage } from '../utils/storage.js';
+import { downloadWithExtractor } from '../services/mediaPipeline.js';
+import { getVariant, loadSharp, posterPathFor, removeDerivedImages, variantSourcePath } from '../utils/imageVariants.js';
+import { fakeExtractor } from './helpers/extractor.js';
+import { startFixtureServer } from './helpers/fixtureServer.js';
+import { mediaForPath } from './helpers/media.js';
+
+const sharp = await loadSharp();
+
+describe('thumbnails and image variants', () => {
+    let fixtures;
+    let workDir;
+    let downloadsDir;
+    let mediaIndex;
+
+    before(async () => {
+        fixtures = await startFixtureServer();
+    });
+
+    beforeEach(async () => {
+        workDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'image-variants-'));
+        downloadsDir = path.join(workDir, 'downloads');
+        await fsPromises.mkdir(downloadsDir);
+        mediaIndex = createMediaIndex({ indexPath: path.join(workDir, 'media-index.json'), storage: createLocalStorage({ rootDir: downloadsDir }) });
+    });
+
+    afterEach(async () => {
+        await fsPromises.rm(workDir, { recursive: true, force: true });
+    });
+
+    after(async () => {
+        await fixtures?.close();
+    });
+
+    it('saves a video\'s poster frame and gives it a thumbnail', async () => {
+        const extractor = fakeExtractor([{
+            url: fixtures.mediaUrl('/cdn/clip.mp4'),
+            type: 'video',
+            poster: fixtures.mediaUrl('/cdn/clip-poster_640x360.jpg'),
+        }], { contentType: 'reel' });
+
+        const { items: [item] } = await downloadWithExtractor(extractor, 'https://example.com/reel/clip', 'reel', downloadsDir, undefined, { mediaIndex });
+
+        assert.equal(item.thumbnail, `http://localhost:3001/api/downloads/${item.filename}/thumbnail`);
+        const posterPath = posterPathFor(downloadsDir, item.filename);
+        assert.deepEqual(await fsPromises.readFile(posterPath), mediaForPath('/cdn/clip-poster_640x360.jpg').body);
+
+        const record = await mediaIndex.get(item.filename);
+        assert.equal(record.hasPoster, true);
+        assert.equal(await variantSourcePath(createLocalStorage({ rootDir: downloadsDir }), record), posterPath);
+        const sidecar = JSON.parse(await fsPromises.readFile(path.join(downloadsDir, `${item.filename}.json`), 'utf8'));
+        assert.equal(sidecar.hasPoster, true);
+    });
+
+    it('keeps the video when its poster cannot be fetched', async () => {
+        const extractor = fakeExtractor([{
+            url: fixtures.mediaUrl('/cdn/no-poster.mp4'),
+            type: 'video',
+            poster: fixtures.mediaUrl('/refused/no-poster_640x360.jpg'),
+        }], { contentType: 'reel' });
+
+        const { success, items: [item] } = await downloadWithExtractor(extractor, 'https://example.com/reel/no-poster', 'reel', downloadsDir, undefined, { mediaIndex });
+
+        assert.equal(success, true);
+        assert.equal(item.thumbnail, null);
+        assert.equal(await variantSourcePath(createLocalStorage({ rootDir: downloadsDir }), await mediaIndex.get(item.filename)), null);
+    });
+
+    it('removes the poster together with its video', async () => {
+        const extractor = fakeExtractor([{
+            url: fixtures.mediaUrl('/cdn/removed.mp4'),
+            type: 'video',
+            poster: fixtures.mediaUrl('/cdn/removed-poster_320x180.jpg'),
+        }], { contentType: 'reel' });
+        const { items: [item] } = await downloadWithExtractor(extractor, 'https://example.com/reel/removed', 'reel', downloadsDir, undefined, { mediaIndex });
+
+        await removeDerivedImages(downloadsDir, item.filename);
+        await assert.rejects(fsPromises.access(posterPathFor(downloadsDir, item.filename)), { code: 'ENOENT' });
+    });
+
+    it('renders and caches a resized variant', { skip: sharp ? false : 'sharp is not installed with its native binaries' }, async () => {
+        const extractor = fakeExtractor([{ url: fixtures.mediaUrl('/cdn/photo_800x600.jpg'), type: 'image' }]);
+        const { items: [item] } = await downloadWithExtractor(extractor, 'https://example.com/p/photo', 'post', downloadsDir, undefined, { mediaIndex });
+
+        const variantPath = await getVariant(downloadsDir, item.filename, item.localPath, { width: 200, format: 'webp' });
+        const { width, height, format } = await sharp(variantPath).metadata();
+        assert.deepEqual({ width, height, format }, { width: 200, height: 150, format: 'webp' });
+
+        const { mtimeMs } = await fsPromises.stat(variantPath);
+        assert.equal(await getVariant(downloadsDir, item.filename, item.localPath, { width: 200, format: 'webp' }), variantPath);
+        assert.equal((await fsPromises.stat(variantPath)).mtimeMs, mtimeMs, 'served from the cache');
+
+        const original = await getVariant(downloadsDir, item.filename, item.localPath, { width: 4096, format: 'jpeg' });
+        assert.equal((await sharp(original).metadata()).width, 800, 'never enlarged');
+    });
+});
@@ -0,0 +1,137 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import { downloadInstagramContent, instagramExtractor } from '../services/instagram.js';
+import { enumerateWithExtractor } from '../services/mediaPipeline.js';
+import { closeAllBrowsers } from '../utils/browserPool.js';
+import { posterPathFor } from '../utils/imageVariants.js';
+import { startFixtureServer } from './helpers/fixtureServer.js';
+import { probeBrowser } from './helpers/browser.js';
+import { mediaForPath } from './helpers/media.js';
+
+const browser = await probeBrowser();
+
+describe('Instagram extractor against saved page snapshots', { skip: browser.available ? false : browser.reason, timeout: 120000 }, () => {
+    let fixtures;
+    let downloadsDir;
+
+    before(async () => {
+        fixtures = await startFixtureServer();
+        downloadsDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'instagram-fixtures-'));
+    });
+
+    after(async () => {
+        await closeAllBrowsers();
+        await fixtures?.close();
+        if (downloadsDir) {
+            await fsPromises.rm(downloadsDir, { recursive: true, force: true });
+        }
+    });
+
+    // Every returned item must be a real file matching the bytes the fixture CDN served
+    async function assertWrittenItems(result, expectedPaths) {
+        assert.equal(result.success, true);
+        assert.equal(result.note, undefined, 'fallback content must not be served for a working fixture');
+        assert.deepEqual(result.items.map(item => item.sourceUrl), expectedPaths.map(fixtures.mediaUrl));
+
+        for (const [index, item] of result.items.entries()) {
+            assert.ok(item.filename.startsWith('instagram_'));
+            const written = await fsPromises.readFile(path.join(downloadsDir, item.filename));
+            assert.deepEqual(written, mediaForPath(expectedPaths[index]).body);
+        }
+    }
+
+    it('downloads the post photo and ignores the avatar and og:image', async () => {
+        const result = await downloadInstagramContent(fixtures.pageUrl('instagram/single-image.html'), 'post', downloadsDir);
+
+        await assertWrittenItems(result, ['/scontent-fixture/v/t51/post-photo_1080x1080.jpg']);
+        assert.equal(result.items[0].mediaType, 'image');
+        assert.ok(result.items[0].filename.endsWith('.jpg'));
+    });
+
+    it('captures author, caption, timestamp and likes', async () => {
+        const result = await downloadInstagramContent(fixtures.pageUrl('instagram/single-image.html'), 'post', downloadsDir);
+
+        assert.deepEqual(result.metadata, {
+            author: { handle: 'fixture_user', displayName: 'Fixture User' },
+            caption: 'Golden hour at the pier #sunset #goldenhour with @pier_friend',
+            hashtags: ['sunset', 'goldenhour'],
+            mentions: ['pier_friend'],
+            postedAt: '2024-03-01T18:30:00.000Z',
+            likeCount: 1234,
+            viewCount: null,
+        });
+        const sidecar = JSON.parse(await fsPromises.readFile(path.join(downloadsDir, `${result.items[0].filename}.json`), 'utf8'));
+        assert.deepEqual(sidecar.metadata, result.metadata);
+    });
+
+    it('steps through every carousel slide', async () => {
+        const result = await downloadInstagramContent(fixtures.pageUrl('instagram/carousel.html'), 'post', downloadsDir);
+
+        await assertWrittenItems(result, [
+            '/scontent-fixture/v/t51/carousel-1_1080x1080.jpg',
+            '/scontent-fixture/v/t50/carousel-2.mp4',
+            '/scontent-fixture/v/t51/carousel-3_1080x1350.jpg',
+        ]);
+        assert.deepEqual(result.items.map(item => item.mediaType), ['image', 'video', 'image']);
+    });
+
+    it('downloads a reel video from the article rather than og:video', async () => {
+        const result = await downloadInstagramContent(fixtures.pageUrl('instagram/reel.html'), 'reel', downloadsDir);
+
+        await assertWrittenItems(result, ['/scontent-fixture/v/t50/reel-clip.mp4']);
+        assert.equal(result.items[0].mediaType, 'video');
+        // The poster frame is kept for the thumbnail
+        const poster = await fsPromises.readFile(posterPathFor(downloadsDir, result.items[0].filename));
+        assert.deepEqual(poster, mediaForPath('/scontent-fixture/v/t51/reel-poster_640x1136.jpg').body);
+        assert.ok(result.items[0].filename.endsWith('.mp4'));
+    });
+
+    it('falls back to og:image when the post body never renders', async () => {
+        const result = await downloadInstagramContent(fixtures.pageUrl('instagram/og-only.html'), 'post', downloadsDir);
+
+        await assertWrittenItems(result, ['/scontent-fixture/v/t51/og-only_1080x1080.jpg']);
+    });
+
+    it('reports a login wall instead of serving fallback media', async () => {
+        await assert.rejects(
+            downloadInstagramContent(fixtures.pageUrl('instagram/login-wall.html'), 'post', downloadsDir),
+            { name: 'ExtractionError', code: 'LOGIN_REQUIRED' }
+        );
+    });
+
+    it('reports removed posts as unavailable', async () => {
+        await assert.rejects(
+            downloadInstagramContent(fixtures.pageUrl('instagram/unavailable.html'), 'post', downloadsDir),
+            { name: 'ExtractionError', code: 'CONTENT_UNAVAILABLE' }
+        );
+    });
+
+    // Fixture pages don't live at profile URLs, so pin the listing kind the URL would give
+    const listingAs = (kind, contentType) => ({ ...instagramExtractor, describeListing: () => ({ kind, contentType }) });
+
+    it('lists profile posts and reels across scrolled grid pages', async () => {
+        const items = await enumerateWithExtractor(listingAs('profile', 'post'), fixtures.pageUrl('instagram/profile.html'), { limit: 6 });
+
+        assert.deepEqual(items.map(item => item.url), [
+            '/p/Grid0001/', '/reel/Grid0002/', '/p/Grid0003/', '/p/Grid0004/', '/p/Grid0005/', '/reel/Grid0006/',
+        ].map(fixtures.mediaUrl));
+        assert.deepEqual(items.map(item => item.contentType), ['post', 'reel', 'post', 'post', 'post', 'reel']);
+    });
+
+    it('lists every frame of a highlight', async () => {
+        const items = await enumerateWithExtractor(listingAs('highlight', 'highlight'), fixtures.pageUrl('instagram/highlight.html'), { limit: 10 });
+
+        assert.deepEqual(items.map(item => new URL(item.url).searchParams.get('story')), ['9001', '9002', '9003']);
+        assert.ok(items.every(item => item.contentType === 'highlight'));
+    });
+
+    it('sends the Instagram referer with media requests', () => {
+        assert.ok(fixtures.mediaRequests.length > 0);
+        for (const request of fixtures.mediaRequests) {
+            assert.equal(request.headers.referer, 'https://www.instagram.com/');
+        }
+    });
+});
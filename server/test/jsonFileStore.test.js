@@ -0,0 +1,73 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import { createJsonFileStore } from '../utils/jsonFileStore.js';
+
+describe('JSON file store', () => {
+    let workDir;
+    let filePath;
+    let errors;
+    const logger = { info: () => {}, error: (...args) => errors.push(args.join(' ')) };
+
+    const open = (onLoad = () => {}) => createJsonFileStore({ filePath, description: 'test store', logger, onLoad });
+
+    beforeEach(async () => {
+        workDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'json-store-'));
+        filePath = path.join(workDir, 'data', 'store.json');
+        errors = [];
+    });
+
+    afterEach(async () => {
+        await fsPromises.rm(workDir, { recursive: true, force: true });
+    });
+
+    it('loads once and writes the contents it was given', async () => {
+        let loads = 0;
+        const loaded = [];
+        const store = open(parsed => {
+            loads++;
+            loaded.push(parsed);
+        });
+        await Promise.all([store.ready(), store.ready()]);
+        assert.equal(loads, 1);
+        assert.deepEqual(loaded, [{}]);
+
+        const state = { version: 1, items: ['a'] };
+        const written = store.write(state);
+        state.items.push('b'); // Changes after write() aren't part of that write
+        await written;
+        assert.deepEqual(JSON.parse(await fsPromises.readFile(filePath, 'utf8')), { version: 1, items: ['a'] });
+
+        await open(parsed => loaded.push(parsed)).ready();
+        assert.deepEqual(loaded.at(-1), { version: 1, items: ['a'] });
+    });
+
+    it('moves an unreadable file aside and starts empty', async () => {
+        await fsPromises.mkdir(path.dirname(filePath), { recursive: true });
+        await fsPromises.writeFile(filePath, '{ not json');
+        let loaded = null;
+        await open(parsed => { loaded = parsed; }).ready();
+
+        assert.deepEqual(loaded, {});
+        const kept = (await fsPromises.readdir(path.dirname(filePath))).filter(name => name.startsWith('store.json.corrupt-'));
+        assert.equal(kept.length, 1);
+        assert.equal(await fsPromises.readFile(path.join(path.dirname(filePath), kept[0]), 'utf8'), '{ not json');
+        assert.match(errors[0], /Could not read test store/);
+    });
+
+    it('rejects a write that fails without holding up the next one', async () => {
+        const store = open();
+        await store.ready();
+        // A file where the store's directory should be makes the write fail
+        await fsPromises.writeFile(path.dirname(filePath), '');
+        await assert.rejects(store.write({ version: 1 }), { code: /^(EEXIST|ENOTDIR)$/ });
+        assert.match(errors[0], /Failed to write test store/);
+
+        await fsPromises.rm(path.dirname(filePath));
+        await store.write({ version: 2 });
+        await store.settled();
+        assert.deepEqual(JSON.parse(await fsPromises.readFile(filePath, 'utf8')), { version: 2 });
+    });
+});
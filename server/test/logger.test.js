@@ -0,0 +1,89 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { configureLogger, createLogger, runWithLogContext, runWithoutLogContext } from '../utils/logger.js';
+import { createJob, runJob } from '../utils/jobStore.js';
+import { createBatch } from '../utils/batchStore.js';
+
+describe('structured logger', () => {
+    let lines;
+
+    beforeEach(() => {
+        lines = [];
+        configureLogger({ level: 'info', write: (level, line) => lines.push({ level, ...JSON.parse(line) }) });
+    });
+
+    afterEach(() => {
+        configureLogger({ level: 'silent', write: null });
+    });
+
+    it('writes one JSON object per line, formatting arguments like the console', () => {
+        const logger = createLogger('Test');
+        logger.info('Saved', 3, 'file(s) to', { dir: '/tmp' });
+        logger.debug('Below the level');
+        logger.error('Failed to save:', Object.assign(new Error('disk full'), { code: 'ENOSPC' }));
+
+        assert.equal(lines.length, 2);
+        assert.equal(lines[0].component, 'Test');
+        assert.equal(lines[0].level, 'info');
+        assert.equal(lines[0].msg, "Saved 3 file(s) to { dir: '/tmp' }");
+        assert.ok(!Number.isNaN(Date.parse(lines[0].time)));
+        assert.equal(lines[1].msg, 'Failed to save: disk full');
+        assert.equal(lines[1].err.code, 'ENOSPC');
+        assert.match(lines[1].err.stack, /disk full/);
+        assert.throws(() => configureLogger({ level: 'verbose' }), /Unknown log level/);
+    });
+
+    it('adds the correlation fields of the current context, across awaits', async () => {
+        const logger = createLogger('Test');
+        await runWithLogContext({ correlationId: 'req-1' }, async () => {
+            await new Promise(resolve => setTimeout(resolve, 1));
+            await runWithLogContext({ jobId: 'job-1' }, async () => logger.info('inside'));
+            runWithoutLogContext(() => logger.info('detached'));
+        });
+        logger.info('outside');
+
+        assert.deepEqual(lines.map(({ msg, correlationId, jobId }) => ({ msg, correlationId, jobId })), [
+            { msg: 'inside', correlationId: 'req-1', jobId: 'job-1' },
+            { msg: 'detached', correlationId: undefined, jobId: undefined },
+            { msg: 'outside', correlationId: undefined, jobId: undefined },
+        ]);
+    });
+
+    it('runs every job in the context of the request that created it', async () => {
+        const logger = createLogger('Task');
+        const job = runWithLogContext({ correlationId: 'req-2' }, () => createJob({ url: 'https://example.com/p/1', platform: 'test', contentType: 'post' }));
+
+        // Started from elsewhere, as queued jobs are when another job frees a slot
+        await runWithLogContext({ correlationId: 'someone-else' }, () => runJob(job.id, async () => {
+            logger.info('downloading');
+            return { success: true, items: [] };
+        }));
+
+        assert.equal(lines[0].correlationId, 'req-2');
+        assert.equal(lines[0].jobId, job.id);
+    });
+
+    it('tags batch entries with their batch', async () => {
+        const logger = createLogger('Task');
+        let finish;
+        const done = new Promise(resolve => { finish = resolve; });
+        const batch = runWithLogContext({ correlationId: 'req-3' }, () => createBatch({
+            contentType: 'post',
+            entries: [{
+                url: 'https://example.com/p/2',
+                request: { url: 'https://example.com/p/2', platform: 'test', contentType: 'post' },
+                makeTask: async () => {
+                    logger.info('entry');
+                    finish();
+                    return { success: true, items: [] };
+                },
+            }],
+        }));
+        await done;
+
+        const entryLine = lines.find(line => line.msg === 'entry');
+        assert.equal(entryLine.correlationId, 'req-3');
+        assert.equal(entryLine.batchId, batch.id);
+        assert.ok(entryLine.jobId);
+    });
+});
@@ -0,0 +1,178 @@
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import { createMediaIndex, normalizePageUrl } from '../utils/mediaIndex.js';
+import { createLocalStorage } from '../utils/storage.js';
+import { downloadWithExtractor } from '../services/mediaPipeline.js';
+import { fakeExtractor } from './helpers/extractor.js';
+import { startFixtureServer } from './helpers/fixtureServer.js';
+import { mediaForPath } from './helpers/media.js';
+
+describe('media index', () => {
+    let fixtures;
+    let workDir;
+    let downloadsDir;
+    let indexPath;
+
+    before(async () => {
+        fixtures = await startFixtureServer();
+    });
+
+    beforeEach(async () => {
+        workDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'media-index-'));
+        downloadsDir = path.join(workDir, 'downloads');
+        indexPath = path.join(workDir, 'data', 'media-index.json');
+        await fsPromises.mkdir(downloadsDir);
+        fixtures.mediaRequests.length = 0;
+    });
+
+    afterEach(async () => {
+        await fsPromises.rm(workDir, { recursive: true, force: true });
+    });
+
+    after(async () => {
+        await fixtures?.close();
+    });
+
+    const requestsFor = (pathname) => fixtures.mediaRequests.filter(request => request.pathname === pathname).length;
+
+    it('normalises share links to the same post', () => {
+        assert.equal(
+            normalizePageUrl('https://WWW.instagram.com/p/C0ffee123/?igsh=abc&utm_source=ig_web_copy_link#comments'),
+            'https://www.instagram.com/p/C0ffee123'
+        );
+        assert.equal(
+            normalizePageUrl('https://www.facebook.com/story.php?story_fbid=101&id=7&fbclid=xyz'),
+            'https://www.facebook.com/story.php?story_fbid=101&id=7'
+        );
+    });
+
+    it('answers a repeated post from disk without fetching again', async () => {
+        const mediaIndex = createMediaIndex({ indexPath, storage: createLocalStorage({ rootDir: downloadsDir }) });
+        const extractor = fakeExtractor([
+            { url: fixtures.mediaUrl('/cdn/repeat-1_640x480.jpg'), type: 'image' },
+            { url: fixtures.mediaUrl('/cdn/repeat-2.mp4'), type: 'video' },
+        ]);
+
+        const first = await downloadWithExtractor(extractor, 'https://example.com/p/repeat/', 'post', downloadsDir, undefined, { mediaIndex });
+        const second = await downloadWithExtractor(extractor, 'https://example.com/p/repeat?igsh=share', 'post', downloadsDir, undefined, { mediaIndex });
+
+        assert.equal(second.reused, true);
+        assert.deepEqual(second.items.map(item => item.filename), first.items.map(item => item.filename));
+        assert.equal(requestsFor('/cdn/repeat-1_640x480.jpg'), 1);
+        assert.equal(requestsFor('/cdn/repeat-2.mp4'), 1);
+        assert.equal((await fsPromises.readdir(downloadsDir)).filter(file => !file.endsWith('.json')).length, 2);
+    });
+
+    it('reuses media already downloaded from another post', async () => {
+        const mediaIndex = createMediaIndex({ indexPath, storage: createLocalStorage({ rootDir: downloadsDir }) });
+        const shared = { url: fixtures.mediaUrl('/cdn/shared_640x480.jpg'), type: 'image' };
+
+        const first = await downloadWithExtractor(fakeExtractor([shared]), 'https://example.com/p/original', 'post', downloadsDir, undefined, { mediaIndex });
+        const second = await downloadWithExtractor(fakeExtractor([shared]), 'https://example.com/p/repost', 'post', downloadsDir, undefined, { mediaIndex });
+
+        assert.equal(second.items[0].filename, first.items[0].filename);
+        assert.equal(second.items[0].reused, true);
+        assert.equal(requestsFor('/cdn/shared_640x480.jpg'), 1);
+    });
+
+    it('keeps one copy of identical bytes served from different URLs', async () => {
+        const mediaIndex = createMediaIndex({ indexPath, storage: createLocalStorage({ rootDir: downloadsDir }) });
+        // Generated images depend only on their size, so both URLs serve identical bytes
+        const first = await downloadWithExtractor(fakeExtractor([{ url: fixtures.mediaUrl('/cdn/a/clip_640x480.jpg'), type: 'image' }]), 'https://example.com/p/a', 'post', downloadsDir, undefined, { mediaIndex });
+        const second = await downloadWithExtractor(fakeExtractor([{ url: fixtures.mediaUrl('/cdn/b/clip_640x480.jpg'), type: 'image' }]), 'https://example.com/p/b', 'post', downloadsDir, undefined, { mediaIndex });
+
+        assert.equal(second.items[0].filename, first.items[0].filename);
+        assert.equal(requestsFor('/cdn/b/clip_640x480.jpg'), 1, 'the second URL is fetched, then discarded by hash');
+        assert.deepEqual(await fsPromises.readdir(downloadsDir), [first.items[0].filename, `${first.items[0].filename}.json`]);
+    });
+
+    it('shares a file between the users who downloaded it', async () => {
+        const mediaIndex = createMediaIndex({ indexPath, storage: createLocalStorage({ rootDir: downloadsDir }) });
+        const extractor = fakeExtractor([{ url: fixtures.mediaUrl('/cdn/owned_640x480.jpg'), type: 'image' }]);
+
+        const first = await downloadWithExtractor(extractor, 'https://example.com/p/owned', 'post', downloadsDir, undefined, { mediaIndex, owner: 'alice' });
+        await downloadWithExtractor(extractor, 'https://example.com/p/owned', 'post', downloadsDir, undefined, { mediaIndex, owner: 'bob' });
+        const { filename } = first.items[0];
+
+        assert.deepEqual((await mediaIndex.get(filename)).owners, ['alice', 'bob']);
+        assert.deepEqual((await mediaIndex.list({ owner: 'bob' })).map(record => record.filename), [filename]);
+        assert.deepEqual(await mediaIndex.list({ owner: 'carol' }), []);
+
+        assert.deepEqual(await mediaIndex.removeOwner(filename, 'alice'), ['bob']);
+        assert.deepEqual(await mediaIndex.list({ owner: 'alice' }), []);
+        assert.equal(await mediaIndex.removeOwner('missing.jpg', 'bob'), null);
+    });
+
+    it('persists records and drops ones whose file was deleted', async () => {
+        const mediaIndex = createMediaIndex({ indexPath, storage: createLocalStorage({ rootDir: downloadsDir }) });
+        const extractor = fakeExtractor([{ url: fixtures.mediaUrl('/cdn/persisted_640x480.jpg'), type: 'image' }]);
+        const { items: [item] } = await downloadWithExtractor(extractor, 'https://example.com/p/persisted', 'post', downloadsDir, undefined, { mediaIndex });
+
+        const reopened = createMediaIndex({ indexPath, storage: createLocalStorage({ rootDir: downloadsDir }) });
+        const [record] = await reopened.list();
+        assert.equal(record.filename, item.filename);
+        assert.equal(record.pageUrl, 'https://example.com/p/persisted');
+        assert.equal(record.sourceUrl, fixtures.mediaUrl('/cdn/persisted_640x480.jpg'));
+        assert.equal(record.platform, 'fake');
+        assert.equal(record.contentType, 'post');
+        assert.equal(record.bytes, mediaForPath('/cdn/persisted_640x480.jpg').body.length);
+        assert.match(record.sha256, /^[0-9a-f]{64}$/);
+
+        await fsPromises.unlink(path.join(downloadsDir, item.filename));
+        assert.equal(await reopened.findBySourceUrl(record.sourceUrl), null);
+        assert.deepEqual(await createMediaIndex({ indexPath, storage: createLocalStorage({ rootDir: downloadsDir }) }).list(), []);
+    });
+
+    it('stores post metadata in a sidecar and searches it', async () => {
+        const mediaIndex = createMediaIndex({ indexPath, storage: createLocalStorage({ rootDir: downloadsDir }) });
+        const pier = fakeExtractor([{ url: fixtures.mediaUrl('/cdn/pier_640x480.jpg'), type: 'image' }], {
+            metadata: { handle: '/harbour_cam/', displayName: 'Harbour Cam', caption: 'Golden hour #sunset with @pier_friend' },
+        });
+        const market = fakeExtractor([{ url: fixtures.mediaUrl('/cdn/market_800x600.jpg'), type: 'image' }], {
+            metadata: { handle: '/market_days/', caption: 'Saturday stalls #market' },
+        });
+
+        const result = await downloadWithExtractor(pier, 'https://example.com/p/pier', 'post', downloadsDir, undefined, { mediaIndex });
+        await downloadWithExtractor(market, 'https://example.com/p/market', 'post', downloadsDir, undefined, { mediaIndex });
+
+        assert.equal(result.metadata.author.handle, 'harbour_cam');
+        const sidecar = JSON.parse(await fsPromises.readFile(path.join(downloadsDir, `${result.items[0].filename}.json`), 'utf8'));
+        assert.equal(sidecar.pageUrl, 'https://example.com/p/pier');
+        assert.equal(sidecar.sha256, result.items[0].sha256);
+        assert.deepEqual(sidecar.metadata, result.metadata);
+
+        const filenames = async (filters) => (await mediaIndex.list(filters)).map(record => record.filename);
+        assert.deepEqual(await filenames({ q: 'GOLDEN' }), [result.items[0].filename]);
+        assert.deepEqual(await filenames({ hashtag: '#sunset' }), [result.items[0].filename]);
+        assert.deepEqual(await filenames({ author: '@harbour' }), [result.items[0].filename]);
+        assert.deepEqual(await filenames({ q: '@pier_friend' }), [result.items[0].filename]);
+        assert.equal((await filenames({ q: 'stalls' })).length, 1);
+        assert.equal((await filenames({})).length, 2);
+
+        // Sidecars are not media: a fresh index adopts only the two images, with their metadata
+        await fsPromises.rm(indexPath);
+        const rebuilt = createMediaIndex({ indexPath, storage: createLocalStorage({ rootDir: downloadsDir }) });
+        await rebuilt.reconcile();
+        assert.equal((await rebuilt.list()).length, 2);
+        assert.equal((await rebuilt.list({ author: 'harbour_cam' })).length, 1);
+    });
+
+    it('adopts files that predate the index', async () => {
+        const legacy = 'instagram_reel_0b5e2c1a.mp4';
+        await fsPromises.writeFile(path.join(downloadsDir, legacy), 'legacy bytes');
+        await fsPromises.writeFile(path.join(downloadsDir, `${legacy}.part`), 'interrupted');
+
+        const mediaIndex = createMediaIndex({ indexPath, storage: createLocalStorage({ rootDir: downloadsDir }) });
+        await mediaIndex.reconcile();
+
+        const records = await mediaIndex.list();
+        assert.deepEqual(records.map(record => record.filename), [legacy]);
+        assert.equal(records[0].platform, 'instagram');
+        assert.equal(records[0].contentType, 'reel');
+        assert.equal(records[0].mediaType, 'video');
+        assert.equal(records[0].pageUrl, null);
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import { collectWhileScrolling, downloadWithExtractor } from '../services/mediaPipeline.js';
+import { ExtractionError, classifyError } from '../utils/extractionError.js';
+import { fakeExtractor } from './helpers/extractor.js';
+import { startFixtureServer } from './helpers/fixtureServer.js';
+
+describe('download pipeline failure codes', () => {
+    let fixtures;
+    let downloadsDir;
+
+    before(async () => {
+        fixtures = await startFixtureServer();
+        downloadsDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'pipeline-'));
+    });
+
+    after(async () => {
+        await fixtures?.close();
+        if (downloadsDir) {
+            await fsPromises.rm(downloadsDir, { recursive: true, force: true });
+        }
+    });
+
+    it('downloads media and reports no fallback', async () => {
+        const extractor = fakeExtractor([{ url: fixtures.mediaUrl('/cdn/photo_640x480.jpg'), type: 'image' }]);
+        const result = await downloadWithExtractor(extractor, 'https://example.com/p/1', 'post', downloadsDir);
+
+        assert.equal(result.success, true);
+        assert.equal(result.fallback, undefined);
+        assert.equal(result.items.length, 1);
+    });
+
+    it('fails with NO_MEDIA_FOUND when the extractor finds nothing', async () => {
+        await assert.rejects(
+            downloadWithExtractor(fakeExtractor([], { fallbackOnFailure: true }), 'https://example.com/p/2', 'post', downloadsDir),
+            { name: 'ExtractionError', code: 'NO_MEDIA_FOUND' }
+        );
+    });
+
+    it('fails with CDN_FETCH_REFUSED and removes files already written', async () => {
+        const extractor = fakeExtractor([
+            { url: fixtures.mediaUrl('/cdn/first_640x480.jpg'), type: 'image' },
+            { url: fixtures.mediaUrl('/refused/second_640x480.jpg'), type: 'image' },
+        ], { id: 'refused', fallbackOnFailure: true });
+
+        await assert.rejects(
+            downloadWithExtractor(extractor, 'https://example.com/p/3', 'post', downloadsDir),
+            { name: 'ExtractionError', code: 'CDN_FETCH_REFUSED' }
+        );
+        const leftovers = (await fsPromises.readdir(downloadsDir)).filter(file => file.startsWith('refused_'));
+        assert.deepEqual(leftovers, []);
+    });
+
+    it('keeps the code thrown by an extractor', async () => {
+        const extractor = fakeExtractor([], {
+            fallbackOnFailure: true,
+            extract: async () => { throw new ExtractionError('LOGIN_REQUIRED', 'Login wall'); },
+        });
+
+        await assert.rejects(
+            downloadWithExtractor(extractor, 'https://example.com/p/4', 'post', downloadsDir),
+            { code: 'LOGIN_REQUIRED', message: 'Fake download failed: Login wall' }
+        );
+    });
+});
+
+describe('classifyError', () => {
+    it('maps Puppeteer timeouts and axios errors', () => {
+        const timeout = Object.assign(new Error('Navigation timeout of 45000 ms exceeded'), { name: 'TimeoutError' });
+        const refused = Object.assign(new Error('Request failed with status code 403'), { isAxiosError: true });
+
+        assert.equal(classifyError(timeout), 'NAVIGATION_TIMEOUT');
+        assert.equal(classifyError(refused), 'CDN_FETCH_REFUSED');
+        assert.equal(classifyError(new Error('boom')), 'EXTRACTION_FAILED');
+    });
+});
+
+describe('scrolling listings', () => {
+    // Page stand-in whose listing reveals the next page of `pages` on every scroll
+    function fakeListing(pages) {
+        let revealed = 1;
+        return {
+            page: {
+                evaluate: async () => { revealed++; },
+                waitForTimeout: async () => {},
+            },
+            collectVisible: async () => pages.slice(0, revealed).flat(),
+            scrolls: () => revealed - 1,
+        };
+    }
+    const item = (id, postedAt = null) => ({ url: `https://example.com/p/${id}`, postedAt });
+
+    it('scrolls until the limit is reached, skipping repeats', async () => {
+        const listing = fakeListing([[item(1), item(2)], [item(2), item(3)], [item(4), item(5)]]);
+        const items = await collectWhileScrolling(listing.page, listing.collectVisible, { limit: 4, scrollDelayMs: 0 });
+
+        assert.deepEqual(items.map(found => found.url), [1, 2, 3, 4].map(id => item(id).url));
+        assert.equal(listing.scrolls(), 2);
+    });
+
+    it('stops when the listing stops growing', async () => {
+        const listing = fakeListing([[item(1)], [item(2)]]);
+        const items = await collectWhileScrolling(listing.page, listing.collectVisible, { limit: 10, scrollDelayMs: 0 });
+
+        assert.equal(items.length, 2);
+        assert.equal(listing.scrolls(), 4, 'gives up after three scrolls that find nothing');
+    });
+
+    it('skips items before the cutoff, tolerating an old pinned post', async () => {
+        const listing = fakeListing([
+            [item('pinned', '2020-06-01'), item(1, '2024-03-01'), item(2)],
+            [item(3, '2024-01-15'), item(4, '2023-12-01'), item(5, '2023-11-01'), item(6, '2023-10-01'), item(7, '2024-02-01')],
+        ]);
+        const items = await collectWhileScrolling(listing.page, listing.collectVisible, { limit: 10, since: '2024-01-01', scrollDelayMs: 0 });
+
+        assert.deepEqual(items.map(found => found.url), [1, 2, 3].map(id => item(id).url), 'undated items are kept; nothing after three old ones');
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildPostMetadata, normalizeHandle, parseCount, parseTimestamp } from '../utils/postMetadata.js';
+
+describe('post metadata', () => {
+    it('parses counts the way platforms print them', () => {
+        assert.equal(parseCount('1,234 likes'), 1234);
+        assert.equal(parseCount('1.2K views'), 1200);
+        assert.equal(parseCount('3 M plays'), 3000000);
+        assert.equal(parseCount('Liked by someone and 1,024 others'), 1024);
+        assert.equal(parseCount(42), 42);
+        assert.equal(parseCount('Be the first to like this'), null);
+        assert.equal(parseCount(null), null);
+    });
+
+    it('normalises author handles from links', () => {
+        assert.equal(normalizeHandle('/fixture_user/'), 'fixture_user');
+        assert.equal(normalizeHandle('https://www.facebook.com/fixturepage/?__tn__=C'), 'fixturepage');
+        assert.equal(normalizeHandle('https://www.facebook.com/profile.php?id=1000123'), '1000123');
+        assert.equal(normalizeHandle('@someone'), 'someone');
+        assert.equal(normalizeHandle(''), null);
+    });
+
+    it('reads ISO dates and Unix seconds', () => {
+        assert.equal(parseTimestamp('2024-03-01T18:30:00.000Z'), '2024-03-01T18:30:00.000Z');
+        assert.equal(parseTimestamp('1709317800'), '2024-03-01T18:30:00.000Z');
+        assert.equal(parseTimestamp('yesterday-ish'), null);
+    });
+
+    it('pulls hashtags and mentions out of the caption', () => {
+        const metadata = buildPostMetadata({
+            handle: '/fixture_user/',
+            caption: ' Sunset #Sunset #sunset #golden_hour with @friend.one. Contact: me@example.com ',
+        });
+
+        assert.deepEqual(metadata.author, { handle: 'fixture_user', displayName: null });
+        assert.equal(metadata.caption, 'Sunset #Sunset #sunset #golden_hour with @friend.one. Contact: me@example.com');
+        assert.deepEqual(metadata.hashtags, ['Sunset', 'golden_hour']);
+        assert.deepEqual(metadata.mentions, ['friend.one']);
+        assert.equal(metadata.likeCount, null);
+    });
+
+    it('reports missing fields as null', () => {
+        assert.deepEqual(buildPostMetadata({}), {
+            author: null,
+            caption: null,
+            hashtags: [],
+            mentions: [],
+            postedAt: null,
+            likeCount: null,
+            viewCount: null,
+        });
+    });
+});
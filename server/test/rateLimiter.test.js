@@ -0,0 +1,102 @@
+import { describe, it, after } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import axios from 'axios';
+import { createRateLimitMiddleware, createTokenBucketLimiter } from '../utils/rateLimiter.js';
+import { checkJobCapacity, createJob, getJob, getJobQueueStatus, runJob } from '../utils/jobStore.js';
+
+describe('token buckets', () => {
+    it('allows a burst, then refills at the configured rate', () => {
+        let clock = 0;
+        const limiter = createTokenBucketLimiter({ capacity: 3, refillPerSecond: 0.5, now: () => clock });
+
+        assert.deepEqual([1, 2, 3].map(() => limiter.take('client').allowed), [true, true, true]);
+        assert.deepEqual(limiter.take('client'), { allowed: false, remaining: 0, retryAfterSeconds: 2 });
+        assert.equal(limiter.take('other').allowed, true, 'every key has its own bucket');
+
+        clock += 2000;
+        assert.deepEqual(limiter.take('client'), { allowed: true, remaining: 0, retryAfterSeconds: 0 });
+        clock += 60000;
+        assert.equal(limiter.take('client').remaining, 2, 'refills only up to the burst');
+    });
+
+    it('forgets buckets once they have refilled', () => {
+        let clock = 0;
+        const limiter = createTokenBucketLimiter({ capacity: 2, refillPerSecond: 1, now: () => clock });
+        limiter.take('a');
+        limiter.take('b');
+        clock += 11 * 60 * 1000;
+        limiter.take('c');
+        assert.equal(limiter.size(), 1);
+    });
+});
+
+describe('rate limit middleware', () => {
+    let server;
+
+    after(() => new Promise(resolve => server?.close(resolve)));
+
+    it('answers 429 with Retry-After per IP and per API key', async () => {
+        const app = express();
+        app.post('/limited', createRateLimitMiddleware({
+            perIp: createTokenBucketLimiter({ capacity: 2, refillPerSecond: 0.1 }),
+            perApiKey: createTokenBucketLimiter({ capacity: 3, refillPerSecond: 0.1 }),
+        }), (req, res) => res.json({ ok: true }));
+        server = await new Promise(resolve => {
+            const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+        });
+        const url = `http://127.0.0.1:${server.address().port}/limited`;
+        const post = (headers = {}) => axios.post(url, null, { headers, validateStatus: () => true });
+
+        const anonymous = [await post(), await post(), await post()];
+        assert.deepEqual(anonymous.map(response => response.status), [200, 200, 429]);
+        assert.equal(anonymous[0].headers['ratelimit-remaining'], '1');
+        assert.equal(anonymous[2].headers['retry-after'], '10');
+        assert.deepEqual(anonymous[2].data, {
+            error: true,
+            code: 'RATE_LIMITED',
+            message: 'Too many requests. Retry in 10s.',
+            details: { retryAfterSeconds: 10, scope: 'ip' },
+        });
+
+        const withKey = [];
+        for (let attempt = 0; attempt < 4; attempt++) {
+            withKey.push(await post({ 'X-API-Key': 'key-1' }));
+        }
+        assert.deepEqual(withKey.map(response => response.status), [200, 200, 200, 429], 'an API key has its own, larger bucket');
+        assert.equal(withKey[3].data.details.scope, 'apiKey');
+        assert.equal(withKey[0].headers['ratelimit-limit'], '3');
+    });
+});
+
+describe('job queue', () => {
+    it('runs a limited number of jobs at once and reports when the queue is full', async () => {
+        const { concurrency, maxWaiting } = getJobQueueStatus();
+        const releases = [];
+        const blockingTask = () => new Promise(resolve => releases.push(resolve));
+        const jobs = Array.from({ length: concurrency + maxWaiting }, () => createJob({ url: 'https://example.com/p/1', platform: 'test', contentType: 'post' }));
+        const finished = jobs.map(job => runJob(job.id, blockingTask));
+        await new Promise(resolve => setImmediate(resolve));
+
+        assert.deepEqual(getJobQueueStatus(), { concurrency, running: concurrency, waiting: maxWaiting, maxWaiting });
+        assert.equal(getJob(jobs.at(-1).id).phase, 'queued');
+        const capacity = checkJobCapacity();
+        assert.equal(capacity.available, false);
+        assert.ok(capacity.retryAfterSeconds >= 1);
+
+        // Finishing a job hands its slot to the next one in line
+        releases.shift()('done');
+        await finished[0];
+        await new Promise(resolve => setImmediate(resolve));
+        assert.equal(getJob(jobs[0].id).phase, 'completed');
+        assert.deepEqual(getJobQueueStatus(), { concurrency, running: concurrency, waiting: maxWaiting - 1, maxWaiting });
+        assert.equal(checkJobCapacity().available, true);
+
+        while (releases.length > 0 || getJobQueueStatus().running > 0) {
+            releases.splice(0).forEach(release => release('done'));
+            await new Promise(resolve => setImmediate(resolve));
+        }
+        await Promise.all(finished);
+        assert.deepEqual(getJobQueueStatus(), { concurrency, running: 0, waiting: 0, maxWaiting });
+    });
+});
@@ -0,0 +1,145 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import { createMediaIndex } from '../utils/mediaIndex.js';
+import { createLocalStorage } from '../utils/storage.js';
+import { createRetentionSweeper, planRetention } from '../utils/retention.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = Date.parse('2024-06-01T12:00:00Z');
+const hoursAgo = (hours) => new Date(NOW - hours * HOUR_MS).toISOString();
+
+const record = (filename, bytes, accessedHoursAgo, extra = {}) => ({
+    filename,
+    bytes,
+    createdAt: hoursAgo(accessedHoursAgo + 1),
+    accessedAt: hoursAgo(accessedHoursAgo),
+    pinned: false,
+    ...extra,
+});
+
+describe('retention planning', () => {
+    it('expires files unused for longer than the TTL', () => {
+        const plan = planRetention([record('old.jpg', 10, 30), record('fresh.jpg', 10, 2)], { ttlSeconds: 24 * 3600, now: NOW });
+
+        assert.deepEqual(plan.scheduled.map(({ filename, reason }) => ({ filename, reason })), [{ filename: 'old.jpg', reason: 'expired' }]);
+        assert.equal(plan.usedBytes, 20);
+        assert.equal(plan.bytesAfterSweep, 10);
+    });
+
+    it('evicts the least recently accessed files until the rest fit the quota', () => {
+        const plan = planRetention([
+            record('newest.mp4', 40, 1),
+            record('oldest.mp4', 30, 9),
+            record('middle.mp4', 30, 5),
+            record('older.mp4', 30, 7),
+        ], { maxBytes: 80, now: NOW });
+
+        assert.deepEqual(plan.scheduled.map(entry => entry.filename), ['oldest.mp4', 'older.mp4']);
+        assert.ok(plan.scheduled.every(entry => entry.reason === 'quota'));
+        assert.equal(plan.bytesAfterSweep, 70);
+    });
+
+    it('never schedules pinned files, even over the quota', () => {
+        const plan = planRetention([
+            record('kept.mp4', 100, 50, { pinned: true }),
+            record('other.mp4', 10, 1),
+        ], { ttlSeconds: 3600, maxBytes: 50, now: NOW });
+
+        assert.deepEqual(plan.scheduled.map(entry => entry.filename), ['other.mp4']);
+        assert.equal(plan.bytesAfterSweep, 100, 'the pinned file alone is still over the quota');
+    });
+
+    it('schedules nothing without rules', () => {
+        assert.deepEqual(planRetention([record('a.jpg', 10, 1000)], { now: NOW }).scheduled, []);
+    });
+});
+
+describe('retention sweeper', () => {
+    let workDir;
+    let downloadsDir;
+    let mediaIndex;
+    let storage;
+
+    beforeEach(async () => {
+        workDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'retention-'));
+        downloadsDir = path.join(workDir, 'downloads');
+        await fsPromises.mkdir(downloadsDir);
+        storage = createLocalStorage({ rootDir: downloadsDir });
+        mediaIndex = createMediaIndex({ indexPath: path.join(workDir, 'media-index.json'), storage });
+    });
+
+    afterEach(async () => {
+        await fsPromises.rm(workDir, { recursive: true, force: true });
+    });
+
+    // A downloaded video with its sidecar, poster frame and a cached variant, last used `hours` ago
+    async function addVideo(filename, bytes, hours) {
+        await fsPromises.writeFile(path.join(downloadsDir, filename), Buffer.alloc(bytes));
+        await fsPromises.writeFile(path.join(downloadsDir, `${filename}.json`), '{}');
+        await fsPromises.mkdir(path.join(downloadsDir, '.posters'), { recursive: true });
+        await fsPromises.writeFile(path.join(downloadsDir, '.posters', `${filename}.jpg`), 'poster');
+        await fsPromises.mkdir(path.join(downloadsDir, '.variants'), { recursive: true });
+        await fsPromises.writeFile(path.join(downloadsDir, '.variants', `${filename}.w320.webp`), 'variant');
+        const accessedAt = new Date(Date.now() - hours * HOUR_MS).toISOString();
+        await mediaIndex.add([{ filename, mediaType: 'video', bytes, sha256: filename, hasPoster: true, createdAt: accessedAt, accessedAt }]);
+    }
+
+    it('removes expired and over-quota files with everything derived from them', async () => {
+        await addVideo('expired.mp4', 100, 48);
+        await addVideo('evicted.mp4', 300, 10);
+        await addVideo('kept.mp4', 300, 1);
+        await addVideo('pinned.mp4', 300, 72);
+        await mediaIndex.setPinned('pinned.mp4', true);
+        const sweeper = createRetentionSweeper({ storage, downloadsDir, mediaIndex, ttlSeconds: 24 * 3600, maxBytes: 700 });
+
+        const report = await sweeper.report();
+        assert.equal(report.usedBytes, 1000);
+        assert.equal(report.pinnedCount, 1);
+        assert.deepEqual(report.scheduled.map(({ filename, reason }) => `${filename}:${reason}`), ['expired.mp4:expired', 'evicted.mp4:quota']);
+        assert.equal(report.bytesAfterSweep, 600);
+
+        const sweep = await sweeper.sweep();
+
+        assert.deepEqual(sweep.removed, ['expired.mp4', 'evicted.mp4']);
+        assert.equal(sweep.freedBytes, 400);
+        assert.deepEqual((await storage.list()).map(object => object.key).sort(), [
+            '.posters/kept.mp4.jpg',
+            '.posters/pinned.mp4.jpg',
+            '.variants/kept.mp4.w320.webp',
+            '.variants/pinned.mp4.w320.webp',
+            'kept.mp4',
+            'kept.mp4.json',
+            'pinned.mp4',
+            'pinned.mp4.json',
+        ]);
+        assert.deepEqual((await mediaIndex.list()).map(entry => entry.filename).sort(), ['kept.mp4', 'pinned.mp4']);
+        assert.deepEqual((await sweeper.report()).scheduled, []);
+        assert.deepEqual((await sweeper.report()).lastSweep.removed, ['expired.mp4', 'evicted.mp4']);
+    });
+
+    it('spares a file used while the sweep runs', async () => {
+        await addVideo('stale.mp4', 100, 48);
+        const sweeper = createRetentionSweeper({ storage, downloadsDir, mediaIndex, ttlSeconds: 24 * 3600 });
+        const planned = sweeper.sweep();
+        await mediaIndex.touch('stale.mp4'); // Lands while the sweep is reading the index
+
+        assert.deepEqual((await planned).removed, []);
+        assert.ok(await storage.stat('stale.mp4'));
+    });
+
+    it('only runs on an interval when a rule is set', async () => {
+        const idle = createRetentionSweeper({ storage, downloadsDir, mediaIndex });
+        idle.start();
+        assert.equal((await idle.report()).nextSweepAt, null);
+
+        const active = createRetentionSweeper({ storage, downloadsDir, mediaIndex, maxBytes: 1024, intervalMs: 60000 });
+        active.start();
+        const report = await active.report();
+        active.stop();
+        assert.equal(report.policy.sweepIntervalSeconds, 60);
+        assert.ok(Date.parse(report.nextSweepAt) > Date.now());
+    });
+});
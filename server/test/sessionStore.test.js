@@ -0,0 +1,178 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import { CookieImportError, cookieHeaderFor, parseCookieFile } from '../utils/cookieJar.js';
+import { createSessionStore } from '../utils/sessionStore.js';
+import { downloadMediaItems } from '../services/mediaPipeline.js';
+import { startFixtureServer } from './helpers/fixtureServer.js';
+
+const IN_A_YEAR = Math.floor(Date.now() / 1000) + 365 * 24 * 3600;
+const LAST_YEAR = Math.floor(Date.now() / 1000) - 365 * 24 * 3600;
+const INSTAGRAM = { hostnames: ['instagram.com', 'www.instagram.com'], sessionCookies: ['sessionid'] };
+
+const cookiesTxt = (sessionExpiry = IN_A_YEAR) => [
+    '# Netscape HTTP Cookie File',
+    '',
+    `#HttpOnly_.instagram.com\tTRUE\t/\tTRUE\t${sessionExpiry}\tsessionid\tsecret-session-value`,
+    `.instagram.com\tTRUE\t/\tTRUE\t${IN_A_YEAR}\tcsrftoken\tcsrf-value`,
+    `.example.com\tTRUE\t/\tFALSE\t0\tunrelated\tvalue`,
+].join('\n');
+
+describe('cookie exports', () => {
+    it('reads Netscape cookies.txt files', () => {
+        const cookies = parseCookieFile(cookiesTxt());
+
+        assert.equal(cookies.length, 3);
+        assert.deepEqual(cookies[0], {
+            name: 'sessionid', value: 'secret-session-value', domain: '.instagram.com', path: '/', expires: IN_A_YEAR, httpOnly: true, secure: true,
+        });
+        assert.equal(cookies[2].expires, -1, 'expiry 0 is a browser-session cookie');
+    });
+
+    it('reads JSON exports from browser extensions', () => {
+        const cookies = parseCookieFile(JSON.stringify([
+            { name: 'c_user', value: '1000', domain: '.facebook.com', path: '/', expirationDate: IN_A_YEAR + 0.5, secure: true, sameSite: 'no_restriction' },
+            { name: 'xs', value: 'abc', domain: '.facebook.com', session: true, httpOnly: true },
+            { name: 'broken' },
+        ]));
+
+        assert.equal(cookies.length, 2);
+        assert.equal(cookies[0].expires, IN_A_YEAR);
+        assert.equal(cookies[0].sameSite, 'None');
+        assert.equal(cookies[1].expires, -1);
+    });
+
+    it('rejects exports without cookies', () => {
+        assert.throws(() => parseCookieFile('# Netscape HTTP Cookie File\n'), CookieImportError);
+        assert.throws(() => parseCookieFile('{ not json'), CookieImportError);
+    });
+
+    it('builds the Cookie header a browser would send', () => {
+        const cookies = parseCookieFile(cookiesTxt());
+
+        assert.equal(cookieHeaderFor(cookies, 'https://www.instagram.com/p/1/'), 'sessionid=secret-session-value; csrftoken=csrf-value');
+        assert.equal(cookieHeaderFor(cookies, 'http://www.instagram.com/p/1/'), null, 'secure cookies need https');
+        assert.equal(cookieHeaderFor(cookies, 'https://scontent.cdninstagram.com/v/photo.jpg'), null);
+    });
+});
+
+describe('session store', () => {
+    let dataDir;
+
+    before(async () => {
+        dataDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'sessions-'));
+    });
+
+    after(async () => {
+        await fsPromises.rm(dataDir, { recursive: true, force: true });
+    });
+
+    it('keeps cookies encrypted at rest and lists sessions without them', async () => {
+        const storePath = path.join(dataDir, 'encrypted.json');
+        const store = createSessionStore({ storePath, secret: 'test-secret' });
+
+        const summary = await store.importSession('instagram', parseCookieFile(cookiesTxt()), INSTAGRAM);
+        assert.equal(summary.status, 'active');
+        assert.equal(summary.cookieCount, 2, 'cookies for other sites are dropped');
+        assert.deepEqual(summary.domains, ['instagram.com']);
+        assert.equal(summary.expiresAt, new Date(IN_A_YEAR * 1000).toISOString());
+
+        const onDisk = await fsPromises.readFile(storePath, 'utf8');
+        assert.ok(!onDisk.includes('secret-session-value'));
+        assert.ok(!JSON.stringify(await store.list()).includes('secret-session-value'));
+
+        // A fresh store with the same secret can read them back
+        const reopened = createSessionStore({ storePath, secret: 'test-secret' });
+        const session = await reopened.cookiesFor('instagram');
+        assert.equal(session.status, 'active');
+        assert.deepEqual(session.cookies.map(cookie => cookie.name), ['sessionid', 'csrftoken']);
+        assert.equal((await reopened.cookiesFor('facebook')).status, 'none');
+    });
+
+    it('reports a session it can no longer decrypt as expired', async () => {
+        const storePath = path.join(dataDir, 'rekeyed.json');
+        await createSessionStore({ storePath, secret: 'old-secret' }).importSession('instagram', parseCookieFile(cookiesTxt()), INSTAGRAM);
+
+        const store = createSessionStore({ storePath, secret: 'new-secret' });
+        assert.equal((await store.cookiesFor('instagram')).status, 'expired');
+        assert.equal((await store.list())[0].status, 'expired');
+    });
+
+    it('refuses exports without a live login cookie', async () => {
+        const store = createSessionStore({ storePath: path.join(dataDir, 'refused.json'), secret: 'test-secret' });
+
+        await assert.rejects(store.importSession('instagram', parseCookieFile(cookiesTxt(LAST_YEAR)), INSTAGRAM), CookieImportError);
+        const withoutLogin = parseCookieFile(cookiesTxt()).filter(cookie => cookie.name !== 'sessionid');
+        await assert.rejects(store.importSession('instagram', withoutLogin, INSTAGRAM), /no sessionid cookie/);
+        await assert.rejects(store.importSession('facebook', parseCookieFile(cookiesTxt()), { hostnames: ['facebook.com'] }), /None of the cookies/);
+    });
+
+    it('marks sessions expired when the login cookies run out or the platform rejects them', async () => {
+        const storePath = path.join(dataDir, 'expiring.json');
+        const store = createSessionStore({ storePath, secret: 'test-secret' });
+        const soon = Math.floor(Date.now() / 1000) + 1;
+        await store.importSession('instagram', parseCookieFile(cookiesTxt(soon)), INSTAGRAM);
+
+        await new Promise(resolve => setTimeout(resolve, 1100));
+        const expired = await store.cookiesFor('instagram');
+        assert.equal(expired.status, 'expired');
+        assert.match(expired.reason, /expired on/);
+
+        await store.importSession('instagram', parseCookieFile(cookiesTxt()), INSTAGRAM);
+        await store.markExpired('instagram', 'Login wall with the session applied.');
+        assert.deepEqual((await store.list()).map(({ status, statusReason }) => ({ status, statusReason })), [
+            { status: 'expired', statusReason: 'Login wall with the session applied.' },
+        ]);
+    });
+
+    it('revokes sessions', async () => {
+        const store = createSessionStore({ storePath: path.join(dataDir, 'revoked.json'), secret: 'test-secret' });
+        await store.importSession('instagram', parseCookieFile(cookiesTxt()), INSTAGRAM);
+
+        assert.equal(await store.revoke('instagram'), true);
+        assert.equal(await store.revoke('instagram'), false);
+        assert.deepEqual(await store.list(), []);
+        assert.equal((await store.cookiesFor('instagram')).status, 'none');
+    });
+
+    it('generates a key file when no secret is configured', async () => {
+        const storePath = path.join(dataDir, 'keyfile.json');
+        await createSessionStore({ storePath }).importSession('instagram', parseCookieFile(cookiesTxt()), INSTAGRAM);
+
+        const key = await fsPromises.readFile(`${storePath}.key`, 'utf8');
+        assert.match(key, /^[0-9a-f]{64}$/);
+        assert.equal((await createSessionStore({ storePath }).cookiesFor('instagram')).status, 'active');
+    });
+});
+
+describe('session cookies on media requests', () => {
+    let fixtures;
+    let downloadsDir;
+
+    before(async () => {
+        fixtures = await startFixtureServer();
+        downloadsDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'session-media-'));
+    });
+
+    after(async () => {
+        await fixtures?.close();
+        await fsPromises.rm(downloadsDir, { recursive: true, force: true });
+    });
+
+    it('sends cookies only to the hosts they belong to', async () => {
+        const cookies = [
+            { name: 'sessionid', value: 'abc', domain: '127.0.0.1', path: '/', expires: -1, httpOnly: true, secure: false },
+            { name: 'other', value: 'xyz', domain: '.instagram.com', path: '/', expires: -1, httpOnly: false, secure: false },
+        ];
+        await downloadMediaItems([{ url: fixtures.mediaUrl('/cdn/session-photo_640x480.jpg'), type: 'image' }], {
+            prefix: 'test_post',
+            downloadsDir,
+            cookies,
+        });
+
+        const [request] = fixtures.mediaRequests.filter(entry => entry.pathname === '/cdn/session-photo_640x480.jpg');
+        assert.equal(request.headers.cookie, 'sessionid=abc');
+    });
+});
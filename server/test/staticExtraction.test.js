@@ -0,0 +1,137 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import * as cheerio from 'cheerio';
+import { downloadInstagramContent } from '../services/instagram.js';
+import { downloadFacebookContent } from '../services/facebook.js';
+import { getExtractionStats, recordStrategy, resetExtractionStats } from '../utils/extractionStats.js';
+import { isBlockedPage, mediaFromJsonLd, readInlineJson } from '../utils/staticPage.js';
+import { posterPathFor } from '../utils/imageVariants.js';
+import { startFixtureServer } from './helpers/fixtureServer.js';
+import { mediaForPath } from './helpers/media.js';
+
+describe('static page helpers', () => {
+    it('reads JSON from data scripts and window assignments, skipping everything else', () => {
+        const $ = cheerio.load(`
+            <script type="application/json">{"a": 1}</script>
+            <script>window.__initialData = {"b": 2};</script>
+            <script>console.log("not data");</script>
+            <script type="application/json">{ broken</script>`);
+
+        assert.deepEqual(readInlineJson($), [{ a: 1 }, { b: 2 }]);
+    });
+
+    it('takes media from posts and media objects, not from logos', () => {
+        const media = mediaFromJsonLd([
+            { '@type': 'Organization', image: 'https://cdn.example/logo.png' },
+            { '@type': 'SocialMediaPosting', image: ['https://cdn.example/photo.jpg', 'https://cdn.example/poster.jpg'] },
+            { '@type': 'VideoObject', contentUrl: 'https://cdn.example/clip.mp4', thumbnailUrl: 'https://cdn.example/poster.jpg' },
+        ]);
+
+        assert.deepEqual(media, [
+            { url: 'https://cdn.example/clip.mp4', type: 'video', poster: 'https://cdn.example/poster.jpg' },
+            { url: 'https://cdn.example/photo.jpg', type: 'image' },
+        ]);
+    });
+
+    it('recognises login walls by path, form or notice', () => {
+        const blockers = { loginPaths: ['/accounts/login'], loginSelectors: ['form#loginForm'], unavailableTexts: ['This account is private'] };
+
+        assert.equal(isBlockedPage(cheerio.load('<p>Post</p>'), 'https://www.instagram.com/accounts/login/?next=/p/1/', blockers), true);
+        assert.equal(isBlockedPage(cheerio.load('<form id="loginForm"></form>'), 'https://www.instagram.com/p/1/', blockers), true);
+        assert.equal(isBlockedPage(cheerio.load('<h2>This account is private</h2>'), 'https://www.instagram.com/p/1/', blockers), true);
+        assert.equal(isBlockedPage(cheerio.load('<p>Post</p>'), 'https://www.instagram.com/p/1/', blockers), false);
+    });
+});
+
+// No browser involved: these pass wherever the fixture server can run
+describe('extraction from embedded page data', () => {
+    let fixtures;
+    let downloadsDir;
+
+    before(async () => {
+        fixtures = await startFixtureServer();
+        downloadsDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'static-extraction-'));
+    });
+
+    after(async () => {
+        await fixtures?.close();
+        await fsPromises.rm(downloadsDir, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        resetExtractionStats();
+    });
+
+    async function assertWrittenItems(result, expectedUrls) {
+        assert.equal(result.success, true);
+        assert.equal(result.strategy, 'static');
+        assert.deepEqual(result.items.map(item => item.sourceUrl), expectedUrls.map(fixtures.mediaUrl));
+        for (const [index, item] of result.items.entries()) {
+            const written = await fsPromises.readFile(path.join(downloadsDir, item.filename));
+            assert.deepEqual(written, mediaForPath(new URL(expectedUrls[index], fixtures.origin).pathname).body);
+        }
+    }
+
+    it('downloads the largest rendition of every Instagram carousel slide from inline JSON', async () => {
+        const result = await downloadInstagramContent(fixtures.pageUrl('instagram/embedded-json.html'), 'post', downloadsDir);
+
+        await assertWrittenItems(result, [
+            '/scontent-fixture/v/t51/json-1_1080x1080.jpg?oh=1',
+            '/scontent-fixture/v/t50/json-2.mp4?efg=2',
+            '/scontent-fixture/v/t51/json-3_1080x1350.jpg',
+        ]);
+        assert.deepEqual(result.items.map(item => item.mediaType), ['image', 'video', 'image']);
+        const poster = await fsPromises.readFile(posterPathFor(downloadsDir, result.items[1].filename));
+        assert.deepEqual(poster, mediaForPath('/scontent-fixture/v/t51/json-2-poster_1080x1920.jpg').body);
+
+        assert.deepEqual(result.metadata, {
+            author: { handle: 'fixture_user', displayName: 'Fixture User' },
+            caption: 'Three frames from the pier #sunset with @pier_friend',
+            hashtags: ['sunset'],
+            mentions: ['pier_friend'],
+            postedAt: '2024-03-01T18:30:00.000Z',
+            likeCount: 1234,
+            viewCount: null,
+        });
+    });
+
+    it('falls back to ld+json when there is no inline post data', async () => {
+        const result = await downloadInstagramContent(fixtures.pageUrl('instagram/ld-json.html'), 'reel', downloadsDir);
+
+        await assertWrittenItems(result, ['/scontent-fixture/v/t50/ld-reel.mp4']);
+        assert.deepEqual(result.metadata, {
+            author: { handle: 'reel_maker', displayName: 'Reel Maker' },
+            caption: 'Tide coming in #waves',
+            hashtags: ['waves'],
+            mentions: [],
+            postedAt: '2024-04-02T07:15:00.000Z',
+            likeCount: 88,
+            viewCount: 4321,
+        });
+    });
+
+    it('prefers the HD Facebook video named in script data', async () => {
+        const result = await downloadFacebookContent(fixtures.pageUrl('facebook/embedded-json.html'), 'post', downloadsDir);
+
+        await assertWrittenItems(result, ['/fbcdn-fixture/v/json-video-hd-96k.mp4?tag=hd&x=1']);
+        const poster = await fsPromises.readFile(posterPathFor(downloadsDir, result.items[0].filename));
+        assert.deepEqual(poster, mediaForPath('/fbcdn-fixture/json-thumb_1280x720.jpg').body);
+        assert.equal(result.metadata.author.displayName, 'Fixture Page');
+        assert.equal(result.metadata.caption, 'Harbour timelapse #boats');
+    });
+
+    it('counts attempts and hits per platform and strategy', async () => {
+        await downloadInstagramContent(fixtures.pageUrl('instagram/ld-json.html'), 'reel', downloadsDir);
+        recordStrategy('instagram', 'browser', false);
+        recordStrategy('instagram', 'browser', true);
+
+        assert.deepEqual(getExtractionStats(), [{
+            platform: 'instagram',
+            static: { attempts: 1, hits: 1, hitRate: 1 },
+            browser: { attempts: 2, hits: 1, hitRate: 0.5 },
+        }]);
+    });
+});
@@ -0,0 +1,128 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import { describeRenditions, estimateBytes, isRecordedChoice, parseVideoQuality, selectRendition } from '../utils/videoRenditions.js';
+import { createMediaIndex } from '../utils/mediaIndex.js';
+import { createLocalStorage } from '../utils/storage.js';
+import { downloadRequestSchema, validate } from '../../shared/apiContract.js';
+import { downloadInstagramContent } from '../services/instagram.js';
+import { downloadFacebookContent } from '../services/facebook.js';
+import { startFixtureServer } from './helpers/fixtureServer.js';
+
+const SIZED = [
+    { url: 'https://cdn.example/1080.mp4', width: 1080, height: 1920, bytes: 9000 },
+    { url: 'https://cdn.example/480.mp4', width: 480, height: 854, bytes: 2000 },
+    { url: 'https://cdn.example/720.mp4', width: 720, height: 1280, bytes: 5000 },
+];
+
+describe('rendition selection', () => {
+    it('picks the tallest, the smallest, or the tallest not above a height', () => {
+        assert.equal(selectRendition(SIZED, 'best').height, 1920);
+        assert.equal(selectRendition(SIZED, 'smallest').height, 854);
+        assert.equal(selectRendition(SIZED, 1280).height, 1280);
+        assert.equal(selectRendition(SIZED, 1000).height, 854);
+        assert.equal(selectRendition(SIZED, 240).height, 854, 'nothing small enough: the smallest there is');
+    });
+
+    it('keeps the extractor order when heights are unknown', () => {
+        const labelled = [{ url: 'hd.mp4', label: 'HD' }, { url: 'sd.mp4', label: 'SD' }];
+
+        assert.equal(selectRendition(labelled, 'best').label, 'HD');
+        assert.equal(selectRendition(labelled, 'smallest').label, 'SD');
+        assert.equal(selectRendition(labelled, 360).label, 'HD', 'a height can only be matched to known heights');
+        assert.equal(selectRendition([{ ...labelled[0], bytes: 100 }, { ...labelled[1], bytes: 900 }], 'smallest').label, 'HD', 'sizes beat labels');
+    });
+
+    it('estimates sizes from bitrate and duration', () => {
+        assert.equal(estimateBytes({ bitrate: 800000 }, 10), 1000000);
+        assert.equal(estimateBytes({ bitrate: 800000 }, undefined), null);
+        assert.equal(estimateBytes({ bytes: 42, bitrate: 800000 }, 10), 42);
+    });
+
+    it('lists the options best first with the selected one marked', () => {
+        const options = describeRenditions(SIZED, SIZED[2]);
+
+        assert.deepEqual(options.map(({ label, approxBytes, selected }) => ({ label, approxBytes, selected })), [
+            { label: '1920p', approxBytes: 9000, selected: false },
+            { label: '1280p', approxBytes: 5000, selected: true },
+            { label: '854p', approxBytes: 2000, selected: false },
+        ]);
+    });
+
+    it('accepts presets and heights in requests', () => {
+        const request = { url: 'https://www.instagram.com/reel/1/', contentType: 'reel' };
+
+        assert.equal(validate(downloadRequestSchema, { ...request, quality: 'Smallest' }).value.quality, 'smallest');
+        assert.equal(validate(downloadRequestSchema, { ...request, quality: '720p' }).value.quality, '720');
+        assert.equal(validate(downloadRequestSchema, { ...request, quality: 480 }).value.quality, '480');
+        assert.equal(validate(downloadRequestSchema, { ...request, quality: 'potato' }).ok, false);
+        assert.equal(parseVideoQuality('720'), 720);
+        assert.equal(parseVideoQuality(undefined), 'best');
+    });
+});
+
+describe('quality preference on downloads', () => {
+    let fixtures;
+    let downloadsDir;
+
+    before(async () => {
+        fixtures = await startFixtureServer();
+        downloadsDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'renditions-'));
+    });
+
+    after(async () => {
+        await fixtures?.close();
+        await fsPromises.rm(downloadsDir, { recursive: true, force: true });
+    });
+
+    it('downloads the Instagram rendition that fits the height and reports the others', async () => {
+        const result = await downloadInstagramContent(fixtures.pageUrl('instagram/embedded-json.html'), 'post', downloadsDir, undefined, { quality: 1000 });
+
+        const video = result.items[1];
+        assert.equal(video.sourceUrl, fixtures.mediaUrl('/scontent-fixture/v/t50/json-2-low.mp4'));
+        assert.deepEqual(video.renditions.map(({ label, selected }) => ({ label, selected })), [
+            { label: '1920p', selected: false },
+            { label: '854p', selected: true },
+        ]);
+        assert.ok(video.renditions.every(rendition => rendition.approxBytes === 64 * 1024), 'sizes come from the CDN');
+        assert.equal(result.items[0].renditions, undefined, 'photos have no renditions');
+    });
+
+    it('downloads the smaller Facebook rendition when asked for the smallest file', async () => {
+        const result = await downloadFacebookContent(fixtures.pageUrl('facebook/embedded-json.html'), 'post', downloadsDir, undefined, { quality: 'smallest' });
+
+        assert.equal(result.items[0].sourceUrl, fixtures.mediaUrl('/fbcdn-fixture/v/json-video-sd-16k.mp4?tag=sd'));
+        assert.deepEqual(result.items[0].renditions.map(({ label, approxBytes, selected }) => ({ label, approxBytes, selected })), [
+            { label: 'HD', approxBytes: 96 * 1024, selected: false },
+            { label: 'SD', approxBytes: 16 * 1024, selected: true },
+        ]);
+    });
+
+    it('reuses a downloaded post only in the quality it was downloaded in', async () => {
+        const mediaIndex = createMediaIndex({ indexPath: path.join(downloadsDir, 'index.json'), storage: createLocalStorage({ rootDir: downloadsDir }) });
+        const pageUrl = fixtures.pageUrl('instagram/embedded-json.html');
+        const download = (quality) => downloadInstagramContent(pageUrl, 'post', downloadsDir, undefined, { quality, mediaIndex });
+
+        const best = await download('best');
+        assert.equal(best.items[1].sourceUrl, fixtures.mediaUrl('/scontent-fixture/v/t50/json-2.mp4?efg=2'));
+
+        const smallest = await download('smallest');
+        assert.equal(smallest.reused, undefined, 'the cached best rendition is not the smallest');
+        assert.equal(smallest.items[1].sourceUrl, fixtures.mediaUrl('/scontent-fixture/v/t50/json-2-low.mp4'));
+        assert.notEqual(smallest.items[1].filename, best.items[1].filename);
+        assert.equal(smallest.items[0].filename, best.items[0].filename, 'the photo is shared');
+
+        // Each quality is answered from the index from now on
+        const again = await download('smallest');
+        assert.equal(again.reused, true);
+        assert.equal(again.items[1].filename, smallest.items[1].filename);
+        assert.deepEqual(again.items[1].renditions.map(({ label, selected }) => ({ label, selected })), [
+            { label: '1920p', selected: false },
+            { label: '854p', selected: true },
+        ]);
+        assert.equal((await download('1080')).items[1].filename, best.items[1].filename);
+        assert.equal(isRecordedChoice(undefined, 'smallest'), true, 'videos recorded without renditions');
+    });
+});
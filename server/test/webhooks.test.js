@@ -0,0 +1,218 @@
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import { WebhookError, createSigningSecret, createWebhookDispatcher, signPayload, verifySignature } from '../utils/webhooks.js';
+import { isPublicAddress } from '../utils/outboundTargets.js';
+import { createJob, onJobFinished, runJob } from '../utils/jobStore.js';
+import { registerWebhookRequestSchema, validate } from '../../shared/apiContract.js';
+import { startWebhookReceiver } from './helpers/webhookReceiver.js';
+
+const completedJob = {
+    id: 'job-1',
+    url: 'https://example.com/p/1',
+    platform: 'instagram',
+    contentType: 'post',
+    phase: 'completed',
+    result: {
+        success: true,
+        items: [{ filename: 'instagram_post_a.jpg', bytes: 2048, size: '2 KB', mediaType: 'image', sha256: 'abc', downloadUrl: 'http://localhost:3001/downloads/instagram_post_a.jpg' }],
+        metadata: { author: { handle: 'harbour_cam', displayName: null }, caption: 'Sunset', hashtags: [], mentions: [], postedAt: null, likeCount: null, viewCount: null },
+    },
+    error: null,
+    createdAt: '2024-06-01T12:00:00.000Z',
+    updatedAt: '2024-06-01T12:00:05.000Z',
+};
+const failedJob = { ...completedJob, id: 'job-2', phase: 'failed', result: null, error: { code: 'LOGIN_REQUIRED', message: 'Login wall' } };
+
+describe('webhook signatures', () => {
+    it('verifies its own signatures and rejects tampered or stale ones', () => {
+        const now = Date.parse('2024-06-01T12:00:00Z');
+        const timestamp = now / 1000;
+        const header = signPayload('whsec_test', timestamp, '{"a":1}');
+
+        assert.match(header, /^t=\d+,v1=[0-9a-f]{64}$/);
+        assert.equal(verifySignature('whsec_test', header, '{"a":1}', { now }), true);
+        assert.equal(verifySignature('whsec_test', header, '{"a":2}', { now }), false);
+        assert.equal(verifySignature('whsec_other', header, '{"a":1}', { now }), false);
+        assert.equal(verifySignature('whsec_test', header, '{"a":1}', { now: now + 600 * 1000 }), false, 'older than the tolerance');
+    });
+});
+
+describe('webhook registration requests', () => {
+    it('checks the events against the known ones', () => {
+        const url = 'https://hooks.example.com/downloads';
+
+        assert.deepEqual(validate(registerWebhookRequestSchema, { url, events: ['download.failed', 'Download.Failed'] }).value, { url, events: ['download.failed'] });
+        assert.equal(validate(registerWebhookRequestSchema, { url }).value.events, undefined, 'every event by default');
+        for (const events of [['download.started'], [], 'download.failed', [42]]) {
+            const validation = validate(registerWebhookRequestSchema, { url, events });
+            assert.equal(validation.ok, false, JSON.stringify(events));
+            assert.ok(validation.error.details.events);
+        }
+    });
+});
+
+describe('webhook dispatcher', () => {
+    let receiver;
+    let workDir;
+    let dispatcher;
+
+    before(async () => {
+        receiver = await startWebhookReceiver();
+    });
+
+    beforeEach(async () => {
+        workDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'webhooks-'));
+        receiver.requests.length = 0;
+        // The receiver runs on loopback, which only an explicit allowlist entry lets through
+        dispatcher = createWebhookDispatcher({ storePath: path.join(workDir, 'webhooks.json'), allowedHosts: ['127.0.0.1'], retryDelaysMs: [20, 40] });
+    });
+
+    afterEach(async () => {
+        dispatcher.stop();
+        await fsPromises.rm(workDir, { recursive: true, force: true });
+    });
+
+    after(async () => {
+        await receiver?.close();
+    });
+
+    it("posts a payload signed with the job's own secret to its callback URL", async () => {
+        const callbackSecret = createSigningSecret();
+        const [delivery] = await dispatcher.notifyJob(completedJob, { owner: 'alice', callbackUrl: `${receiver.url}/hook`, callbackSecret });
+
+        assert.equal(delivery.status, 'delivered');
+        const [request] = receiver.requests;
+        assert.equal(request.path, '/hook');
+        assert.equal(request.headers['x-webhook-event'], 'download.completed');
+        assert.equal(request.headers['x-webhook-delivery'], delivery.id);
+        assert.ok(verifySignature(callbackSecret, request.headers['x-webhook-signature'], request.body));
+        assert.ok(!verifySignature(createSigningSecret(), request.headers['x-webhook-signature'], request.body), "another job's secret");
+        assert.ok(!JSON.stringify(await dispatcher.listDeliveries()).includes(callbackSecret), 'the secret is not listed');
+        assert.deepEqual(request.json.files, [{
+            filename: 'instagram_post_a.jpg', bytes: 2048, size: '2 KB', mediaType: 'image', sha256: 'abc',
+            downloadUrl: 'http://localhost:3001/downloads/instagram_post_a.jpg', reused: false,
+        }]);
+        assert.equal(request.json.metadata.author.handle, 'harbour_cam');
+        assert.equal(request.json.job.id, 'job-1');
+        assert.equal(request.json.error, null);
+    });
+
+    it('sends registered webhooks the events they subscribed to, signed with their own secret', async () => {
+        const { secret, webhook } = await dispatcher.register({ url: `${receiver.url}/failures`, events: ['download.failed'] });
+        await assert.rejects(dispatcher.register({ url: receiver.url, events: ['download.started'] }), WebhookError);
+
+        assert.deepEqual(await dispatcher.notifyJob(completedJob), [], 'nobody wants completions');
+        const [delivery] = await dispatcher.notifyJob(failedJob, { owner: 'bob' });
+
+        assert.equal(delivery.webhookId, webhook.id);
+        const [request] = receiver.requests;
+        assert.ok(verifySignature(secret, request.headers['x-webhook-signature'], request.body));
+        assert.deepEqual(request.json.error, { code: 'LOGIN_REQUIRED', message: 'Login wall' });
+        assert.deepEqual(request.json.files, []);
+        assert.ok(!JSON.stringify(await dispatcher.list()).includes(secret), 'the secret is not listed');
+    });
+
+    it('registers no webhook it could not save', async () => {
+        const storeDir = path.join(workDir, 'store');
+        const unsaved = createWebhookDispatcher({ storePath: path.join(storeDir, 'webhooks.json'), allowedHosts: ['127.0.0.1'] });
+        await unsaved.list();
+        await fsPromises.writeFile(storeDir, ''); // A file where the store's directory should be
+
+        await assert.rejects(unsaved.register({ url: `${receiver.url}/hook` }), { code: /^(EEXIST|ENOTDIR)$/ });
+        assert.deepEqual(await unsaved.list(), []);
+    });
+
+    it('retries failed deliveries with backoff and logs every attempt', async () => {
+        receiver.respondWith(503, 500);
+        const [first] = await dispatcher.notifyJob(completedJob, { owner: 'alice', callbackUrl: receiver.url, callbackSecret: 'whsec_job' });
+        assert.equal(first.status, 'pending');
+        assert.ok(first.nextAttemptAt);
+
+        await receiver.waitForRequests(3);
+        await dispatcher.flush();
+
+        const [logged] = await dispatcher.listDeliveries({ jobId: 'job-1' });
+        assert.equal(logged.status, 'delivered');
+        assert.deepEqual(logged.attempts.map(attempt => attempt.statusCode), [503, 500, 200]);
+        assert.equal(logged.attempts[0].error, 'HTTP 503', "the receiver's response body is not kept");
+        const bodies = new Set(receiver.requests.map(request => request.json.id));
+        assert.equal(bodies.size, 1, 'retries resend the same payload');
+        assert.deepEqual(await dispatcher.listDeliveries({ owner: 'bob' }), []);
+        assert.equal((await dispatcher.getDelivery(logged.id)).payload.event, 'download.completed');
+    });
+
+    it('gives up when retries run out or the receiver rejects the payload', async () => {
+        receiver.respondWith(500, 500, 500, 410);
+        await dispatcher.notifyJob(completedJob, { callbackUrl: `${receiver.url}/flaky`, callbackSecret: 'whsec_job' });
+        await receiver.waitForRequests(3);
+        await dispatcher.flush();
+        await dispatcher.notifyJob(failedJob, { callbackUrl: `${receiver.url}/gone`, callbackSecret: 'whsec_job' });
+
+        const [gone, flaky] = await dispatcher.listDeliveries();
+        assert.equal(flaky.status, 'failed');
+        assert.equal(flaky.attempts.length, 3, 'one attempt plus one per retry delay');
+        assert.equal(gone.status, 'failed');
+        assert.equal(gone.attempts.length, 1, '4xx answers are not retried');
+
+        // The log survives a restart
+        const reloaded = createWebhookDispatcher({ storePath: path.join(workDir, 'webhooks.json') });
+        assert.deepEqual((await reloaded.listDeliveries()).map(delivery => delivery.status), ['failed', 'failed']);
+    });
+
+    it('hears about every finished job from the job store', async () => {
+        const finished = [];
+        const unsubscribe = onJobFinished((snapshot, context) => finished.push({ id: snapshot.id, phase: snapshot.phase, ...context }));
+        const job = createJob({ url: 'https://example.com/p/2', platform: 'test', contentType: 'post', owner: 'alice', callbackUrl: receiver.url, callbackSecret: 'whsec_job' });
+        await runJob(job.id, async () => ({ success: true, items: [] }));
+        unsubscribe();
+
+        assert.deepEqual(finished, [{ id: job.id, phase: 'completed', owner: 'alice', callbackUrl: receiver.url, callbackSecret: 'whsec_job' }]);
+    });
+});
+
+describe('webhook targets', () => {
+    let receiver;
+    let workDir;
+
+    before(async () => {
+        receiver = await startWebhookReceiver();
+        workDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'webhook-targets-'));
+    });
+
+    after(async () => {
+        await receiver?.close();
+        await fsPromises.rm(workDir, { recursive: true, force: true });
+    });
+
+    it('tells public addresses from the server network', () => {
+        for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+            assert.equal(isPublicAddress(address), false, address);
+        }
+        for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700::1111', '::ffff:8.8.8.8']) {
+            assert.equal(isPublicAddress(address), true, address);
+        }
+    });
+
+    it('refuses receivers on the server network unless their host is allowed', async () => {
+        const dispatcher = createWebhookDispatcher({ storePath: path.join(workDir, 'webhooks.json'), retryDelaysMs: [20] });
+
+        await assert.rejects(dispatcher.checkTarget('http://169.254.169.254/latest/meta-data/'), WebhookError);
+        await assert.rejects(dispatcher.checkTarget('http://[::1]:8080/hook'), WebhookError);
+        await assert.rejects(dispatcher.register({ url: 'http://10.0.0.5/hook' }), /not a public address/);
+        await assert.rejects(dispatcher.checkTarget('http://localhost:3001/hook'), WebhookError);
+
+        // Sent anyway (a callback accepted before the check, say): refused once, not retried
+        const [delivery] = await dispatcher.notifyJob(completedJob, { owner: 'alice', callbackUrl: receiver.url, callbackSecret: 'whsec_job' });
+        await dispatcher.flush();
+        assert.equal(delivery.status, 'failed');
+        assert.match(delivery.attempts[0].error, /not a public address/);
+        assert.equal(receiver.requests.length, 0);
+
+        const allowing = createWebhookDispatcher({ storePath: path.join(workDir, 'webhooks.json'), allowedHosts: ['127.0.0.1'] });
+        await allowing.checkTarget(receiver.url);
+        dispatcher.stop();
+    });
+});
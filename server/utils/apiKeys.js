@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import { API_KEY_ROLES } from '../../shared/apiContract.js';
+import { createJsonFileStore } from './jsonFileStore.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('ApiKeys');
+
+const STORE_VERSION = 1;
+const KEY_PREFIX = 'smd_';
+// Key use closer together than this doesn't rewrite the store
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// The key set in ADMIN_API_KEY, which is never stored and can't be revoked through the API
+export const BOOTSTRAP_ADMIN_ID = 'admin';
+
+export class ApiKeyError extends Error {
+    constructor(message, { cause } = {}) {
+        super(message, { cause });
+        this.name = 'ApiKeyError';
+    }
+}
+
+const hashKey = (key) => crypto.createHash('sha256').update(key).digest();
+
+/*
+ * API keys for the HTTP API, stored as one JSON file. A record (keyed by id) holds:
+ *   id           short random id; files and jobs are owned by it (see mediaIndex.js)
+ *   name         label given by the admin who created it
+ *   role         'user' (own files only) | 'admin' (every file, key management)
+ *   prefix       first characters of the key, to tell keys apart in listings
+ *   hash         SHA-256 of the key (hex); the key itself is shown once, on creation
+ *   createdAt, lastUsedAt, revokedAt
+ * `adminKey` (ADMIN_API_KEY) is an extra admin key that exists only in the environment, so a fresh
+ * deployment can create the others. Principals handed to the routes are { id, name, role }.
+ */
+export function createApiKeyStore({ storePath, adminKey = null }) {
+    let records = null; // id -> record, loaded on first use
+    const adminKeyHash = adminKey ? hashKey(adminKey) : null;
+    const file = createJsonFileStore({
+        filePath: storePath,
+        description: 'API key store',
+        logger,
+        mode: 0o600,
+        onLoad: parsed => {
+            records = new Map((parsed.keys || []).map(record => [record.id, record]));
+            if (records.size > 0) logger.info(`Loaded ${records.size} API key(s) from ${storePath}`);
+        },
+    });
+    const { ready } = file;
+
+    // Rejects when the store couldn't be written, so a key that wasn't saved is never handed out
+    function persist() {
+        return file.write({ version: STORE_VERSION, keys: [...records.values()] });
+    }
+
+    // ApiKeyInfo (shared/apiContract.js): everything but the hash
+    function toSummary({ id, name, role, prefix, createdAt, lastUsedAt, revokedAt }) {
+        return { id, name, role, prefix, createdAt, lastUsedAt, revokedAt };
+    }
+
+    const toPrincipal = ({ id, name, role }) => ({ id, name, role });
+
+    /**
+     * Issue a key. Resolves to { key, info }: `key` is the secret to hand over (it can't be shown
+     * again), `info` its ApiKeyInfo. Throws ApiKeyError for an unknown role, and the write error
+     * when the key couldn't be saved (it isn't issued then).
+     */
+    async function create({ name, role = 'user' }) {
+        if (!API_KEY_ROLES.includes(role)) {
+            throw new ApiKeyError(`role must be one of: ${API_KEY_ROLES.join(', ')}.`);
+        }
+        await ready();
+        const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+        const record = {
+            id: crypto.randomBytes(6).toString('hex'),
+            name: String(name).trim(),
+            role,
+            prefix: key.slice(0, KEY_PREFIX.length + 6),
+            hash: hashKey(key).toString('hex'),
+            createdAt: new Date().toISOString(),
+            lastUsedAt: null,
+            revokedAt: null,
+        };
+        records.set(record.id, record);
+        try {
+            await persist();
+        } catch (error) {
+            records.delete(record.id);
+            throw error;
+        }
+        logger.info(`Created ${role} key ${record.id} (${record.name}).`);
+        return { key, info: toSummary(record) };
+    }
+
+    // The principal a key belongs to, or null for unknown and revoked keys
+    async function authenticate(key) {
+        if (typeof key !== 'string' || !key) return null;
+        const hash = hashKey(key);
+        if (adminKeyHash && crypto.timingSafeEqual(hash, adminKeyHash)) {
+            return { id: BOOTSTRAP_ADMIN_ID, name: 'ADMIN_API_KEY', role: 'admin' };
+        }
+        await ready();
+        const hex = hash.toString('hex');
+        const record = [...records.values()].find(candidate => candidate.hash === hex);
+        if (!record || record.revokedAt) return null;
+
+        const now = Date.now();
+        if (!record.lastUsedAt || now - Date.parse(record.lastUsedAt) >= LAST_USED_RESOLUTION_MS) {
+            record.lastUsedAt = new Date(now).toISOString();
+            await persist().catch(() => {}); // Only bookkeeping; the failure is logged
+        }
+        return toPrincipal(record);
+    }
+
+    // The principal for a key id that is still valid (browser sessions hold only the id), or null
+    async function principalFor(id) {
+        if (adminKeyHash && id === BOOTSTRAP_ADMIN_ID) {
+            return { id: BOOTSTRAP_ADMIN_ID, name: 'ADMIN_API_KEY', role: 'admin' };
+        }
+        await ready();
+        const record = records.get(id);
+        return record && !record.revokedAt ? toPrincipal(record) : null;
+    }
+
+    // Every issued key, revoked ones included, oldest first
+    async function list() {
+        await ready();
+        return [...records.values()].map(toSummary).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    // Revoke a key; requests with it fail from now on. Resolves to the updated ApiKeyInfo, or null.
+    async function revoke(id) {
+        await ready();
+        const record = records.get(id);
+        if (!record) return null;
+        if (!record.revokedAt) {
+            record.revokedAt = new Date().toISOString();
+            await persist();
+            logger.info(`Revoked key ${id} (${record.name}).`);
+        }
+        return toSummary(record);
+    }
+
+    return { create, authenticate, principalFor, list, revoke };
+}
@@ -0,0 +1,162 @@
+import crypto from 'crypto';
+import { API_ERROR_CODES, createErrorEnvelope } from '../../shared/apiContract.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('Auth');
+
+const SESSION_COOKIE = 'smd_session';
+const SAME_SITE_VALUES = { strict: 'Strict', lax: 'Lax', none: 'None' };
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+// Everyone, while authentication is off: the server behaves as a single-user install
+export const LOCAL_PRINCIPAL = Object.freeze({ id: 'local', name: 'Local user', role: 'admin' });
+
+export const isAdmin = (principal) => principal?.role === 'admin';
+
+// Whether `principal` may see a file, job or batch owned by `owners` (an id, a list of ids or null).
+// Admins see everything; anything without an owner (from before keys existed) is theirs alone.
+export function canAccess(principal, owners) {
+    if (isAdmin(principal)) return true;
+    const ids = Array.isArray(owners) ? owners : owners ? [owners] : [];
+    return ids.includes(principal?.id);
+}
+
+function parseCookies(header = '') {
+    const cookies = {};
+    for (const part of header.split(';')) {
+        const separator = part.indexOf('=');
+        if (separator < 0) continue;
+        const name = part.slice(0, separator).trim();
+        try {
+            cookies[name] = decodeURIComponent(part.slice(separator + 1).trim());
+        } catch {
+            // Malformed escapes: not one of ours
+        }
+    }
+    return cookies;
+}
+
+/**
+ * Authentication for the API. Requests carry an API key (see apiKeys.js) as
+ * `Authorization: Bearer <key>` or `X-API-Key`, or the session cookie startSession() sets after a
+ * browser logs in with its key; EventSource and <img> can't send headers, so the web client relies
+ * on the cookie. The cookie holds `<keyId>.<expiry>.<HMAC>` and no secret, so revoking the key ends
+ * its sessions too.
+ * With `required` false (no ADMIN_API_KEY configured) every request is LOCAL_PRINCIPAL.
+ * The cookie goes along with requests other sites make too (SameSite=None deployments send it
+ * everywhere), so requests it alone authenticates may only change anything when they come from a
+ * page on one of `trustedOrigins` (the web client's) or are JSON, which other sites can only send
+ * after a CORS preflight; plain form posts from elsewhere get 403.
+ * Returns { required, identify, authenticate, requireAdmin, startSession, endSession }:
+ * identify(req) resolves to { user, expiresAt } (user null when signed out); authenticate and
+ * requireAdmin are Express middleware, authenticate sets req.user or answers 401.
+ */
+export function createAuth({ keys, required, secret = null, sessionTtlSeconds = 7 * 24 * 3600, sameSite = 'lax', secureCookie = false, trustedOrigins = [] }) {
+    const signingKey = secret ? crypto.createHash('sha256').update(`session-cookie:${secret}`).digest() : crypto.randomBytes(32);
+    const cookieSameSite = SAME_SITE_VALUES[String(sameSite).toLowerCase()] || 'Lax';
+    // Browsers drop SameSite=None cookies that aren't Secure
+    const cookieSecure = secureCookie || cookieSameSite === 'None';
+    // Origins as browsers send them ('*' is no origin in particular, so it trusts none)
+    const trusted = new Set(trustedOrigins.flatMap(origin => {
+        try {
+            return [new URL(origin).origin];
+        } catch {
+            return [];
+        }
+    }));
+
+    if (!required) {
+        logger.warn('ADMIN_API_KEY is not set: the API is open and every visitor is an admin. Set it before exposing the server.');
+    } else if (!secret) {
+        logger.warn('SESSION_SECRET is not set; browser sessions end whenever the server restarts.');
+    }
+
+    const sign = (payload) => crypto.createHmac('sha256', signingKey).update(payload).digest('base64url');
+
+    function sessionCookie(value, maxAgeSeconds) {
+        return [
+            `${SESSION_COOKIE}=${value}`,
+            'Path=/',
+            'HttpOnly',
+            `SameSite=${cookieSameSite}`,
+            `Max-Age=${maxAgeSeconds}`,
+            ...(cookieSecure ? ['Secure'] : []),
+        ].join('; ');
+    }
+
+    // { keyId, expiresAt } of a session cookie, or null if it is missing, forged, mangled or expired
+    function readSession(req) {
+        const value = parseCookies(req.get('cookie'))[SESSION_COOKIE];
+        const [keyId, expiresAt, signature] = value ? value.split('.') : [];
+        if (!keyId || !expiresAt || !signature) return null;
+        const expected = Buffer.from(sign(`${keyId}.${expiresAt}`));
+        const given = Buffer.from(signature);
+        if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return null;
+        return Number(expiresAt) > Date.now() ? { keyId, expiresAt: new Date(Number(expiresAt)).toISOString() } : null;
+    }
+
+    function keyFrom(req) {
+        const authorization = req.get('authorization');
+        if (authorization?.toLowerCase().startsWith('bearer ')) {
+            return authorization.slice('bearer '.length).trim();
+        }
+        return req.get('x-api-key') || null;
+    }
+
+    // A key in the request wins over the cookie, so scripts aren't affected by a browser login
+    async function identify(req) {
+        if (!required) {
+            return { user: LOCAL_PRINCIPAL, expiresAt: null };
+        }
+        const key = keyFrom(req);
+        if (key) {
+            return { user: await keys.authenticate(key), expiresAt: null };
+        }
+        const session = readSession(req);
+        return session ? { user: await keys.principalFor(session.keyId), expiresAt: session.expiresAt } : { user: null, expiresAt: null };
+    }
+
+    // Whether a request authenticated by the cookie alone may change state (see above)
+    function isFromOwnPage(req) {
+        if (SAFE_METHODS.has(req.method)) return true;
+        const origin = req.get('origin');
+        return Boolean((origin && trusted.has(origin)) || req.is('application/json'));
+    }
+
+    async function authenticate(req, res, next) {
+        try {
+            const { user } = await identify(req);
+            if (!user) {
+                const message = keyFrom(req) ? 'Invalid or revoked API key.' : 'Sign in with an API key to use this server.';
+                return res.status(401).json(createErrorEnvelope(API_ERROR_CODES.UNAUTHORIZED, message));
+            }
+            if (required && !keyFrom(req) && !isFromOwnPage(req)) {
+                logger.warn(`Refused a cross-site ${req.method} ${req.originalUrl} from ${req.get('origin') || 'an unknown origin'}`);
+                return res.status(403).json(createErrorEnvelope(API_ERROR_CODES.FORBIDDEN, 'Requests signed in by cookie must come from the web client; send an API key instead.'));
+            }
+            req.user = user;
+            next();
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    function requireAdmin(req, res, next) {
+        if (isAdmin(req.user)) return next();
+        res.status(403).json(createErrorEnvelope(API_ERROR_CODES.FORBIDDEN, 'Only admins can do this.'));
+    }
+
+    // Log the browser in as `principal` until the session expires (or its key is revoked)
+    function startSession(res, principal) {
+        const expiresAt = Date.now() + sessionTtlSeconds * 1000;
+        const payload = `${principal.id}.${expiresAt}`;
+        res.append('Set-Cookie', sessionCookie(`${payload}.${sign(payload)}`, sessionTtlSeconds));
+        return new Date(expiresAt).toISOString();
+    }
+
+    function endSession(res) {
+        res.append('Set-Cookie', sessionCookie('', 0));
+    }
+
+    return { required, identify, authenticate, requireAdmin, startSession, endSession };
+}
@@ -0,0 +1,278 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { API_ERROR_CODES, JOB_PHASES, createErrorEnvelope } from '../../shared/apiContract.js';
+import { getConfig } from './config.js';
+import { averageJobDurationMs, createJob, getJob, isTerminalPhase, runJob, subscribeToJob } from './jobStore.js';
+import { createLogger, runWithLogContext } from './logger.js';
+
+const logger = createLogger('Batch');
+
+/*
+ * A batch groups the download jobs of one submitted URL list. Every accepted URL gets an
+ * ordinary job (jobStore.js) right away, so it can be followed on its own, but at most
+ * BATCH_CONCURRENCY of them - across all batches - run at once; the rest wait in QUEUED, at most
+ * MAX_QUEUED_BATCH_ENTRIES of them. Callers check checkBatchCapacity() before adding entries;
+ * entries an enumeration finds once the queue is full are rejected with QUEUE_FULL.
+ * Batch snapshots (BatchProgressEvent in shared/apiContract.js) aggregate the jobs' progress.
+ * Batches enumerated from a profile or page start out empty with a `source` that is still
+ * 'discovering'; entries are added as they are found and the batch can't complete before then.
+ */
+
+const { batchConcurrency: BATCH_CONCURRENCY, maxQueuedBatchEntries: MAX_QUEUED_ENTRIES } = getConfig().jobs;
+const FINISHED_BATCH_TTL_MS = 60 * 60 * 1000; // Same as finished jobs
+const BATCH_EVENT_INTERVAL_MS = 500; // Job updates are already throttled; batches carry every entry, so slower still
+
+const batches = new Map();
+const batchEvents = new EventEmitter();
+batchEvents.setMaxListeners(0); // One listener per connected SSE client
+
+// --- Concurrency limit shared by all batches ---
+let running = 0;
+const waiting = [];
+
+function schedule(start) {
+    waiting.push(start);
+    drain();
+}
+
+function drain() {
+    while (running < BATCH_CONCURRENCY && waiting.length > 0) {
+        const start = waiting.shift();
+        running++;
+        start().finally(() => {
+            running--;
+            drain();
+        });
+    }
+}
+
+export function getBatchQueueStatus() {
+    return { concurrency: BATCH_CONCURRENCY, running, waiting: waiting.length, maxWaiting: MAX_QUEUED_ENTRIES };
+}
+
+// Whether `count` more entries fit in the queue. When they don't, retryAfterSeconds estimates
+// when enough places free up: BATCH_CONCURRENCY entries finish per average job duration.
+export function checkBatchCapacity(count) {
+    const missing = count - (MAX_QUEUED_ENTRIES - waiting.length);
+    if (missing <= 0) {
+        return { available: true, retryAfterSeconds: 0 };
+    }
+    const rounds = Math.ceil(missing / BATCH_CONCURRENCY);
+    return { available: false, retryAfterSeconds: Math.max(1, Math.ceil(rounds * averageJobDurationMs() / 1000)) };
+}
+
+// --- Snapshots ---
+function toSnapshot(batch) {
+    const entries = batch.entries.map(entry => ({
+        index: entry.index,
+        url: entry.url,
+        jobId: entry.jobId,
+        rejected: entry.rejected,
+        job: entry.jobId ? getJob(entry.jobId) ?? entry.lastSnapshot : null,
+        attempts: entry.attempts,
+    }));
+
+    const counts = { total: entries.length, rejected: 0, queued: 0, running: 0, completed: 0, failed: 0 };
+    let progressSum = 0;
+    for (const entry of entries) {
+        if (entry.rejected) {
+            counts.rejected++;
+            continue;
+        }
+        const phase = entry.job?.phase ?? JOB_PHASES.QUEUED;
+        if (phase === JOB_PHASES.COMPLETED) counts.completed++;
+        else if (phase === JOB_PHASES.FAILED) counts.failed++;
+        else if (phase === JOB_PHASES.QUEUED) counts.queued++;
+        else counts.running++;
+        progressSum += isTerminalPhase(phase) ? 100 : entry.job?.progress ?? 0;
+    }
+    const accepted = counts.total - counts.rejected;
+    const discovering = batch.source?.status === 'discovering';
+
+    return {
+        id: batch.id,
+        contentType: batch.contentType,
+        allowFallback: batch.allowFallback,
+        quality: batch.quality,
+        phase: discovering || counts.queued + counts.running > 0 ? 'running' : 'completed',
+        progress: accepted > 0 ? Math.round(progressSum / accepted) : 100,
+        counts,
+        entries,
+        source: batch.source ? { ...batch.source } : null,
+        createdAt: batch.createdAt,
+        updatedAt: batch.updatedAt,
+    };
+}
+
+function emitUpdate(batch, { force = false } = {}) {
+    if (!force && Date.now() - batch.lastEmittedAt < BATCH_EVENT_INTERVAL_MS) {
+        // Coalesce: make sure the latest state still goes out once the interval has passed
+        if (!batch.pendingEmit) {
+            batch.pendingEmit = setTimeout(() => emitUpdate(batch, { force: true }), BATCH_EVENT_INTERVAL_MS);
+            batch.pendingEmit.unref();
+        }
+        return;
+    }
+    clearTimeout(batch.pendingEmit);
+    batch.pendingEmit = null;
+    batch.lastEmittedAt = Date.now();
+    const snapshot = toSnapshot(batch);
+    batchEvents.emit(batch.id, snapshot);
+    if (snapshot.phase === 'completed') {
+        scheduleCleanup(batch);
+    }
+}
+
+function scheduleCleanup(batch) {
+    clearTimeout(batch.cleanupTimer);
+    batch.cleanupTimer = setTimeout(() => {
+        batches.delete(batch.id);
+        batchEvents.removeAllListeners(batch.id);
+    }, FINISHED_BATCH_TTL_MS);
+    batch.cleanupTimer.unref(); // Don't keep the process alive just to expire batches
+}
+
+// Queue one job for `entry`, waiting for a free slot before `makeTask` runs. The job's logs
+// carry the batchId besides its own jobId.
+function startEntry(batch, entry) {
+    const job = runWithLogContext({ batchId: batch.id }, () => createJob({ ...entry.request, owner: batch.owner }));
+    entry.jobId = job.id;
+    entry.lastSnapshot = job;
+    entry.attempts++;
+
+    const unsubscribe = subscribeToJob(job.id, snapshot => {
+        entry.lastSnapshot = snapshot; // Outlives the job's own expiry
+        batch.updatedAt = snapshot.updatedAt;
+        emitUpdate(batch, { force: isTerminalPhase(snapshot.phase) });
+    });
+    schedule(() => runJob(job.id, entry.makeTask).finally(unsubscribe));
+}
+
+function toEntry(entry, index) {
+    return {
+        index,
+        url: entry.url,
+        rejected: entry.rejected ?? null,
+        request: entry.request ?? null,
+        makeTask: entry.makeTask ?? null,
+        jobId: null,
+        lastSnapshot: null,
+        attempts: 0,
+    };
+}
+
+/**
+ * Create a batch and queue its accepted entries.
+ * @param {{ contentType: string, allowFallback?: boolean, entries?: Array<{ url: string, rejected?: object | null,
+ *           request?: { url: string, platform: string, contentType: string },
+ *           makeTask?: (onProgress: Function) => Promise<unknown> }>,
+ *           source?: { url: string, kind: string }, owner?: string | null, quality?: string }} options
+ *   Entries without `rejected` need the job fields (`request`) and the download (`makeTask`).
+ *   With `source`, the batch stays open for addBatchEntries() until completeDiscovery().
+ *   `owner` (an API key id) owns the batch and each of its jobs. `quality` (VideoQuality) is the
+ *   one its entries are downloaded in, kept so clients can retry an entry the same way.
+ */
+export function createBatch({ contentType, allowFallback = false, quality = 'best', entries = [], source = null, owner = null }) {
+    const now = new Date().toISOString();
+    const batch = {
+        id: uuidv4(),
+        owner,
+        contentType,
+        allowFallback,
+        quality,
+        entries: entries.map(toEntry),
+        source: source ? { url: source.url, kind: source.kind, status: 'discovering', found: 0, error: null } : null,
+        createdAt: now,
+        updatedAt: now,
+        lastEmittedAt: 0,
+        pendingEmit: null,
+        cleanupTimer: null,
+    };
+    batches.set(batch.id, batch);
+
+    for (const entry of batch.entries) {
+        if (!entry.rejected) startEntry(batch, entry);
+    }
+    if (source) {
+        logger.info(`Batch ${batch.id}: discovering items of ${source.kind} ${source.url}.`);
+    } else {
+        logger.info(`Batch ${batch.id}: queued ${batch.entries.filter(entry => !entry.rejected).length} of ${batch.entries.length} URL(s).`);
+    }
+    if (toSnapshot(batch).phase === 'completed') {
+        scheduleCleanup(batch);
+    }
+    return toSnapshot(batch);
+}
+
+// Append entries (same shape as createBatch's) to a batch that is still discovering its source.
+// Those that don't fit in the queue any more are rejected. Returns the new snapshot, or null for
+// an unknown batch.
+export function addBatchEntries(id, entries) {
+    const batch = batches.get(id);
+    if (!batch) return null;
+
+    let room = MAX_QUEUED_ENTRIES - waiting.length;
+    const queueFull = createErrorEnvelope(API_ERROR_CODES.QUEUE_FULL, 'The server is busy with other downloads; retry this batch later.');
+    const fitting = entries.map(entry => (entry.rejected || room-- > 0 ? entry : { url: entry.url, rejected: queueFull }));
+    const overflow = fitting.filter((entry, index) => entry !== entries[index]).length;
+    if (overflow > 0) {
+        logger.warn(`Batch ${id}: queue full; rejecting ${overflow} found URL(s).`);
+    }
+    const added = fitting.map((entry, offset) => toEntry(entry, batch.entries.length + offset));
+    batch.entries.push(...added);
+    for (const entry of added) {
+        if (!entry.rejected) startEntry(batch, entry);
+    }
+    if (batch.source) {
+        batch.source.found += added.length;
+    }
+    batch.updatedAt = new Date().toISOString();
+    emitUpdate(batch);
+    return toSnapshot(batch);
+}
+
+// Mark a batch's source as fully listed (or failed to list, with `error` as a DownloadFailure).
+// The batch completes once its remaining jobs do. Returns the new snapshot, or null for an unknown batch.
+export function completeDiscovery(id, { error = null } = {}) {
+    const batch = batches.get(id);
+    if (!batch?.source) return null;
+
+    batch.source.status = error ? 'failed' : 'done';
+    batch.source.error = error;
+    batch.updatedAt = new Date().toISOString();
+    logger.info(`Batch ${id}: ${error ? `discovery failed (${error.code})` : 'discovery done'}, ${batch.source.found} item(s) found.`);
+    emitUpdate(batch, { force: true }); // Schedules cleanup if nothing is left to run
+    return toSnapshot(batch);
+}
+
+export function getBatch(id) {
+    const batch = batches.get(id);
+    return batch ? toSnapshot(batch) : null;
+}
+
+// Who a batch belongs to (see createBatch), for access checks; null for unknown and unowned batches
+export function getBatchOwner(id) {
+    return batches.get(id)?.owner ?? null;
+}
+
+// Start a fresh job for every failed entry. Returns the new snapshot, or null for an unknown batch.
+export function retryFailedEntries(id) {
+    const batch = batches.get(id);
+    if (!batch) return null;
+
+    const failed = batch.entries.filter(entry => !entry.rejected && entry.lastSnapshot?.phase === JOB_PHASES.FAILED);
+    clearTimeout(batch.cleanupTimer);
+    for (const entry of failed) {
+        startEntry(batch, entry);
+    }
+    batch.updatedAt = new Date().toISOString();
+    logger.info(`Batch ${id}: retrying ${failed.length} failed URL(s).`);
+    emitUpdate(batch, { force: true });
+    return toSnapshot(batch);
+}
+
+// Subscribe to snapshots for a single batch. Returns an unsubscribe function.
+export function subscribeToBatch(id, listener) {
+    batchEvents.on(id, listener);
+    return () => batchEvents.off(id, listener);
+}
@@ -0,0 +1,245 @@
+import puppeteer from 'puppeteer';
+import { getConfig } from './config.js';
+import { createLogger, runWithoutLogContext } from './logger.js';
+
+const logger = createLogger('BrowserPool');
+
+// Limits from config.js (browser.*):
+//   maxBrowsers         concurrent browser instances, to save resources
+//   maxPagesPerBrowser  concurrent checkouts (one page each) per browser
+//   maxUsesPerBrowser   recycle after this many checkouts; Chromium leaks memory over time
+//   idleTimeoutMs       close browsers nobody has used for this long
+//   acquireTimeoutMs    give up waiting for a free browser after this long
+const { launchArgs, ...DEFAULT_OPTIONS } = getConfig().browser;
+
+async function launchNewBrowser() {
+    logger.info('Launching new Puppeteer browser instance...');
+    return await puppeteer.launch({
+        headless: 'new',
+        args: [...launchArgs],
+    });
+}
+
+/*
+ * Pool of Puppeteer browsers. Every launched browser is tracked, whether idle or checked out:
+ *   - getBrowser() hands out a connected browser with a free page slot, launching one while
+ *     under maxBrowsers, otherwise queueing the caller for up to acquireTimeoutMs
+ *   - releaseBrowser() returns a slot; browsers that crashed are dropped, and browsers that
+ *     reached maxUsesPerBrowser are closed once their last page is released
+ *   - browsers idle for idleTimeoutMs are closed by a background reaper
+ * `launch` is injectable so the pool logic can be tested without Chromium.
+ */
+export function createBrowserPool(options = {}) {
+    const { launch = launchNewBrowser, ...limits } = options;
+    const config = { ...DEFAULT_OPTIONS, ...limits };
+
+    const entries = new Map(); // browser -> { id, browser, activePages, uses, retiring, launchedAt, lastUsedAt }
+    const waiters = []; // Callers waiting for a free slot: { resolve, reject, timer }
+    let launching = 0; // Launches in flight count towards maxBrowsers
+    let nextId = 1;
+    let reaper = null;
+
+    const liveCount = () => entries.size + launching;
+
+    function isHealthy(entry) {
+        return entry.browser.isConnected();
+    }
+
+    function removeEntry(entry) {
+        if (entries.get(entry.browser) === entry) {
+            entries.delete(entry.browser);
+        }
+        if (entries.size === 0 && reaper) {
+            clearInterval(reaper);
+            reaper = null;
+        }
+    }
+
+    async function closeEntry(entry, reason) {
+        removeEntry(entry);
+        logger.info(`Closing browser #${entry.id} (${reason}).`);
+        try {
+            if (entry.browser.isConnected()) {
+                await entry.browser.close();
+            }
+        } catch (error) {
+            logger.warn(`Failed to close browser #${entry.id}:`, error.message);
+        }
+    }
+
+    function reapIdleBrowsers() {
+        const now = Date.now();
+        for (const entry of [...entries.values()]) {
+            if (entry.activePages === 0 && now - entry.lastUsedAt >= config.idleTimeoutMs) {
+                closeEntry(entry, `idle for ${Math.round((now - entry.lastUsedAt) / 1000)}s`);
+            }
+        }
+    }
+
+    function startReaper() {
+        if (reaper) return;
+        // Started by whichever checkout launched the first browser; its logs belong to no request
+        reaper = runWithoutLogContext(() => setInterval(reapIdleBrowsers, Math.max(1000, Math.min(config.idleTimeoutMs / 2, 60000))));
+        reaper.unref(); // Don't keep the process alive just to reap browsers
+    }
+
+    async function launchEntry() {
+        launching++;
+        try {
+            const browser = await launch();
+            const now = Date.now();
+            const entry = { id: nextId++, browser, activePages: 0, uses: 0, retiring: false, launchedAt: now, lastUsedAt: now };
+            entries.set(browser, entry);
+            // A crashed or killed Chromium must never be handed out again
+            // (Outside the log context of the request that happened to launch it)
+            browser.on('disconnected', () => runWithoutLogContext(() => {
+                if (entries.get(browser) !== entry) return; // Closed by the pool itself
+                logger.warn(`Browser #${entry.id} disconnected unexpectedly; removing it from the pool.`);
+                removeEntry(entry);
+                serveWaiters();
+            }));
+            startReaper();
+            return entry;
+        } finally {
+            launching--;
+        }
+    }
+
+    function checkout(entry) {
+        entry.activePages++;
+        entry.uses++;
+        entry.lastUsedAt = Date.now();
+        if (entry.uses >= config.maxUsesPerBrowser) {
+            entry.retiring = true; // Finish the current pages, then recycle
+        }
+        return entry.browser;
+    }
+
+    // Least busy connected browser with a free page slot. Disconnected ones found on the way are dropped.
+    function findAvailable() {
+        let best = null;
+        for (const entry of [...entries.values()]) {
+            if (!isHealthy(entry)) {
+                logger.warn(`Browser #${entry.id} failed its health check; replacing it.`);
+                removeEntry(entry);
+                continue;
+            }
+            if (entry.retiring || entry.activePages >= config.maxPagesPerBrowser) continue;
+            if (!best || entry.activePages < best.activePages) {
+                best = entry;
+            }
+        }
+        return best;
+    }
+
+    function takeWaiter() {
+        const waiter = waiters.shift();
+        if (waiter) clearTimeout(waiter.timer);
+        return waiter;
+    }
+
+    // Hand freed capacity to queued callers, launching replacements where the cap allows
+    function serveWaiters() {
+        while (waiters.length > 0) {
+            const entry = findAvailable();
+            if (entry) {
+                takeWaiter().resolve(checkout(entry));
+                continue;
+            }
+            if (liveCount() >= config.maxBrowsers) return;
+
+            const waiter = takeWaiter();
+            launchEntry().then(
+                launched => waiter.resolve(checkout(launched)),
+                error => waiter.reject(error)
+            );
+        }
+    }
+
+    async function getBrowser() {
+        const entry = findAvailable();
+        if (entry) {
+            return checkout(entry);
+        }
+
+        if (liveCount() < config.maxBrowsers) {
+            return checkout(await launchEntry());
+        }
+
+        // Every browser is at its page cap: wait for a release, a crash or a reap to free a slot
+        return new Promise((resolve, reject) => {
+            const waiter = { resolve, reject, timer: null };
+            waiter.timer = setTimeout(() => {
+                const index = waiters.indexOf(waiter);
+                if (index !== -1) waiters.splice(index, 1);
+                const error = new Error(`Timed out after ${config.acquireTimeoutMs}ms waiting for a free browser.`);
+                error.code = 'BROWSER_ACQUIRE_TIMEOUT';
+                reject(error);
+            }, config.acquireTimeoutMs);
+            waiters.push(waiter);
+        });
+    }
+
+    function releaseBrowser(browser) {
+        if (!browser) return;
+        const entry = entries.get(browser);
+        if (!entry) {
+            // Already dropped (crashed, reaped or closed by closeAllBrowsers)
+            if (browser.isConnected()) {
+                browser.close().catch(error => logger.warn('Failed to close untracked browser:', error.message));
+            }
+            serveWaiters();
+            return;
+        }
+
+        entry.activePages = Math.max(0, entry.activePages - 1);
+        entry.lastUsedAt = Date.now();
+
+        if (!isHealthy(entry)) {
+            logger.warn(`Browser #${entry.id} was returned disconnected; dropping it.`);
+            removeEntry(entry);
+        } else if (entry.retiring && entry.activePages === 0) {
+            closeEntry(entry, `reached ${entry.uses} uses`);
+        }
+        serveWaiters();
+    }
+
+    async function closeAllBrowsers() {
+        logger.info('Closing all browsers in pool...');
+        while (waiters.length > 0) {
+            takeWaiter().reject(new Error('Browser pool is shutting down.'));
+        }
+        // Includes browsers that are still checked out; their pages fail and jobs report it
+        await Promise.all([...entries.values()].map(entry => closeEntry(entry, 'shutdown')));
+        logger.info('All browsers closed.');
+    }
+
+    // Snapshot for diagnostics (GET /api/diagnostics/browser-pool)
+    function getPoolStatus() {
+        const now = Date.now();
+        return {
+            limits: { ...config },
+            launching,
+            waiting: waiters.length,
+            browsers: [...entries.values()].map(entry => ({
+                id: entry.id,
+                connected: entry.browser.isConnected(),
+                activePages: entry.activePages,
+                uses: entry.uses,
+                retiring: entry.retiring,
+                ageMs: now - entry.launchedAt,
+                idleMs: entry.activePages === 0 ? now - entry.lastUsedAt : 0,
+            })),
+        };
+    }
+
+    return { getBrowser, releaseBrowser, closeAllBrowsers, getPoolStatus };
+}
+
+// Process-wide pool used by the download pipeline. Shutdown is handled by server/index.js.
+const defaultPool = createBrowserPool();
+
+export const getBrowser = defaultPool.getBrowser;
+export const releaseBrowser = defaultPool.releaseBrowser;
+export const closeAllBrowsers = defaultPool.closeAllBrowsers;
+export const getPoolStatus = defaultPool.getPoolStatus;
@@ -0,0 +1,270 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { BATCH_MAX_URLS } from '../../shared/apiContract.js';
+
+/*
+ * Server configuration, in one place. Every setting has an environment variable, can also be set
+ * in a JSON config file (CONFIG_FILE, same nesting as the config object, e.g.
+ * { "server": { "publicBaseUrl": "https://dl.example.com" } }) and otherwise has a default.
+ * The environment wins over the file. Everything is validated on load, and all problems are
+ * reported together in one ConfigError, so a bad deployment fails at startup rather than on the
+ * first request that happens to need the setting.
+ *
+ * getConfig() loads once from process.env and caches; loadConfig() is the pure version for tests.
+ * Settings marked `secret` are masked by describeConfig(), which is what the admin endpoint shows.
+ */
+
+const SERVER_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+const DEFAULT_LAUNCH_ARGS = [
+    '--no-sandbox',
+    '--disable-setuid-sandbox',
+    '--disable-dev-shm-usage',
+    '--disable-accelerated-2d-canvas',
+    '--no-first-run',
+    '--no-zygote',
+    '--disable-gpu',
+];
+
+/*
+ * Every setting, by its path in the config object. Fields:
+ *   env       environment variable
+ *   type      'string' | 'integer' | 'number' | 'boolean' | 'url' | 'path' | 'list'
+ *   default   a value, or a function of the settings above it; null means unset
+ *   enum / min / max   constraints
+ *   secret    masked in describeConfig()
+ * Order matters: defaults computed from other settings only see the ones listed before them.
+ */
+const SETTINGS = {
+    'server.port': { env: 'PORT', type: 'integer', default: 3001, min: 1, max: 65535 },
+    // Where clients reach this server; download and thumbnail URLs are built from it. Behind a
+    // proxy or on a host like Render this is the public https address, not localhost.
+    'server.publicBaseUrl': { env: 'PUBLIC_BASE_URL', type: 'url', default: (config) => `http://localhost:${config.server.port}` },
+    'server.trustProxy': { env: 'TRUST_PROXY', type: 'string', default: null },
+    'server.corsOrigins': { env: 'CORS_ORIGINS', type: 'list', default: ['http://localhost:5173', 'http://localhost:4173'] },
+    'server.nodeEnv': { env: 'NODE_ENV', type: 'string', default: 'development' },
+
+    'paths.downloadsDir': { env: 'DOWNLOADS_DIR', type: 'path', default: path.join(SERVER_DIR, 'downloads') },
+    'paths.dataDir': { env: 'DATA_DIR', type: 'path', default: path.join(SERVER_DIR, 'data') },
+    'paths.mediaIndex': { env: 'MEDIA_INDEX_PATH', type: 'path', default: (config) => path.join(config.paths.dataDir, 'media-index.json') },
+    'paths.sessionStore': { env: 'SESSION_STORE_PATH', type: 'path', default: (config) => path.join(config.paths.dataDir, 'sessions.json') },
+    'paths.apiKeyStore': { env: 'API_KEY_STORE_PATH', type: 'path', default: (config) => path.join(config.paths.dataDir, 'api-keys.json') },
+    'paths.webhookStore': { env: 'WEBHOOK_STORE_PATH', type: 'path', default: (config) => path.join(config.paths.dataDir, 'webhooks.json') },
+    'paths.storageCache': { env: 'STORAGE_CACHE_DIR', type: 'path', default: (config) => path.join(config.paths.dataDir, 'storage-cache') },
+
+    'storage.backend': { env: 'STORAGE_BACKEND', type: 'string', default: 'local', enum: ['local', 's3'] },
+    'storage.s3.endpoint': { env: 'S3_ENDPOINT', type: 'url', default: null },
+    'storage.s3.bucket': { env: 'S3_BUCKET', type: 'string', default: null },
+    'storage.s3.region': { env: 'S3_REGION', type: 'string', default: null },
+    'storage.s3.accessKeyId': { env: 'S3_ACCESS_KEY_ID', type: 'string', default: null, secret: true },
+    'storage.s3.secretAccessKey': { env: 'S3_SECRET_ACCESS_KEY', type: 'string', default: null, secret: true },
+    'storage.s3.prefix': { env: 'S3_PREFIX', type: 'string', default: null },
+    'storage.s3.urlExpirySeconds': { env: 'S3_URL_EXPIRY_SECONDS', type: 'integer', default: null, min: 1, max: 7 * 24 * 3600 },
+
+    'timeouts.navigationMs': { env: 'NAVIGATION_TIMEOUT_MS', type: 'integer', default: 45000, min: 1000 },
+    'timeouts.selectorMs': { env: 'SELECTOR_TIMEOUT_MS', type: 'integer', default: 15000, min: 1000 },
+    'timeouts.staticFetchMs': { env: 'STATIC_FETCH_TIMEOUT_MS', type: 'integer', default: 15000, min: 1000 },
+    'timeouts.mediaRequestMs': { env: 'MEDIA_REQUEST_TIMEOUT_MS', type: 'integer', default: 60000, min: 1000 },
+    'timeouts.storageRequestMs': { env: 'STORAGE_REQUEST_TIMEOUT_MS', type: 'integer', default: 60000, min: 1000 },
+
+    'browser.maxBrowsers': { env: 'BROWSER_POOL_MAX_BROWSERS', type: 'integer', default: 2, min: 1 },
+    'browser.maxPagesPerBrowser': { env: 'BROWSER_POOL_MAX_PAGES', type: 'integer', default: 2, min: 1 },
+    'browser.maxUsesPerBrowser': { env: 'BROWSER_POOL_MAX_USES', type: 'integer', default: 50, min: 1 },
+    'browser.idleTimeoutMs': { env: 'BROWSER_POOL_IDLE_MS', type: 'integer', default: 5 * 60 * 1000, min: 1000 },
+    'browser.acquireTimeoutMs': { env: 'BROWSER_POOL_ACQUIRE_MS', type: 'integer', default: 60 * 1000, min: 1000 },
+    'browser.launchArgs': { env: 'BROWSER_LAUNCH_ARGS', type: 'list', default: DEFAULT_LAUNCH_ARGS },
+
+    'jobs.maxConcurrent': { env: 'MAX_CONCURRENT_JOBS', type: 'integer', default: 4, min: 1 },
+    'jobs.maxQueued': { env: 'MAX_QUEUED_JOBS', type: 'integer', default: 20, min: 1 },
+    'jobs.batchConcurrency': { env: 'BATCH_CONCURRENCY', type: 'integer', default: 3, min: 1 },
+    // Batch entries waiting for one of those; at least one full batch must fit
+    'jobs.maxQueuedBatchEntries': { env: 'MAX_QUEUED_BATCH_ENTRIES', type: 'integer', default: 500, min: BATCH_MAX_URLS },
+
+    'rateLimit.burst': { env: 'RATE_LIMIT_BURST', type: 'number', default: 10, min: 1 },
+    'rateLimit.perMinute': { env: 'RATE_LIMIT_PER_MINUTE', type: 'number', default: 30, min: 0.1 },
+    'rateLimit.apiKeyBurst': { env: 'API_KEY_RATE_LIMIT_BURST', type: 'number', default: 30, min: 1 },
+    'rateLimit.apiKeyPerMinute': { env: 'API_KEY_RATE_LIMIT_PER_MINUTE', type: 'number', default: 120, min: 0.1 },
+
+    'retention.ttlHours': { env: 'RETENTION_TTL_HOURS', type: 'number', default: null, min: 0.01 },
+    'retention.quotaMb': { env: 'STORAGE_QUOTA_MB', type: 'number', default: null, min: 1 },
+    'retention.sweepMinutes': { env: 'RETENTION_SWEEP_MINUTES', type: 'number', default: 15, min: 0.1 },
+
+    'auth.adminApiKey': { env: 'ADMIN_API_KEY', type: 'string', default: null, secret: true },
+    'auth.sessionSecret': { env: 'SESSION_SECRET', type: 'string', default: null, secret: true },
+    'auth.sessionCookieSameSite': { env: 'SESSION_COOKIE_SAMESITE', type: 'string', default: 'lax', enum: ['lax', 'strict', 'none'] },
+
+    // Receivers on the server's own network (loopback, private, link-local) are refused unless listed here
+    'webhooks.allowedHosts': { env: 'WEBHOOK_ALLOWED_HOSTS', type: 'list', default: [] },
+
+    'logging.level': { env: 'LOG_LEVEL', type: 'string', default: 'info', enum: ['debug', 'info', 'warn', 'error', 'silent'] },
+
+    // Feature toggles
+    'features.staticExtraction': { env: 'FEATURE_STATIC_EXTRACTION', type: 'boolean', default: true }, // Try a plain HTTP fetch before opening a browser
+    'features.sampleFallback': { env: 'FEATURE_SAMPLE_FALLBACK', type: 'boolean', default: true }, // Honour requests' allowFallback
+    'features.webhooks': { env: 'FEATURE_WEBHOOKS', type: 'boolean', default: true }, // Deliver webhooks and callback URLs
+};
+
+// Rules involving several settings; each returns a problem or null
+const CROSS_CHECKS = [
+    (config) => (config.storage.backend === 's3'
+        && ['endpoint', 'bucket', 'accessKeyId', 'secretAccessKey'].some(key => !config.storage.s3[key])
+        ? 'STORAGE_BACKEND=s3 needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY.'
+        : null),
+];
+
+const MASK = '********';
+
+export class ConfigError extends Error {
+    constructor(message, { cause, problems = [] } = {}) {
+        super(message, { cause });
+        this.name = 'ConfigError';
+        this.problems = problems;
+    }
+}
+
+const getAt = (object, dotted) => dotted.split('.').reduce((node, key) => node?.[key], object);
+
+function setAt(object, dotted, value) {
+    const keys = dotted.split('.');
+    const last = keys.pop();
+    let node = object;
+    for (const key of keys) {
+        node[key] ??= {};
+        node = node[key];
+    }
+    node[last] = value;
+}
+
+// Turn a raw value (a string from the environment, anything from the file) into the setting's
+// type, relative paths resolved against `baseDir`. Returns { value } or { problem }.
+function coerce(setting, raw, baseDir) {
+    const text = typeof raw === 'string' ? raw.trim() : raw;
+    switch (setting.type) {
+        case 'integer':
+        case 'number': {
+            const value = typeof text === 'number' ? text : text === '' ? NaN : Number(text);
+            if (!Number.isFinite(value)) return { problem: 'must be a number' };
+            if (setting.type === 'integer' && !Number.isInteger(value)) return { problem: 'must be a whole number' };
+            if (setting.min !== undefined && value < setting.min) return { problem: `must be at least ${setting.min}` };
+            if (setting.max !== undefined && value > setting.max) return { problem: `must be at most ${setting.max}` };
+            return { value };
+        }
+        case 'boolean':
+            if (typeof text === 'boolean') return { value: text };
+            if (/^(true|1|yes|on)$/i.test(String(text))) return { value: true };
+            if (/^(false|0|no|off)$/i.test(String(text))) return { value: false };
+            return { problem: 'must be true or false' };
+        case 'url': {
+            let url = null;
+            try {
+                url = new URL(String(text));
+            } catch {
+                return { problem: 'must be an absolute URL' };
+            }
+            if (!['http:', 'https:'].includes(url.protocol)) return { problem: 'must be an http(s) URL' };
+            return { value: String(text).replace(/\/+$/, '') }; // URLs are built as `${base}/path`
+        }
+        case 'path':
+            if (typeof text !== 'string' || !text) return { problem: 'must be a path' };
+            return { value: path.resolve(baseDir, text) };
+        case 'list':
+            return { value: (Array.isArray(text) ? text.map(String) : String(text).split(',')).map(item => item.trim()).filter(Boolean) };
+        default:
+            if (typeof text !== 'string') return { problem: 'must be a string' };
+            if (setting.enum && !setting.enum.includes(text)) return { problem: `must be one of: ${setting.enum.join(', ')}` };
+            return { value: text };
+    }
+}
+
+function readConfigFile(configFile) {
+    try {
+        return JSON.parse(readFileSync(configFile, 'utf8'));
+    } catch (error) {
+        throw new ConfigError(`Cannot read config file ${configFile}: ${error.message}`, { cause: error, problems: [error.message] });
+    }
+}
+
+// Settings in the file that don't exist are most likely typos; report them rather than ignore them
+function unknownFileKeys(node, prefix = '') {
+    const unknown = [];
+    for (const [key, value] of Object.entries(node ?? {})) {
+        const dotted = prefix ? `${prefix}.${key}` : key;
+        if (SETTINGS[dotted]) continue;
+        if (value && typeof value === 'object' && !Array.isArray(value) && Object.keys(SETTINGS).some(name => name.startsWith(`${dotted}.`))) {
+            unknown.push(...unknownFileKeys(value, dotted));
+        } else {
+            unknown.push(dotted);
+        }
+    }
+    return unknown;
+}
+
+/*
+ * Build the config object from `env` and, if CONFIG_FILE (or `configFile`) names one, a JSON file.
+ * Returns a deep-frozen object. Throws ConfigError listing every invalid setting.
+ * `sources` (not enumerable) says where each setting came from: 'env:NAME', 'file' or 'default'.
+ */
+export function loadConfig({ env = process.env, configFile = env.CONFIG_FILE || null, cwd = process.cwd() } = {}) {
+    const file = configFile ? readConfigFile(path.resolve(cwd, configFile)) : {};
+    const fileDir = configFile ? path.dirname(path.resolve(cwd, configFile)) : cwd;
+    const problems = unknownFileKeys(file).map(key => `${key} (config file): not a known setting`);
+    const config = {};
+    const sources = {};
+
+    for (const [name, setting] of Object.entries(SETTINGS)) {
+        const envValue = env[setting.env];
+        const fileValue = getAt(file, name);
+        let value = typeof setting.default === 'function' ? setting.default(config) : setting.default;
+        let source = 'default';
+        if (envValue !== undefined && envValue !== '') {
+            source = `env:${setting.env}`;
+            const parsed = coerce(setting, envValue, cwd);
+            if (parsed.problem) problems.push(`${setting.env}: ${parsed.problem}`);
+            value = parsed.value ?? value;
+        } else if (fileValue !== undefined && fileValue !== null) {
+            source = 'file';
+            const parsed = coerce(setting, fileValue, fileDir);
+            if (parsed.problem) problems.push(`${name} (config file): ${parsed.problem}`);
+            value = parsed.value ?? value;
+        }
+        setAt(config, name, value);
+        sources[name] = source;
+    }
+
+    if (problems.length === 0) {
+        problems.push(...CROSS_CHECKS.map(check => check(config)).filter(Boolean));
+    }
+    if (problems.length > 0) {
+        throw new ConfigError(`Invalid configuration:\n  - ${problems.join('\n  - ')}`, { problems });
+    }
+    Object.defineProperty(config, 'sources', { value: Object.freeze(sources) });
+    Object.defineProperty(config, 'configFile', { value: configFile ? path.resolve(cwd, configFile) : null });
+    return deepFreeze(config);
+}
+
+function deepFreeze(object) {
+    for (const value of Object.values(object)) {
+        if (value && typeof value === 'object') deepFreeze(value);
+    }
+    return Object.freeze(object);
+}
+
+// The config as the admin endpoint shows it: secrets masked (null stays null, so "unset" is
+// still visible), plus where each setting came from
+export function describeConfig(config) {
+    const values = {};
+    for (const [name, setting] of Object.entries(SETTINGS)) {
+        const value = getAt(config, name);
+        setAt(values, name, setting.secret && value !== null ? MASK : value);
+    }
+    return { configFile: config.configFile ?? null, values, sources: { ...config.sources } };
+}
+
+let cached = null;
+
+// The process-wide config, loaded from process.env on first use
+export function getConfig() {
+    cached ??= loadConfig();
+    return cached;
+}
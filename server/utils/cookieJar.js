@@ -0,0 +1,120 @@
+/*
+ * Cookie exports as users bring them: the Netscape cookies.txt format (curl, wget, yt-dlp and
+ * most "export cookies" browser extensions) or a JSON array from extensions such as
+ * EditThisCookie / Cookie-Editor. Both are normalised to Puppeteer's cookie shape:
+ *   { name, value, domain, path, expires, httpOnly, secure, sameSite? }
+ * where `expires` is in seconds since the epoch and -1 marks a browser-session cookie.
+ */
+
+// Thrown for exports that hold no usable cookies; the message is shown to the operator as is
+export class CookieImportError extends Error {
+    constructor(message) {
+        super(message);
+        this.name = 'CookieImportError';
+    }
+}
+
+const SAME_SITE_VALUES = { strict: 'Strict', lax: 'Lax', none: 'None', no_restriction: 'None' };
+const HTTP_ONLY_PREFIX = '#HttpOnly_';
+
+// One tab-separated line: domain, include-subdomains, path, secure, expiry, name, value
+function parseNetscapeLine(line) {
+    let httpOnly = false;
+    if (line.startsWith(HTTP_ONLY_PREFIX)) {
+        httpOnly = true;
+        line = line.slice(HTTP_ONLY_PREFIX.length);
+    } else if (line.startsWith('#')) {
+        return null;
+    }
+    const fields = line.split('\t');
+    if (fields.length < 7) return null;
+
+    const [domain, , cookiePath, secure, expiry, name, ...value] = fields;
+    const expires = Number(expiry);
+    return {
+        name,
+        value: value.join('\t'),
+        domain,
+        path: cookiePath || '/',
+        expires: expires > 0 ? expires : -1,
+        httpOnly,
+        secure: secure.toUpperCase() === 'TRUE',
+    };
+}
+
+function fromJsonCookie(cookie) {
+    if (!cookie || typeof cookie.name !== 'string' || typeof cookie.value !== 'string' || typeof cookie.domain !== 'string') {
+        return null;
+    }
+    // Extensions call it expirationDate (seconds); Puppeteer and Playwright dumps call it expires
+    const expires = Number(cookie.expirationDate ?? cookie.expires);
+    const sameSite = SAME_SITE_VALUES[String(cookie.sameSite ?? '').toLowerCase()];
+    return {
+        name: cookie.name,
+        value: cookie.value,
+        domain: cookie.domain,
+        path: cookie.path || '/',
+        expires: cookie.session || !(expires > 0) ? -1 : Math.floor(expires),
+        httpOnly: Boolean(cookie.httpOnly),
+        secure: Boolean(cookie.secure),
+        ...(sameSite ? { sameSite } : {}),
+    };
+}
+
+/**
+ * Parse a cookies.txt or JSON cookie export. Malformed lines and entries are skipped; an export
+ * with no cookies at all throws CookieImportError.
+ */
+export function parseCookieFile(text) {
+    const content = String(text ?? '').replace(/^\uFEFF/, '');
+    const trimmed = content.trim();
+    let cookies;
+
+    if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+        let parsed;
+        try {
+            parsed = JSON.parse(trimmed);
+        } catch (error) {
+            throw new CookieImportError(`The cookie export looks like JSON but could not be parsed: ${error.message}`);
+        }
+        const list = Array.isArray(parsed) ? parsed : parsed.cookies; // Some tools wrap the array
+        cookies = Array.isArray(list) ? list.map(fromJsonCookie).filter(Boolean) : [];
+    } else {
+        // Only trim the start of each line: a cookie with an empty value ends in a tab
+        cookies = content.split(/\r?\n/).map(line => parseNetscapeLine(line.trimStart())).filter(Boolean);
+    }
+
+    if (cookies.length === 0) {
+        throw new CookieImportError('No cookies found. Upload a Netscape cookies.txt file or a JSON cookie export.');
+    }
+    return cookies;
+}
+
+// Whether a cookie set for `cookieDomain` is sent to `hostname` (".example.com" covers subdomains)
+export function domainMatches(cookieDomain, hostname) {
+    const domain = cookieDomain.toLowerCase().replace(/^\./, '');
+    const host = hostname.toLowerCase();
+    return host === domain || host.endsWith(`.${domain}`);
+}
+
+export function isExpired(cookie, now = Date.now()) {
+    return cookie.expires > 0 && cookie.expires * 1000 <= now;
+}
+
+// The Cookie header a browser would send with a request to `url`
+export function cookieHeaderFor(cookies, url, now = Date.now()) {
+    let target;
+    try {
+        target = new URL(url);
+    } catch {
+        return null;
+    }
+    const header = cookies
+        .filter(cookie => domainMatches(cookie.domain, target.hostname)
+            && target.pathname.startsWith(cookie.path)
+            && (!cookie.secure || target.protocol === 'https:')
+            && !isExpired(cookie, now))
+        .map(cookie => `${cookie.name}=${cookie.value}`)
+        .join('; ');
+    return header || null;
+}
@@ -0,0 +1,66 @@
+import { promises as fsPromises } from 'fs';
+import { downloadToFile, fetchBuffer, sha256OfFile } from './fileDownloader.js';
+import { muxFragmentedTracks } from './mp4Mux.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('DashDownloader');
+
+// Fetch one representation (see dashManifest.js) into `trackPath`: a single file goes through the
+// resumable downloader; segments are fetched one by one and appended after the initialization
+// segment, which makes a valid fragmented MP4 on its own. Calls onBytes(bytesSoFar).
+async function fetchRepresentation({ initialization, segments }, trackPath, { headers, onBytes }) {
+    const pieces = [initialization, ...segments].filter(Boolean);
+    if (pieces.length === 1 && !pieces[0].range) {
+        await downloadToFile(pieces[0].url, trackPath, { headers, onBytes: (bytesReceived) => onBytes(bytesReceived) });
+        return;
+    }
+    await fsPromises.rm(trackPath, { force: true });
+    let written = 0;
+    for (const piece of pieces) {
+        const body = await fetchBuffer(piece.url, { headers, range: piece.range });
+        await fsPromises.appendFile(trackPath, body);
+        written += body.length;
+        onBytes(written);
+    }
+}
+
+/**
+ * Download a DASH video representation and its audio representation (null when the video has
+ * its own sound, or none is offered) and mux them into one MP4 at `finalPath`. Like downloadToFile,
+ * it works in `<finalPath>.part` and renames it into place only once complete, and resolves to
+ * { bytes, sha256 }. The total passed to onBytes is estimated from the bitrates and
+ * `durationSeconds` (null without one), as segments don't say their sizes up front.
+ */
+export async function downloadDashStreams({ video, audio = null, durationSeconds = null }, finalPath, { headers = {}, onBytes = () => {} } = {}) {
+    const partPath = `${finalPath}.part`;
+    const trackPaths = [];
+    const estimatedTotal = durationSeconds > 0 ? Math.round(((video.bandwidth + (audio?.bandwidth ?? 0)) * durationSeconds) / 8) || null : null;
+    let bytesBefore = 0; // Bytes of the tracks already fetched
+
+    try {
+        for (const representation of [video, audio].filter(Boolean)) {
+            const trackPath = `${finalPath}.${representation.kind}.part`;
+            trackPaths.push(trackPath);
+            logger.info(`Fetching ${representation.kind} representation ${representation.id || '(unnamed)'} (${representation.segments.length} segment(s)) for ${finalPath}`);
+            await fetchRepresentation(representation, trackPath, { headers, onBytes: (bytes) => onBytes(bytesBefore + bytes, estimatedTotal) });
+            bytesBefore += (await fsPromises.stat(trackPath)).size;
+        }
+
+        if (trackPaths.length === 1) {
+            await fsPromises.rename(trackPaths[0], partPath); // Video with its own sound: nothing to mux
+        } else {
+            await muxFragmentedTracks(trackPaths, partPath);
+        }
+
+        const { size: bytes } = await fsPromises.stat(partPath);
+        const sha256 = await sha256OfFile(partPath);
+        await fsPromises.rename(partPath, finalPath);
+        logger.info(`Muxed ${trackPaths.length} track(s) into ${finalPath} (${bytes} bytes, sha256 ${sha256})`);
+        return { bytes, sha256 };
+    } catch (error) {
+        await fsPromises.rm(partPath, { force: true }).catch(rmError => logger.error(`Failed to remove ${partPath}:`, rmError.message));
+        throw error;
+    } finally {
+        await Promise.all(trackPaths.map(trackPath => fsPromises.rm(trackPath, { force: true })));
+    }
+}
@@ -0,0 +1,178 @@
+import * as cheerio from 'cheerio';
+
+// Reads DASH manifests (MPD). Reels and some Facebook videos are only offered this way: video and
+// audio as separate tracks, each in several representations, fetched in pieces and put back
+// together by the player. parseMpd lists the representations with the URLs (and byte ranges) of
+// every piece; dashDownloader.js fetches the chosen ones and mp4Mux.js combines them.
+//
+// Covers what on-demand (static) manifests use: SegmentBase / a bare BaseURL (one file per
+// representation), SegmentList, and SegmentTemplate with $Number$ or $Time$ and an optional
+// SegmentTimeline. Live manifests and DRM-protected representations are left out.
+
+const MAX_SEGMENTS = 20000; // About 11 hours of 2-second segments; more means a broken manifest
+
+// ISO 8601 duration as manifests write it ("PT1M3.5S", "P0DT0H0M12S") -> seconds, or null
+export function parseIsoDuration(value) {
+    const match = /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(String(value ?? '').trim());
+    if (!match || value.trim() === 'P') return null;
+    const [, days = 0, hours = 0, minutes = 0, seconds = 0] = match;
+    return Number(days) * 86400 + Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+// "800-999" -> { start: 800, end: 999 }
+function parseRange(value) {
+    const match = /^(\d+)-(\d+)$/.exec(value || '');
+    return match ? { start: Number(match[1]), end: Number(match[2]) } : null;
+}
+
+// Each level's <BaseURL> is relative to the one above it, the top one to the manifest's own URL
+function resolveBaseUrl(element, parentBase) {
+    const baseUrl = element.children('BaseURL').first().text().trim();
+    return baseUrl ? new URL(baseUrl, parentBase).href : parentBase;
+}
+
+function contentKind(set, representation) {
+    const declared = set.attr('contentType');
+    if (declared === 'video' || declared === 'audio') return declared;
+    const mimeType = representation.attr('mimeType') || set.attr('mimeType') || '';
+    if (mimeType.startsWith('video/')) return 'video';
+    if (mimeType.startsWith('audio/')) return 'audio';
+    return null; // Subtitles, thumbnails
+}
+
+// Fill in a SegmentTemplate pattern: $RepresentationID$, $Number$, $Time$, $Bandwidth$ (each
+// optionally zero-padded like $Number%05d$) and $$ for a literal dollar sign
+function fillTemplate(template, values) {
+    return template.replace(/\$(RepresentationID|Number|Time|Bandwidth)(?:%0(\d+)d)?\$|\$\$/g, (token, name, width) => {
+        if (!name) return '$';
+        const value = String(values[name]);
+        return width ? value.padStart(Number(width), '0') : value;
+    });
+}
+
+// SegmentTemplate attributes are inherited from the AdaptationSet and Period; `templates` is
+// most specific first
+function templateSegments($, templates, baseUrl, { id, bandwidth, durationSeconds }) {
+    const attr = (name) => templates.map(template => template.attr(name)).find(value => value !== undefined);
+    const media = attr('media');
+    if (!media) return null;
+    const timescale = Number(attr('timescale') ?? 1);
+    const startNumber = Number(attr('startNumber') ?? 1);
+    const initialization = attr('initialization');
+    const urlFor = (pattern, values) => new URL(fillTemplate(pattern, { RepresentationID: id, Bandwidth: bandwidth, ...values }), baseUrl).href;
+
+    const segments = [];
+    const timeline = templates.map(template => template.children('SegmentTimeline').first()).find(element => element.length > 0);
+    if (timeline) {
+        let time = 0;
+        let number = startNumber;
+        timeline.children('S').each((_, element) => {
+            const { t, d, r = '0' } = $(element).attr();
+            const duration = Number(d);
+            if (t !== undefined) time = Number(t);
+            let repeat = Number(r);
+            if (repeat < 0) {
+                // Repeat until the period ends
+                repeat = Number.isFinite(durationSeconds) ? Math.max(0, Math.ceil((durationSeconds * timescale - time) / duration) - 1) : 0;
+            }
+            for (let i = 0; i <= repeat && segments.length < MAX_SEGMENTS; i++) {
+                segments.push({ url: urlFor(media, { Number: number, Time: time }), range: null });
+                time += duration;
+                number += 1;
+            }
+        });
+    } else {
+        // Fixed-length segments: the count follows from the period's duration
+        const duration = Number(attr('duration'));
+        if (!(duration > 0) || !Number.isFinite(durationSeconds)) return null;
+        const count = Math.min(MAX_SEGMENTS, Math.ceil((durationSeconds * timescale) / duration));
+        for (let index = 0; index < count; index++) {
+            segments.push({ url: urlFor(media, { Number: startNumber + index, Time: index * duration }), range: null });
+        }
+    }
+    return {
+        initialization: initialization ? { url: urlFor(initialization, {}), range: null } : null,
+        segments,
+    };
+}
+
+function listSegments($, list, baseUrl) {
+    const init = list.children('Initialization').first();
+    return {
+        initialization: init.length > 0 ? { url: new URL(init.attr('sourceURL') || '', baseUrl).href, range: parseRange(init.attr('range')) } : null,
+        segments: list.children('SegmentURL').map((_, element) => ({
+            url: new URL($(element).attr('media') || '', baseUrl).href,
+            range: parseRange($(element).attr('mediaRange')),
+        })).get(),
+    };
+}
+
+/**
+ * Representations in the manifest `xml`, whose relative URLs resolve against `manifestUrl`
+ * (for a manifest inlined in a page, the page's URL). Resolves to
+ *   { durationSeconds, video: [representation], audio: [representation] }
+ * where a representation is { id, kind, mimeType, codecs, bandwidth, width, height,
+ * initialization: { url, range } | null, segments: [{ url, range }] } and `range` is
+ * { start, end } (inclusive) or null for the whole URL. Only the first period is read.
+ * Throws for anything that isn't an on-demand MPD.
+ */
+export function parseMpd(xml, manifestUrl) {
+    const $ = cheerio.load(xml, { xml: true });
+    const mpd = $('MPD').first();
+    if (mpd.length === 0) {
+        throw new Error('Not a DASH manifest: no <MPD> element.');
+    }
+    if (mpd.attr('type') === 'dynamic') {
+        throw new Error('Live DASH streams are not supported.');
+    }
+
+    const period = mpd.children('Period').first();
+    const periodBase = resolveBaseUrl(period, resolveBaseUrl(mpd, manifestUrl));
+    const durationSeconds = parseIsoDuration(mpd.attr('mediaPresentationDuration')) ?? parseIsoDuration(period.attr('duration'));
+    const representations = { video: [], audio: [] };
+
+    period.children('AdaptationSet').each((_, setElement) => {
+        const set = $(setElement);
+        const setBase = resolveBaseUrl(set, periodBase);
+        set.children('Representation').each((__, representationElement) => {
+            const representation = $(representationElement);
+            const kind = contentKind(set, representation);
+            if (!kind || set.children('ContentProtection').length > 0 || representation.children('ContentProtection').length > 0) return;
+
+            const id = representation.attr('id') || '';
+            const bandwidth = Number(representation.attr('bandwidth')) || 0;
+            const baseUrl = resolveBaseUrl(representation, setBase);
+            const levels = [representation, set, period];
+            const find = (name) => levels.map(level => level.children(name).first()).filter(element => element.length > 0);
+
+            let pieces;
+            if (find('SegmentTemplate').length > 0) {
+                pieces = templateSegments($, find('SegmentTemplate'), baseUrl, { id, bandwidth, durationSeconds });
+            } else if (find('SegmentList').length > 0) {
+                pieces = listSegments($, find('SegmentList')[0], baseUrl);
+            } else if (baseUrl !== manifestUrl) {
+                // SegmentBase or a bare BaseURL: the whole representation is one file
+                pieces = { initialization: null, segments: [{ url: baseUrl, range: null }] };
+            }
+            if (!pieces || pieces.segments.length === 0) return;
+
+            representations[kind].push({
+                id,
+                kind,
+                mimeType: representation.attr('mimeType') || set.attr('mimeType') || null,
+                codecs: representation.attr('codecs') || set.attr('codecs') || null,
+                bandwidth,
+                width: Number(representation.attr('width') || set.attr('width')) || null,
+                height: Number(representation.attr('height') || set.attr('height')) || null,
+                ...pieces,
+            });
+        });
+    });
+
+    return { durationSeconds, ...representations };
+}
+
+// The audio track to pair with any video representation: the highest bitrate on offer
+export function selectAudio(audio) {
+    return audio.reduce((best, representation) => (!best || representation.bandwidth > best.bandwidth ? representation : best), null);
+}
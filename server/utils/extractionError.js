@@ -0,0 +1,39 @@
+import { FAILURE_CODES } from '../../shared/apiContract.js';
+
+export { FAILURE_CODES };
+
+// Error thrown by the download pipeline and extractors. `code` is one of FAILURE_CODES and
+// ends up on the job's `error.code`, so the client can tell a login wall from a timeout.
+export class ExtractionError extends Error {
+    constructor(code, message, { cause } = {}) {
+        super(message, cause ? { cause } : undefined);
+        this.name = 'ExtractionError';
+        this.code = code;
+    }
+}
+
+// Map an arbitrary error thrown during a download to a failure code.
+export function classifyError(error) {
+    if (error instanceof ExtractionError) {
+        return error.code;
+    }
+    // Puppeteer's navigation and waitForSelector timeouts
+    if (error?.name === 'TimeoutError') {
+        return FAILURE_CODES.NAVIGATION_TIMEOUT;
+    }
+    // Only media requests go through axios. Signed CDN URLs answer 403/404 once they expire,
+    // so any status, reset or timeout there - or a body that kept breaking off mid-transfer -
+    // means the CDN would not hand the file over.
+    if (error?.isAxiosError || error?.name === 'IncompleteDownloadError' || error?.code === 'ECONNRESET') {
+        return FAILURE_CODES.CDN_FETCH_REFUSED;
+    }
+    return FAILURE_CODES.EXTRACTION_FAILED;
+}
+
+// Wrap any error as an ExtractionError, keeping an existing code and the original as `cause`.
+export function toExtractionError(error, message = error?.message) {
+    if (error instanceof ExtractionError && message === error.message) {
+        return error;
+    }
+    return new ExtractionError(classifyError(error), message, { cause: error });
+}
@@ -0,0 +1,38 @@
+// How often each extraction strategy finds media, per platform, since the server started.
+// 'static' is the plain-HTTP fast path, 'browser' the Puppeteer page (see downloadWithExtractor).
+// Kept in memory only: it's for comparing hit rates while tuning extractors, not for billing.
+
+const STRATEGIES = ['static', 'browser'];
+
+const counters = new Map(); // platform -> { static: { attempts, hits }, browser: { attempts, hits } }
+
+export function recordStrategy(platform, strategy, hit) {
+    if (!STRATEGIES.includes(strategy)) return;
+    if (!counters.has(platform)) {
+        counters.set(platform, Object.fromEntries(STRATEGIES.map(name => [name, { attempts: 0, hits: 0 }])));
+    }
+    const counter = counters.get(platform)[strategy];
+    counter.attempts += 1;
+    if (hit) counter.hits += 1;
+}
+
+/**
+ * ExtractionStrategyStats (shared/apiContract.js) per platform, for GET /api/diagnostics/extraction-strategies.
+ * hitRate is hits / attempts, or null before the first attempt.
+ */
+export function getExtractionStats() {
+    return [...counters.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([platform, strategies]) => ({
+            platform,
+            ...Object.fromEntries(STRATEGIES.map(name => {
+                const { attempts, hits } = strategies[name];
+                return [name, { attempts, hits, hitRate: attempts > 0 ? hits / attempts : null }];
+            })),
+        }));
+}
+
+// Tests start from zero
+export function resetExtractionStats() {
+    counters.clear();
+}
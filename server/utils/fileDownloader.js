@@ -0,0 +1,190 @@
+import axios from 'axios';
+import { createHash } from 'crypto';
+import { createReadStream, createWriteStream, promises as fsPromises } from 'fs';
+import { pipeline } from 'stream/promises';
+import { getConfig } from './config.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('FileDownloader');
+
+const DEFAULT_MAX_ATTEMPTS = 4;
+const DEFAULT_RETRY_DELAY_MS = 500; // Doubled after each failed attempt
+const REQUEST_TIMEOUT_MS = getConfig().timeouts.mediaRequestMs;
+const TRANSIENT_NETWORK_CODES = new Set(['ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'ERR_STREAM_PREMATURE_CLOSE', 'EAI_AGAIN']);
+
+// Thrown when the bytes on disk don't add up to what the server promised
+class IncompleteDownloadError extends Error {
+    constructor(received, expected) {
+        super(`Download incomplete: received ${received} of ${expected} bytes.`);
+        this.name = 'IncompleteDownloadError';
+    }
+}
+
+function isTransient(error) {
+    if (error instanceof IncompleteDownloadError) return true;
+    const status = error.response?.status;
+    if (status) {
+        return status >= 500 || status === 408 || status === 429;
+    }
+    return TRANSIENT_NETWORK_CODES.has(error.code) || error.message === 'aborted';
+}
+
+async function sizeOf(filePath) {
+    try {
+        return (await fsPromises.stat(filePath)).size;
+    } catch (error) {
+        if (error.code === 'ENOENT') return 0;
+        throw error;
+    }
+}
+
+export async function sha256OfStream(stream) {
+    const hash = createHash('sha256');
+    await pipeline(stream, hash);
+    return hash.digest('hex');
+}
+
+export function sha256OfFile(filePath) {
+    return sha256OfStream(createReadStream(filePath));
+}
+
+// Total size from a 206 `Content-Range: bytes start-end/total` header, or the 200 Content-Length
+function expectedTotal(response, offset) {
+    if (response.status === 206) {
+        const match = /bytes (\d+)-\d+\/(\d+|\*)/.exec(response.headers['content-range'] || '');
+        if (!match || Number(match[1]) !== offset) return undefined; // Range not honoured as asked
+        return match[2] === '*' ? null : Number(match[2]);
+    }
+    const length = Number(response.headers['content-length']);
+    return Number.isFinite(length) && length > 0 ? length : null;
+}
+
+/**
+ * Download `url` to `finalPath` via `<finalPath>.part`. Transient failures (resets, timeouts,
+ * 5xx, truncated bodies) are retried, resuming with a Range request from the bytes already on
+ * disk. The part file is checked against the advertised length, hashed, and only then renamed
+ * into place, so `finalPath` either doesn't exist or holds the complete file.
+ * Resolves to { bytes, sha256 }. On failure the part file is removed and the last error rethrown.
+ */
+export async function downloadToFile(url, finalPath, { headers = {}, onBytes = () => {}, maxAttempts = DEFAULT_MAX_ATTEMPTS, retryDelayMs = DEFAULT_RETRY_DELAY_MS } = {}) {
+    const partPath = `${finalPath}.part`;
+    await fsPromises.rm(partPath, { force: true }); // Never resume from another download's leftovers
+
+    let total = null;
+    let validator = null; // ETag or Last-Modified of the first response, so a changed file isn't stitched together
+
+    try {
+        for (let attempt = 1; ; attempt++) {
+            const offset = await sizeOf(partPath);
+            try {
+                if (total !== null && offset === total) break; // Previous attempt wrote everything
+
+                const response = await axios({
+                    method: 'GET',
+                    url,
+                    responseType: 'stream',
+                    headers: {
+                        ...headers,
+                        ...(offset > 0 ? { Range: `bytes=${offset}-`, ...(validator ? { 'If-Range': validator } : {}) } : {}),
+                    },
+                    timeout: REQUEST_TIMEOUT_MS,
+                });
+
+                const responseTotal = expectedTotal(response, offset);
+                if (responseTotal === undefined) {
+                    // A 206 for some other range is useless; drop what we have and fetch the whole file
+                    response.data.destroy();
+                    await fsPromises.rm(partPath, { force: true });
+                    throw new IncompleteDownloadError(0, 'an unexpected range');
+                }
+                // A 200 means the server ignored the range, or If-Range saw a changed file: start over
+                const append = offset > 0 && response.status === 206;
+                if (offset > 0 && !append) {
+                    logger.warn(`Server did not resume ${url} at byte ${offset}; restarting download.`);
+                }
+                total = responseTotal;
+                validator = validator || response.headers.etag || response.headers['last-modified'] || null;
+
+                let bytesReceived = append ? offset : 0;
+                onBytes(bytesReceived, total);
+                response.data.on('data', (chunk) => {
+                    bytesReceived += chunk.length;
+                    onBytes(bytesReceived, total);
+                });
+                await pipeline(response.data, createWriteStream(partPath, { flags: append ? 'a' : 'w' }));
+
+                const written = await sizeOf(partPath);
+                if (total !== null && written !== total) {
+                    throw new IncompleteDownloadError(written, total);
+                }
+                break;
+            } catch (error) {
+                if (attempt >= maxAttempts || !isTransient(error)) {
+                    throw error;
+                }
+                const delay = retryDelayMs * 2 ** (attempt - 1);
+                logger.warn(`Attempt ${attempt}/${maxAttempts} for ${url} failed (${error.message}); resuming in ${delay}ms.`);
+                await new Promise(resolve => setTimeout(resolve, delay));
+            }
+        }
+
+        const bytes = await sizeOf(partPath);
+        const sha256 = await sha256OfFile(partPath);
+        await fsPromises.rename(partPath, finalPath); // Atomic within the downloads directory
+        logger.info(`File successfully written to: ${finalPath} (${bytes} bytes, sha256 ${sha256})`);
+        return { bytes, sha256 };
+    } catch (error) {
+        await fsPromises.rm(partPath, { force: true }).catch(rmError => logger.error(`Failed to remove ${partPath}:`, rmError.message));
+        throw error;
+    }
+}
+
+const PROBE_TIMEOUT_MS = 10000;
+
+/**
+ * Size of the file at `url` in bytes without downloading it, or null if the server won't say.
+ * Tries HEAD, then a one-byte Range request (some CDNs refuse HEAD). Never throws.
+ */
+export async function probeContentLength(url, { headers = {}, timeoutMs = PROBE_TIMEOUT_MS } = {}) {
+    try {
+        const response = await axios.head(url, { headers, timeout: timeoutMs, maxRedirects: 5 });
+        const length = Number(response.headers['content-length']);
+        if (Number.isFinite(length) && length > 0) return length;
+    } catch {
+        // Fall through to the range request
+    }
+    try {
+        const response = await axios.get(url, { headers: { ...headers, Range: 'bytes=0-0' }, responseType: 'stream', timeout: timeoutMs, maxRedirects: 5 });
+        response.data.destroy(); // One byte at most; don't wait for it
+        return expectedTotal(response, 0) ?? null;
+    } catch (error) {
+        logger.warn(`Could not determine the size of ${url}: ${error.message}`);
+        return null;
+    }
+}
+
+/**
+ * Fetch `url` into memory, or just its `range` ({ start, end }, inclusive) when given, retrying
+ * transient failures like downloadToFile. Meant for small things: manifests and media segments.
+ */
+export async function fetchBuffer(url, { headers = {}, range = null, maxAttempts = DEFAULT_MAX_ATTEMPTS, retryDelayMs = DEFAULT_RETRY_DELAY_MS } = {}) {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            const response = await axios.get(url, {
+                responseType: 'arraybuffer',
+                headers: { ...headers, ...(range ? { Range: `bytes=${range.start}-${range.end}` } : {}) },
+                timeout: REQUEST_TIMEOUT_MS,
+            });
+            const body = Buffer.from(response.data);
+            // A 200 to a range request is the whole file; cut the range out ourselves
+            return range && response.status === 200 ? body.subarray(range.start, range.end + 1) : body;
+        } catch (error) {
+            if (attempt >= maxAttempts || !isTransient(error)) {
+                throw error;
+            }
+            const delay = retryDelayMs * 2 ** (attempt - 1);
+            logger.warn(`Attempt ${attempt}/${maxAttempts} for ${url} failed (${error.message}); retrying in ${delay}ms.`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+        }
+    }
+}
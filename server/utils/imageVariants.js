@@ -0,0 +1,110 @@
+import { promises as fsPromises } from 'fs';
+import path from 'path';
+import { VARIANT_FORMATS } from '../../shared/apiContract.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('ImageVariants');
+
+export { VARIANT_FORMATS };
+
+// Dot-directories inside downloadsDir (and storage, for posters): not served by express.static,
+// skipped by the media index. Variants are a cache of the local working directory only.
+export const POSTERS_DIR = '.posters';
+export const VARIANTS_DIR = '.variants';
+
+// Width of the previews shown in the downloaded files list
+export const THUMBNAIL_WIDTH = 320;
+
+const ENCODER_OPTIONS = {
+    webp: { quality: 80 },
+    avif: { quality: 50 },
+    jpeg: { quality: 82, mozjpeg: true },
+};
+
+export const CONTENT_TYPES_BY_FORMAT = {
+    webp: 'image/webp',
+    avif: 'image/avif',
+    jpeg: 'image/jpeg',
+};
+
+// sharp ships native binaries that may be missing (unsupported platform, --ignore-scripts
+// install). Load it on first use and keep serving originals when it isn't there.
+let sharpLoading = null;
+export function loadSharp() {
+    sharpLoading = sharpLoading || import('sharp')
+        .then(module => module.default)
+        .catch(error => {
+            logger.warn(`sharp is unavailable, image variants are disabled: ${error.message.split('\n')[0]}`);
+            return null;
+        });
+    return sharpLoading;
+}
+
+// Poster frame saved next to a video: .posters/<video filename>.jpg, in storage and downloadsDir
+export function posterKeyFor(filename) {
+    return `${POSTERS_DIR}/${filename}.jpg`;
+}
+
+export function posterPathFor(downloadsDir, filename) {
+    return path.join(downloadsDir, posterKeyFor(filename));
+}
+
+export function variantPathFor(downloadsDir, filename, { width, format }) {
+    return path.join(downloadsDir, VARIANTS_DIR, `${filename}.w${width || 'orig'}.${format}`);
+}
+
+// Local path of the image a variant of `record` is rendered from: the file itself, or a video's
+// poster frame, fetched from `storage` if it keeps them elsewhere (see storage.js). null when
+// there is none (a video whose page had no poster).
+export function variantSourcePath(storage, record) {
+    return storage.toLocalFile(record.mediaType === 'image' ? record.filename : posterKeyFor(record.filename));
+}
+
+const inFlight = new Map(); // variant path -> Promise, so concurrent requests render once
+
+/**
+ * Path of `sourcePath` resized to `width` (never enlarged) and re-encoded as `format`, rendering it
+ * into `<downloadsDir>/.variants` on first request. Resolves to null when sharp isn't available.
+ */
+export async function getVariant(downloadsDir, filename, sourcePath, { width = null, format = 'webp' } = {}) {
+    const sharp = await loadSharp();
+    if (!sharp) return null;
+
+    const variantPath = variantPathFor(downloadsDir, filename, { width, format });
+    try {
+        const [variantStats, sourceStats] = await Promise.all([fsPromises.stat(variantPath), fsPromises.stat(sourcePath)]);
+        if (variantStats.mtimeMs >= sourceStats.mtimeMs) return variantPath; // Cached and not stale
+    } catch {
+        // Not rendered yet
+    }
+
+    if (!inFlight.has(variantPath)) {
+        const rendering = (async () => {
+            await fsPromises.mkdir(path.dirname(variantPath), { recursive: true });
+            const tempPath = `${variantPath}.${process.pid}.tmp`;
+            try {
+                let pipeline = sharp(sourcePath).rotate(); // Respect EXIF orientation
+                if (width) pipeline = pipeline.resize({ width, withoutEnlargement: true });
+                await pipeline.toFormat(format, ENCODER_OPTIONS[format]).toFile(tempPath);
+                await fsPromises.rename(tempPath, variantPath);
+                logger.info(`Rendered ${path.basename(variantPath)}`);
+                return variantPath;
+            } catch (error) {
+                await fsPromises.rm(tempPath, { force: true });
+                throw error;
+            }
+        })().finally(() => inFlight.delete(variantPath));
+        inFlight.set(variantPath, rendering);
+    }
+    return inFlight.get(variantPath);
+}
+
+// Cached variants and the poster frame of one file, for when it is deleted
+export async function removeDerivedImages(downloadsDir, filename) {
+    await fsPromises.rm(posterPathFor(downloadsDir, filename), { force: true });
+    const variantsDir = path.join(downloadsDir, VARIANTS_DIR);
+    const cached = await fsPromises.readdir(variantsDir).catch(() => []);
+    await Promise.all(cached
+        .filter(name => name.startsWith(`${filename}.w`))
+        .map(name => fsPromises.rm(path.join(variantsDir, name), { force: true })));
+}
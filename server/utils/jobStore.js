@@ -0,0 +1,243 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { JOB_PHASES } from '../../shared/apiContract.js';
+import { classifyError } from './extractionError.js';
+import { getConfig } from './config.js';
+import { getLogContext, runWithLogContext } from './logger.js';
+
+// Phases a download job moves through. Services report these via the onProgress callback.
+export { JOB_PHASES };
+
+// Overall progress (0-100) at the start of each phase. FETCHING is interpolated by bytes.
+const PHASE_PROGRESS = {
+    [JOB_PHASES.QUEUED]: 0,
+    [JOB_PHASES.LAUNCHING_BROWSER]: 5,
+    [JOB_PHASES.EXTRACTING]: 15,
+    [JOB_PHASES.FETCHING]: 20,
+    [JOB_PHASES.FINALIZING]: 95,
+    [JOB_PHASES.COMPLETED]: 100,
+};
+const FETCHING_PROGRESS_SPAN = 75; // FETCHING covers 20 -> 95
+
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000; // Keep finished jobs around for an hour so clients can still read them
+const FETCH_EVENT_INTERVAL_MS = 250; // Throttle byte-count updates so SSE clients aren't flooded
+
+// Jobs running at once across the server (single downloads and batch entries alike), and how
+// many more may wait in QUEUED before new single downloads are turned away (see checkJobCapacity;
+// batch entries wait in batchStore.js's own bounded queue)
+const { maxConcurrent: MAX_CONCURRENT_JOBS, maxQueued: MAX_QUEUED_JOBS } = getConfig().jobs;
+const ASSUMED_JOB_DURATION_MS = 30 * 1000; // Until some jobs have finished to go by
+const DURATION_SAMPLES = 20;
+
+const jobs = new Map();
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0); // One listener per connected SSE client
+const finishedJobs = new EventEmitter(); // Every job's completion or failure, see onJobFinished
+
+export function isTerminalPhase(phase) {
+    return phase === JOB_PHASES.COMPLETED || phase === JOB_PHASES.FAILED;
+}
+
+// Public view of a job (what gets sent to clients); DownloadProgressEvent in shared/apiContract.js
+function toSnapshot(job) {
+    return {
+        id: job.id,
+        url: job.url,
+        platform: job.platform,
+        contentType: job.contentType,
+        phase: job.phase,
+        progress: job.progress,
+        bytesReceived: job.bytesReceived,
+        bytesTotal: job.bytesTotal,
+        itemIndex: job.itemIndex,
+        itemCount: job.itemCount,
+        result: job.result,
+        error: job.error,
+        createdAt: job.createdAt,
+        updatedAt: job.updatedAt,
+    };
+}
+
+function emitUpdate(job) {
+    job.lastEmittedAt = Date.now();
+    jobEvents.emit(job.id, toSnapshot(job));
+}
+
+function emitFinished(job) {
+    finishedJobs.emit('finished', toSnapshot(job), { owner: job.owner, callbackUrl: job.callbackUrl, callbackSecret: job.callbackSecret });
+}
+
+function scheduleCleanup(job) {
+    const timer = setTimeout(() => {
+        jobs.delete(job.id);
+        jobEvents.removeAllListeners(job.id);
+    }, FINISHED_JOB_TTL_MS);
+    timer.unref(); // Don't keep the process alive just to expire jobs
+}
+
+// `owner` is the id of the API key that asked for the download, `callbackUrl` where to report its
+// outcome and `callbackSecret` what to sign the report with (see webhooks.js); all are kept off
+// the snapshot. The job's log context is the caller's (the request's correlationId, see
+// logger.js) plus its jobId, and everything the job logs while it runs carries it.
+export function createJob({ url, platform, contentType, owner = null, callbackUrl = null, callbackSecret = null }) {
+    const now = new Date().toISOString();
+    const id = uuidv4();
+    const job = {
+        id,
+        url,
+        platform,
+        contentType,
+        owner,
+        callbackUrl,
+        callbackSecret,
+        logContext: { ...getLogContext(), jobId: id },
+        phase: JOB_PHASES.QUEUED,
+        progress: 0,
+        bytesReceived: 0,
+        bytesTotal: null,
+        itemIndex: 0,
+        itemCount: 1,
+        result: null,
+        error: null,
+        createdAt: now,
+        updatedAt: now,
+        lastEmittedAt: 0,
+    };
+    jobs.set(job.id, job);
+    return toSnapshot(job);
+}
+
+export function getJob(id) {
+    const job = jobs.get(id);
+    return job ? toSnapshot(job) : null;
+}
+
+// Who a job belongs to (see createJob), for access checks; null for unknown and unowned jobs
+export function getJobOwner(id) {
+    return jobs.get(id)?.owner ?? null;
+}
+
+export function updateJobProgress(id, phase, { bytesReceived, bytesTotal, itemIndex, itemCount } = {}) {
+    const job = jobs.get(id);
+    if (!job || isTerminalPhase(job.phase)) return;
+
+    const phaseChanged = job.phase !== phase;
+    job.phase = phase;
+    job.updatedAt = new Date().toISOString();
+
+    if (phase === JOB_PHASES.FETCHING) {
+        job.bytesReceived = bytesReceived ?? job.bytesReceived;
+        job.bytesTotal = bytesTotal ?? job.bytesTotal;
+        job.itemIndex = itemIndex ?? job.itemIndex;
+        job.itemCount = itemCount ?? job.itemCount;
+        // Multi-item posts split the fetching span evenly between their items
+        const itemFraction = job.bytesTotal ? Math.min(job.bytesReceived / job.bytesTotal, 1) : 0;
+        const fraction = (job.itemIndex + itemFraction) / job.itemCount;
+        job.progress = Math.round(PHASE_PROGRESS[phase] + fraction * FETCHING_PROGRESS_SPAN);
+    } else {
+        job.progress = PHASE_PROGRESS[phase] ?? job.progress;
+    }
+
+    const throttled = !phaseChanged && Date.now() - job.lastEmittedAt < FETCH_EVENT_INTERVAL_MS;
+    if (!throttled) {
+        emitUpdate(job);
+    }
+}
+
+export function completeJob(id, result) {
+    const job = jobs.get(id);
+    if (!job || isTerminalPhase(job.phase)) return;
+    job.phase = JOB_PHASES.COMPLETED;
+    job.progress = PHASE_PROGRESS[JOB_PHASES.COMPLETED];
+    job.result = result;
+    job.updatedAt = new Date().toISOString();
+    emitUpdate(job);
+    emitFinished(job);
+    scheduleCleanup(job);
+}
+
+export function failJob(id, error) {
+    const job = jobs.get(id);
+    if (!job || isTerminalPhase(job.phase)) return;
+    job.phase = JOB_PHASES.FAILED;
+    job.error = { code: classifyError(error), message: error.message || 'Download failed' };
+    job.updatedAt = new Date().toISOString();
+    emitUpdate(job);
+    emitFinished(job);
+    scheduleCleanup(job);
+}
+
+// Called with (snapshot, { owner, callbackUrl, callbackSecret }) whenever any job completes or
+// fails, batch entries included. Returns an unsubscribe function.
+export function onJobFinished(listener) {
+    finishedJobs.on('finished', listener);
+    return () => finishedJobs.off('finished', listener);
+}
+
+// Subscribe to snapshots for a single job. Returns an unsubscribe function.
+export function subscribeToJob(id, listener) {
+    jobEvents.on(id, listener);
+    return () => jobEvents.off(id, listener);
+}
+
+// --- Concurrency limit shared by all jobs ---
+let runningJobs = 0;
+const waitingJobs = [];
+const recentDurations = []; // Milliseconds, newest last, for Retry-After estimates
+
+function acquireSlot() {
+    if (runningJobs < MAX_CONCURRENT_JOBS) {
+        runningJobs++;
+        return Promise.resolve();
+    }
+    return new Promise(resolve => waitingJobs.push(resolve));
+}
+
+function releaseSlot(durationMs) {
+    recentDurations.push(durationMs);
+    if (recentDurations.length > DURATION_SAMPLES) recentDurations.shift();
+    const next = waitingJobs.shift();
+    if (next) {
+        next(); // The slot passes straight to the next job
+    } else {
+        runningJobs--;
+    }
+}
+
+export function getJobQueueStatus() {
+    return { concurrency: MAX_CONCURRENT_JOBS, running: runningJobs, waiting: waitingJobs.length, maxWaiting: MAX_QUEUED_JOBS };
+}
+
+// How long jobs have been taking, for Retry-After estimates
+export function averageJobDurationMs() {
+    return recentDurations.length > 0
+        ? recentDurations.reduce((total, duration) => total + duration, 0) / recentDurations.length
+        : ASSUMED_JOB_DURATION_MS;
+}
+
+// Whether there's room to queue another job. When there isn't, retryAfterSeconds estimates when
+// a place frees up: every slot finishes a job per average job duration.
+export function checkJobCapacity() {
+    if (runningJobs < MAX_CONCURRENT_JOBS || waitingJobs.length < MAX_QUEUED_JOBS) {
+        return { available: true, retryAfterSeconds: 0 };
+    }
+    return { available: false, retryAfterSeconds: Math.max(1, Math.ceil(averageJobDurationMs() / MAX_CONCURRENT_JOBS / 1000)) };
+}
+
+// Run `task(onProgress)` in the background, once one of the MAX_CONCURRENT_JOBS slots is free,
+// and record its outcome on the job (which stays QUEUED until then).
+// Callers follow the job through getJob/subscribeToJob; the returned promise settles (never
+// rejects) once the job has completed or failed, for callers that pace work by it.
+export function runJob(id, task) {
+    const onProgress = (phase, details) => updateJobProgress(id, phase, details);
+    // Queued jobs are started by whichever job frees a slot; run each in its own log context
+    const logContext = jobs.get(id)?.logContext ?? {};
+    return acquireSlot().then(() => runWithLogContext(logContext, () => {
+        const startedAt = Date.now();
+        return Promise.resolve()
+            .then(() => task(onProgress))
+            .then(result => completeJob(id, result))
+            .catch(error => failJob(id, error))
+            .finally(() => releaseSlot(Date.now() - startedAt));
+    }));
+}
@@ -0,0 +1,57 @@
+import { promises as fsPromises } from 'fs';
+import path from 'path';
+
+/*
+ * One JSON file holding a store's whole state (the media index, API keys, sessions, webhooks).
+ * `onLoad(parsed)` receives the file's contents on first use, or {} when there is none yet; a
+ * file that can't be parsed is moved aside to `<filePath>.corrupt-<time>`, kept for inspection
+ * rather than overwritten, and the store starts empty.
+ *
+ * write() snapshots what it is given straight away, then writes it to a temp file renamed into
+ * place, one write at a time, so a crash never leaves a half-written file. It rejects when the
+ * write fails (after logging it), so callers decide whether the change they made may be reported
+ * as saved; later writes go ahead regardless. `mode` is for files that hold secrets (0o600).
+ */
+export function createJsonFileStore({ filePath, description, logger, onLoad, mode = undefined }) {
+    let loading = null;
+    let writing = Promise.resolve();
+
+    async function load() {
+        let parsed = {};
+        try {
+            parsed = JSON.parse(await fsPromises.readFile(filePath, 'utf8'));
+        } catch (error) {
+            if (error.code !== 'ENOENT') {
+                const corruptPath = `${filePath}.corrupt-${Date.now()}`;
+                logger.error(`Could not read ${description} (${error.message}); moving it to ${corruptPath} and starting empty.`);
+                await fsPromises.rename(filePath, corruptPath).catch(() => {});
+            }
+        }
+        await onLoad(parsed);
+    }
+
+    // Resolves once the file has been loaded (loading it on the first call)
+    function ready() {
+        loading = loading || load();
+        return loading;
+    }
+
+    function write(contents) {
+        const snapshot = JSON.stringify(contents, null, 2);
+        const written = writing.then(async () => {
+            await fsPromises.mkdir(path.dirname(filePath), { recursive: true });
+            const tempPath = `${filePath}.tmp`;
+            await fsPromises.writeFile(tempPath, snapshot, mode === undefined ? undefined : { mode });
+            await fsPromises.rename(tempPath, filePath);
+        });
+        writing = written.catch(error => logger.error(`Failed to write ${description}:`, error.message));
+        return written;
+    }
+
+    // Resolves once the writes started so far have finished, failed or not
+    function settled() {
+        return writing;
+    }
+
+    return { ready, write, settled };
+}
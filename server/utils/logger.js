@@ -0,0 +1,101 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import { format } from 'util';
+import { getConfig } from './config.js';
+
+/*
+ * Structured logging shared by the server, the services and the CLI. Every line is one JSON
+ * object:
+ *   { time, level, component, msg, correlationId?, jobId?, batchId?, err? }
+ * Loggers keep the console-style call signature, `logger.info('Saved', filename)`, so the message
+ * is the arguments formatted as console.log would; Errors among them are summarised into `err`.
+ *
+ * The correlation fields come from the log context, kept in AsyncLocalStorage: the HTTP
+ * middleware in index.js starts one per request (the id is sent back in X-Request-Id) and every
+ * job adds its jobId (see jobStore.js), so everything logged on behalf of a request - navigation,
+ * extraction, file writes, browser pool checkouts - carries the same correlationId.
+ *
+ * Lines below `logging.level` in config.js (LOG_LEVEL) are dropped. debug/info go to stdout,
+ * warn/error to stderr, unless configureLogger() points them somewhere else.
+ */
+
+export const LOG_LEVELS = /** @type {const} */ (['debug', 'info', 'warn', 'error', 'silent']);
+const SEVERITY = { debug: 10, info: 20, warn: 30, error: 40, silent: Infinity };
+
+const contextStorage = new AsyncLocalStorage();
+
+const defaultWrite = (level, line) => (SEVERITY[level] >= SEVERITY.warn ? process.stderr : process.stdout).write(`${line}\n`);
+const settings = {
+    level: getConfig().logging.level,
+    write: defaultWrite,
+};
+
+// Change the level and/or where lines go: `write(level, line)`. Used by the CLI (stderr only)
+// and by tests that want to look at the lines.
+export function configureLogger({ level = settings.level, write = settings.write } = {}) {
+    if (!LOG_LEVELS.includes(level)) {
+        throw new Error(`Unknown log level '${level}'; use one of: ${LOG_LEVELS.join(', ')}.`);
+    }
+    settings.level = level;
+    settings.write = write ?? defaultWrite;
+}
+
+// A new correlation id: short enough to quote in a bug report
+export function newCorrelationId() {
+    return crypto.randomBytes(8).toString('hex');
+}
+
+// The fields every line logged from here on (in this async flow) carries
+export function getLogContext() {
+    return contextStorage.getStore() ?? {};
+}
+
+// Run `fn` with `fields` added to the current log context (they win over fields already there)
+export function runWithLogContext(fields, fn) {
+    return contextStorage.run({ ...getLogContext(), ...fields }, fn);
+}
+
+// `fn`, bound to the current log context wherever it ends up being called from. For callbacks
+// of libraries that lose the context on the way (multer, for one).
+export function bindLogContext(fn) {
+    return AsyncLocalStorage.bind(fn);
+}
+
+// Run `fn` outside any log context. For timers and intervals created on behalf of the whole
+// process (reapers, sweepers), which would otherwise keep the context of whoever started them.
+export function runWithoutLogContext(fn) {
+    return contextStorage.exit(fn);
+}
+
+function describeError(error) {
+    return {
+        name: error.name,
+        message: error.message,
+        ...(error.code !== undefined ? { code: error.code } : {}),
+        ...(error.stack ? { stack: error.stack } : {}),
+    };
+}
+
+function emit(level, component, args) {
+    if (SEVERITY[level] < SEVERITY[settings.level]) return;
+    const error = args.find(arg => arg instanceof Error);
+    const line = {
+        time: new Date().toISOString(),
+        level,
+        component,
+        msg: format(...args.map(arg => (arg instanceof Error ? arg.message : arg))),
+        ...getLogContext(),
+        ...(error ? { err: describeError(error) } : {}),
+    };
+    settings.write(level, JSON.stringify(line));
+}
+
+// The logger for one module; `component` names it in every line
+export function createLogger(component) {
+    return {
+        debug: (...args) => emit('debug', component, args),
+        info: (...args) => emit('info', component, args),
+        warn: (...args) => emit('warn', component, args),
+        error: (...args) => emit('error', component, args),
+    };
+}
@@ -0,0 +1,277 @@
+import path from 'path';
+import { text } from 'stream/consumers';
+import { sha256OfStream } from './fileDownloader.js';
+import { metadataSearchText } from './postMetadata.js';
+import { createJsonFileStore } from './jsonFileStore.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('MediaIndex');
+
+const INDEX_VERSION = 1;
+// Accesses closer together than this don't rewrite the index; plenty for least-recently-used order
+const ACCESS_RESOLUTION_MS = 60 * 1000;
+// Share-link noise that doesn't change which post a URL points to
+const TRACKING_PARAMS = ['igsh', 'igshid', 'fbclid', 'mibextid', 'rdid', 'ref', 'share_url'];
+
+// Same post, same key: drop the fragment, tracking parameters and a trailing slash
+export function normalizePageUrl(url) {
+    try {
+        const parsed = new URL(url);
+        parsed.hash = '';
+        for (const key of [...parsed.searchParams.keys()]) {
+            if (TRACKING_PARAMS.includes(key) || key.startsWith('utm_')) {
+                parsed.searchParams.delete(key);
+            }
+        }
+        parsed.hostname = parsed.hostname.toLowerCase();
+        return parsed.toString().replace(/\/(\?|$)/, '$1');
+    } catch {
+        return url;
+    }
+}
+
+/*
+ * Persistent record of every downloaded file in `storage` (see storage.js), stored as one JSON file.
+ * A record (keyed by filename) holds:
+ *   filename, platform, contentType, mediaType, bytes, sha256
+ *   pageUrl      normalised URL of the post the file came from (null for fallback/legacy files)
+ *   sourceUrl    media CDN URL it was fetched from
+ *   itemIndex, itemCount  position within a multi-item post
+ *   metadata     PostMetadata of the post (author, caption, hashtags, ...), or null
+ *   hasPoster    whether a video's poster frame was saved (see imageVariants.js)
+ *   renditions   for a video offered in several qualities, the { width, height, bitrate, bytes,
+ *                label } of each, in the extractor's order, the downloaded one marked `selected`
+ *                (see videoRenditions.js); absent otherwise
+ *   pinned       exempt from retention (see retention.js)
+ *   owners       ids of the API keys that downloaded it (see apiKeys.js); a post downloaded again
+ *                by someone else gains an owner instead of a second copy. Empty for files from
+ *                before keys existed, which only admins see.
+ *   accessedAt   last download, reuse or preview the server saw; presigned-URL fetches go
+ *                straight to the bucket and aren't seen
+ *   createdAt, updatedAt
+ * The file is written atomically (see jsonFileStore.js). Lookups skip (and forget) records whose
+ * file has disappeared.
+ */
+export function createMediaIndex({ indexPath, storage }) {
+    let records = null; // filename -> record, loaded on first use
+    const file = createJsonFileStore({
+        filePath: indexPath,
+        description: 'media index',
+        logger,
+        onLoad: parsed => {
+            records = new Map((parsed.records || []).map(record => [record.filename, record]));
+            if (records.size > 0) logger.info(`Loaded ${records.size} record(s) from ${indexPath}`);
+        },
+    });
+    const { ready } = file;
+
+    // The files are on disk whether or not the index says so (reconcile() finds them again), so a
+    // failed write is only logged
+    function persist() {
+        return file.write({ version: INDEX_VERSION, records: [...records.values()] }).catch(() => {});
+    }
+
+    async function readSidecar(filename) {
+        try {
+            const stream = await storage.get(`${filename}.json`);
+            return stream ? JSON.parse(await text(stream)) : {};
+        } catch {
+            return {};
+        }
+    }
+
+    async function fileExists(record) {
+        return (await storage.stat(record.filename)) !== null;
+    }
+
+    // Records matching `predicate` whose file is still on disk; stale ones are dropped
+    async function findExisting(predicate) {
+        await ready();
+        const found = [];
+        let pruned = false;
+        for (const record of [...records.values()].filter(predicate)) {
+            if (await fileExists(record)) {
+                found.push(record);
+            } else {
+                records.delete(record.filename);
+                pruned = true;
+            }
+        }
+        if (pruned) await persist();
+        return found;
+    }
+
+    // Every item of a previously downloaded post, in order, or [] if any of them is gone.
+    // `accepts(record)` narrows the candidates down, e.g. to videos in the quality asked for; a
+    // post downloaded in several qualities has a record per item and quality.
+    async function findByPage(pageUrl, contentType, accepts = () => true) {
+        const key = normalizePageUrl(pageUrl);
+        const found = await findExisting(record => record.pageUrl === key && record.contentType === contentType && accepts(record));
+        const byItem = new Map();
+        for (const record of found) {
+            if (!byItem.has(record.itemIndex)) byItem.set(record.itemIndex, record);
+        }
+        if (byItem.size === 0 || byItem.size !== found[0].itemCount) return [];
+        return [...byItem.values()].sort((a, b) => a.itemIndex - b.itemIndex);
+    }
+
+    async function findBySourceUrl(sourceUrl) {
+        const [record] = await findExisting(candidate => candidate.sourceUrl === sourceUrl);
+        return record || null;
+    }
+
+    async function findByHash(sha256) {
+        const [record] = await findExisting(candidate => candidate.sha256 === sha256);
+        return record || null;
+    }
+
+    async function get(filename) {
+        const [record] = await findExisting(candidate => candidate.filename === filename);
+        return record || null;
+    }
+
+    async function add(newRecords) {
+        await ready();
+        const now = new Date().toISOString();
+        for (const record of newRecords) {
+            records.set(record.filename, {
+                pinned: false,
+                owners: [],
+                ...record,
+                pageUrl: record.pageUrl ? normalizePageUrl(record.pageUrl) : null,
+                createdAt: record.createdAt || now,
+                accessedAt: record.accessedAt || now,
+                updatedAt: now,
+            });
+        }
+        await persist();
+    }
+
+    // Note that a file was used, for least-recently-accessed eviction
+    async function touch(filename) {
+        await ready();
+        const record = records.get(filename);
+        if (!record) return;
+        const now = Date.now();
+        if (now - Date.parse(record.accessedAt || record.createdAt) < ACCESS_RESOLUTION_MS) return;
+        record.accessedAt = new Date(now).toISOString();
+        await persist();
+    }
+
+    // Pinned files are never expired or evicted. Resolves to the updated record, or null.
+    async function setPinned(filename, pinned) {
+        const record = await get(filename);
+        if (!record) return null;
+        if (record.pinned !== pinned) {
+            record.pinned = pinned;
+            record.updatedAt = new Date().toISOString();
+            await persist();
+        }
+        return record;
+    }
+
+    // Give `owner` a share of a file it downloaded again. Resolves to the record, or null.
+    async function addOwner(filename, owner) {
+        const record = await get(filename);
+        if (!record) return null;
+        const owners = record.owners || [];
+        if (!owners.includes(owner)) {
+            record.owners = [...owners, owner];
+            record.updatedAt = new Date().toISOString();
+            await persist();
+        }
+        return record;
+    }
+
+    // Drop `owner`'s share of a file. Resolves to the owners left, or null for an unknown file.
+    async function removeOwner(filename, owner) {
+        const record = await get(filename);
+        if (!record) return null;
+        const owners = record.owners || [];
+        if (owners.includes(owner)) {
+            record.owners = owners.filter(id => id !== owner);
+            record.updatedAt = new Date().toISOString();
+            await persist();
+        }
+        return record.owners || [];
+    }
+
+    async function remove(filename) {
+        await ready();
+        const existed = records.delete(filename);
+        if (existed) await persist();
+        return existed;
+    }
+
+    // Newest first. Filters are case-insensitive: `q` matches author, caption, hashtags, mentions
+    // and URLs; `author` matches the handle or display name; `hashtag` an exact tag (with or without '#').
+    // `owner` keeps only the files that API key owns.
+    async function list({ q, author, hashtag, platform, owner } = {}) {
+        await ready();
+        const query = q?.trim().toLowerCase();
+        const authorQuery = author?.trim().replace(/^@/, '').toLowerCase();
+        const tagQuery = hashtag?.trim().replace(/^#/, '').toLowerCase();
+
+        return [...records.values()]
+            .filter(record => !owner || (record.owners || []).includes(owner))
+            .filter(record => !platform || record.platform === platform)
+            .filter(record => !authorQuery || [record.metadata?.author?.handle, record.metadata?.author?.displayName]
+                .some(name => name?.toLowerCase().includes(authorQuery)))
+            .filter(record => !tagQuery || (record.metadata?.hashtags || []).some(tag => tag.toLowerCase() === tagQuery))
+            .filter(record => !query || [metadataSearchText(record.metadata), record.pageUrl, record.filename]
+                .some(text => text?.toLowerCase().includes(query)))
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    // Bring the index in line with storage: forget missing files, adopt untracked ones
+    // (files from before the index existed get what their `<platform>_<contentType>_` name tells us).
+    async function reconcile() {
+        await ready();
+        // Top-level objects only (posters and variants live in dot-directories), minus metadata sidecars
+        const stored = new Map((await storage.list())
+            .filter(object => !object.key.includes('/') && !object.key.endsWith('.json'))
+            .map(object => [object.key, object]));
+        let changed = false;
+
+        for (const filename of records.keys()) {
+            if (!stored.has(filename)) {
+                records.delete(filename);
+                changed = true;
+            }
+        }
+        for (const [filename, object] of stored) {
+            if (records.has(filename)) continue;
+            const stream = await storage.get(filename);
+            if (!stream) continue;
+            const [platform = null, contentType = null] = filename.split('_');
+            const sidecar = await readSidecar(filename);
+            records.set(filename, {
+                filename,
+                platform,
+                contentType,
+                mediaType: path.extname(filename) === '.mp4' ? 'video' : 'image',
+                bytes: object.size,
+                sha256: await sha256OfStream(stream),
+                pageUrl: null,
+                sourceUrl: null,
+                itemIndex: 0,
+                itemCount: 1,
+                metadata: sidecar.metadata ?? null,
+                hasPoster: sidecar.hasPoster ?? false,
+                pinned: false,
+                owners: [],
+                createdAt: object.modifiedAt,
+                accessedAt: object.modifiedAt,
+                updatedAt: new Date().toISOString(),
+            });
+            changed = true;
+        }
+
+        if (changed) {
+            await persist();
+            logger.info(`Reconciled media index with ${storage.kind} storage: ${records.size} file(s) tracked.`);
+        }
+    }
+
+    return { findByPage, findBySourceUrl, findByHash, get, add, touch, setPinned, addOwner, removeOwner, remove, list, reconcile };
+}
@@ -0,0 +1,268 @@
+import { promises as fsPromises } from 'fs';
+
+// Combines separately downloaded fragmented MP4 tracks (DASH video and audio, see
+// dashDownloader.js) into one fragmented MP4 that plays with sound. Nothing is re-encoded: the
+// tracks' headers are merged into one `moov`, and their fragments (`moof` + `mdat`) are copied
+// across interleaved by time, with track IDs and sequence numbers rewritten to fit together.
+//
+// An MP4 is a sequence of boxes: a 32-bit size (1 = a 64-bit size follows, 0 = to the end of the
+// file), a four-letter type, then the payload, which for containers is more boxes.
+
+const COPY_CHUNK_BYTES = 1024 * 1024;
+// Boxes that belong to a fragment when they follow its `moof`; anything else ends the fragment
+const FRAGMENT_PAYLOAD_TYPES = ['mdat', 'free', 'skip'];
+
+// Boxes in `buffer` between `start` and `end`: [{ type, data (header included), headerSize }].
+// `data` shares memory with `buffer`, so writes into it patch the original.
+function childBoxes(buffer, start = 0, end = buffer.length) {
+    const boxes = [];
+    for (let position = start; position + 8 <= end;) {
+        let size = buffer.readUInt32BE(position);
+        let headerSize = 8;
+        if (size === 1) {
+            size = Number(buffer.readBigUInt64BE(position + 8));
+            headerSize = 16;
+        } else if (size === 0) {
+            size = end - position;
+        }
+        if (size < headerSize || position + size > end) {
+            throw new Error(`Malformed MP4: box at byte ${position} overruns its container.`);
+        }
+        boxes.push({ type: buffer.toString('latin1', position + 4, position + 8), data: buffer.subarray(position, position + size), headerSize });
+        position += size;
+    }
+    return boxes;
+}
+
+const children = (box) => childBoxes(box.data, box.headerSize);
+const child = (box, type) => (box ? children(box).find(candidate => candidate.type === type) : undefined);
+
+// Full boxes start their payload with a version byte and 24 bits of flags
+const versionOf = (box) => box.data[box.headerSize];
+const flagsOf = (box) => box.data.readUInt32BE(box.headerSize) & 0xffffff;
+
+function makeBox(type, payloads) {
+    const header = Buffer.alloc(8);
+    const body = Buffer.concat(payloads);
+    header.writeUInt32BE(8 + body.length, 0);
+    header.write(type, 4, 'latin1');
+    return Buffer.concat([header, body]);
+}
+
+// Top-level boxes of an open file, read header by header: [{ type, start, size }]
+async function topLevelBoxes(handle, fileSize) {
+    const boxes = [];
+    const header = Buffer.alloc(16);
+    for (let position = 0; position + 8 <= fileSize;) {
+        await handle.read(header, 0, 16, position);
+        let size = header.readUInt32BE(0);
+        if (size === 1) {
+            size = Number(header.readBigUInt64BE(8));
+        } else if (size === 0) {
+            size = fileSize - position;
+        }
+        if (size < 8 || position + size > fileSize) {
+            throw new Error(`Malformed MP4: box at byte ${position} overruns the file.`);
+        }
+        boxes.push({ type: header.toString('latin1', 4, 8), start: position, size });
+        position += size;
+    }
+    return boxes;
+}
+
+async function readRange(handle, start, size) {
+    const buffer = Buffer.alloc(size);
+    await handle.read(buffer, 0, size, start);
+    return buffer;
+}
+
+// tkhd and mdhd put their 32-bit field after creation and modification times, which are 64-bit in version 1
+const afterTimes = (box) => box.headerSize + 4 + (versionOf(box) === 1 ? 16 : 8);
+
+// Headers and fragment layout of one input file
+async function readTrackFile(handle) {
+    const { size } = await handle.stat();
+    const boxes = await topLevelBoxes(handle, size);
+    const ftyp = boxes.find(box => box.type === 'ftyp');
+    const moovBox = boxes.find(box => box.type === 'moov');
+    if (!moovBox) {
+        throw new Error('Not an MP4 track: no moov box.');
+    }
+    const [moov] = childBoxes(await readRange(handle, moovBox.start, moovBox.size));
+    const mvex = child(moov, 'mvex');
+    if (!mvex) {
+        throw new Error('Not a fragmented MP4 track: no mvex box.');
+    }
+
+    const traks = children(moov).filter(box => box.type === 'trak').map(trak => {
+        const tkhd = child(trak, 'tkhd');
+        const mdhd = child(child(trak, 'mdia'), 'mdhd');
+        return { box: trak, tkhd, id: tkhd.data.readUInt32BE(afterTimes(tkhd)), timescale: mdhd.data.readUInt32BE(afterTimes(mdhd)) };
+    });
+    const trexes = children(mvex).filter(box => box.type === 'trex').map(trex => ({
+        box: trex,
+        id: trex.data.readUInt32BE(trex.headerSize + 4),
+        defaultDuration: trex.data.readUInt32BE(trex.headerSize + 12),
+    }));
+
+    // A fragment is a moof and the mdat (plus any padding) after it; styp, sidx and the like
+    // between fragments describe the original byte layout and are dropped
+    const fragments = [];
+    for (const [index, box] of boxes.entries()) {
+        if (box.type !== 'moof') continue;
+        let end = box.start + box.size;
+        for (const next of boxes.slice(index + 1)) {
+            if (!FRAGMENT_PAYLOAD_TYPES.includes(next.type)) break;
+            end = next.start + next.size;
+        }
+        fragments.push({ start: box.start, moofSize: box.size, end });
+    }
+    if (fragments.length === 0) {
+        throw new Error('Not a fragmented MP4 track: no moof boxes.');
+    }
+    return { ftyp: ftyp ? await readRange(handle, ftyp.start, ftyp.size) : null, moov, traks, trexes, fragments };
+}
+
+// Decode time of a fragment's first traf, from tfdt, in the track's timescale; null without one
+function decodeTimeOf(traf) {
+    const tfdt = child(traf, 'tfdt');
+    if (!tfdt) return null;
+    return versionOf(tfdt) === 1 ? Number(tfdt.data.readBigUInt64BE(tfdt.headerSize + 4)) : tfdt.data.readUInt32BE(tfdt.headerSize + 4);
+}
+
+// Sum of a traf's sample durations (trun entries, else the tfhd or trex default)
+function durationOf(traf, trexDefault) {
+    const tfhd = child(traf, 'tfhd');
+    const tfhdFlags = flagsOf(tfhd);
+    let offset = tfhd.headerSize + 8;
+    if (tfhdFlags & 0x01) offset += 8; // base-data-offset
+    if (tfhdFlags & 0x02) offset += 4; // sample-description-index
+    const defaultDuration = tfhdFlags & 0x08 ? tfhd.data.readUInt32BE(offset) : trexDefault;
+
+    let total = 0;
+    for (const trun of children(traf).filter(box => box.type === 'trun')) {
+        const flags = flagsOf(trun);
+        const sampleCount = trun.data.readUInt32BE(trun.headerSize + 4);
+        if (!(flags & 0x100)) {
+            total += sampleCount * defaultDuration;
+            continue;
+        }
+        let position = trun.headerSize + 8 + (flags & 0x01 ? 4 : 0) + (flags & 0x04 ? 4 : 0);
+        const entrySize = 4 * [0x100, 0x200, 0x400, 0x800].filter(flag => flags & flag).length;
+        for (let sample = 0; sample < sampleCount; sample++, position += entrySize) {
+            total += trun.data.readUInt32BE(position);
+        }
+    }
+    return total;
+}
+
+// Point a moof at its new sequence number and track IDs. Sample data offsets are relative to the
+// moof (default-base-is-moof, as DASH packagers write them) and so survive the move; an explicit
+// base-data-offset is absolute and gets shifted by how far the fragment moved.
+function patchFragment(moofBuffer, { sequenceNumber, trackIds, shift }) {
+    const [moof] = childBoxes(moofBuffer);
+    for (const box of children(moof)) {
+        if (box.type === 'mfhd') {
+            box.data.writeUInt32BE(sequenceNumber, box.headerSize + 4);
+        } else if (box.type === 'traf') {
+            const tfhd = child(box, 'tfhd');
+            const trackId = trackIds.get(tfhd.data.readUInt32BE(tfhd.headerSize + 4));
+            if (trackId === undefined) {
+                throw new Error('Malformed MP4: a fragment refers to a track the file does not declare.');
+            }
+            tfhd.data.writeUInt32BE(trackId, tfhd.headerSize + 4);
+            if (flagsOf(tfhd) & 0x01) {
+                const base = tfhd.data.readBigUInt64BE(tfhd.headerSize + 8);
+                tfhd.data.writeBigUInt64BE(base + BigInt(shift), tfhd.headerSize + 8);
+            }
+        }
+    }
+}
+
+/**
+ * Write `inputPaths` (fragmented MP4 files, e.g. a DASH video track then its audio track) to
+ * `outputPath` as one fragmented MP4 holding every track. The first input supplies the file
+ * type and movie header. Track IDs are renumbered 1..n in input order, and fragments are
+ * interleaved by decode time so players can stream the result. Resolves to the bytes written.
+ */
+export async function muxFragmentedTracks(inputPaths, outputPath) {
+    const handles = [];
+    let output;
+    try {
+        for (const inputPath of inputPaths) {
+            handles.push(await fsPromises.open(inputPath, 'r'));
+        }
+        const inputs = [];
+        let nextTrackId = 1;
+        for (const handle of handles) {
+            const input = await readTrackFile(handle);
+            input.trackIds = new Map(input.traks.map(trak => [trak.id, nextTrackId++]));
+            inputs.push(input);
+        }
+
+        // One moov: the first input's movie header and extras, then every track and its defaults
+        const [primary] = inputs;
+        const mvhd = child(primary.moov, 'mvhd');
+        mvhd.data.writeUInt32BE(nextTrackId, mvhd.data.length - 4); // next_track_ID closes the box
+        const traks = [];
+        const trexes = [];
+        for (const input of inputs) {
+            for (const trak of input.traks) {
+                trak.tkhd.data.writeUInt32BE(input.trackIds.get(trak.id), afterTimes(trak.tkhd));
+                traks.push(trak.box.data);
+            }
+            for (const trex of input.trexes) {
+                const trackId = input.trackIds.get(trex.id);
+                if (trackId === undefined) continue;
+                trex.box.data.writeUInt32BE(trackId, trex.box.headerSize + 4);
+                trexes.push(trex.box.data);
+            }
+        }
+        const mehd = child(child(primary.moov, 'mvex'), 'mehd');
+        const extras = children(primary.moov).filter(box => !['mvhd', 'trak', 'mvex'].includes(box.type)).map(box => box.data);
+        const moov = makeBox('moov', [mvhd.data, ...extras, ...traks, makeBox('mvex', [...(mehd ? [mehd.data] : []), ...trexes])]);
+
+        // Fragments in presentation order. Without a tfdt a fragment starts where the previous one ended.
+        const fragments = [];
+        for (const [inputIndex, input] of inputs.entries()) {
+            let clock = 0;
+            for (const fragment of input.fragments) {
+                const traf = child(childBoxes(await readRange(handles[inputIndex], fragment.start, fragment.moofSize))[0], 'traf');
+                const tfhd = child(traf, 'tfhd');
+                const trak = input.traks.find(candidate => candidate.id === tfhd?.data.readUInt32BE(tfhd.headerSize + 4)) ?? input.traks[0];
+                const trex = input.trexes.find(candidate => candidate.id === trak.id);
+                const decodeTime = (traf && decodeTimeOf(traf)) ?? clock;
+                clock = decodeTime + (traf ? durationOf(traf, trex?.defaultDuration ?? 0) : 0);
+                fragments.push({ ...fragment, inputIndex, input, seconds: decodeTime / (trak.timescale || 1) });
+            }
+        }
+        fragments.sort((a, b) => a.seconds - b.seconds || a.inputIndex - b.inputIndex);
+
+        output = await fsPromises.open(outputPath, 'w');
+        let position = 0;
+        const write = async (buffer, length = buffer.length) => {
+            await output.write(buffer, 0, length, position);
+            position += length;
+        };
+        await write(primary.ftyp ?? makeBox('ftyp', [Buffer.from('isom'), Buffer.alloc(4), Buffer.from('isomiso6mp41')]));
+        await write(moov);
+
+        const chunk = Buffer.alloc(COPY_CHUNK_BYTES);
+        for (const [index, fragment] of fragments.entries()) {
+            const handle = handles[fragment.inputIndex];
+            const moofBuffer = await readRange(handle, fragment.start, fragment.moofSize);
+            patchFragment(moofBuffer, { sequenceNumber: index + 1, trackIds: fragment.input.trackIds, shift: position - fragment.start });
+            await write(moofBuffer);
+            for (let offset = fragment.start + fragment.moofSize; offset < fragment.end;) {
+                const { bytesRead } = await handle.read(chunk, 0, Math.min(COPY_CHUNK_BYTES, fragment.end - offset), offset);
+                if (bytesRead === 0) throw new Error('MP4 track ended while copying a fragment.');
+                await write(chunk, bytesRead);
+                offset += bytesRead;
+            }
+        }
+        return position;
+    } finally {
+        await output?.close();
+        await Promise.all(handles.map(handle => handle.close()));
+    }
+}
@@ -0,0 +1,74 @@
+import dns from 'dns';
+import net from 'net';
+
+/*
+ * Guard for requests the server makes to URLs its users choose (webhook and callback receivers):
+ * they must not reach the server's own network. Hosts that are, or resolve to, loopback, private
+ * (RFC 1918, unique-local), link-local (cloud metadata at 169.254.169.254), carrier-grade NAT,
+ * multicast or otherwise non-routable addresses are refused. Hosts in `allowedHosts` skip the
+ * check, for receivers deliberately run next to the server.
+ *
+ * checkOutboundUrl() is for when a URL is accepted and before each request; lookup, given to the
+ * HTTP agents, re-checks the addresses actually connected to, so a DNS answer that changes between
+ * the two can't slip through.
+ */
+
+const NON_PUBLIC_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+]) {
+    NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+// IPv4-mapped addresses (::ffff:10.0.0.1) are matched against the IPv4 ranges by BlockList itself
+for (const [network, prefix] of [['::', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]]) {
+    NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+export class OutboundTargetError extends Error {
+    constructor(message, { cause } = {}) {
+        super(message, { cause });
+        this.name = 'OutboundTargetError';
+    }
+}
+
+// Whether `address` (an IP literal) is reachable on the public internet
+export function isPublicAddress(address) {
+    const family = net.isIP(address);
+    return family !== 0 && !NON_PUBLIC_RANGES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+export function createOutboundGuard({ allowedHosts = [] } = {}) {
+    const allowed = new Set(allowedHosts.map(host => host.toLowerCase()));
+
+    function refuse(hostname, address) {
+        return new OutboundTargetError(`${hostname}${address !== hostname ? ` (${address})` : ''} is not a public address; add it to WEBHOOK_ALLOWED_HOSTS to send to it.`);
+    }
+
+    /** Resolve `url`'s host; throws OutboundTargetError unless every address it has is public. */
+    async function checkOutboundUrl(url) {
+        const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '').toLowerCase();
+        if (allowed.has(hostname)) return;
+        let addresses;
+        try {
+            addresses = net.isIP(hostname) ? [{ address: hostname }] : await dns.promises.lookup(hostname, { all: true, verbatim: true });
+        } catch (error) {
+            throw new OutboundTargetError(`Cannot resolve ${hostname}: ${error.code || error.message}`, { cause: error });
+        }
+        const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+        if (blocked) throw refuse(hostname, blocked.address);
+    }
+
+    // dns.lookup with the same rule, for http.Agent / https.Agent
+    function lookup(hostname, options, callback) {
+        dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+            if (error) return callback(error);
+            const blocked = !allowed.has(hostname.toLowerCase()) && addresses.find(({ address }) => !isPublicAddress(address));
+            if (blocked) return callback(refuse(hostname, blocked.address));
+            if (options.all) return callback(null, addresses);
+            callback(null, addresses[0].address, addresses[0].family);
+        });
+    }
+
+    return { checkOutboundUrl, lookup };
+}
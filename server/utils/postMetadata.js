@@ -0,0 +1,101 @@
+// Turns the raw strings extractors scrape from a post page (see extractMetadata in the platform
+// services) into PostMetadata (shared/apiContract.js). Everything is optional: platforms hide
+// counts, logged-out pages drop captions, and a field we can't read is null rather than a guess.
+
+const COUNT_SUFFIXES = { k: 1e3, m: 1e6, b: 1e9 };
+
+// "1,234 likes" -> 1234, "1.2K views" -> 1200, "3 M" -> 3000000. null when there is no number.
+export function parseCount(text) {
+    if (text === null || text === undefined) return null;
+    if (typeof text === 'number') return Number.isFinite(text) ? text : null;
+
+    const match = /(\d[\d,.\s]*)\s*([kmb])?\b/i.exec(String(text));
+    if (!match) return null;
+    const suffix = match[2]?.toLowerCase();
+    let digits = match[1].replace(/[\s,]/g, '');
+    if (!suffix) {
+        digits = digits.replace(/\./g, ''); // "1.234" is a thousands separator without a suffix
+    }
+    const value = Number(digits);
+    if (!Number.isFinite(value)) return null;
+    return Math.round(value * (suffix ? COUNT_SUFFIXES[suffix] : 1));
+}
+
+function unique(values) {
+    const seen = new Set();
+    return values.filter(value => {
+        const key = value.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+// Hashtags without the '#', in order of appearance, case-insensitively unique
+export function extractHashtags(text) {
+    return unique([...(text || '').matchAll(/#([\p{L}\p{N}_]+)/gu)].map(match => match[1]));
+}
+
+// Mentioned handles without the '@'. The look-behind skips e-mail addresses.
+export function extractMentions(text) {
+    return unique([...(text || '').matchAll(/(?<![\w.@])@([A-Za-z0-9._]{1,30})/g)].map(match => match[1].replace(/\.+$/, '')));
+}
+
+// "/fixture_user/" or "https://www.instagram.com/fixture_user/" or "@fixture_user" -> "fixture_user"
+export function normalizeHandle(value) {
+    if (!value) return null;
+    let handle = String(value).trim();
+    try {
+        const parsed = new URL(handle, 'https://placeholder.invalid');
+        // Facebook profiles without a vanity name: /profile.php?id=1000123
+        handle = parsed.pathname === '/profile.php' ? parsed.searchParams.get('id') || '' : parsed.pathname;
+    } catch {
+        // Not URL-like; use as is
+    }
+    handle = handle.split('/').filter(Boolean)[0] || '';
+    handle = handle.replace(/^@/, '');
+    return /^[\w.\-]+$/.test(handle) ? handle : null;
+}
+
+// ISO string from a datetime attribute, an ISO/RFC date string or Unix seconds
+export function parseTimestamp(value) {
+    if (value === null || value === undefined || value === '') return null;
+    const asNumber = Number(value);
+    const date = Number.isFinite(asNumber) && /^\d+$/.test(String(value).trim())
+        ? new Date(asNumber < 1e12 ? asNumber * 1000 : asNumber)
+        : new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * @param {{ handle?: string, displayName?: string, caption?: string, postedAt?: string | number,
+ *           likes?: string | number, views?: string | number }} raw
+ * @returns {import('../../shared/apiContract.js').PostMetadata}
+ */
+export function buildPostMetadata(raw = {}) {
+    const handle = normalizeHandle(raw.handle);
+    const displayName = raw.displayName?.trim() || null;
+    const caption = raw.caption?.trim() || null;
+
+    return {
+        author: handle || displayName ? { handle, displayName } : null,
+        caption,
+        hashtags: extractHashtags(caption),
+        mentions: extractMentions(caption),
+        postedAt: parseTimestamp(raw.postedAt),
+        likeCount: parseCount(raw.likes),
+        viewCount: parseCount(raw.views),
+    };
+}
+
+// Lower-cased text a search query is matched against
+export function metadataSearchText(metadata) {
+    if (!metadata) return '';
+    return [
+        metadata.author?.handle,
+        metadata.author?.displayName,
+        metadata.caption,
+        ...metadata.hashtags.map(tag => `#${tag}`),
+        ...metadata.mentions.map(mention => `@${mention}`),
+    ].filter(Boolean).join('\n').toLowerCase();
+}
@@ -0,0 +1,80 @@
+import { API_ERROR_CODES, createErrorEnvelope } from '../../shared/apiContract.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('RateLimit');
+
+const IDLE_BUCKET_SWEEP_MS = 10 * 60 * 1000;
+
+/**
+ * Token buckets, one per key: each holds up to `capacity` tokens (the burst) and refills at
+ * `refillPerSecond`. take(key) spends a token if there is one and returns
+ * { allowed, remaining, retryAfterSeconds } (retryAfterSeconds is 0 when allowed).
+ * Buckets that have refilled completely are forgotten, since a new bucket starts full anyway.
+ */
+export function createTokenBucketLimiter({ capacity, refillPerSecond, now = () => Date.now() }) {
+    const buckets = new Map(); // key -> { tokens, updatedAt }
+    let lastSweep = now();
+
+    function refilled(bucket, at) {
+        return Math.min(capacity, bucket.tokens + ((at - bucket.updatedAt) / 1000) * refillPerSecond);
+    }
+
+    function sweepIdle(at) {
+        if (at - lastSweep < IDLE_BUCKET_SWEEP_MS) return;
+        lastSweep = at;
+        for (const [key, bucket] of buckets) {
+            if (refilled(bucket, at) >= capacity) buckets.delete(key);
+        }
+    }
+
+    function take(key, cost = 1) {
+        const at = now();
+        sweepIdle(at);
+        const bucket = buckets.get(key) || { tokens: capacity, updatedAt: at };
+        bucket.tokens = refilled(bucket, at);
+        bucket.updatedAt = at;
+        buckets.set(key, bucket);
+
+        if (bucket.tokens >= cost) {
+            bucket.tokens -= cost;
+            return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterSeconds: 0 };
+        }
+        return { allowed: false, remaining: 0, retryAfterSeconds: Math.max(1, Math.ceil((cost - bucket.tokens) / refillPerSecond)) };
+    }
+
+    return { capacity, take, size: () => buckets.size };
+}
+
+/** Send a 429 with Retry-After, in the usual error envelope. */
+export function sendTooManyRequests(res, { code = API_ERROR_CODES.RATE_LIMITED, message, retryAfterSeconds, scope }) {
+    res.set('Retry-After', String(retryAfterSeconds));
+    res.status(429).json(createErrorEnvelope(code, message, { retryAfterSeconds, scope }));
+}
+
+/**
+ * Express middleware limiting requests per client: requests carrying an API key draw from that
+ * key's bucket in `perApiKey`, others from their IP's bucket in `perIp` (req.ip, so set
+ * Express's 'trust proxy' behind a reverse proxy). `apiKeyOf(req)` names the key; by default
+ * the `X-API-Key` header, but behind authentication it should be the verified key's id so that
+ * made-up keys can't mint fresh buckets.
+ * Limited requests get a 429 with Retry-After; every response carries RateLimit-Limit and
+ * RateLimit-Remaining.
+ */
+export function createRateLimitMiddleware({ perIp, perApiKey, apiKeyOf = (req) => req.get('x-api-key') }) {
+    return (req, res, next) => {
+        const apiKey = apiKeyOf(req);
+        const [scope, limiter, key] = apiKey ? ['apiKey', perApiKey, apiKey] : ['ip', perIp, req.ip];
+        const { allowed, remaining, retryAfterSeconds } = limiter.take(key);
+        res.set('RateLimit-Limit', String(limiter.capacity));
+        res.set('RateLimit-Remaining', String(remaining));
+        if (allowed) {
+            return next();
+        }
+        logger.warn(`Rate limited ${scope === 'ip' ? `IP ${key}` : 'an API key'} on ${req.method} ${req.path}; retry in ${retryAfterSeconds}s`);
+        sendTooManyRequests(res, {
+            message: `Too many requests. Retry in ${retryAfterSeconds}s.`,
+            retryAfterSeconds,
+            scope,
+        });
+    };
+}
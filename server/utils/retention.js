@@ -0,0 +1,151 @@
+import { posterKeyFor, removeDerivedImages } from './imageVariants.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('Retention');
+
+/*
+ * How long downloaded files are kept. Two rules, each off when null:
+ *   ttlSeconds  a file nobody has downloaded, reused or previewed for this long expires
+ *   maxBytes    quota on the media files' total size (sidecars, posters and cached variants are
+ *               small and not counted); past it, the least recently accessed files are evicted
+ * Pinned files are exempt from both but still count towards the quota, so pinning more than
+ * the quota leaves the store over it. Access times come from the media index (see
+ * mediaIndex.touch); a sweeper applies the rules on an interval.
+ */
+
+const lastAccessOf = (record) => Date.parse(record.accessedAt || record.createdAt);
+
+/**
+ * Remove a downloaded file with everything derived from it: its sidecar and poster in storage,
+ * cached image variants in the working directory and its index record. Resolves to whether the
+ * file itself was there.
+ */
+export async function removeDownload({ storage, downloadsDir, mediaIndex }, filename) {
+    const existed = await storage.delete(filename);
+    await storage.delete(`${filename}.json`); // Metadata sidecar
+    await storage.delete(posterKeyFor(filename)); // Poster frame
+    await removeDerivedImages(downloadsDir, filename); // Cached variants (and a poster left in the working directory)
+    await mediaIndex.remove(filename);
+    return existed;
+}
+
+/**
+ * What a sweep would remove from `records` (media index records) at `now`: expired files first,
+ * then the least recently accessed ones until the rest fit in `maxBytes`.
+ * Returns { usedBytes, bytesAfterSweep, scheduled: [{ filename, bytes, accessedAt, reason }] },
+ * where reason is 'expired' or 'quota', least recently accessed first.
+ */
+export function planRetention(records, { ttlSeconds = null, maxBytes = null, now = Date.now() } = {}) {
+    const usedBytes = records.reduce((total, record) => total + record.bytes, 0);
+    const candidates = records.filter(record => !record.pinned).sort((a, b) => lastAccessOf(a) - lastAccessOf(b));
+    const scheduled = [];
+    let remaining = usedBytes;
+
+    const schedule = (record, reason) => {
+        scheduled.push({ filename: record.filename, bytes: record.bytes, accessedAt: record.accessedAt || record.createdAt, reason });
+        remaining -= record.bytes;
+    };
+
+    if (ttlSeconds !== null) {
+        candidates.filter(record => lastAccessOf(record) + ttlSeconds * 1000 <= now).forEach(record => schedule(record, 'expired'));
+    }
+    if (maxBytes !== null) {
+        for (const record of candidates) {
+            if (remaining <= maxBytes) break;
+            if (!scheduled.some(entry => entry.filename === record.filename)) {
+                schedule(record, 'quota');
+            }
+        }
+    }
+    scheduled.sort((a, b) => Date.parse(a.accessedAt) - Date.parse(b.accessedAt));
+    return { usedBytes, bytesAfterSweep: remaining, scheduled };
+}
+
+/**
+ * Background enforcement of the retention rules over `mediaIndex` and `storage`.
+ * Returns { sweep, report, start, stop }: `sweep()` removes what planRetention schedules now
+ * (concurrent calls share one sweep); `report()` is the StorageReport of GET /api/storage, with
+ * `report({ owner })` listing only that API key's files among the scheduled ones;
+ * `start()` sweeps every `intervalMs` until `stop()`. With neither rule set, start does nothing.
+ */
+export function createRetentionSweeper({ storage, downloadsDir, mediaIndex, ttlSeconds = null, maxBytes = null, intervalMs = 15 * 60 * 1000 }) {
+    const policy = { ttlSeconds, maxBytes };
+    let timer = null;
+    let nextSweepAt = null;
+    let sweeping = null;
+    let lastSweep = null;
+
+    async function plan() {
+        return planRetention(await mediaIndex.list(), policy);
+    }
+
+    async function runSweep() {
+        const startedAt = new Date().toISOString();
+        const { scheduled } = await plan();
+        const removed = [];
+        let freedBytes = 0;
+        for (const entry of scheduled) {
+            // Pinned or used again since the plan was made: keep it until the next sweep decides
+            const current = await mediaIndex.get(entry.filename);
+            if (current && (current.pinned || lastAccessOf(current) > Date.parse(entry.accessedAt))) continue;
+            try {
+                await removeDownload({ storage, downloadsDir, mediaIndex }, entry.filename);
+                removed.push(entry.filename);
+                freedBytes += entry.bytes;
+            } catch (error) {
+                logger.error(`Failed to remove ${entry.filename} (${entry.reason}):`, error.message);
+            }
+        }
+        if (removed.length > 0) {
+            logger.info(`Swept ${removed.length} file(s), freeing ${freedBytes} bytes: ${removed.join(', ')}`);
+        }
+        lastSweep = { startedAt, removed, freedBytes };
+        return lastSweep;
+    }
+
+    function sweep() {
+        sweeping = sweeping || runSweep().finally(() => {
+            sweeping = null;
+        });
+        return sweeping;
+    }
+
+    async function report({ owner = null } = {}) {
+        const records = await mediaIndex.list();
+        const { usedBytes, bytesAfterSweep, scheduled } = planRetention(records, policy);
+        const owned = owner ? new Set(records.filter(record => (record.owners || []).includes(owner)).map(record => record.filename)) : null;
+        const pinned = records.filter(record => record.pinned);
+        return {
+            backend: storage.kind,
+            fileCount: records.length,
+            usedBytes,
+            pinnedCount: pinned.length,
+            pinnedBytes: pinned.reduce((total, record) => total + record.bytes, 0),
+            policy: { ...policy, sweepIntervalSeconds: timer ? intervalMs / 1000 : null },
+            scheduled: owned ? scheduled.filter(entry => owned.has(entry.filename)) : scheduled,
+            bytesAfterSweep,
+            lastSweep,
+            nextSweepAt,
+        };
+    }
+
+    function start() {
+        if (timer || (ttlSeconds === null && maxBytes === null)) return;
+        const tick = () => {
+            nextSweepAt = new Date(Date.now() + intervalMs).toISOString();
+            sweep().catch(error => logger.error('Retention sweep failed:', error.message));
+        };
+        timer = setInterval(tick, intervalMs);
+        timer.unref(); // Don't keep the process alive just to sweep
+        nextSweepAt = new Date(Date.now() + intervalMs).toISOString();
+        logger.info(`Sweeping every ${intervalMs / 1000}s (ttl: ${ttlSeconds ?? 'none'}s, quota: ${maxBytes ?? 'none'} bytes)`);
+    }
+
+    function stop() {
+        clearInterval(timer);
+        timer = null;
+        nextSweepAt = null;
+    }
+
+    return { sweep, report, start, stop };
+}
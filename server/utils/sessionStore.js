@@ -0,0 +1,207 @@
+import { promises as fsPromises } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { CookieImportError, domainMatches, isExpired } from './cookieJar.js';
+import { createJsonFileStore } from './jsonFileStore.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('Sessions');
+
+const STORE_VERSION = 1;
+const CIPHER = 'aes-256-gcm';
+const KEY_SALT = 'media-downloader-sessions'; // Fixed: the secret itself is what must stay private
+
+/*
+ * Logged-in sessions imported from cookie exports, one per platform, stored as one JSON file.
+ * A record (keyed by platform) holds:
+ *   platform, cookieCount, domains, importedAt, lastUsedAt
+ *   expiresAt     when the platform's login cookies expire (ISO), or null for browser-session cookies
+ *   status        'active' | 'expired' (expiry passed, or the platform showed a login wall anyway)
+ *   statusReason  why the session stopped working
+ *   payload       the cookies themselves, AES-256-GCM encrypted: { iv, tag, data } (base64)
+ * Only the payload is secret; everything else is listed to the operator. The key comes from
+ * SESSION_SECRET, or else from a random key file created next to the store on first use.
+ * Cookie values never leave this module except through cookiesFor().
+ */
+export function createSessionStore({ storePath, keyPath = `${storePath}.key`, secret = null }) {
+    let records = null; // platform -> record, loaded on first use
+    let key = null;
+    const file = createJsonFileStore({
+        filePath: storePath,
+        description: 'session store',
+        logger,
+        mode: 0o600,
+        onLoad: async parsed => {
+            key = await loadKey();
+            records = new Map((parsed.sessions || []).map(record => [record.platform, record]));
+            if (records.size > 0) logger.info(`Loaded ${records.size} session(s) from ${storePath}`);
+        },
+    });
+    const { ready } = file;
+
+    async function loadKey() {
+        if (secret) {
+            return crypto.scryptSync(secret, KEY_SALT, 32);
+        }
+        try {
+            return Buffer.from((await fsPromises.readFile(keyPath, 'utf8')).trim(), 'hex');
+        } catch (error) {
+            if (error.code !== 'ENOENT') throw error;
+        }
+        logger.warn(`SESSION_SECRET is not set; generating a session key at ${keyPath}. Set SESSION_SECRET to keep sessions readable if that file is lost.`);
+        const generated = crypto.randomBytes(32);
+        await fsPromises.mkdir(path.dirname(keyPath), { recursive: true });
+        await fsPromises.writeFile(keyPath, generated.toString('hex'), { mode: 0o600 });
+        return generated;
+    }
+
+    // Rejects when the store couldn't be written, so an import or revocation isn't reported done
+    function persist() {
+        return file.write({ version: STORE_VERSION, sessions: [...records.values()] });
+    }
+
+    // For status and last-use bookkeeping, which the next change writes again: failures are only logged
+    function persistQuietly() {
+        return persist().catch(() => {});
+    }
+
+    function encrypt(cookies) {
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv(CIPHER, key, iv);
+        const data = Buffer.concat([cipher.update(JSON.stringify(cookies), 'utf8'), cipher.final()]);
+        return { iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64'), data: data.toString('base64') };
+    }
+
+    // Throws if the key changed or the payload was tampered with
+    function decrypt({ iv, tag, data }) {
+        const decipher = crypto.createDecipheriv(CIPHER, key, Buffer.from(iv, 'base64'));
+        decipher.setAuthTag(Buffer.from(tag, 'base64'));
+        const plain = Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]);
+        return JSON.parse(plain.toString('utf8'));
+    }
+
+    // Flag records whose login cookies have run out since they were last looked at
+    function refreshStatus(record, now = Date.now()) {
+        if (record.status === 'active' && record.expiresAt && Date.parse(record.expiresAt) <= now) {
+            record.status = 'expired';
+            record.statusReason = `The login cookies expired on ${record.expiresAt}.`;
+            return true;
+        }
+        return false;
+    }
+
+    // SessionInfo (shared/apiContract.js): everything but the encrypted cookies
+    function toSummary({ platform, status, statusReason, cookieCount, domains, importedAt, lastUsedAt, expiresAt }) {
+        return { platform, status, statusReason, cookieCount, domains, importedAt, lastUsedAt, expiresAt };
+    }
+
+    /**
+     * Store `cookies` (see cookieJar.js) as the session for `platform`, replacing any earlier one.
+     * Cookies for other sites are dropped. `sessionCookies` names the cookies that carry the login;
+     * an export without a live one is refused. Throws CookieImportError for unusable exports, and the
+     * write error when the session couldn't be saved (the earlier one, if any, stays).
+     */
+    async function importSession(platform, cookies, { hostnames, sessionCookies = [] }) {
+        await ready();
+        const now = Date.now();
+        const relevant = cookies.filter(cookie => hostnames.some(hostname => domainMatches(cookie.domain, hostname)));
+        if (relevant.length === 0) {
+            throw new CookieImportError(`None of the cookies are for ${hostnames.join(', ')}. Export them while on the site.`);
+        }
+        const loginCookies = relevant.filter(cookie => sessionCookies.includes(cookie.name));
+        if (sessionCookies.length > 0 && loginCookies.length === 0) {
+            throw new CookieImportError(`The export has no ${sessionCookies.join('/')} cookie. Log in, then export the cookies again.`);
+        }
+        if (loginCookies.length > 0 && loginCookies.every(cookie => isExpired(cookie, now))) {
+            throw new CookieImportError('The login cookies in this export have already expired. Log in again and re-export them.');
+        }
+
+        const expiries = loginCookies.map(cookie => cookie.expires).filter(expires => expires > 0);
+        const record = {
+            platform,
+            status: 'active',
+            statusReason: null,
+            cookieCount: relevant.length,
+            domains: [...new Set(relevant.map(cookie => cookie.domain.replace(/^\./, '')))].sort(),
+            importedAt: new Date(now).toISOString(),
+            lastUsedAt: null,
+            expiresAt: expiries.length > 0 ? new Date(Math.min(...expiries) * 1000).toISOString() : null,
+            payload: encrypt(relevant),
+        };
+        const previous = records.get(platform);
+        records.set(platform, record);
+        try {
+            await persist();
+        } catch (error) {
+            if (previous) {
+                records.set(platform, previous);
+            } else {
+                records.delete(platform);
+            }
+            throw error;
+        }
+        logger.info(`Imported ${relevant.length} cookie(s) for ${platform}${record.expiresAt ? `, valid until ${record.expiresAt}` : ''}.`);
+        return toSummary(record);
+    }
+
+    // Every stored session, without cookie values
+    async function list() {
+        await ready();
+        if ([...records.values()].map(record => refreshStatus(record)).some(Boolean)) {
+            await persistQuietly();
+        }
+        return [...records.values()].map(toSummary).sort((a, b) => a.platform.localeCompare(b.platform));
+    }
+
+    /**
+     * Cookies to apply for `platform`: { status: 'none' } without a session, { status: 'expired', reason }
+     * for one that stopped working, otherwise { status: 'active', cookies }.
+     */
+    async function cookiesFor(platform) {
+        await ready();
+        const record = records.get(platform);
+        if (!record) return { status: 'none' };
+
+        if (refreshStatus(record)) {
+            logger.warn(`Session for ${platform} has expired: ${record.statusReason}`);
+            await persistQuietly();
+        }
+        if (record.status !== 'active') {
+            return { status: 'expired', reason: record.statusReason };
+        }
+
+        let cookies;
+        try {
+            cookies = decrypt(record.payload);
+        } catch (error) {
+            logger.error(`Could not decrypt the ${platform} session (${error.message}); was the key changed?`);
+            await markExpired(platform, 'The stored cookies could not be decrypted with the current key. Import them again.');
+            return { status: 'expired', reason: record.statusReason };
+        }
+        record.lastUsedAt = new Date().toISOString();
+        await persistQuietly();
+        return { status: 'active', cookies: cookies.filter(cookie => !isExpired(cookie)) };
+    }
+
+    // The platform rejected the session (e.g. showed a login wall with the cookies applied)
+    async function markExpired(platform, reason) {
+        await ready();
+        const record = records.get(platform);
+        if (!record || record.status === 'expired') return;
+        record.status = 'expired';
+        record.statusReason = reason;
+        logger.warn(`Session for ${platform} marked expired: ${reason}`);
+        await persistQuietly();
+    }
+
+    // Forget a platform's session. Resolves to false if there was none.
+    async function revoke(platform) {
+        await ready();
+        if (!records.delete(platform)) return false;
+        await persist();
+        logger.info(`Revoked session for ${platform}.`);
+        return true;
+    }
+
+    return { importSession, list, cookiesFor, markExpired, revoke };
+}
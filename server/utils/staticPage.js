@@ -0,0 +1,166 @@
+import fetch from 'node-fetch';
+import * as cheerio from 'cheerio';
+import { getConfig } from './config.js';
+
+/*
+ * Helpers for the no-browser fast path (see extractStatic in mediaPipeline.js): fetch a page over
+ * plain HTTP and read what it ships in its HTML - Open Graph tags, application/ld+json blocks and
+ * the JSON payloads platforms inline for their own scripts. None of this runs page scripts, so it
+ * only works for pages that are server-rendered or carry their data inline.
+ */
+
+const STATIC_FETCH_TIMEOUT_MS = getConfig().timeouts.staticFetchMs;
+const MAX_WALK_DEPTH = 40; // Inline payloads nest deeply, but not this deep
+
+// Fetch `url` and load it into cheerio. Resolves to { status, url (after redirects), $ }.
+export async function fetchStaticPage(url, { headers = {}, timeoutMs = STATIC_FETCH_TIMEOUT_MS } = {}) {
+    const response = await fetch(url, {
+        headers: {
+            Accept: 'text/html,application/xhtml+xml',
+            'Accept-Language': 'en-US,en;q=0.9',
+            ...headers,
+        },
+        redirect: 'follow',
+        signal: AbortSignal.timeout(timeoutMs),
+    });
+    const html = await response.text();
+    return { status: response.status, url: response.url || url, $: cheerio.load(html) };
+}
+
+// og:* properties of the page, e.g. { title, description, image, video }
+export function readOpenGraph($) {
+    const tags = {};
+    $('meta[property^="og:"]').each((_, element) => {
+        const key = $(element).attr('property').slice('og:'.length);
+        const content = $(element).attr('content');
+        if (content && !(key in tags)) tags[key] = content; // First one wins, like scrapers expect
+    });
+    return tags;
+}
+
+// Every object in the page's application/ld+json blocks, with @graph containers flattened
+export function readJsonLd($) {
+    const objects = [];
+    $('script[type="application/ld+json"]').each((_, element) => {
+        try {
+            const parsed = JSON.parse($(element).text());
+            for (const entry of Array.isArray(parsed) ? parsed : [parsed]) {
+                objects.push(...(Array.isArray(entry?.['@graph']) ? entry['@graph'] : [entry]));
+            }
+        } catch {
+            // Malformed blocks are common enough to ignore
+        }
+    });
+    return objects.filter(entry => entry && typeof entry === 'object');
+}
+
+// JSON payloads inlined for the page's scripts: <script type="application/json"> blocks and
+// `window.x = {...};` assignments. Unparseable scripts are skipped.
+export function readInlineJson($) {
+    const payloads = [];
+    $('script').each((_, element) => {
+        const type = ($(element).attr('type') || '').toLowerCase();
+        if (type === 'application/ld+json') return;
+        const text = $(element).text().trim();
+        if (!text) return;
+
+        if (type === 'application/json') {
+            try {
+                payloads.push(JSON.parse(text));
+            } catch {
+                // Not JSON after all
+            }
+            return;
+        }
+        const assignment = /^(?:window\.)?[\w$.]+\s*=\s*(\{[\s\S]*\})\s*;?\s*$/.exec(text);
+        if (assignment) {
+            try {
+                payloads.push(JSON.parse(assignment[1]));
+            } catch {
+                // An object literal that isn't valid JSON
+            }
+        }
+    });
+    return payloads;
+}
+
+// Objects anywhere inside `value` (depth-first, parents before children) matching `predicate`
+export function findObjects(value, predicate) {
+    const found = [];
+    const seen = new Set();
+    const walk = (node, depth) => {
+        if (!node || typeof node !== 'object' || depth > MAX_WALK_DEPTH || seen.has(node)) return;
+        seen.add(node);
+        if (!Array.isArray(node) && predicate(node)) found.push(node);
+        for (const child of Object.values(node)) walk(child, depth + 1);
+    };
+    walk(value, 0);
+    return found;
+}
+
+// Whether the page is a login wall or an "unavailable" notice, per an extractor's `blockers`
+export function isBlockedPage($, finalUrl, { loginPaths = [], loginSelectors = [], unavailableTexts = [] } = {}) {
+    let pathname = '';
+    try {
+        pathname = new URL(finalUrl).pathname;
+    } catch {
+        // Keep ''
+    }
+    if (loginPaths.some(loginPath => pathname.startsWith(loginPath))) return true;
+    if (loginSelectors.some(selector => $(selector).length > 0)) return true;
+    const bodyText = $('body').text();
+    return unavailableTexts.some(text => bodyText.includes(text));
+}
+
+// schema.org types whose `image`/`video` are the post's media (an Organization's image is its logo)
+const POST_TYPES = ['SocialMediaPosting', 'DiscussionForumPosting', 'BlogPosting', 'Article', 'NewsArticle'];
+const asArray = (value) => (Array.isArray(value) ? value : value ? [value] : []);
+const urlOf = (value) => (typeof value === 'string' ? value : value?.contentUrl || value?.url || null);
+
+// Media listed by schema.org objects: VideoObjects (with their thumbnail as poster) first, then
+// images that aren't one of those thumbnails. Resolves to [{ url, type, poster? }].
+export function mediaFromJsonLd(objects) {
+    const videos = [];
+    const images = [];
+    for (const object of objects) {
+        const types = asArray(object['@type']);
+        const isPost = types.some(type => POST_TYPES.includes(type));
+        const videoObjects = types.includes('VideoObject') ? [object] : isPost ? asArray(object.video) : [];
+        for (const video of videoObjects) {
+            const url = urlOf(video);
+            const poster = urlOf(asArray(video.thumbnailUrl ?? video.thumbnail)[0]);
+            if (url) videos.push({ url, type: 'video', ...(poster ? { poster } : {}) });
+        }
+        const imageObjects = types.includes('ImageObject') ? [object] : isPost ? asArray(object.image) : [];
+        for (const image of imageObjects) {
+            const url = urlOf(image);
+            if (url) images.push({ url, type: 'image' });
+        }
+    }
+    const posters = new Set(videos.map(video => video.poster));
+    const seen = new Set();
+    return [...videos, ...images.filter(image => !posters.has(image.url))].filter(media => {
+        if (seen.has(media.url)) return false;
+        seen.add(media.url);
+        return true;
+    });
+}
+
+// Raw attribution (see buildPostMetadata) from a schema.org post, or null without one
+export function metadataFromJsonLd(objects) {
+    const post = objects.find(object => asArray(object['@type']).some(type => POST_TYPES.includes(type) || type === 'VideoObject'));
+    if (!post) return null;
+    const author = asArray(post.author)[0] || {};
+    const likes = asArray(post.interactionStatistic)
+        .find(statistic => /LikeAction/.test(String(statistic.interactionType?.['@type'] ?? statistic.interactionType)));
+    const views = asArray(post.interactionStatistic)
+        .find(statistic => /WatchAction|ViewAction/.test(String(statistic.interactionType?.['@type'] ?? statistic.interactionType)));
+    return {
+        handle: author.alternateName || author.identifier?.value || author.url || null,
+        displayName: author.name || null,
+        caption: post.articleBody || post.caption || post.description || null,
+        postedAt: post.dateCreated || post.uploadDate || post.datePublished || null,
+        likes: likes?.userInteractionCount ?? null,
+        views: views?.userInteractionCount ?? null,
+    };
+}
@@ -0,0 +1,286 @@
+import axios from 'axios';
+import path from 'path';
+import * as cheerio from 'cheerio';
+import { createReadStream, createWriteStream, promises as fsPromises } from 'fs';
+import { pipeline } from 'stream/promises';
+import { getConfig } from './config.js';
+import { sha256OfFile } from './fileDownloader.js';
+import { EMPTY_PAYLOAD_HASH, presignUrl, signRequest } from './s3Signer.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('Storage');
+
+/*
+ * Where downloaded files are kept. Downloads are fetched into a local working directory first
+ * (see downloadMediaItems) and then handed to a backend, which owns them from then on.
+ * Keys are '/'-separated paths relative to the backend's root: '<filename>', its '<filename>.json'
+ * sidecar, '.posters/<filename>.jpg'. A backend is a plain object:
+ *   kind               'local' | 's3'
+ *   put(key, filePath, { contentType })  moves the local file into storage under `key`
+ *   get(key)           Readable stream of the object, or null if there is none
+ *   stat(key)          { size, modifiedAt } or null
+ *   list(prefix)       every key starting with `prefix`: [{ key, size, modifiedAt }]
+ *   delete(key)        resolves to whether there was an object to delete
+ *   urlFor(key)        where clients download the object: a static path or a presigned URL
+ *   localPathFor(key)  the object's path on this machine, or null when it lives elsewhere
+ *   toLocalFile(key)   a local copy to read from (image variants need one), or null if missing
+ */
+
+export const STORAGE_BACKENDS = ['local', 's3'];
+
+const PRESIGNED_URL_TTL_SECONDS = 3600;
+const REQUEST_TIMEOUT_MS = getConfig().timeouts.storageRequestMs;
+// Files still being written into a local root; never listed
+const IN_PROGRESS_SUFFIXES = ['.part', '.tmp'];
+
+const CONTENT_TYPES = { '.mp4': 'video/mp4', '.jpg': 'image/jpeg', '.png': 'image/png', '.webp': 'image/webp', '.json': 'application/json' };
+const contentTypeFor = (key) => CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream';
+
+// Misconfiguration and failed backend requests
+export class StorageError extends Error {
+    constructor(message, { cause } = {}) {
+        super(message, cause ? { cause } : undefined);
+        this.name = 'StorageError';
+    }
+}
+
+// Keys never climb out of the root
+function checkKey(key) {
+    if (typeof key !== 'string' || key === '' || key.startsWith('/') || key.includes('\\') || key.split('/').some(segment => segment === '..' || segment === '')) {
+        throw new StorageError(`Invalid storage key: ${key}`);
+    }
+    return key;
+}
+
+const encodeKey = (key) => key.split('/').map(encodeURIComponent).join('/');
+
+/**
+ * Files in `rootDir`, served by the app itself under `${publicBaseUrl}/downloads/` (see the
+ * express.static mount in index.js). Putting a file that is already in place is a no-op, so with
+ * the working directory as root nothing moves.
+ */
+export function createLocalStorage({ rootDir, publicBaseUrl = getConfig().server.publicBaseUrl }) {
+    const resolvePath = (key) => path.join(rootDir, checkKey(key));
+
+    async function stat(key) {
+        try {
+            const stats = await fsPromises.stat(resolvePath(key));
+            return stats.isFile() ? { size: stats.size, modifiedAt: stats.mtime.toISOString() } : null;
+        } catch (error) {
+            if (error.code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    async function walk(directory, keyPrefix) {
+        const entries = await fsPromises.readdir(directory, { withFileTypes: true }).catch(error => {
+            if (error.code === 'ENOENT') return [];
+            throw error;
+        });
+        const found = [];
+        for (const entry of entries) {
+            const key = `${keyPrefix}${entry.name}`;
+            if (entry.isDirectory()) {
+                found.push(...await walk(path.join(directory, entry.name), `${key}/`));
+            } else if (entry.isFile() && !IN_PROGRESS_SUFFIXES.some(suffix => entry.name.endsWith(suffix))) {
+                const stats = await fsPromises.stat(path.join(directory, entry.name));
+                found.push({ key, size: stats.size, modifiedAt: stats.mtime.toISOString() });
+            }
+        }
+        return found;
+    }
+
+    return {
+        kind: 'local',
+        rootDir,
+
+        async put(key, filePath) {
+            const target = resolvePath(key);
+            if (path.resolve(filePath) === path.resolve(target)) return;
+            await fsPromises.mkdir(path.dirname(target), { recursive: true });
+            try {
+                await fsPromises.rename(filePath, target);
+            } catch (error) {
+                if (error.code !== 'EXDEV') throw error;
+                // Working directory on another volume: copy, then drop the original
+                await fsPromises.copyFile(filePath, target);
+                await fsPromises.rm(filePath, { force: true });
+            }
+        },
+
+        async get(key) {
+            return (await stat(key)) ? createReadStream(resolvePath(key)) : null;
+        },
+
+        stat,
+
+        async list(prefix = '') {
+            return (await walk(rootDir, '')).filter(object => object.key.startsWith(prefix));
+        },
+
+        async delete(key) {
+            const existed = (await stat(key)) !== null;
+            await fsPromises.rm(resolvePath(key), { force: true });
+            return existed;
+        },
+
+        urlFor(key) {
+            return `${publicBaseUrl}/downloads/${encodeKey(checkKey(key))}`;
+        },
+
+        localPathFor(key) {
+            return resolvePath(key);
+        },
+
+        async toLocalFile(key) {
+            return (await stat(key)) ? resolvePath(key) : null;
+        },
+    };
+}
+
+/**
+ * Objects in an S3-compatible bucket (AWS S3, MinIO, ...), addressed path-style as
+ * `${endpoint}/${bucket}/${prefix}${key}`. Clients get presigned URLs valid for
+ * `urlExpirySeconds`. Objects read for image variants are cached in `cacheDir`.
+ */
+export function createS3Storage({ endpoint, bucket, region = 'us-east-1', accessKeyId, secretAccessKey, prefix = '', urlExpirySeconds = PRESIGNED_URL_TTL_SECONDS, cacheDir }) {
+    if (!endpoint || !bucket || !accessKeyId || !secretAccessKey) {
+        throw new StorageError('S3 storage needs an endpoint, a bucket, an access key id and a secret access key.');
+    }
+    const credentials = { accessKeyId, secretAccessKey };
+    const bucketUrl = `${endpoint.replace(/\/+$/, '')}/${encodeURIComponent(bucket)}`;
+    const objectUrl = (key) => `${bucketUrl}/${encodeKey(`${prefix}${checkKey(key)}`)}`;
+
+    // Signed request; 404 comes back as a response, any other failure as a StorageError
+    async function request(method, url, { headers = {}, data, payloadHash = EMPTY_PAYLOAD_HASH, responseType = 'arraybuffer' } = {}) {
+        try {
+            return await axios({
+                method,
+                url,
+                headers: signRequest({ method, url, headers, payloadHash, credentials, region }),
+                data,
+                responseType,
+                timeout: REQUEST_TIMEOUT_MS,
+                maxBodyLength: Infinity,
+                maxContentLength: Infinity,
+                validateStatus: status => (status >= 200 && status < 300) || status === 404,
+            });
+        } catch (error) {
+            const status = error.response?.status;
+            throw new StorageError(`S3 ${method} ${new URL(url).pathname} failed: ${status ? `HTTP ${status}` : error.message}`, { cause: error });
+        }
+    }
+
+    async function stat(key) {
+        const response = await request('HEAD', objectUrl(key));
+        if (response.status === 404) return null;
+        return {
+            size: Number(response.headers['content-length']),
+            modifiedAt: new Date(response.headers['last-modified'] || Date.now()).toISOString(),
+        };
+    }
+
+    async function get(key) {
+        const response = await request('GET', objectUrl(key), { responseType: 'stream' });
+        if (response.status === 404) {
+            response.data.destroy();
+            return null;
+        }
+        return response.data;
+    }
+
+    return {
+        kind: 's3',
+
+        async put(key, filePath, { contentType = contentTypeFor(key) } = {}) {
+            const { size } = await fsPromises.stat(filePath);
+            await request('PUT', objectUrl(key), {
+                headers: { 'Content-Type': contentType, 'Content-Length': size },
+                data: createReadStream(filePath),
+                payloadHash: await sha256OfFile(filePath),
+            });
+            await fsPromises.rm(filePath, { force: true });
+            logger.info(`Uploaded ${key} (${size} bytes) to bucket ${bucket}`);
+        },
+
+        get,
+        stat,
+
+        // ListObjectsV2, a page (up to 1000 keys) at a time
+        async list(keyPrefix = '') {
+            const found = [];
+            let continuationToken = null;
+            do {
+                const query = [['list-type', '2'], ['prefix', `${prefix}${keyPrefix}`], ...(continuationToken ? [['continuation-token', continuationToken]] : [])]
+                    .map(([name, value]) => `${name}=${encodeURIComponent(value)}`).join('&');
+                const response = await request('GET', `${bucketUrl}?${query}`);
+                if (response.status === 404) {
+                    throw new StorageError(`S3 bucket ${bucket} does not exist.`);
+                }
+                const $ = cheerio.load(Buffer.from(response.data).toString('utf8'), { xml: true });
+                $('Contents').each((_, element) => {
+                    const object = $(element);
+                    found.push({
+                        key: object.children('Key').text().slice(prefix.length),
+                        size: Number(object.children('Size').text()),
+                        modifiedAt: new Date(object.children('LastModified').text()).toISOString(),
+                    });
+                });
+                continuationToken = $('IsTruncated').first().text() === 'true' ? $('NextContinuationToken').first().text() || null : null;
+            } while (continuationToken);
+            return found;
+        },
+
+        // S3 answers a DELETE the same whether or not the object existed, so ask first
+        async delete(key) {
+            const existed = (await stat(key)) !== null;
+            if (existed) {
+                await request('DELETE', objectUrl(key));
+            }
+            if (cacheDir) {
+                await fsPromises.rm(path.join(cacheDir, checkKey(key)), { force: true }); // Any copy from toLocalFile
+            }
+            return existed;
+        },
+
+        urlFor(key) {
+            return presignUrl({ url: objectUrl(key), expiresInSeconds: urlExpirySeconds, credentials, region });
+        },
+
+        localPathFor() {
+            return null;
+        },
+
+        async toLocalFile(key) {
+            const remote = await stat(key);
+            if (!remote) return null;
+            const cachePath = path.join(cacheDir, checkKey(key));
+            const cached = await fsPromises.stat(cachePath).catch(() => null);
+            if (cached && cached.size === remote.size && cached.mtimeMs >= Date.parse(remote.modifiedAt)) {
+                return cachePath;
+            }
+            await fsPromises.mkdir(path.dirname(cachePath), { recursive: true });
+            const stream = await get(key);
+            if (!stream) return null;
+            await pipeline(stream, createWriteStream(`${cachePath}.part`));
+            await fsPromises.rename(`${cachePath}.part`, cachePath);
+            return cachePath;
+        },
+    };
+}
+
+/**
+ * The backend named by `backend` ('local' | 's3'). `local` needs { rootDir, publicBaseUrl };
+ * `s3` needs `s3` ({ endpoint, bucket, region, accessKeyId, secretAccessKey, prefix,
+ * urlExpirySeconds }) and a `cacheDir`.
+ */
+export function createStorage({ backend = 'local', rootDir, publicBaseUrl, s3 = {}, cacheDir }) {
+    if (backend === 'local') {
+        return createLocalStorage({ rootDir, publicBaseUrl });
+    }
+    if (backend === 's3') {
+        logger.info(`Storing downloads in bucket ${s3.bucket} at ${s3.endpoint}`);
+        return createS3Storage({ ...s3, cacheDir });
+    }
+    throw new StorageError(`Unknown storage backend '${backend}'; use one of: ${STORAGE_BACKENDS.join(', ')}.`);
+}
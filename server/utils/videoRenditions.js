@@ -0,0 +1,81 @@
+import { VIDEO_QUALITY_PRESETS } from '../../shared/apiContract.js';
+
+// Picks which rendition of a video to download. Extractors list what a post offers as
+// `renditions` on a video item ([{ url, width?, height?, bitrate?, bytes?, label? }], best first
+// when they can't tell heights apart); the request's quality preference chooses among them.
+
+// Validated request value (VideoQuality: 'best' | 'smallest' | '720') -> 'best' | 'smallest' | 720
+export function parseVideoQuality(value) {
+    if (value === undefined || value === null || VIDEO_QUALITY_PRESETS.includes(value)) return value ?? 'best';
+    const height = Number(String(value).replace(/p$/i, ''));
+    return Number.isInteger(height) && height > 0 ? height : 'best';
+}
+
+const allHave = (renditions, field) => renditions.every(rendition => Number.isFinite(rendition[field]) && rendition[field] > 0);
+
+// Worst first. Heights order renditions when every one has a height, then sizes; otherwise
+// the extractor's order (best first) is all we have.
+function rank(renditions) {
+    if (allHave(renditions, 'height')) {
+        return [...renditions].sort((a, b) => a.height - b.height || (a.bitrate ?? 0) - (b.bitrate ?? 0));
+    }
+    if (allHave(renditions, 'bytes')) {
+        return [...renditions].sort((a, b) => a.bytes - b.bytes);
+    }
+    return [...renditions].reverse();
+}
+
+/**
+ * The rendition to download for `quality` ('best' | 'smallest' | a height in pixels).
+ * A height with no rendition at or below it gets the smallest one; renditions without heights
+ * can't be matched to one, so they get the best.
+ */
+export function selectRendition(renditions, quality = 'best') {
+    if (renditions.length === 0) return null;
+    const ranked = rank(renditions);
+    if (quality === 'smallest') {
+        return allHave(renditions, 'bytes') ? [...renditions].sort((a, b) => a.bytes - b.bytes)[0] : ranked[0];
+    }
+    if (typeof quality === 'number' && allHave(renditions, 'height')) {
+        return ranked.filter(rendition => rendition.height <= quality).at(-1) ?? ranked[0];
+    }
+    return ranked.at(-1);
+}
+
+// Whether a video downloaded before is the one `quality` asks for. `recorded` is what the media
+// index keeps of the renditions it was chosen from (see mediaIndex.js), the downloaded one marked
+// `selected`; picking again among them gives the same answer the download got. Videos that came
+// in one rendition only (or were recorded before renditions were) always are.
+export function isRecordedChoice(recorded, quality = 'best') {
+    if (!Array.isArray(recorded) || recorded.length < 2) return true;
+    return selectRendition(recorded, quality)?.selected === true;
+}
+
+// Approximate size from the bitrate (bits per second) and duration (seconds), if both are known
+export function estimateBytes(rendition, durationSeconds) {
+    if (Number.isFinite(rendition.bytes) && rendition.bytes > 0) return rendition.bytes;
+    if (Number.isFinite(rendition.bitrate) && Number.isFinite(durationSeconds) && durationSeconds > 0) {
+        return Math.round((rendition.bitrate * durationSeconds) / 8);
+    }
+    return null;
+}
+
+// "720p", or the extractor's label ("HD") when the height is unknown
+export function renditionLabel(rendition) {
+    if (rendition.height) return `${rendition.height}p`;
+    return rendition.label || 'Original';
+}
+
+/**
+ * VideoRendition (shared/apiContract.js) options for the download result, best first,
+ * with the downloaded one marked `selected`.
+ */
+export function describeRenditions(renditions, selected) {
+    return rank(renditions).reverse().map(rendition => ({
+        label: renditionLabel(rendition),
+        width: rendition.width ?? null,
+        height: rendition.height ?? null,
+        approxBytes: rendition.bytes ?? null,
+        selected: rendition === selected,
+    }));
+}
@@ -0,0 +1,379 @@
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import axios from 'axios';
+import { JOB_PHASES, WEBHOOK_EVENTS } from '../../shared/apiContract.js';
+import { createJsonFileStore } from './jsonFileStore.js';
+import { createLogger } from './logger.js';
+import { OutboundTargetError, createOutboundGuard } from './outboundTargets.js';
+
+const logger = createLogger('Webhooks');
+
+const STORE_VERSION = 1;
+const SECRET_PREFIX = 'whsec_';
+// Waits before the 2nd, 3rd, ... attempt; a delivery is abandoned once they run out
+const DEFAULT_RETRY_DELAYS_MS = [10 * 1000, 60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000];
+const DEFAULT_TIMEOUT_MS = 10 * 1000;
+const MAX_LOG_ENTRIES = 500;
+
+export class WebhookError extends Error {
+    constructor(message, { cause } = {}) {
+        super(message, { cause });
+        this.name = 'WebhookError';
+    }
+}
+
+/**
+ * Signature header for `body` sent at `timestamp` (Unix seconds): `t=<timestamp>,v1=<hex>`, where
+ * the hex is HMAC-SHA256 over `<timestamp>.<body>` with the receiver's secret. Signing the time
+ * lets receivers refuse replays of old deliveries.
+ */
+export function signPayload(secret, timestamp, body) {
+    const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${digest}`;
+}
+
+/** Receiver side of signPayload: whether `header` signs `body` and is at most `toleranceSeconds` old. */
+export function verifySignature(secret, header, body, { toleranceSeconds = 300, now = Date.now() } = {}) {
+    const parts = Object.fromEntries(String(header || '').split(',').map(part => part.split('=')));
+    const timestamp = Number(parts.t);
+    if (!Number.isFinite(timestamp) || !parts.v1 || Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+        return false;
+    }
+    const expected = Buffer.from(signPayload(secret, timestamp, body));
+    const given = Buffer.from(`t=${parts.t},v1=${parts.v1}`);
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
+
+// A new signing secret, for a registered webhook or one job's callback URL
+export function createSigningSecret() {
+    return `${SECRET_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+// WebhookPayload (shared/apiContract.js) for a finished job snapshot
+export function toWebhookPayload(snapshot, event) {
+    const result = snapshot.result || {};
+    return {
+        id: `evt_${crypto.randomBytes(12).toString('hex')}`,
+        event,
+        createdAt: new Date().toISOString(),
+        job: {
+            id: snapshot.id,
+            url: snapshot.url,
+            platform: snapshot.platform,
+            contentType: snapshot.contentType,
+            createdAt: snapshot.createdAt,
+            finishedAt: snapshot.updatedAt,
+        },
+        files: (result.items || []).map(item => ({
+            filename: item.filename,
+            bytes: item.bytes ?? null,
+            size: item.size,
+            mediaType: item.mediaType,
+            sha256: item.sha256 ?? null,
+            downloadUrl: item.downloadUrl,
+            reused: Boolean(item.reused),
+        })),
+        metadata: result.metadata ?? null,
+        fallback: result.fallback ? result.failure ?? null : null,
+        error: snapshot.error,
+    };
+}
+
+// Network errors, timeouts, 408, 429 and 5xx may pass; other 4xx answers won't change on retry
+const isRetryable = (statusCode) => statusCode === null || statusCode === 408 || statusCode === 429 || statusCode >= 500;
+
+/*
+ * Webhooks for finished download jobs, with a delivery log, stored as one JSON file.
+ * Two kinds of target get a POST of the WebhookPayload when a job completes or fails:
+ *   registered webhooks  { id, url, events, description, secret, createdAt }, for every job; each
+ *                        signs with its own secret, shown once when it is registered
+ *   callback URLs        given with a single download request, for that job only; signed with the
+ *                        job's own secret (createSigningSecret()), which the download response
+ *                        hands to whoever asked for the job, so no one else can sign for them
+ * Every delivery is logged as { id, event, jobId, owner, webhookId, url, status, attempts,
+ * nextAttemptAt, createdAt, deliveredAt, payload, secret }, `secret` being a callback's own
+ * (null for registered webhooks; never listed), status going 'pending' -> 'delivered' or
+ * 'failed'. Failed attempts are retried after each of `retryDelaysMs`; deliveries still pending
+ * at shutdown are resumed by start(). The log keeps the latest MAX_LOG_ENTRIES deliveries; it
+ * records receivers' status codes but not their response bodies, which are none of the log
+ * readers' business.
+ *
+ * Targets must be public addresses (see outboundTargets.js): URLs on the server's own network
+ * are refused when registered or requested, and again when sent to. `allowedHosts` lifts that
+ * for the hosts listed.
+ */
+export function createWebhookDispatcher({ storePath, allowedHosts = [], retryDelaysMs = DEFAULT_RETRY_DELAYS_MS, timeoutMs = DEFAULT_TIMEOUT_MS }) {
+    let webhooks = null; // id -> webhook, loaded on first use
+    let deliveries = null; // Oldest first
+    const timers = new Map(); // delivery id -> retry timer
+    const inFlight = new Set(); // Attempts under way, for flush()
+    const guard = createOutboundGuard({ allowedHosts });
+    const httpAgent = new http.Agent({ lookup: guard.lookup });
+    const httpsAgent = new https.Agent({ lookup: guard.lookup });
+
+    const file = createJsonFileStore({
+        filePath: storePath,
+        description: 'webhook store',
+        logger,
+        mode: 0o600,
+        onLoad: parsed => {
+            webhooks = new Map((parsed.webhooks || []).map(webhook => [webhook.id, webhook]));
+            deliveries = parsed.deliveries || [];
+            if (webhooks.size > 0 || deliveries.length > 0) {
+                logger.info(`Loaded ${webhooks.size} webhook(s) and ${deliveries.length} logged deliveries from ${storePath}`);
+            }
+        },
+    });
+    const { ready } = file;
+
+    // Rejects when the store couldn't be written, so a registration that wasn't saved isn't reported
+    function persist() {
+        // Drop the oldest finished deliveries past the cap; pending ones stay until they settle
+        while (deliveries.length > MAX_LOG_ENTRIES) {
+            const index = deliveries.findIndex(delivery => delivery.status !== 'pending');
+            if (index < 0) break;
+            deliveries.splice(index, 1);
+        }
+        return file.write({ version: STORE_VERSION, webhooks: [...webhooks.values()], deliveries });
+    }
+
+    // For the delivery log, which the next attempt writes again: failures are only logged
+    function persistQuietly() {
+        return persist().catch(() => {});
+    }
+
+    // WebhookInfo (shared/apiContract.js): everything but the secret
+    function toSummary({ id, url, events, description, createdAt }) {
+        return { id, url, events, description, createdAt };
+    }
+
+    // WebhookDelivery: the log entry without its payload
+    function toDeliverySummary({ payload, secret, ...delivery }) {
+        return { ...delivery, attempts: delivery.attempts.map(attempt => ({ ...attempt })), eventId: payload.id };
+    }
+
+    /**
+     * Check that deliveries may go to `url`: resolves, or throws WebhookError when its host is on
+     * a private network (or can't be resolved).
+     */
+    async function checkTarget(url) {
+        try {
+            await guard.checkOutboundUrl(url);
+        } catch (error) {
+            if (error instanceof OutboundTargetError) throw new WebhookError(error.message, { cause: error });
+            throw error;
+        }
+    }
+
+    /**
+     * Register a webhook for every finished job. Resolves to { secret, webhook }: the signing
+     * secret is only returned here. Throws WebhookError for unknown events and private targets, and
+     * the write error when the webhook couldn't be saved (it isn't registered then).
+     */
+    async function register({ url, events = [...WEBHOOK_EVENTS], description = null }) {
+        const unknown = events.filter(event => !WEBHOOK_EVENTS.includes(event));
+        if (events.length === 0 || unknown.length > 0) {
+            throw new WebhookError(`events must be a non-empty list of: ${WEBHOOK_EVENTS.join(', ')}.`);
+        }
+        await checkTarget(url);
+        await ready();
+        const webhook = {
+            id: crypto.randomBytes(6).toString('hex'),
+            url,
+            events: [...new Set(events)],
+            description: description?.trim() || null,
+            secret: createSigningSecret(),
+            createdAt: new Date().toISOString(),
+        };
+        webhooks.set(webhook.id, webhook);
+        try {
+            await persist();
+        } catch (error) {
+            webhooks.delete(webhook.id);
+            throw error;
+        }
+        logger.info(`Registered webhook ${webhook.id} for ${webhook.events.join(', ')}: ${url}`);
+        return { secret: webhook.secret, webhook: toSummary(webhook) };
+    }
+
+    async function list() {
+        await ready();
+        return [...webhooks.values()].map(toSummary);
+    }
+
+    // Resolves to false for an unknown webhook. Its pending deliveries fail at their next attempt.
+    async function remove(id) {
+        await ready();
+        if (!webhooks.delete(id)) return false;
+        await persist();
+        logger.info(`Removed webhook ${id}.`);
+        return true;
+    }
+
+    function signingSecretFor(delivery) {
+        if (!delivery.webhookId) return delivery.secret ?? null;
+        return webhooks.get(delivery.webhookId)?.secret ?? null;
+    }
+
+    function scheduleAttempt(delivery, delayMs) {
+        clearTimeout(timers.get(delivery.id));
+        delivery.nextAttemptAt = new Date(Date.now() + delayMs).toISOString();
+        const timer = setTimeout(() => {
+            timers.delete(delivery.id);
+            attempt(delivery);
+        }, delayMs);
+        timer.unref(); // Don't keep the process alive for a retry; start() resumes it next time
+        timers.set(delivery.id, timer);
+    }
+
+    function attempt(delivery) {
+        const running = sendAttempt(delivery)
+            .catch(error => logger.error(`Delivery ${delivery.id} crashed:`, error.message))
+            .finally(() => inFlight.delete(running));
+        inFlight.add(running);
+        return running;
+    }
+
+    async function sendAttempt(delivery) {
+        const signingSecret = signingSecretFor(delivery);
+        if (!signingSecret) {
+            delivery.status = 'failed';
+            delivery.nextAttemptAt = null;
+            const error = delivery.webhookId ? 'The webhook was removed.' : 'The callback has no signing secret.';
+            delivery.attempts.push({ at: new Date().toISOString(), statusCode: null, error, durationMs: 0 });
+            await persistQuietly();
+            return;
+        }
+
+        const body = JSON.stringify(delivery.payload);
+        const startedAt = Date.now();
+        let statusCode = null;
+        let error = null;
+        let refused = false; // The target is not a public address; retrying won't change that
+        try {
+            await guard.checkOutboundUrl(delivery.url);
+            const response = await axios.post(delivery.url, body, {
+                headers: {
+                    'Content-Type': 'application/json',
+                    'User-Agent': 'social-media-downloader-webhooks/1',
+                    'X-Webhook-Event': delivery.event,
+                    'X-Webhook-Delivery': delivery.id,
+                    'X-Webhook-Signature': signPayload(signingSecret, Math.floor(startedAt / 1000), body),
+                },
+                timeout: timeoutMs,
+                maxRedirects: 0, // A redirect would resend the signed payload somewhere else
+                httpAgent,
+                httpsAgent,
+                validateStatus: () => true,
+                responseType: 'stream', // Not read: the body is dropped
+            });
+            response.data.destroy();
+            statusCode = response.status;
+            if (statusCode < 200 || statusCode >= 300) {
+                error = `HTTP ${statusCode}`;
+            }
+        } catch (requestError) {
+            refused = requestError instanceof OutboundTargetError || requestError.cause instanceof OutboundTargetError;
+            error = requestError.code === 'ECONNABORTED' ? `Timed out after ${timeoutMs}ms` : requestError.message;
+        }
+        delivery.attempts.push({ at: new Date(startedAt).toISOString(), statusCode, error, durationMs: Date.now() - startedAt });
+
+        if (!error) {
+            delivery.status = 'delivered';
+            delivery.deliveredAt = new Date().toISOString();
+            delivery.nextAttemptAt = null;
+            logger.info(`Delivered ${delivery.event} for job ${delivery.jobId} to ${delivery.url} (attempt ${delivery.attempts.length}).`);
+        } else if (!refused && isRetryable(statusCode) && delivery.attempts.length <= retryDelaysMs.length) {
+            const delayMs = retryDelaysMs[delivery.attempts.length - 1];
+            logger.warn(`Delivery ${delivery.id} to ${delivery.url} failed (${error}); retrying in ${Math.round(delayMs / 1000)}s.`);
+            scheduleAttempt(delivery, delayMs);
+        } else {
+            delivery.status = 'failed';
+            delivery.nextAttemptAt = null;
+            logger.error(`Giving up on delivery ${delivery.id} to ${delivery.url} after ${delivery.attempts.length} attempt(s): ${error}`);
+        }
+        await persistQuietly();
+    }
+
+    /**
+     * Notify the webhooks subscribed to a finished job's event, and the job's own `callbackUrl`,
+     * signed with its `callbackSecret`. Resolves once the first attempts have been made; retries
+     * go on in the background.
+     */
+    async function notifyJob(snapshot, { owner = null, callbackUrl = null, callbackSecret = null } = {}) {
+        if (snapshot.phase !== JOB_PHASES.COMPLETED && snapshot.phase !== JOB_PHASES.FAILED) return [];
+        await ready();
+        const event = snapshot.phase === JOB_PHASES.COMPLETED ? 'download.completed' : 'download.failed';
+        const targets = [
+            ...(callbackUrl && callbackSecret ? [{ webhookId: null, url: callbackUrl, secret: callbackSecret }] : []),
+            ...[...webhooks.values()].filter(webhook => webhook.events.includes(event)).map(webhook => ({ webhookId: webhook.id, url: webhook.url, secret: null })),
+        ];
+        if (targets.length === 0) return [];
+
+        const payload = toWebhookPayload(snapshot, event);
+        const created = targets.map(({ webhookId, url, secret }) => ({
+            id: crypto.randomBytes(8).toString('hex'),
+            event,
+            jobId: snapshot.id,
+            owner,
+            webhookId,
+            url,
+            status: 'pending',
+            attempts: [],
+            nextAttemptAt: null,
+            createdAt: new Date().toISOString(),
+            deliveredAt: null,
+            payload,
+            secret,
+        }));
+        deliveries.push(...created);
+        await persistQuietly();
+        await Promise.all(created.map(attempt));
+        return created.map(toDeliverySummary);
+    }
+
+    // The delivery log, newest first; `jobId` and `owner` narrow it down
+    async function listDeliveries({ jobId = null, owner = null, limit = 100 } = {}) {
+        await ready();
+        return deliveries
+            .filter(delivery => (!jobId || delivery.jobId === jobId) && (!owner || delivery.owner === owner))
+            .slice(-limit)
+            .reverse()
+            .map(toDeliverySummary);
+    }
+
+    // One logged delivery with its payload, or null
+    async function getDelivery(id) {
+        await ready();
+        const delivery = deliveries.find(candidate => candidate.id === id);
+        return delivery ? { ...toDeliverySummary(delivery), payload: delivery.payload } : null;
+    }
+
+    // Load the store and pick up deliveries that were still being retried when the server stopped
+    async function start() {
+        await ready();
+        const pending = deliveries.filter(delivery => delivery.status === 'pending' && !timers.has(delivery.id));
+        for (const delivery of pending) {
+            scheduleAttempt(delivery, Math.max(0, Date.parse(delivery.nextAttemptAt || 0) - Date.now()));
+        }
+        if (pending.length > 0) {
+            logger.info(`Resuming ${pending.length} pending webhook deliveries.`);
+        }
+    }
+
+    function stop() {
+        timers.forEach(timer => clearTimeout(timer));
+        timers.clear();
+    }
+
+    // Wait for attempts under way (not for scheduled retries); for tests and shutdown
+    async function flush() {
+        while (inFlight.size > 0) {
+            await Promise.all([...inFlight]);
+        }
+        await file.settled();
+    }
+
+    return { checkTarget, register, list, remove, notifyJob, listDeliveries, getDelivery, start, stop, flush };
+}
@@ -0,0 +1,658 @@
+// Request and response shapes shared by the Express server and the React client.
+// The server validates incoming bodies against the schemas below; the client imports the
+// JSDoc types (tsconfig.app.json has allowJs) so both sides are built from one definition.
+
+/** Kinds of post a user can ask for. */
+export const CONTENT_TYPES = /** @type {const} */ (['post', 'story', 'reel', 'highlight']);
+
+/** Kind of file a download produced. */
+export const MEDIA_TYPES = /** @type {const} */ (['image', 'video']);
+
+/** Output formats of GET /api/downloads/:filename/variant. */
+export const VARIANT_FORMATS = /** @type {const} */ (['webp', 'avif', 'jpeg']);
+
+/** Video quality preferences besides a height in pixels ('720'). See VideoQuality. */
+export const VIDEO_QUALITY_PRESETS = /** @type {const} */ (['best', 'smallest']);
+
+/** What an API key may do: 'user' sees its own downloads, 'admin' every download and the keys. */
+export const API_KEY_ROLES = /** @type {const} */ (['user', 'admin']);
+
+/** Events a webhook can subscribe to; each carries a WebhookPayload. */
+export const WEBHOOK_EVENTS = /** @type {const} */ (['download.completed', 'download.failed']);
+
+/**
+ * Response header carrying the request's correlation id, which every server log line about the
+ * request (and the jobs it started) includes. Quote it in bug reports.
+ */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/** Phases a download job moves through, in order. */
+export const JOB_PHASES = /** @type {const} */ ({
+    QUEUED: 'queued',
+    LAUNCHING_BROWSER: 'launching_browser',
+    EXTRACTING: 'extracting',
+    FETCHING: 'fetching',
+    FINALIZING: 'finalizing',
+    COMPLETED: 'completed',
+    FAILED: 'failed',
+});
+
+/** Machine-readable codes carried by every error response. */
+export const API_ERROR_CODES = /** @type {const} */ ({
+    INVALID_REQUEST: 'INVALID_REQUEST',
+    UNSUPPORTED_PLATFORM: 'UNSUPPORTED_PLATFORM',
+    NOT_FOUND: 'NOT_FOUND',
+    FEATURE_UNAVAILABLE: 'FEATURE_UNAVAILABLE', // An optional server dependency (e.g. sharp) isn't installed
+    RATE_LIMITED: 'RATE_LIMITED', // 429: this client (IP or API key) sent too many requests
+    QUEUE_FULL: 'QUEUE_FULL',     // 429: the server has as many downloads waiting as it will take
+    UNAUTHORIZED: 'UNAUTHORIZED', // 401: no valid API key or session
+    FORBIDDEN: 'FORBIDDEN',       // 403: signed in, but not as an admin
+    INTERNAL_ERROR: 'INTERNAL_ERROR',
+});
+
+/** Why a download job failed. Carried on the job's `error.code`; the client maps each to a retry hint. */
+export const FAILURE_CODES = /** @type {const} */ ({
+    LOGIN_REQUIRED: 'LOGIN_REQUIRED',           // The platform showed a login wall instead of the post
+    SESSION_EXPIRED: 'SESSION_EXPIRED',         // A login wall despite an imported session, or its cookies ran out
+    NO_MEDIA_FOUND: 'NO_MEDIA_FOUND',           // The page loaded but had no downloadable media
+    CONTENT_UNAVAILABLE: 'CONTENT_UNAVAILABLE', // Private, removed or otherwise not viewable
+    NAVIGATION_TIMEOUT: 'NAVIGATION_TIMEOUT',   // The page did not load in time
+    CDN_FETCH_REFUSED: 'CDN_FETCH_REFUSED',     // Media URLs were found but the CDN refused to serve them
+    EXTRACTION_FAILED: 'EXTRACTION_FAILED',     // Anything unclassified
+});
+
+/**
+ * @typedef {typeof CONTENT_TYPES[number]} ContentType
+ * @typedef {typeof MEDIA_TYPES[number]} MediaType
+ * @typedef {typeof VARIANT_FORMATS[number]} VariantFormat
+ * @typedef {typeof API_KEY_ROLES[number]} ApiKeyRole
+ * @typedef {typeof WEBHOOK_EVENTS[number]} WebhookEvent
+ * @typedef {typeof JOB_PHASES[keyof typeof JOB_PHASES]} DownloadPhase
+ * @typedef {typeof API_ERROR_CODES[keyof typeof API_ERROR_CODES]} ApiErrorCode
+ * @typedef {typeof FAILURE_CODES[keyof typeof FAILURE_CODES]} FailureCode
+ */
+
+/**
+ * Which rendition of a video to download: 'best' (default), 'smallest' file, or a height such
+ * as '720' for the tallest rendition not above it (the smallest if none is). Renditions without
+ * known heights get 'best' for a height.
+ * @typedef {string} VideoQuality
+ */
+
+/**
+ * Body of POST /api/download.
+ * @typedef {Object} DownloadRequest
+ * @property {string} url
+ * @property {string} [platform] Optional hint; the server detects the platform from the URL
+ * @property {ContentType} contentType
+ * @property {boolean} [allowFallback] Serve sample media instead of failing when extraction fails. Off by default.
+ * @property {VideoQuality} [quality]
+ * @property {string} [callbackUrl] Receives a signed WebhookPayload when the job completes or fails. Must be
+ *   on a public address; the server's own network (loopback, private, link-local) is refused.
+ */
+
+/**
+ * Response of POST /api/download: the job is queued, not finished.
+ * @typedef {Object} DownloadJob
+ * @property {string} jobId
+ * @property {DownloadPhase} phase
+ * @property {string} progressUrl
+ * @property {string} [callbackSecret] With a callbackUrl: verifies the callback's signature. Only
+ *   returned here; store it with the job.
+ */
+
+/**
+ * One media file of a download. Carousel posts and photo albums produce several.
+ * @typedef {Object} DownloadItem
+ * @property {string} downloadUrl Static path on the backend, or a presigned object-storage URL
+ * @property {string} filename
+ * @property {MediaType} mediaType
+ * @property {string} size Human-readable size, e.g. "1.2 MB"
+ * @property {number} bytes
+ * @property {string} [sha256] Hex digest of the file as written
+ * @property {string | null} [thumbnail] Image thumbnail; for videos, derived from the page's poster frame
+ * @property {string} [localPath] Backend-internal path; absent when files are kept in object storage
+ * @property {string} [sourceUrl] Media URL the file was fetched from
+ * @property {boolean} [reused] true when an earlier download of the same media was returned instead of fetching it again
+ * @property {VideoRendition[]} [renditions] For videos offered in several qualities: the options, best first
+ */
+
+/**
+ * One quality a video was offered in.
+ * @typedef {Object} VideoRendition
+ * @property {string} label e.g. "720p", or "HD"/"SD" when the platform doesn't give heights
+ * @property {number | null} width
+ * @property {number | null} height
+ * @property {number | null} approxBytes Estimated from bitrate and duration, or as reported by the CDN
+ * @property {boolean} selected The one that was downloaded
+ */
+
+/**
+ * Attribution scraped from the post page. Any field the page didn't show is null (or empty).
+ * @typedef {Object} PostMetadata
+ * @property {{ handle: string | null, displayName: string | null } | null} author
+ * @property {string | null} caption
+ * @property {string[]} hashtags Without the leading '#'
+ * @property {string[]} mentions Handles without the leading '@'
+ * @property {string | null} postedAt ISO timestamp
+ * @property {number | null} likeCount Likes or reactions
+ * @property {number | null} viewCount Views or plays
+ */
+
+/**
+ * Why a job failed, or why a fallback result was served instead of the real post.
+ * @typedef {Object} DownloadFailure
+ * @property {FailureCode | string} code
+ * @property {string} message
+ */
+
+/**
+ * Result of a finished download job.
+ * @typedef {Object} DownloadResult
+ * @property {boolean} success
+ * @property {DownloadItem[]} items
+ * @property {string} [note]
+ * @property {boolean} [fallback] true when the items are sample media, not the requested post
+ * @property {DownloadFailure} [failure] Set together with `fallback`
+ * @property {boolean} [reused] true when the whole post had been downloaded before
+ * @property {PostMetadata | null} [metadata] Attribution for the post; also saved next to each file as `<filename>.json`
+ * @property {'static' | 'browser'} [strategy] How the media was found: from the page's HTML over plain
+ *   HTTP, or in a browser. Absent for reused downloads and platforms that don't load pages.
+ */
+
+/**
+ * Job snapshot, returned by GET /api/download/:id and pushed over its progress stream.
+ * @typedef {Object} DownloadProgressEvent
+ * @property {string} id
+ * @property {string} url
+ * @property {string} platform
+ * @property {ContentType} contentType
+ * @property {DownloadPhase} phase
+ * @property {number} progress 0-100
+ * @property {number} bytesReceived
+ * @property {number | null} bytesTotal
+ * @property {number} itemIndex Item currently being fetched (0-based)
+ * @property {number} itemCount
+ * @property {DownloadResult | null} result
+ * @property {DownloadFailure | null} error
+ * @property {string} createdAt
+ * @property {string} updatedAt
+ */
+
+/**
+ * Body of POST /api/batch (JSON, or multipart/form-data with the list uploaded as `file`).
+ * @typedef {Object} BatchRequest
+ * @property {string[] | string} [urls] URLs, or pasted text with one per line (see parseUrlList)
+ * @property {string} [platform] Optional hint, applied to every URL
+ * @property {ContentType} contentType Applied to every URL
+ * @property {boolean} [allowFallback]
+ * @property {VideoQuality} [quality] Applied to every URL
+ */
+
+/**
+ * Body of POST /api/enumerate: list the posts of a profile, page or highlight and download each.
+ * @typedef {Object} EnumerateRequest
+ * @property {string} url Instagram profile or highlight URL, or Facebook page / videos tab URL
+ * @property {string} [platform] Optional hint; the server detects the platform from the URL
+ * @property {number} [limit] Most items to queue (default 24, at most BATCH_MAX_URLS)
+ * @property {string} [since] ISO date; items the listing dates earlier are skipped. Listings
+ *   that show no dates (Instagram grids) are bounded by `limit` only.
+ * @property {boolean} [allowFallback]
+ * @property {VideoQuality} [quality] Applied to every item
+ */
+
+/**
+ * Where an enumerated batch came from, and how discovery went.
+ * @typedef {Object} BatchSourceInfo
+ * @property {string} url The profile, page or highlight URL
+ * @property {'profile' | 'highlight' | 'page' | 'videos'} kind
+ * @property {'discovering' | 'done' | 'failed'} status
+ * @property {number} found Items discovered (after the limit and date cutoff)
+ * @property {DownloadFailure | null} error Why discovery failed
+ */
+
+/**
+ * One URL of a batch. Rejected URLs never get a job; the others carry their job's latest snapshot.
+ * @typedef {Object} BatchEntry
+ * @property {number} index Position in the submitted list
+ * @property {string} url
+ * @property {string | null} jobId
+ * @property {ErrorEnvelope | null} rejected Why the URL was not queued (invalid, unsupported, duplicate)
+ * @property {DownloadProgressEvent | null} job
+ * @property {number} attempts How many jobs this URL has had (retries start new ones)
+ */
+
+/**
+ * Batch snapshot, returned by POST /api/batch and GET /api/batch/:id and pushed over its progress stream.
+ * @typedef {Object} BatchProgressEvent
+ * @property {string} id
+ * @property {ContentType} contentType
+ * @property {boolean} allowFallback
+ * @property {VideoQuality} quality The preference every entry is downloaded in ('best' unless the request gave one)
+ * @property {'running' | 'completed'} phase completed once discovery (if any) is over and every queued URL has finished or failed
+ * @property {number} progress 0-100, averaged over queued URLs (failed ones count as done)
+ * @property {{ total: number, rejected: number, queued: number, running: number, completed: number, failed: number }} counts
+ * @property {BatchEntry[]} entries
+ * @property {BatchSourceInfo | null} source Set for batches created by POST /api/enumerate
+ * @property {string} createdAt
+ * @property {string} updatedAt
+ */
+
+/**
+ * Response of POST /api/batch and POST /api/enumerate.
+ * @typedef {Object} BatchJob
+ * @property {string} batchId
+ * @property {string} progressUrl
+ * @property {BatchProgressEvent} batch
+ */
+
+/**
+ * Entry of GET /api/downloads, read from the server's media index.
+ * @typedef {Object} DownloadedFile
+ * @property {string} filename
+ * @property {number} size Bytes
+ * @property {string} created ISO timestamp
+ * @property {string} downloadUrl Static path on the backend, or a presigned object-storage URL
+ * @property {string | null} platform
+ * @property {string | null} contentType
+ * @property {MediaType} mediaType
+ * @property {string | null} pageUrl Post the file came from; null for fallback media and files that predate the index
+ * @property {string | null} sourceUrl Media URL it was fetched from
+ * @property {string} sha256
+ * @property {PostMetadata | null} metadata
+ * @property {boolean} pinned Exempt from retention (PUT /api/downloads/:filename/pin)
+ * @property {string} accessedAt ISO timestamp of the last download, reuse or preview the server saw
+ * @property {string | null} thumbnailUrl null for videos whose page had no poster frame
+ */
+
+/**
+ * Body of PUT /api/downloads/:filename/pin.
+ * @typedef {Object} PinRequest
+ * @property {boolean} pinned
+ */
+
+/**
+ * Entry of StorageReport.scheduled: a file the next retention sweep will remove.
+ * @typedef {Object} ScheduledEviction
+ * @property {string} filename
+ * @property {number} bytes
+ * @property {string} accessedAt
+ * @property {'expired' | 'quota'} reason expired: unused for longer than the TTL; quota: least recently used while over the quota
+ */
+
+/**
+ * Response of GET /api/storage: usage against the retention rules.
+ * @typedef {Object} StorageReport
+ * @property {'local' | 's3'} backend
+ * @property {number} fileCount
+ * @property {number} usedBytes Media files only; sidecars, posters and cached variants aren't counted
+ * @property {number} pinnedCount
+ * @property {number} pinnedBytes
+ * @property {{ ttlSeconds: number | null, maxBytes: number | null, sweepIntervalSeconds: number | null }} policy null where a rule is off
+ * @property {ScheduledEviction[]} scheduled Least recently accessed first
+ * @property {number} bytesAfterSweep
+ * @property {{ startedAt: string, removed: string[], freedBytes: number } | null} lastSweep
+ * @property {string | null} nextSweepAt
+ */
+
+/**
+ * Entry of GET /api/platforms.
+ * @typedef {Object} PlatformInfo
+ * @property {string} id
+ * @property {string} name
+ * @property {string[]} hostnames
+ * @property {string[]} contentTypes
+ * @property {boolean} selectable false for internal platforms such as 'test'
+ * @property {boolean} supportsSessions whether cookies can be imported for it (POST /api/sessions/:platform)
+ */
+
+/**
+ * Entry of GET /api/sessions: an imported login session, without its cookies.
+ * @typedef {Object} SessionInfo
+ * @property {string} platform
+ * @property {'active' | 'expired'} status expired once its login cookies run out or the platform rejects them
+ * @property {string | null} statusReason Why the session stopped working
+ * @property {number} cookieCount
+ * @property {string[]} domains Cookie domains, e.g. ['instagram.com']
+ * @property {string} importedAt
+ * @property {string | null} lastUsedAt
+ * @property {string | null} expiresAt When the login cookies expire; null if they last the browser session
+ */
+
+/**
+ * Who a request is made as: the API key's id, label and role.
+ * @typedef {Object} Principal
+ * @property {string} id Owns the files and jobs created with the key
+ * @property {string} name
+ * @property {ApiKeyRole} role
+ */
+
+/**
+ * Response of GET and POST /api/auth/session.
+ * @typedef {Object} AuthSession
+ * @property {boolean} authRequired false when the server runs without keys; everyone is then an admin
+ * @property {Principal | null} user null when not signed in
+ * @property {string | null} expiresAt When the browser session ends; null for API keys and open servers
+ */
+
+/**
+ * Body of POST /api/auth/session: trade an API key for a session cookie.
+ * @typedef {Object} LoginRequest
+ * @property {string} apiKey
+ */
+
+/**
+ * Entry of GET /api/keys (admins only). The key itself is only shown once, by POST /api/keys.
+ * @typedef {Object} ApiKeyInfo
+ * @property {string} id
+ * @property {string} name
+ * @property {ApiKeyRole} role
+ * @property {string} prefix First characters of the key, to tell keys apart
+ * @property {string} createdAt
+ * @property {string | null} lastUsedAt
+ * @property {string | null} revokedAt
+ */
+
+/**
+ * Body of POST /api/keys.
+ * @typedef {Object} CreateApiKeyRequest
+ * @property {string} name
+ * @property {ApiKeyRole} [role] 'user' by default
+ */
+
+/**
+ * Response of POST /api/keys.
+ * @typedef {Object} CreatedApiKey
+ * @property {string} key The secret; store it now, it can't be read back
+ * @property {ApiKeyInfo} info
+ */
+
+/**
+ * Body POSTed to webhooks and callback URLs when a job finishes. Deliveries carry the headers
+ * X-Webhook-Event, X-Webhook-Delivery and X-Webhook-Signature: `t=<unix seconds>,v1=<hex>`,
+ * the hex being HMAC-SHA256 of `<t>.<raw body>` keyed with the webhook's secret (for callback
+ * URLs, the job's callbackSecret). Retries resend the same payload, so `id` identifies it.
+ * @typedef {Object} WebhookPayload
+ * @property {string} id
+ * @property {WebhookEvent} event
+ * @property {string} createdAt
+ * @property {{ id: string, url: string, platform: string, contentType: ContentType, createdAt: string, finishedAt: string }} job
+ * @property {Array<{ filename: string, bytes: number | null, size: string, mediaType: MediaType, sha256: string | null, downloadUrl: string, reused: boolean }>} files Empty for failed jobs
+ * @property {PostMetadata | null} metadata
+ * @property {DownloadFailure | null} fallback Why the real post failed, when the files are sample media
+ * @property {DownloadFailure | null} error Set for download.failed
+ */
+
+/**
+ * Entry of GET /api/webhooks (admins only).
+ * @typedef {Object} WebhookInfo
+ * @property {string} id
+ * @property {string} url
+ * @property {WebhookEvent[]} events
+ * @property {string | null} description
+ * @property {string} createdAt
+ */
+
+/**
+ * Body of POST /api/webhooks.
+ * @typedef {Object} RegisterWebhookRequest
+ * @property {string} url
+ * @property {WebhookEvent[]} [events] Both by default
+ * @property {string} [description]
+ */
+
+/**
+ * Response of POST /api/webhooks.
+ * @typedef {Object} CreatedWebhook
+ * @property {string} secret Verifies the signatures; store it now, it can't be read back
+ * @property {WebhookInfo} webhook
+ */
+
+/**
+ * Entry of GET /api/webhooks/deliveries: one payload sent to one receiver.
+ * @typedef {Object} WebhookDelivery
+ * @property {string} id
+ * @property {WebhookEvent} event
+ * @property {string} eventId The payload's id
+ * @property {string} jobId
+ * @property {string | null} owner API key id of the job
+ * @property {string | null} webhookId null for a job's own callback URL
+ * @property {string} url
+ * @property {'pending' | 'delivered' | 'failed'} status pending while attempts remain
+ * @property {Array<{ at: string, statusCode: number | null, error: string | null, durationMs: number }>} attempts
+ * @property {string | null} nextAttemptAt
+ * @property {string} createdAt
+ * @property {string | null} deliveredAt
+ */
+
+/**
+ * Entry of GET /api/diagnostics/extraction-strategies: attempts and media-finding hits per strategy.
+ * @typedef {Object} ExtractionStrategyStats
+ * @property {string} platform
+ * @property {{ attempts: number, hits: number, hitRate: number | null }} static Plain HTTP + embedded data
+ * @property {{ attempts: number, hits: number, hitRate: number | null }} browser Puppeteer page
+ */
+
+/**
+ * Response of GET /api/diagnostics/config: the server's effective settings (server/utils/config.js).
+ * @typedef {Object} ConfigDescription
+ * @property {string | null} configFile The CONFIG_FILE that was read, if any
+ * @property {Record<string, unknown>} values Nested like the config; secrets read '********' when set, null when not
+ * @property {Record<string, string>} sources Per dotted setting name: 'env:NAME', 'file' or 'default'
+ */
+
+/**
+ * Body of every non-2xx response.
+ * @typedef {Object} ErrorEnvelope
+ * @property {true} error
+ * @property {ApiErrorCode | string} code
+ * @property {string} message
+ * @property {unknown} [details] Per-field messages for INVALID_REQUEST; RateLimitDetails for 429s
+ */
+
+/**
+ * `details` of a 429 (RATE_LIMITED or QUEUE_FULL). The Retry-After header carries the same delay.
+ * @typedef {Object} RateLimitDetails
+ * @property {number} retryAfterSeconds
+ * @property {'ip' | 'apiKey' | 'server'} scope Which limit was hit: the client's IP or API key bucket, or the server's job queue
+ */
+
+/**
+ * @param {ApiErrorCode | string} code
+ * @param {string} message
+ * @param {unknown} [details]
+ * @returns {ErrorEnvelope}
+ */
+export function createErrorEnvelope(code, message, details) {
+    return details === undefined ? { error: true, code, message } : { error: true, code, message, details };
+}
+
+// --- Runtime validation ---
+// Field rules: type ('string' | 'boolean' | 'number' | 'array'), required, enum (case-insensitive,
+// value is lowercased), format ('http-url' or 'date'), min/max and integer for numbers. Arrays are
+// lists of strings: enum applies to each item and min is the fewest items. Numeric strings and
+// 'true'/'false' are accepted for numbers and booleans, so query parameters and form fields
+// validate too. Unknown fields are dropped.
+
+/** Most URLs one batch may contain. */
+export const BATCH_MAX_URLS = 200;
+
+/**
+ * Split a pasted list or an uploaded .txt/.csv file into URLs, in order.
+ * Blank lines and '#' comments are skipped. Rows with several cells (CSV) contribute the cells
+ * that look like links, so header rows and note columns drop out; single-cell rows are kept
+ * as-is so a mistyped link is reported rather than silently ignored.
+ * @param {string} text
+ * @returns {string[]}
+ */
+export function parseUrlList(text) {
+    const urls = [];
+    for (const line of String(text ?? '').split(/\r?\n/)) {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('#')) continue;
+        const cells = trimmed.split(/[,;\t]/).map(cell => cell.trim().replace(/^["']|["']$/g, '').trim()).filter(Boolean);
+        if (cells.length === 1) {
+            urls.push(cells[0]);
+        } else {
+            urls.push(...cells.filter(cell => /^(https?:\/\/|www\.)/i.test(cell)));
+        }
+    }
+    return urls;
+}
+
+/** Schema for DownloadRequest. */
+export const downloadRequestSchema = {
+    url: { type: 'string', required: true, format: 'http-url' },
+    platform: { type: 'string', required: false },
+    contentType: { type: 'string', required: true, enum: CONTENT_TYPES },
+    allowFallback: { type: 'boolean', required: false },
+    quality: { type: 'string', required: false, format: 'video-quality' },
+    callbackUrl: { type: 'string', required: false, format: 'http-url' },
+};
+
+/** Schema for the shared fields of BatchRequest; `urls` is parsed separately. */
+export const batchRequestSchema = {
+    platform: { type: 'string', required: false },
+    contentType: { type: 'string', required: true, enum: CONTENT_TYPES },
+    allowFallback: { type: 'boolean', required: false },
+    quality: { type: 'string', required: false, format: 'video-quality' },
+};
+
+/** Schema for EnumerateRequest. */
+export const enumerateRequestSchema = {
+    url: { type: 'string', required: true, format: 'http-url' },
+    platform: { type: 'string', required: false },
+    limit: { type: 'number', required: false, integer: true, min: 1, max: BATCH_MAX_URLS },
+    since: { type: 'string', required: false, format: 'date' },
+    allowFallback: { type: 'boolean', required: false },
+    quality: { type: 'string', required: false, format: 'video-quality' },
+};
+
+/** Schema for PinRequest. */
+export const pinRequestSchema = {
+    pinned: { type: 'boolean', required: true },
+};
+
+/** Schema for LoginRequest. */
+export const loginRequestSchema = {
+    apiKey: { type: 'string', required: true },
+};
+
+/** Schema for CreateApiKeyRequest. */
+export const createApiKeyRequestSchema = {
+    name: { type: 'string', required: true },
+    role: { type: 'string', required: false, enum: API_KEY_ROLES },
+};
+
+/** Schema for RegisterWebhookRequest. */
+export const registerWebhookRequestSchema = {
+    url: { type: 'string', required: true, format: 'http-url' },
+    events: { type: 'array', required: false, enum: WEBHOOK_EVENTS, min: 1 },
+    description: { type: 'string', required: false },
+};
+
+/** Query of GET /api/downloads/:filename/variant. Without width the image keeps its size. */
+export const variantQuerySchema = {
+    width: { type: 'number', required: false, integer: true, min: 16, max: 4096 },
+    format: { type: 'string', required: false, enum: VARIANT_FORMATS },
+};
+
+// Duplicate items are dropped
+function checkList(name, rule, raw) {
+    if (!Array.isArray(raw) || !raw.every(item => typeof item === 'string')) {
+        return { message: `${name} must be a list of strings.` };
+    }
+    const value = [...new Set(raw.map(item => (rule.enum ? item.trim().toLowerCase() : item.trim())))];
+    if (rule.enum && value.some(item => !rule.enum.includes(item))) {
+        return { message: `${name} may only contain: ${rule.enum.join(', ')}.` };
+    }
+    if (rule.min !== undefined && value.length < rule.min) {
+        return { message: `${name} must list at least ${rule.min}.` };
+    }
+    return { value };
+}
+
+function checkField(name, rule, raw) {
+    if (raw === undefined || raw === null || (typeof raw === 'string' && raw.trim() === '')) {
+        return rule.required ? { message: `${name} is required.` } : { value: undefined };
+    }
+    if (rule.type === 'array') {
+        return checkList(name, rule, raw);
+    }
+    if (rule.type === 'number' && typeof raw === 'string' && raw.trim() !== '' && !Number.isNaN(Number(raw))) {
+        raw = Number(raw);
+    }
+    if (rule.format === 'video-quality' && typeof raw === 'number') {
+        raw = String(raw); // A bare height
+    }
+    if (rule.type === 'boolean' && (raw === 'true' || raw === 'false')) {
+        raw = raw === 'true';
+    }
+    if (typeof raw !== rule.type) {
+        return { message: `${name} must be a ${rule.type}.` };
+    }
+
+    let value = typeof raw === 'string' ? raw.trim() : raw;
+    if (rule.type === 'number') {
+        if (!Number.isFinite(value) || (rule.integer && !Number.isInteger(value))) {
+            return { message: `${name} must be ${rule.integer ? 'a whole number' : 'a finite number'}.` };
+        }
+        if ((rule.min !== undefined && value < rule.min) || (rule.max !== undefined && value > rule.max)) {
+            return { message: `${name} must be between ${rule.min ?? '-∞'} and ${rule.max ?? '∞'}.` };
+        }
+    }
+    if (rule.enum) {
+        value = value.toLowerCase();
+        if (!rule.enum.includes(value)) {
+            return { message: `${name} must be one of: ${rule.enum.join(', ')}.` };
+        }
+    }
+    if (rule.format === 'http-url') {
+        let parsed;
+        try {
+            parsed = new URL(value);
+        } catch {
+            return { message: `${name} must be a valid URL.` };
+        }
+        if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+            return { message: `${name} must start with http:// or https://.` };
+        }
+    }
+    if (rule.format === 'video-quality') {
+        value = value.toLowerCase().replace(/^(\d+)p$/, '$1');
+        if (!VIDEO_QUALITY_PRESETS.includes(value) && !/^[1-9]\d{1,3}$/.test(value)) {
+            return { message: `${name} must be ${VIDEO_QUALITY_PRESETS.join(', ')} or a height such as 720.` };
+        }
+    }
+    if (rule.format === 'date' && Number.isNaN(Date.parse(value))) {
+        return { message: `${name} must be a date, e.g. 2024-01-31.` };
+    }
+    return { value };
+}
+
+/**
+ * Validate `body` against a schema.
+ * @param {Record<string, { type: string, required?: boolean, enum?: readonly string[], format?: string, min?: number, max?: number, integer?: boolean }>} schema
+ * @param {unknown} body
+ * @returns {{ ok: true, value: Record<string, unknown> } | { ok: false, error: ErrorEnvelope }}
+ */
+export function validate(schema, body) {
+    const input = body && typeof body === 'object' ? body : {};
+    const value = {};
+    const fieldErrors = {};
+
+    for (const [name, rule] of Object.entries(schema)) {
+        const checked = checkField(name, rule, input[name]);
+        if (checked.message) {
+            fieldErrors[name] = checked.message;
+        } else if (checked.value !== undefined) {
+            value[name] = checked.value;
+        }
+    }
+
+    const messages = Object.values(fieldErrors);
+    if (messages.length > 0) {
+        return { ok: false, error: createErrorEnvelope(API_ERROR_CODES.INVALID_REQUEST, messages.join(' '), fieldErrors) };
+    }
+    return { ok: true, value };
+}
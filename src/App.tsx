@@ -1,32 +1,132 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Header } from './components/Header';
 import { DownloadForm } from './components/DownloadForm';
 import { DownloadManager } from './components/DownloadManager';
 import { DownloadedFiles } from './components/DownloadedFiles';
+import { SessionManager } from './components/SessionManager';
+import { SignIn } from './components/SignIn';
+import { ApiKeyManager } from './components/ApiKeyManager';
 import { Features } from './components/Features';
 import { Footer } from './components/Footer';
 import { ServerStatus } from './components/ServerStatus';
-import { requestDownload, downloadFile, checkServerHealth } from './services/api';
+import {
+  ApiError,
+  requestDownload,
+  requestBatchDownload,
+  requestEnumeration,
+  retryFailedBatchEntries,
+  downloadFile,
+  checkServerHealth,
+  getAuthSession,
+  onUnauthorized,
+  signOut,
+  AuthSession,
+  subscribeToDownloadProgress,
+  subscribeToBatchProgress,
+  BatchProgressEvent,
+  BatchSource,
+  BatchSourceInfo,
+  ContentType,
+  EnumerateRequest,
+  DownloadFailure,
+  DownloadItem,
+  DownloadPhase,
+  DownloadProgressEvent,
+  FailureCode,
+  PostMetadata,
+  VideoQuality,
+} from './services/api';
 
 export interface Download {
   id: string;
   url: string;
-  platform: 'instagram' | 'facebook';
-  contentType: 'post' | 'story' | 'reel' | 'highlight';
+  platform: string;
+  contentType: ContentType;
   status: 'pending' | 'processing' | 'ready' | 'downloading' | 'completed' | 'error';
   progress: number;
-  filename?: string;
-  downloadUrl?: string;
-  size?: string;
-  thumbnail?: string;
+  batchId?: string; // Set for downloads that belong to a batch
+  jobId?: string;
+  phase?: DownloadPhase;
+  bytesReceived?: number;
+  bytesTotal?: number | null;
+  itemIndex?: number;
+  itemCount?: number;
+  items?: DownloadItem[];
+  savedFilenames?: string[]; // Items already saved to the user's device
+  allowFallback?: boolean; // Whether the request opted in to sample media on failure
+  quality?: VideoQuality; // Preferred video rendition, kept for retries
   error?: string;
+  errorCode?: FailureCode | string; // FAILURE_CODES value for failed jobs, drives the retry hint
+  retryAt?: number; // Epoch ms; set when the server answered 429, retrying before then is pointless
+  fallback?: DownloadFailure; // Set when the items are sample media; why the real post failed
+  metadata?: PostMetadata | null; // Author, caption etc. of the post
   note?: string;
 }
 
+// Summary of a batch submitted from the form; its downloads carry its id
+export interface Batch {
+  id: string;
+  contentType: ContentType;
+  allowFallback: boolean;
+  phase: BatchProgressEvent['phase'];
+  progress: number;
+  counts: BatchProgressEvent['counts'];
+  rejected: { url: string; message: string }[]; // URLs the server refused to queue
+  source: BatchSourceInfo | null; // Set for batches listed from a profile, page or highlight
+  error?: string; // Lost stream or failed retry
+}
+
+// Map server job phases onto the download card statuses
+const statusForPhase = (phase: DownloadPhase): Download['status'] => {
+  switch (phase) {
+    case 'queued':
+      return 'pending';
+    case 'completed':
+      return 'ready';
+    case 'failed':
+      return 'error';
+    default:
+      return 'processing';
+  }
+};
+
+// A download card updated with the latest snapshot of its server job
+const withJobSnapshot = (d: Download, event: DownloadProgressEvent): Download => {
+  const updated: Download = {
+    ...d,
+    jobId: event.id,
+    status: statusForPhase(event.phase),
+    phase: event.phase,
+    progress: event.progress,
+    bytesReceived: event.bytesReceived,
+    bytesTotal: event.bytesTotal,
+    itemIndex: event.itemIndex,
+    itemCount: event.itemCount,
+  };
+  if (event.result) {
+    updated.items = event.result.items;
+    updated.note = event.result.note;
+    updated.fallback = event.result.fallback ? event.result.failure : undefined;
+    updated.metadata = event.result.metadata;
+  }
+  if (event.error) {
+    updated.error = event.error.message;
+    updated.errorCode = event.error.code;
+  }
+  return updated;
+};
+
 function App() {
   const [downloads, setDownloads] = useState<Download[]>([]);
+  const [batches, setBatches] = useState<Batch[]>([]);
   const [serverOnline, setServerOnline] = useState<boolean>(false);
-  const [activeTab, setActiveTab] = useState<'downloader' | 'files'>('downloader');
+  const [activeTab, setActiveTab] = useState<'downloader' | 'files' | 'sessions' | 'keys'>('downloader');
+  // Whether the server wants an API key and who we're signed in as; null until the server answers
+  const [auth, setAuth] = useState<AuthSession | null>(null);
+  // Open progress streams, keyed by download id, so they can be closed on remove/unmount
+  const progressStreams = useRef(new Map<string, () => void>());
+  // Batch downloads the user removed, so later batch snapshots don't bring them back
+  const dismissedDownloads = useRef(new Set<string>());
 
   useEffect(() => {
     checkServerStatus();
@@ -34,17 +134,53 @@ function App() {
     return () => clearInterval(interval);
   }, []);
 
+  useEffect(() => {
+    if (!serverOnline) return;
+    getAuthSession()
+      .then(setAuth)
+      .catch(error => console.error('Failed to check sign-in:', error));
+  }, [serverOnline]);
+
+  // The session expired or its key was revoked: back to the sign-in form
+  useEffect(() => onUnauthorized(() => {
+    setAuth(prev => prev && { ...prev, user: null, expiresAt: null });
+    setActiveTab('downloader');
+  }), []);
+
+  useEffect(() => {
+    const streams = progressStreams.current;
+    return () => {
+      streams.forEach(close => close());
+      streams.clear();
+    };
+  }, []);
+
   const checkServerStatus = async () => {
     const isOnline = await checkServerHealth();
     setServerOnline(isOnline);
   };
 
-  const addDownload = async (url: string, platform: 'instagram' | 'facebook', contentType: 'post' | 'story' | 'reel' | 'highlight') => {
+  const closeProgressStream = (id: string) => {
+    progressStreams.current.get(id)?.();
+    progressStreams.current.delete(id);
+  };
+
+  const applyProgressEvent = (id: string, event: DownloadProgressEvent) => {
+    setDownloads(prev => prev.map(d => d.id === id ? withJobSnapshot(d, event) : d));
+
+    if (event.phase === 'completed' || event.phase === 'failed') {
+      closeProgressStream(id);
+    }
+  };
+
+  const addDownload = async (url: string, platform: string, contentType: ContentType, allowFallback = false, quality: VideoQuality = 'best') => {
     const newDownload: Download = {
       id: Date.now().toString(),
       url,
       platform,
       contentType,
+      allowFallback,
+      quality,
       status: 'pending',
       progress: 0,
     };
@@ -52,62 +188,178 @@ function App() {
     setDownloads(prev => [newDownload, ...prev]);
 
     try {
-      // Update status to processing
-      setDownloads(prev => prev.map(d => 
-        d.id === newDownload.id ? { ...d, status: 'processing' } : d
-      ));
-
-      // Request download from backend
-      const result = await requestDownload({ url, platform, contentType });
+      // Queue the download on the backend; progress arrives over the event stream
+      const job = await requestDownload({ url, platform, contentType, allowFallback, quality });
 
-      // Update with download information
-      setDownloads(prev => prev.map(d => 
-        d.id === newDownload.id 
-          ? { 
-              ...d, 
-              status: 'ready',
-              downloadUrl: result.downloadUrl,
-              filename: result.filename,
-              size: result.size,
-              thumbnail: result.thumbnail,
-              progress: 100,
-              note: result.note
-            }
-          : d
+      setDownloads(prev => prev.map(d =>
+        d.id === newDownload.id ? { ...d, jobId: job.jobId, phase: job.phase } : d
       ));
+
+      const close = subscribeToDownloadProgress(
+        job.jobId,
+        (event) => applyProgressEvent(newDownload.id, event),
+        (error) => {
+          closeProgressStream(newDownload.id);
+          setDownloads(prev => prev.map(d =>
+            d.id === newDownload.id ? { ...d, status: 'error', error: error.message } : d
+          ));
+        }
+      );
+      progressStreams.current.set(newDownload.id, close);
     } catch (error) {
+      // Rate limited or queue full: the card counts down to when a retry can be accepted
+      const retryAfterSeconds = error instanceof ApiError ? error.retryAfterSeconds : null;
       setDownloads(prev => prev.map(d => 
         d.id === newDownload.id 
           ? { 
               ...d, 
               status: 'error', 
-              error: error instanceof Error ? error.message : 'Download failed'
+              // The request id lets the server's logs be found from a bug report
+              error: error instanceof ApiError && error.requestId
+                ? `${error.message} (request ${error.requestId})`
+                : error instanceof Error ? error.message : 'Download failed',
+              ...(error instanceof ApiError && retryAfterSeconds !== null
+                ? { errorCode: error.code, retryAt: Date.now() + retryAfterSeconds * 1000 }
+                : {}),
             }
           : d
       ));
     }
   };
 
-  const handleDownload = async (download: Download) => {
-    if (!download.downloadUrl || !download.filename) return;
+  // Fold a batch snapshot into the batch summary and one download card per queued URL
+  const applyBatchEvent = (batchId: string, event: BatchProgressEvent) => {
+    setBatches(prev => prev.map(b => b.id !== batchId ? b : {
+      ...b,
+      phase: event.phase,
+      progress: event.progress,
+      counts: event.counts,
+      source: event.source,
+      rejected: event.entries
+        .filter(entry => entry.rejected)
+        .map(entry => ({ url: entry.url, message: entry.rejected?.message ?? 'Rejected' })),
+      error: undefined,
+    }));
+
+    setDownloads(prev => {
+      const next = [...prev];
+      for (const entry of event.entries) {
+        const id = `${batchId}:${entry.index}`;
+        if (!entry.job || dismissedDownloads.current.has(id)) continue;
+        const existingIndex = next.findIndex(d => d.id === id);
+        if (existingIndex === -1) {
+          next.push(withJobSnapshot({
+            id,
+            url: entry.url,
+            platform: entry.job.platform,
+            contentType: entry.job.contentType, // Enumerated batches mix posts and reels
+            allowFallback: event.allowFallback,
+            quality: event.quality,
+            batchId,
+            status: 'pending',
+            progress: 0,
+          }, entry.job));
+          continue;
+        }
+        const existing = next[existingIndex];
+        // Finished cards keep local state (saved files); only a new job (a retry) replaces them
+        const finished = existing.phase === 'completed' || existing.phase === 'failed';
+        if (finished && existing.jobId === entry.job.id) continue;
+        next[existingIndex] = withJobSnapshot({ ...existing, error: undefined, errorCode: undefined }, entry.job);
+      }
+      return next;
+    });
+
+    if (event.phase === 'completed') {
+      closeProgressStream(batchId);
+    }
+  };
+
+  const followBatch = (batchId: string) => {
+    closeProgressStream(batchId);
+    const close = subscribeToBatchProgress(
+      batchId,
+      (event) => applyBatchEvent(batchId, event),
+      (error) => {
+        closeProgressStream(batchId);
+        setBatches(prev => prev.map(b => b.id === batchId ? { ...b, error: error.message } : b));
+      }
+    );
+    progressStreams.current.set(batchId, close);
+  };
+
+  // Show a batch the server just accepted and follow it until it completes
+  const trackBatch = (batchId: string, batch: BatchProgressEvent) => {
+    setBatches(prev => [{
+      id: batchId,
+      contentType: batch.contentType,
+      allowFallback: batch.allowFallback,
+      phase: batch.phase,
+      progress: batch.progress,
+      counts: batch.counts,
+      rejected: [],
+      source: batch.source,
+    }, ...prev]);
+    applyBatchEvent(batchId, batch);
+    if (batch.phase !== 'completed') {
+      followBatch(batchId);
+    }
+  };
+
+  // Queue a list of URLs (pasted or uploaded) as one batch; throws if the server rejects the list
+  const addBatch = async (source: BatchSource, contentType: ContentType, allowFallback = false, quality: VideoQuality = 'best') => {
+    const { batchId, batch } = await requestBatchDownload(source, { contentType, allowFallback, quality });
+    trackBatch(batchId, batch);
+  };
+
+  // Download what a profile, page or highlight lists; throws if the server doesn't recognise the URL
+  const addEnumeration = async (request: EnumerateRequest) => {
+    const { batchId, batch } = await requestEnumeration(request);
+    trackBatch(batchId, batch);
+  };
+
+  const retryFailedInBatch = async (batchId: string) => {
+    try {
+      const { batch } = await retryFailedBatchEntries(batchId);
+      applyBatchEvent(batchId, batch);
+      followBatch(batchId);
+    } catch (error) {
+      setBatches(prev => prev.map(b =>
+        b.id === batchId ? { ...b, error: error instanceof Error ? error.message : 'Retry failed' } : b
+      ));
+    }
+  };
+
+  const removeBatch = (batchId: string) => {
+    closeProgressStream(batchId);
+    setBatches(prev => prev.filter(b => b.id !== batchId));
+    setDownloads(prev => prev.filter(d => d.batchId !== batchId));
+  };
+
+  // Save the given items of a download to the user's device
+  const saveItems = async (download: Download, items: DownloadItem[]) => {
+    if (items.length === 0) return;
 
     try {
       setDownloads(prev => prev.map(d => 
         d.id === download.id ? { ...d, status: 'downloading' } : d
       ));
 
-      // For server-downloaded files, just trigger browser download
-      const link = document.createElement('a');
-      link.href = download.downloadUrl;
-      link.download = download.filename;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      for (const item of items) {
+        await downloadFile(item.downloadUrl, item.filename);
+        // Browsers drop rapid back-to-back downloads; space them out slightly
+        if (items.length > 1) {
+          await new Promise(resolve => setTimeout(resolve, 300));
+        }
+      }
 
-      setDownloads(prev => prev.map(d => 
-        d.id === download.id ? { ...d, status: 'completed' } : d
-      ));
-    } catch (error) {
+      setDownloads(prev => prev.map(d => {
+        if (d.id !== download.id) return d;
+        const savedFilenames = Array.from(new Set([...(d.savedFilenames ?? []), ...items.map(item => item.filename)]));
+        const allSaved = (d.items ?? []).every(item => savedFilenames.includes(item.filename));
+        return { ...d, savedFilenames, status: allSaved ? 'completed' : 'ready' };
+      }));
+    } catch {
       setDownloads(prev => prev.map(d => 
         d.id === download.id 
           ? { 
@@ -120,10 +372,33 @@ function App() {
     }
   };
 
+  const handleDownload = (download: Download, item: DownloadItem) => saveItems(download, [item]);
+
+  const handleDownloadAll = (download: Download) => saveItems(download, download.items ?? []);
+
   const removeDownload = (id: string) => {
+    closeProgressStream(id);
+    if (downloads.some(d => d.id === id && d.batchId)) {
+      dismissedDownloads.current.add(id);
+    }
     setDownloads(prev => prev.filter(d => d.id !== id));
   };
 
+  const handleSignOut = async () => {
+    await signOut();
+    setAuth(prev => prev && { ...prev, user: null, expiresAt: null });
+    setActiveTab('downloader');
+  };
+
+  const needsSignIn = Boolean(auth?.authRequired && !auth.user);
+  const isAdmin = auth?.user?.role === 'admin';
+
+  // Replace a failed download with a fresh request for the same post
+  const retryDownload = (download: Download) => {
+    removeDownload(download.id);
+    addDownload(download.url, download.platform, download.contentType, download.allowFallback, download.quality);
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100">
       <Header />
@@ -140,48 +415,95 @@ function App() {
 
         <ServerStatus isOnline={serverOnline} />
 
-        {/* Tab Navigation */}
-        <div className="flex justify-center">
-          <div className="bg-white rounded-xl p-1 shadow-lg border border-gray-200">
-            <button
-              onClick={() => setActiveTab('downloader')}
-              className={`px-6 py-3 rounded-lg font-medium transition-all duration-200 ${
-                activeTab === 'downloader'
-                  ? 'bg-gradient-to-r from-purple-600 to-blue-600 text-white shadow-md'
-                  : 'text-gray-600 hover:text-gray-800'
-              }`}
-            >
-              Downloader
-            </button>
-            <button
-              onClick={() => setActiveTab('files')}
-              className={`px-6 py-3 rounded-lg font-medium transition-all duration-200 ${
-                activeTab === 'files'
-                  ? 'bg-gradient-to-r from-green-600 to-teal-600 text-white shadow-md'
-                  : 'text-gray-600 hover:text-gray-800'
-              }`}
-            >
-              Downloaded Files
-            </button>
+        {auth?.authRequired && auth.user && (
+          <div className="flex justify-center items-center space-x-3 text-sm text-gray-600">
+            <span>Signed in as <span className="font-medium text-gray-800">{auth.user.name}</span> ({auth.user.role})</span>
+            <button onClick={handleSignOut} className="text-purple-700 hover:text-purple-900 underline">Sign out</button>
           </div>
-        </div>
+        )}
 
-        {activeTab === 'downloader' ? (
+        {needsSignIn ? (
+          <SignIn onSignedIn={setAuth} />
+        ) : (
           <>
-            <DownloadForm onDownload={addDownload} disabled={!serverOnline} />
+            {/* Tab Navigation */}
+            <div className="flex justify-center">
+              <div className="bg-white rounded-xl p-1 shadow-lg border border-gray-200">
+                <button
+                  onClick={() => setActiveTab('downloader')}
+                  className={`px-6 py-3 rounded-lg font-medium transition-all duration-200 ${
+                    activeTab === 'downloader'
+                      ? 'bg-gradient-to-r from-purple-600 to-blue-600 text-white shadow-md'
+                      : 'text-gray-600 hover:text-gray-800'
+                  }`}
+                >
+                  Downloader
+                </button>
+                <button
+                  onClick={() => setActiveTab('files')}
+                  className={`px-6 py-3 rounded-lg font-medium transition-all duration-200 ${
+                    activeTab === 'files'
+                      ? 'bg-gradient-to-r from-green-600 to-teal-600 text-white shadow-md'
+                      : 'text-gray-600 hover:text-gray-800'
+                  }`}
+                >
+                  Downloaded Files
+                </button>
+                {/* Importing and revoking sessions is for admins (everyone, while sign-in is off) */}
+                {isAdmin && (
+                  <button
+                    onClick={() => setActiveTab('sessions')}
+                    className={`px-6 py-3 rounded-lg font-medium transition-all duration-200 ${
+                      activeTab === 'sessions'
+                        ? 'bg-gradient-to-r from-amber-500 to-orange-600 text-white shadow-md'
+                        : 'text-gray-600 hover:text-gray-800'
+                    }`}
+                  >
+                    Sessions
+                  </button>
+                )}
+                {auth?.authRequired && isAdmin && (
+                  <button
+                    onClick={() => setActiveTab('keys')}
+                    className={`px-6 py-3 rounded-lg font-medium transition-all duration-200 ${
+                      activeTab === 'keys'
+                        ? 'bg-gradient-to-r from-gray-700 to-gray-900 text-white shadow-md'
+                        : 'text-gray-600 hover:text-gray-800'
+                    }`}
+                  >
+                    API Keys
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {activeTab === 'downloader' ? (
+              <>
+                <DownloadForm onDownload={addDownload} onBatch={addBatch} onEnumerate={addEnumeration} disabled={!serverOnline} />
             
-            {downloads.length > 0 && (
-              <DownloadManager 
-                downloads={downloads} 
-                onRemove={removeDownload}
-                onDownload={handleDownload}
-              />
-            )}
+                {(downloads.length > 0 || batches.length > 0) && (
+                  <DownloadManager 
+                    downloads={downloads} 
+                    batches={batches}
+                    onRemove={removeDownload}
+                    onDownload={handleDownload}
+                    onDownloadAll={handleDownloadAll}
+                    onRetry={retryDownload}
+                    onRetryBatch={retryFailedInBatch}
+                    onRemoveBatch={removeBatch}
+                  />
+                )}
             
-            <Features />
+                <Features />
+              </>
+            ) : activeTab === 'files' ? (
+              <DownloadedFiles />
+            ) : activeTab === 'keys' ? (
+              <ApiKeyManager />
+            ) : (
+              <SessionManager />
+            )}
           </>
-        ) : (
-          <DownloadedFiles />
         )}
       </main>
 
@@ -0,0 +1,147 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { KeyRound, Plus, Trash2, RefreshCw, Copy } from 'lucide-react';
+import { createApiKey, getApiKeys, revokeApiKey, ApiKeyInfo, ApiKeyRole } from '../services/api';
+
+// Admins only: issue API keys for other users, see when they were last used, revoke them
+export const ApiKeyManager: React.FC = () => {
+  const [keys, setKeys] = useState<ApiKeyInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<ApiKeyRole>('user');
+  const [created, setCreated] = useState<{ name: string; key: string } | null>(null); // Shown once
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setKeys(await getApiKeys());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load API keys');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setError(null);
+    try {
+      const { key, info } = await createApiKey(name.trim(), role);
+      setKeys(prev => [...prev, info]);
+      setCreated({ name: info.name, key });
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create API key');
+    }
+  };
+
+  const handleRevoke = async (info: ApiKeyInfo) => {
+    if (!window.confirm(`Revoke the key "${info.name}"? Anyone using it is signed out.`)) return;
+    setError(null);
+    try {
+      const revoked = await revokeApiKey(info.id);
+      setKeys(prev => prev.map(k => k.id === revoked.id ? revoked : k));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke API key');
+    }
+  };
+
+  const formatDate = (value: string | null) => value ? new Date(value).toLocaleString() : 'never';
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="bg-white rounded-2xl shadow-xl border border-gray-100">
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <KeyRound className="h-6 w-6 text-purple-600" />
+            <h2 className="text-xl font-bold text-gray-800">API Keys</h2>
+          </div>
+          <button
+            onClick={refresh}
+            disabled={loading}
+            className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </button>
+        </div>
+
+        <form onSubmit={handleCreate} className="p-6 flex items-center space-x-2 border-b border-gray-100">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Who is this key for?"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as ApiKeyRole)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="user">User</option>
+            <option value="admin">Admin</option>
+          </select>
+          <button
+            type="submit"
+            disabled={!name.trim()}
+            className="flex items-center space-x-1 px-3 py-2 text-sm text-white bg-purple-600 rounded-lg hover:bg-purple-700 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Create</span>
+          </button>
+        </form>
+
+        {created && (
+          <div className="mx-6 mt-4 p-4 bg-green-50 border border-green-200 rounded-lg text-sm space-y-2">
+            <p className="text-green-800">Key for {created.name} - copy it now, it won't be shown again:</p>
+            <div className="flex items-center space-x-2">
+              <code className="flex-1 bg-white px-2 py-1 rounded border border-green-200 break-all">{created.key}</code>
+              <button
+                onClick={() => navigator.clipboard.writeText(created.key)}
+                className="p-2 text-green-700 hover:bg-green-100 rounded-lg"
+                title="Copy key"
+              >
+                <Copy className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        )}
+        {error && <p className="px-6 pt-4 text-sm text-red-600">{error}</p>}
+
+        <div className="divide-y divide-gray-100">
+          {keys.map(info => (
+            <div key={info.id} className="p-6 flex items-center justify-between">
+              <div className="space-y-1">
+                <div className="flex items-center space-x-2">
+                  <span className={`font-semibold ${info.revokedAt ? 'text-gray-400 line-through' : 'text-gray-800'}`}>{info.name}</span>
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600 border border-gray-200">{info.role}</span>
+                </div>
+                <p className="text-xs text-gray-500">
+                  <code>{info.prefix}...</code> · created {formatDate(info.createdAt)} · last used {formatDate(info.lastUsedAt)}
+                  {info.revokedAt && <> · revoked {formatDate(info.revokedAt)}</>}
+                </p>
+              </div>
+              {!info.revokedAt && (
+                <button
+                  onClick={() => handleRevoke(info)}
+                  className="flex items-center space-x-1 px-3 py-1.5 text-sm text-red-700 border border-red-200 rounded-lg hover:bg-red-50"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span>Revoke</span>
+                </button>
+              )}
+            </div>
+          ))}
+          {keys.length === 0 && !loading && (
+            <p className="p-6 text-sm text-gray-500">No keys issued yet. The ADMIN_API_KEY from the server's environment always works.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
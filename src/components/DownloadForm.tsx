@@ -1,41 +1,146 @@
-import React, { useState } from 'react';
-import { Download, Link, Instagram, Facebook } from 'lucide-react'; // Removed TestTube icon
+import React, { useState, useEffect } from 'react';
+import { Download, Link, Instagram, Facebook, Globe, List, Upload, Users, LucideIcon } from 'lucide-react'; // Removed TestTube icon
+import { getPlatforms, parseUrlList, PlatformInfo, BatchSource, ContentType, EnumerateRequest, VideoQuality, BATCH_MAX_URLS, CONTENT_TYPES } from '../services/api';
 
-// Updated interface: 'platform' no longer includes 'test'
 interface DownloadFormProps {
-  onDownload: (url: string, platform: 'instagram' | 'facebook', contentType: 'post' | 'story' | 'reel' | 'highlight') => void;
+  onDownload: (url: string, platform: string, contentType: ContentType, allowFallback: boolean, quality: VideoQuality) => void;
+  onBatch: (source: BatchSource, contentType: ContentType, allowFallback: boolean, quality: VideoQuality) => Promise<void>;
+  onEnumerate: (request: EnumerateRequest) => Promise<void>;
   disabled?: boolean;
 }
 
-export const DownloadForm: React.FC<DownloadFormProps> = ({ onDownload, disabled = false }) => {
+// Icon and selected-state colours for known platforms; anything else gets the generic look
+const platformStyles: Record<string, { icon: LucideIcon; active: string }> = {
+  instagram: { icon: Instagram, active: 'border-pink-500 bg-pink-50 text-pink-700' },
+  facebook: { icon: Facebook, active: 'border-blue-500 bg-blue-50 text-blue-700' },
+};
+const defaultPlatformStyle = { icon: Globe, active: 'border-purple-500 bg-purple-50 text-purple-700' };
+
+const DEFAULT_PROFILE_LIMIT = 24; // Matches the server's default
+
+// Video quality choices; a height picks the tallest rendition not above it
+const QUALITY_OPTIONS: [VideoQuality, string][] = [
+  ['best', 'Best available'],
+  ['smallest', 'Smallest file'],
+  ['1080', 'Up to 1080p'],
+  ['720', 'Up to 720p'],
+  ['480', 'Up to 480p'],
+  ['360', 'Up to 360p'],
+];
+
+export const DownloadForm: React.FC<DownloadFormProps> = ({ onDownload, onBatch, onEnumerate, disabled = false }) => {
+  const [mode, setMode] = useState<'single' | 'batch' | 'profile'>('single');
   const [url, setUrl] = useState('');
-  const [platform, setPlatform] = useState<'instagram' | 'facebook'>('instagram'); // 'platform' state no longer includes 'test'
-  const [contentType, setContentType] = useState<'post' | 'story' | 'reel' | 'highlight'>('post');
+  // Batch mode: a pasted list, or a .txt/.csv file (the file wins when both are given)
+  const [batchText, setBatchText] = useState('');
+  const [batchFile, setBatchFile] = useState<File | null>(null);
+  const [batchSubmitting, setBatchSubmitting] = useState(false);
+  const [batchError, setBatchError] = useState<string | null>(null);
+  // Profile mode: a profile, page or highlight URL, how many items to take and how far back
+  const [profileUrl, setProfileUrl] = useState('');
+  const [profileLimit, setProfileLimit] = useState(DEFAULT_PROFILE_LIMIT);
+  const [profileSince, setProfileSince] = useState('');
+  const [platforms, setPlatforms] = useState<PlatformInfo[]>([]);
+  const [platform, setPlatform] = useState<string>('instagram');
+  const [contentType, setContentType] = useState<ContentType>('post');
+  // Off by default: sample media is easy to mistake for the real post
+  const [allowFallback, setAllowFallback] = useState(false);
+  // Applied to every video of every request from this form
+  const [quality, setQuality] = useState<VideoQuality>('best');
+
+  // Platform buttons come from the server's extractor registry; reload when the server comes online
+  useEffect(() => {
+    if (disabled) return;
+    getPlatforms().then(available => {
+      const selectable = available.filter(p => p.selectable);
+      setPlatforms(selectable);
+      setPlatform(current => selectable.some(p => p.id === current) ? current : selectable[0]?.id ?? current);
+    });
+  }, [disabled]);
+
+  const findPlatformForUrl = (inputUrl: string): PlatformInfo | undefined => {
+    try {
+      const hostname = new URL(inputUrl).hostname.toLowerCase();
+      return platforms.find(p => p.hostnames.includes(hostname));
+    } catch {
+      return undefined; // Invalid URL format
+    }
+  };
+
+  // A URL is valid when it belongs to one of the server's platforms
+  const isValidUrl = (inputUrl: string): boolean => findPlatformForUrl(inputUrl) !== undefined;
+
+  const handleUrlChange = (value: string) => {
+    setUrl(value);
+    // Follow the pasted link: select the platform it belongs to
+    const detected = findPlatformForUrl(value.trim());
+    if (detected) {
+      setPlatform(detected.id);
+    }
+  };
+
+  const batchUrls = parseUrlList(batchText);
+  const canSubmitBatch = !disabled && !batchSubmitting && (batchFile !== null || (batchUrls.length > 0 && batchUrls.length <= BATCH_MAX_URLS));
+
+  const handleBatchSubmit = async () => {
+    if (!canSubmitBatch) return;
+    setBatchSubmitting(true);
+    setBatchError(null);
+    try {
+      // Platforms are detected per URL on the server, so a list may mix them
+      await onBatch(batchFile ? { file: batchFile } : { urls: batchUrls }, contentType, allowFallback, quality);
+      setBatchText('');
+      setBatchFile(null);
+    } catch (error) {
+      setBatchError(error instanceof Error ? error.message : 'Batch request failed');
+    } finally {
+      setBatchSubmitting(false);
+    }
+  };
+
+  const profileLimitValid = Number.isInteger(profileLimit) && profileLimit >= 1 && profileLimit <= BATCH_MAX_URLS;
+  const canSubmitProfile = !disabled && !batchSubmitting && profileLimitValid && isValidUrl(profileUrl.trim());
+
+  const handleProfileSubmit = async () => {
+    if (!canSubmitProfile) return;
+    setBatchSubmitting(true);
+    setBatchError(null);
+    try {
+      await onEnumerate({
+        url: profileUrl.trim(),
+        limit: profileLimit,
+        ...(profileSince ? { since: profileSince } : {}),
+        allowFallback,
+        quality,
+      });
+      setProfileUrl('');
+    } catch (error) {
+      setBatchError(error instanceof Error ? error.message : 'Profile request failed');
+    } finally {
+      setBatchSubmitting(false);
+    }
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (mode === 'batch') {
+      handleBatchSubmit();
+      return;
+    }
+    if (mode === 'profile') {
+      handleProfileSubmit();
+      return;
+    }
     // Only proceed if URL is valid and form is not disabled
     if (url.trim() && isValidUrl(url) && !disabled) {
       // Always pass the selected platform, no 'test' routing here
-      onDownload(url.trim(), platform, contentType);
+      onDownload(url.trim(), platform, contentType, allowFallback, quality);
       setUrl(''); // Clear URL field after submission
     }
   };
 
-  // Simplified isValidUrl: no longer checks for test/demo URLs
-  const isValidUrl = (inputUrl: string): boolean => {
-    try {
-      const parsedUrl = new URL(inputUrl);
-      const hostname = parsedUrl.hostname;
-      
-      const instagramRegex = /^(www\.)?instagram\.com$/i;
-      const facebookRegex = /^(www\.)?facebook\.com$|^(web\.)?facebook\.com$|^fb\.watch$/i;
-
-      return instagramRegex.test(hostname) || facebookRegex.test(hostname);
-    } catch {
-      return false; // Invalid URL format
-    }
-  };
+  const platformNames = platforms.map(p => p.name).join(' or ');
+  const selectedPlatformName = platforms.find(p => p.id === platform)?.name ?? platform;
 
   return (
     <div className="max-w-2xl mx-auto">
@@ -44,42 +149,58 @@ export const DownloadForm: React.FC<DownloadFormProps> = ({ onDownload, disabled
       }`}>
         <form onSubmit={handleSubmit} className="space-y-6">
           <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-semibold text-gray-700 mb-3">
-                Select Platform
-              </label>
-              <div className="grid grid-cols-2 gap-3">
-                {/* Instagram Button */}
+            <div className="grid grid-cols-3 gap-1 p-1 bg-gray-100 rounded-xl">
+              {([['single', Link, 'Single link'], ['batch', List, 'Batch'], ['profile', Users, 'Profile']] as const).map(([value, Icon, label]) => (
                 <button
+                  key={value}
                   type="button"
-                  onClick={() => setPlatform('instagram')}
+                  onClick={() => {
+                    setMode(value);
+                    setBatchError(null);
+                  }}
                   disabled={disabled}
-                  className={`flex items-center justify-center space-x-2 p-4 rounded-xl border-2 transition-all duration-200 ${
-                    platform === 'instagram'
-                      ? 'border-pink-500 bg-pink-50 text-pink-700'
-                      : 'border-gray-200 hover:border-gray-300 text-gray-600'
-                  } ${disabled ? 'cursor-not-allowed' : 'cursor-pointer'}`}
+                  className={`flex items-center justify-center space-x-2 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+                    mode === value ? 'bg-white shadow text-purple-700' : 'text-gray-600 hover:text-gray-800'
+                  }`}
                 >
-                  <Instagram className="h-5 w-5" />
-                  <span className="font-medium">Instagram</span>
-                </button>
-                {/* Facebook Button */}
-                <button
-                  type="button"
-                  onClick={() => setPlatform('facebook')}
-                  disabled={disabled}
-                  className={`flex items-center justify-center space-x-2 p-4 rounded-xl border-2 transition-all duration-200 ${
-                    platform === 'facebook'
-                      ? 'border-blue-500 bg-blue-50 text-blue-700'
-                      : 'border-gray-200 hover:border-gray-300 text-gray-600'
-                  } ${disabled ? 'cursor-not-allowed' : 'cursor-pointer'}`}
-                >
-                  <Facebook className="h-5 w-5" />
-                  <span className="font-medium">Facebook</span>
+                  <Icon className="h-4 w-4" />
+                  <span>{label}</span>
                 </button>
+              ))}
+            </div>
+
+            {mode === 'single' && (
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-3">
+                Select Platform
+              </label>
+              <div className={`grid gap-3 ${platforms.length > 2 ? 'grid-cols-3' : 'grid-cols-2'}`}>
+                {platforms.map(p => {
+                  const style = platformStyles[p.id] ?? defaultPlatformStyle;
+                  const Icon = style.icon;
+                  return (
+                    <button
+                      key={p.id}
+                      type="button"
+                      onClick={() => setPlatform(p.id)}
+                      disabled={disabled}
+                      className={`flex items-center justify-center space-x-2 p-4 rounded-xl border-2 transition-all duration-200 ${
+                        platform === p.id
+                          ? style.active
+                          : 'border-gray-200 hover:border-gray-300 text-gray-600'
+                      } ${disabled ? 'cursor-not-allowed' : 'cursor-pointer'}`}
+                    >
+                      <Icon className="h-5 w-5" />
+                      <span className="font-medium">{p.name}</span>
+                    </button>
+                  );
+                })}
               </div>
             </div>
+            )}
 
+            {/* Profiles decide the type per item (posts, reels, highlight frames) */}
+            {mode !== 'profile' && (
             <div>
               <label htmlFor="contentType" className="block text-sm font-semibold text-gray-700 mb-3">
                 Content Type
@@ -87,17 +208,36 @@ export const DownloadForm: React.FC<DownloadFormProps> = ({ onDownload, disabled
               <select
                 id="contentType"
                 value={contentType}
-                onChange={(e) => setContentType(e.target.value as 'post' | 'story' | 'reel' | 'highlight')}
+                onChange={(e) => setContentType(e.target.value as ContentType)}
                 disabled={disabled}
                 className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 disabled:cursor-not-allowed"
               >
-                <option value="post">Post</option>
-                <option value="story">Story</option>
-                <option value="reel">Reel</option>
-                <option value="highlight">Highlight</option>
+                {CONTENT_TYPES.map(type => (
+                  <option key={type} value={type}>{type.charAt(0).toUpperCase() + type.slice(1)}</option>
+                ))}
               </select>
             </div>
+            )}
 
+            <div>
+              <label htmlFor="quality" className="block text-sm font-semibold text-gray-700 mb-3">
+                Video Quality
+              </label>
+              <select
+                id="quality"
+                value={quality}
+                onChange={(e) => setQuality(e.target.value)}
+                disabled={disabled}
+                className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 disabled:cursor-not-allowed"
+              >
+                {QUALITY_OPTIONS.map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">Used when a video is offered in several qualities. Photos are always full size.</p>
+            </div>
+
+            {mode === 'single' ? (
             <div>
               <label htmlFor="url" className="block text-sm font-semibold text-gray-700 mb-3">
                 Content URL
@@ -108,8 +248,8 @@ export const DownloadForm: React.FC<DownloadFormProps> = ({ onDownload, disabled
                   type="url"
                   id="url"
                   value={url}
-                  onChange={(e) => setUrl(e.target.value)}
-                  placeholder={`Paste ${platform} URL here...`} // Placeholder still uses selected platform
+                  onChange={(e) => handleUrlChange(e.target.value)}
+                  placeholder={`Paste ${selectedPlatformName} URL here...`}
                   disabled={disabled}
                   className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 disabled:cursor-not-allowed"
                   required
@@ -118,20 +258,142 @@ export const DownloadForm: React.FC<DownloadFormProps> = ({ onDownload, disabled
               </div>
               {url.trim() && !isValidUrl(url) && (
                 <p className="mt-2 text-sm text-red-600">
-                  Please enter a valid Instagram or Facebook URL.
+                  Please enter a valid {platformNames || 'supported platform'} URL.
                 </p>
               )}
             </div>
+            ) : mode === 'profile' ? (
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="profileUrl" className="block text-sm font-semibold text-gray-700 mb-3">
+                  Profile, Page or Highlight URL
+                </label>
+                <div className="relative">
+                  <Users className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                  <input
+                    type="url"
+                    id="profileUrl"
+                    value={profileUrl}
+                    onChange={(e) => setProfileUrl(e.target.value)}
+                    placeholder="e.g. https://www.instagram.com/handle/ or https://www.facebook.com/page/videos"
+                    disabled={disabled}
+                    className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 disabled:cursor-not-allowed"
+                  />
+                </div>
+                {profileUrl.trim() && !isValidUrl(profileUrl.trim()) && (
+                  <p className="mt-2 text-sm text-red-600">
+                    Please enter a valid {platformNames || 'supported platform'} URL.
+                  </p>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="profileLimit" className="block text-sm font-semibold text-gray-700 mb-2">
+                    Up to
+                  </label>
+                  <input
+                    type="number"
+                    id="profileLimit"
+                    min={1}
+                    max={BATCH_MAX_URLS}
+                    value={Number.isNaN(profileLimit) ? '' : profileLimit}
+                    onChange={(e) => setProfileLimit(e.target.valueAsNumber)}
+                    disabled={disabled}
+                    className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 disabled:cursor-not-allowed"
+                  />
+                  {!profileLimitValid && <p className="mt-1 text-xs text-red-600">Between 1 and {BATCH_MAX_URLS}.</p>}
+                </div>
+                <div>
+                  <label htmlFor="profileSince" className="block text-sm font-semibold text-gray-700 mb-2">
+                    Posted since <span className="font-normal text-gray-500">(optional)</span>
+                  </label>
+                  <input
+                    type="date"
+                    id="profileSince"
+                    value={profileSince}
+                    onChange={(e) => setProfileSince(e.target.value)}
+                    disabled={disabled}
+                    className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 disabled:cursor-not-allowed"
+                  />
+                </div>
+              </div>
+              {batchError && <p className="text-sm text-red-600">{batchError}</p>}
+            </div>
+            ) : (
+            <div>
+              <label htmlFor="batchUrls" className="block text-sm font-semibold text-gray-700 mb-3">
+                Content URLs
+              </label>
+              <textarea
+                id="batchUrls"
+                value={batchText}
+                onChange={(e) => setBatchText(e.target.value)}
+                placeholder={'One URL per line, e.g.\nhttps://www.instagram.com/p/...\nhttps://www.facebook.com/...'}
+                rows={6}
+                disabled={disabled || batchFile !== null}
+                className="w-full p-3 border border-gray-300 rounded-xl font-mono text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 disabled:cursor-not-allowed disabled:bg-gray-50"
+              />
+              <div className="mt-2 flex flex-wrap items-center justify-between gap-2 text-sm">
+                <span className={batchUrls.length > BATCH_MAX_URLS ? 'text-red-600' : 'text-gray-500'}>
+                  {batchFile
+                    ? `Using ${batchFile.name}`
+                    : `${batchUrls.length} link${batchUrls.length !== 1 ? 's' : ''}${batchUrls.length > BATCH_MAX_URLS ? ` (at most ${BATCH_MAX_URLS})` : ''}`}
+                </span>
+                <label className="flex items-center space-x-2 px-3 py-1.5 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 cursor-pointer">
+                  <Upload className="h-4 w-4" />
+                  <span>{batchFile ? 'Change file' : 'Upload .txt / .csv'}</span>
+                  <input
+                    type="file"
+                    accept=".txt,.csv,text/plain,text/csv"
+                    className="hidden"
+                    disabled={disabled}
+                    onChange={(e) => {
+                      setBatchFile(e.target.files?.[0] ?? null);
+                      e.target.value = ''; // Picking the same file again should still register
+                    }}
+                  />
+                </label>
+                {batchFile && (
+                  <button type="button" onClick={() => setBatchFile(null)} className="text-gray-500 hover:text-gray-700 underline">
+                    Remove file
+                  </button>
+                )}
+              </div>
+              {batchError && <p className="mt-2 text-sm text-red-600">{batchError}</p>}
+            </div>
+            )}
+
+            <label className="flex items-start space-x-3 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={allowFallback}
+                onChange={(e) => setAllowFallback(e.target.checked)}
+                disabled={disabled}
+                className="mt-0.5 h-4 w-4 rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+              />
+              <span>
+                Use sample media if the post can't be fetched
+                <span className="block text-xs text-gray-500">Placeholder files are clearly marked and are not the real post.</span>
+              </span>
+            </label>
           </div>
 
           <div className="space-y-3">
             <button
               type="submit"
-              disabled={!url.trim() || !isValidUrl(url) || disabled}
+              disabled={mode === 'batch' ? !canSubmitBatch : mode === 'profile' ? !canSubmitProfile : !url.trim() || !isValidUrl(url) || disabled}
               className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-3 px-6 rounded-xl font-semibold hover:from-purple-700 hover:to-blue-700 focus:ring-4 focus:ring-purple-200 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
             >
               <Download className="h-5 w-5" />
-              <span>{disabled ? 'Server Offline' : 'Download Content'}</span>
+              <span>
+                {disabled
+                  ? 'Server Offline'
+                  : mode === 'batch'
+                    ? batchSubmitting ? 'Queuing...' : 'Download All Links'
+                    : mode === 'profile'
+                      ? batchSubmitting ? 'Starting...' : 'Download From Profile'
+                      : 'Download Content'}
+              </span>
             </button>
 
             {/* REMOVED: Test Download Button */}
@@ -150,11 +412,13 @@ export const DownloadForm: React.FC<DownloadFormProps> = ({ onDownload, disabled
         <div className="mt-6 p-4 bg-blue-50 rounded-xl border border-blue-200">
           <h4 className="font-semibold text-blue-800 mb-2">How to use:</h4>
           <ul className="text-sm text-blue-700 space-y-1">
-            <li>• Select a platform (Instagram or Facebook).</li>
+            <li>• Select a platform{platformNames ? ` (${platformNames})` : ''}, or just paste a link to pick it automatically.</li>
             <li>• Choose the content type (Post, Story, Reel, Highlight).</li>
             <li>• Copy a public content URL (e.g., a photo, video, or reel link).</li>
             <li>• Paste it in the URL field above.</li>
             <li>• Click "Download Content" to start.</li>
+            <li>• To archive many posts, switch to Batch and paste one link per line or upload a .txt/.csv file (up to {BATCH_MAX_URLS}).</li>
+            <li>• To grab a whole account, switch to Profile and paste an Instagram profile or highlight, or a Facebook page or its videos tab.</li>
             {/* REMOVED: Test download instruction */}
             {/* <li>• Use "Try Test Download" to test with sample content without a real URL.</li> */}
           </ul>
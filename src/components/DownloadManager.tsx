@@ -1,14 +1,61 @@
-import React from 'react';
-import { Download, CheckCircle, AlertCircle, X, ExternalLink, FileDown, Eye, Info } from 'lucide-react';
-import { Download as DownloadType } from '../App';
+import React, { useEffect, useState } from 'react';
+import { Download, CheckCircle, AlertCircle, AlertTriangle, X, ExternalLink, FileDown, Eye, Info, Film, Layers, RotateCcw, User, Heart, List, Users } from 'lucide-react';
+import { Batch, Download as DownloadType } from '../App';
+import { API_ERROR_CODES, DownloadItem, FAILURE_CODES } from '../services/api';
 
 interface DownloadManagerProps {
   downloads: DownloadType[];
+  batches: Batch[];
   onRemove: (id: string) => void;
-  onDownload: (download: DownloadType) => void;
+  onDownload: (download: DownloadType, item: DownloadItem) => void;
+  onDownloadAll: (download: DownloadType) => void;
+  onRetry: (download: DownloadType) => void;
+  onRetryBatch: (batchId: string) => void;
+  onRemoveBatch: (batchId: string) => void;
 }
 
-export const DownloadManager: React.FC<DownloadManagerProps> = ({ downloads, onRemove, onDownload }) => {
+// Whole seconds until `retryAt` (epoch ms), ticking down to 0
+const useSecondsUntil = (retryAt: number | undefined) => {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!retryAt) return;
+    setNow(Date.now());
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= retryAt) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+  return retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+};
+
+// Retry button of a failed card; after a 429 it stays disabled until the server said to come back
+const RetryButton: React.FC<{ retryAt?: number; onRetry: () => void }> = ({ retryAt, onRetry }) => {
+  const seconds = useSecondsUntil(retryAt);
+  return (
+    <button
+      onClick={onRetry}
+      disabled={seconds > 0}
+      className={`flex items-center space-x-1 px-3 py-1 text-sm border rounded-lg transition-colors duration-200 ${
+        seconds > 0 ? 'text-gray-400 border-gray-200 cursor-not-allowed' : 'text-red-700 border-red-200 hover:bg-red-100'
+      }`}
+    >
+      <RotateCcw className="h-4 w-4" />
+      <span>{seconds > 0 ? `Retry in ${seconds}s` : 'Retry'}</span>
+    </button>
+  );
+};
+
+export const DownloadManager: React.FC<DownloadManagerProps> = ({
+  downloads,
+  batches,
+  onRemove,
+  onDownload,
+  onDownloadAll,
+  onRetry,
+  onRetryBatch,
+  onRemoveBatch,
+}) => {
   const getStatusIcon = (status: DownloadType['status']) => {
     switch (status) {
       case 'pending':
@@ -43,119 +90,430 @@ export const DownloadManager: React.FC<DownloadManagerProps> = ({ downloads, onR
     }
   };
 
-  const getPlatformColor = (platform: 'instagram' | 'facebook') => {
-    return platform === 'instagram' 
-      ? 'bg-pink-100 text-pink-800 border-pink-200'
-      : 'bg-blue-100 text-blue-800 border-blue-200';
+  const getPhaseText = (phase: DownloadType['phase']) => {
+    switch (phase) {
+      case 'queued':
+        return 'Waiting in queue';
+      case 'launching_browser':
+        return 'Launching browser';
+      case 'extracting':
+        return 'Finding media on the page';
+      case 'fetching':
+        return 'Fetching media';
+      case 'finalizing':
+        return 'Finalizing file';
+      default:
+        return 'Starting';
+    }
   };
 
-  return (
-    <div className="max-w-4xl mx-auto">
-      <div className="bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden">
-        <div className="bg-gradient-to-r from-purple-600 to-blue-600 px-6 py-4">
-          <h2 className="text-xl font-bold text-white">Download Manager</h2>
-          <p className="text-purple-100 text-sm">Track your download progress</p>
-        </div>
+  // What went wrong and what the user can do about it, per server failure code
+  const getFailureText = (code: DownloadType['errorCode']) => {
+    switch (code) {
+      case FAILURE_CODES.LOGIN_REQUIRED:
+        return {
+          title: 'Login wall',
+          hint: 'The platform wants you to log in before showing this post. Import a logged-in session under Sessions, or check the post opens in a private browser window.',
+        };
+      case FAILURE_CODES.SESSION_EXPIRED:
+        return {
+          title: 'Session expired',
+          hint: 'The imported login no longer works. Export fresh cookies from a logged-in browser, import them under Sessions, then retry.',
+        };
+      case FAILURE_CODES.NO_MEDIA_FOUND:
+        return {
+          title: 'No media found',
+          hint: 'Check that the link points to a single post, and that the content type matches it (e.g. Reel for reels).',
+        };
+      case FAILURE_CODES.CONTENT_UNAVAILABLE:
+        return {
+          title: 'Content unavailable',
+          hint: 'The post is private, was removed or has expired. Retrying will not help unless it becomes public again.',
+        };
+      case FAILURE_CODES.NAVIGATION_TIMEOUT:
+        return {
+          title: 'Page took too long to load',
+          hint: 'The platform or your connection was slow. Retrying usually works.',
+        };
+      case FAILURE_CODES.CDN_FETCH_REFUSED:
+        return {
+          title: 'Media server refused the download',
+          hint: 'The media links may have expired or been rate limited. Wait a minute, then retry.',
+        };
+      case API_ERROR_CODES.RATE_LIMITED:
+        return {
+          title: "You're being rate limited",
+          hint: 'Too many downloads were requested in a short time. Retry once the countdown ends.',
+        };
+      case API_ERROR_CODES.QUEUE_FULL:
+        return {
+          title: 'Server busy',
+          hint: 'The server is already working through as many downloads as it can queue. Retry once the countdown ends.',
+        };
+      default:
+        return {
+          title: 'Download failed',
+          hint: 'Retry, and if it keeps failing, check the link in your browser.',
+        };
+    }
+  };
 
-        <div className="divide-y divide-gray-100">
-          {downloads.map((download) => (
-            <div key={download.id} className="p-6 hover:bg-gray-50 transition-colors duration-200">
-              <div className="flex items-start justify-between">
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center space-x-3 mb-3">
-                    {getStatusIcon(download.status)}
-                    <span className={`px-2 py-1 rounded-full text-xs font-medium border ${getPlatformColor(download.platform)}`}>
-                      {download.platform}
-                    </span>
-                    <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800 border border-gray-200">
-                      {download.contentType}
-                    </span>
-                    <span className="text-sm font-medium text-gray-700">
-                      {getStatusText(download.status)}
-                    </span>
-                    {download.size && (
-                      <span className="text-xs text-gray-500">
-                        {download.size}
-                      </span>
-                    )}
-                  </div>
-                  
-                  <div className="flex items-center space-x-2 mb-3">
-                    <ExternalLink className="h-4 w-4 text-gray-400 flex-shrink-0" />
-                    <p className="text-sm text-gray-600 truncate">{download.url}</p>
-                  </div>
+  const formatBytes = (bytes: number) => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  };
 
-                  {download.note && (
-                    <div className="mb-3 p-3 bg-blue-50 rounded-lg border border-blue-200">
-                      <div className="flex items-center space-x-2">
-                        <Info className="h-4 w-4 text-blue-600" />
-                        <span className="text-sm text-blue-700">{download.note}</span>
-                      </div>
-                    </div>
-                  )}
+  // "@handle (Display Name)", whichever parts the page showed
+  const formatAuthor = (author: NonNullable<DownloadType['metadata']>['author']) => {
+    if (!author) return null;
+    if (author.handle && author.displayName) return `@${author.handle} (${author.displayName})`;
+    return author.handle ? `@${author.handle}` : author.displayName;
+  };
 
-                  {download.thumbnail && (
-                    <div className="mb-3">
-                      <img 
-                        src={download.thumbnail} 
-                        alt="Content preview" 
-                        className="w-16 h-16 object-cover rounded-lg border border-gray-200"
-                      />
-                    </div>
-                  )}
+  const getPlatformColor = (platform: string) => {
+    switch (platform) {
+      case 'instagram':
+        return 'bg-pink-100 text-pink-800 border-pink-200';
+      case 'facebook':
+        return 'bg-blue-100 text-blue-800 border-blue-200';
+      default:
+        return 'bg-purple-100 text-purple-800 border-purple-200';
+    }
+  };
 
-                  {download.status === 'ready' && download.downloadUrl && (
-                    <div className="flex items-center space-x-3">
-                      <button
-                        onClick={() => onDownload(download)}
-                        className="bg-gradient-to-r from-green-500 to-green-600 text-white px-4 py-2 rounded-lg font-medium hover:from-green-600 hover:to-green-700 transition-all duration-200 flex items-center space-x-2"
-                      >
-                        <FileDown className="h-4 w-4" />
-                        <span>Download File</span>
-                      </button>
-                      {download.downloadUrl && (
-                        <a
-                          href={download.downloadUrl}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-blue-600 hover:text-blue-700 flex items-center space-x-1 text-sm"
-                        >
-                          <Eye className="h-4 w-4" />
-                          <span>Preview</span>
-                        </a>
-                      )}
-                    </div>
-                  )}
+  // Summary row of a batch (aggregate progress, per-status counts, rejected URLs) above its downloads
+  const renderBatch = (batch: Batch) => {
+    const batchDownloads = downloads.filter(download => download.batchId === batch.id);
+    const { counts, source } = batch;
+    const discovering = source?.status === 'discovering';
+    return (
+      <div key={batch.id} className="bg-slate-50">
+        <div className="p-6">
+          <div className="flex items-start justify-between">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center space-x-3 mb-3">
+                {source ? <Users className="h-5 w-5 text-purple-600" /> : <List className="h-5 w-5 text-purple-600" />}
+                <span className="text-sm font-semibold text-gray-800 truncate">
+                  {source
+                    ? `${source.kind.charAt(0).toUpperCase() + source.kind.slice(1)} ${source.url}`
+                    : `Batch of ${counts.total} link${counts.total !== 1 ? 's' : ''}`}
+                </span>
+                <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800 border border-gray-200">
+                  {batch.contentType}
+                </span>
+                <span className="text-sm font-medium text-gray-700">
+                  {discovering ? 'Discovering…' : batch.phase === 'completed' ? 'Finished' : 'In progress'}
+                </span>
+              </div>
 
-                  {download.status === 'completed' && download.filename && (
-                    <div className="flex items-center space-x-2">
-                      <CheckCircle className="h-4 w-4 text-green-500" />
-                      <span className="text-sm text-green-700 font-medium">
-                        Downloaded: {download.filename}
-                      </span>
-                    </div>
-                  )}
+              {source && (
+                <p className="mb-2 text-sm text-gray-600">
+                  Found {source.found}{discovering ? ' so far' : ''} · downloaded {counts.completed}
+                </p>
+              )}
+              {source?.error && (
+                <p className="mb-3 text-sm text-red-700">Couldn't list this {source.kind}: {source.error.message}</p>
+              )}
 
-                  {download.status === 'error' && download.error && (
-                    <div className="flex items-center space-x-2">
-                      <AlertCircle className="h-4 w-4 text-red-500" />
-                      <span className="text-sm text-red-700">{download.error}</span>
-                    </div>
-                  )}
+              <div className="mb-3">
+                <div className="flex flex-wrap items-center gap-x-4 text-xs text-gray-500 mb-1">
+                  <span className="text-green-700">{counts.completed} done</span>
+                  {counts.running > 0 && <span className="text-blue-700">{counts.running} running</span>}
+                  {counts.queued > 0 && <span>{counts.queued} queued</span>}
+                  {counts.failed > 0 && <span className="text-red-700">{counts.failed} failed</span>}
+                  {counts.rejected > 0 && <span className="text-amber-700">{counts.rejected} rejected</span>}
+                  <span className="ml-auto">{batch.progress}%</span>
                 </div>
+                <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
+                  <div
+                    className="bg-gradient-to-r from-purple-500 to-blue-500 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${batch.progress}%` }}
+                  />
+                </div>
+              </div>
 
+              {batch.rejected.length > 0 && (
+                <details className="mb-3 p-3 bg-amber-50 rounded-lg border border-amber-200 text-sm text-amber-800">
+                  <summary className="cursor-pointer font-semibold">
+                    {batch.rejected.length} link{batch.rejected.length !== 1 ? 's were' : ' was'} not queued
+                  </summary>
+                  <ul className="mt-2 space-y-1">
+                    {batch.rejected.map(({ url, message }, index) => (
+                      <li key={`${index}-${url}`} className="truncate"><span className="font-mono">{url}</span>: {message}</li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+
+              {batch.error && (
+                <p className="mb-3 text-sm text-red-700">{batch.error}</p>
+              )}
+
+              {counts.failed > 0 && batch.phase === 'completed' && (
                 <button
-                  onClick={() => onRemove(download.id)}
-                  className="ml-4 p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors duration-200"
-                  title="Remove download"
+                  onClick={() => onRetryBatch(batch.id)}
+                  className="flex items-center space-x-1 px-3 py-1 text-sm text-red-700 border border-red-200 rounded-lg hover:bg-red-100 transition-colors duration-200"
                 >
-                  <X className="h-5 w-5" />
+                  <RotateCcw className="h-4 w-4" />
+                  <span>Retry failed ({counts.failed})</span>
                 </button>
-              </div>
+              )}
+            </div>
+
+            <button
+              onClick={() => onRemoveBatch(batch.id)}
+              className="ml-4 p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors duration-200"
+              title="Remove batch"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {batchDownloads.length > 0 && (
+          <div className="ml-6 border-l-2 border-purple-200 bg-white divide-y divide-gray-100">
+            {batchDownloads.map(download => renderDownload(download))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderDownload = (download: DownloadType) => {
+    return (
+      <div key={download.id} className="p-6 hover:bg-gray-50 transition-colors duration-200">
+        <div className="flex items-start justify-between">
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center space-x-3 mb-3">
+              {getStatusIcon(download.status)}
+              <span className={`px-2 py-1 rounded-full text-xs font-medium border ${getPlatformColor(download.platform)}`}>
+                {download.platform}
+              </span>
+              <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800 border border-gray-200">
+                {download.contentType}
+              </span>
+              <span className="text-sm font-medium text-gray-700">
+                {getStatusText(download.status)}
+              </span>
+              {download.items && download.items.length > 1 && (
+                <span className="flex items-center space-x-1 text-xs text-gray-500">
+                  <Layers className="h-3 w-3" />
+                  <span>{download.items.length} items</span>
+                </span>
+              )}
+              {download.items && download.items.length === 1 && (
+                <span className="text-xs text-gray-500">
+                  {download.items[0].size}
+                </span>
+              )}
+            </div>
+            
+            <div className="flex items-center space-x-2 mb-3">
+              <ExternalLink className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              <p className="text-sm text-gray-600 truncate">{download.url}</p>
             </div>
-          ))}
+
+            {(download.status === 'pending' || download.status === 'processing') && (
+              <div className="mb-3">
+                <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                  <span>
+                    {getPhaseText(download.phase)}
+                    {download.phase === 'fetching' && (download.itemCount ?? 1) > 1 &&
+                      ` (item ${(download.itemIndex ?? 0) + 1} of ${download.itemCount})`}
+                  </span>
+                  <span>
+                    {download.phase === 'fetching' && download.bytesReceived !== undefined
+                      ? `${formatBytes(download.bytesReceived)}${download.bytesTotal ? ` of ${formatBytes(download.bytesTotal)}` : ''}`
+                      : `${download.progress}%`}
+                  </span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
+                  <div
+                    className="bg-gradient-to-r from-purple-500 to-blue-500 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${download.progress}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {download.fallback && (
+              <div className="mb-3 p-3 bg-amber-50 rounded-lg border border-amber-200">
+                <div className="flex items-start space-x-2">
+                  <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5" />
+                  <div className="text-sm text-amber-800">
+                    <p className="font-semibold">Sample media, not the requested post</p>
+                    <p>{getFailureText(download.fallback.code).title}: {download.fallback.message}</p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {download.note && !download.fallback && (
+              <div className="mb-3 p-3 bg-blue-50 rounded-lg border border-blue-200">
+                <div className="flex items-center space-x-2">
+                  <Info className="h-4 w-4 text-blue-600" />
+                  <span className="text-sm text-blue-700">{download.note}</span>
+                </div>
+              </div>
+            )}
+
+            {download.metadata && (download.metadata.author || download.metadata.caption) && (
+              <div className="mb-3 p-3 bg-gray-50 rounded-lg border border-gray-200 text-sm">
+                <div className="flex flex-wrap items-center gap-x-2 text-gray-700">
+                  <User className="h-4 w-4 text-gray-500" />
+                  <span className="font-medium">{formatAuthor(download.metadata.author) ?? 'Unknown author'}</span>
+                  {download.metadata.postedAt && (
+                    <span className="text-gray-500">· {new Date(download.metadata.postedAt).toLocaleString()}</span>
+                  )}
+                </div>
+                {download.metadata.caption && (
+                  <p className="mt-1 text-gray-600 whitespace-pre-line line-clamp-3">{download.metadata.caption}</p>
+                )}
+                {download.metadata.hashtags.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {download.metadata.hashtags.map(tag => (
+                      <span key={tag} className="px-2 py-0.5 bg-purple-100 text-purple-700 rounded-full text-xs">#{tag}</span>
+                    ))}
+                  </div>
+                )}
+                {(download.metadata.likeCount !== null || download.metadata.viewCount !== null) && (
+                  <div className="mt-2 flex items-center gap-x-4 text-gray-500">
+                    {download.metadata.likeCount !== null && (
+                      <span className="flex items-center gap-x-1"><Heart className="h-4 w-4" />{download.metadata.likeCount.toLocaleString()}</span>
+                    )}
+                    {download.metadata.viewCount !== null && (
+                      <span className="flex items-center gap-x-1"><Eye className="h-4 w-4" />{download.metadata.viewCount.toLocaleString()}</span>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {(download.status === 'ready' || download.status === 'downloading' || download.status === 'completed') && download.items && (
+              <div className="space-y-3">
+                {download.items.length > 1 && download.status !== 'completed' && (
+                  <button
+                    onClick={() => onDownloadAll(download)}
+                    disabled={download.status === 'downloading'}
+                    className="bg-gradient-to-r from-green-500 to-green-600 text-white px-4 py-2 rounded-lg font-medium hover:from-green-600 hover:to-green-700 transition-all duration-200 flex items-center space-x-2 disabled:opacity-50"
+                  >
+                    <FileDown className="h-4 w-4" />
+                    <span>Download All ({download.items.length})</span>
+                  </button>
+                )}
+
+                <div className="grid gap-2">
+                  {download.items.map((item, index) => {
+                    const saved = download.savedFilenames?.includes(item.filename);
+                    return (
+                      <div key={item.filename} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg border border-gray-200">
+                        <div className="flex items-center space-x-3 min-w-0">
+                          {item.thumbnail ? (
+                            <img 
+                              src={item.thumbnail} 
+                              alt={`Item ${index + 1} preview`} 
+                              className="w-12 h-12 object-cover rounded-lg border border-gray-200 flex-shrink-0"
+                            />
+                          ) : (
+                            <div className="w-12 h-12 rounded-lg bg-gray-200 flex items-center justify-center flex-shrink-0">
+                              <Film className="h-5 w-5 text-gray-500" />
+                            </div>
+                          )}
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-gray-700 truncate">{item.filename}</p>
+                            <p className="text-xs text-gray-500">
+                              {item.mediaType} · {item.size}
+                              {item.renditions?.find(r => r.selected) && <> · {item.renditions.find(r => r.selected)?.label}</>}
+                            </p>
+                            {item.renditions && item.renditions.length > 1 && (
+                              <p className="text-xs text-gray-400 truncate" title="Qualities this video was offered in">
+                                Available: {item.renditions.map(r => `${r.label}${r.approxBytes ? ` (~${formatBytes(r.approxBytes)})` : ''}`).join(', ')}
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-2 ml-3 flex-shrink-0">
+                          {saved ? (
+                            <CheckCircle className="h-5 w-5 text-green-500" aria-label="Downloaded" />
+                          ) : (
+                            <button
+                              onClick={() => onDownload(download, item)}
+                              disabled={download.status === 'downloading'}
+                              className="p-2 text-green-600 hover:text-green-700 hover:bg-green-50 rounded-lg transition-colors duration-200 disabled:opacity-50"
+                              title="Download file"
+                            >
+                              <FileDown className="h-4 w-4" />
+                            </button>
+                          )}
+                          <a
+                            href={item.downloadUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="p-2 text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded-lg transition-colors duration-200"
+                            title="Preview"
+                          >
+                            <Eye className="h-4 w-4" />
+                          </a>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {download.status === 'completed' && (
+                  <div className="flex items-center space-x-2">
+                    <CheckCircle className="h-4 w-4 text-green-500" />
+                    <span className="text-sm text-green-700 font-medium">
+                      Downloaded {download.items.length} file{download.items.length !== 1 ? 's' : ''}
+                    </span>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {download.status === 'error' && download.error && (
+              <div className="p-3 bg-red-50 rounded-lg border border-red-200">
+                <div className="flex items-start space-x-2">
+                  <AlertCircle className="h-4 w-4 text-red-500 mt-0.5" />
+                  <div className="flex-1 text-sm">
+                    <p className="font-semibold text-red-800">{getFailureText(download.errorCode).title}</p>
+                    <p className="text-red-700">{download.error}</p>
+                    <p className="mt-1 text-gray-600">{getFailureText(download.errorCode).hint}</p>
+                  </div>
+                  <RetryButton retryAt={download.retryAt} onRetry={() => onRetry(download)} />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <button
+            onClick={() => onRemove(download.id)}
+            className="ml-4 p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors duration-200"
+            title="Remove download"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden">
+        <div className="bg-gradient-to-r from-purple-600 to-blue-600 px-6 py-4">
+          <h2 className="text-xl font-bold text-white">Download Manager</h2>
+          <p className="text-purple-100 text-sm">Track your download progress</p>
+        </div>
+
+        <div className="divide-y divide-gray-100">
+          {batches.map(batch => renderBatch(batch))}
+          {downloads.filter(download => !download.batchId).map(download => renderDownload(download))}
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
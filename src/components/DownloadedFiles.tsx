@@ -1,10 +1,13 @@
-import React, { useState, useEffect } from 'react';
-import { Folder, Download, Trash2, Eye, RefreshCw, HardDrive } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Folder, Download, Trash2, Eye, RefreshCw, HardDrive, Search, User, Film, Image as ImageIcon, Pin, PinOff, Clock } from 'lucide-react';
 import { 
   getDownloadedFiles, 
   deleteDownloadedFile, 
   downloadFile as triggerBrowserDownload, // Rename to avoid conflict with local function
-  DownloadedFile 
+  getStorageReport,
+  setFilePinned,
+  DownloadedFile,
+  StorageReport
 } from '../services/api'; // Adjust path as necessary
 import { toast } from 'react-hot-toast'; // Assuming you've installed react-hot-toast
 
@@ -20,12 +23,17 @@ export const DownloadedFiles: React.FC = () => {
   const [files, setFiles] = useState<DownloadedFile[]>([]);
   const [loading, setLoading] = useState(false);
   const [deletingFile, setDeletingFile] = useState<string | null>(null); // Track file being deleted
+  const [search, setSearch] = useState(''); // Matches author, caption, #hashtags and @mentions
+  const [storageReport, setStorageReport] = useState<StorageReport | null>(null); // Usage against the retention quota
+  const [pinningFile, setPinningFile] = useState<string | null>(null);
 
-  const fetchFiles = async () => {
+  // Only uses state setters, so it stays the same function across renders
+  const fetchFiles = useCallback(async (query: string) => {
     setLoading(true);
     try {
-      const fetchedFiles = await getDownloadedFiles(); // Use the API function
+      const [fetchedFiles, report] = await Promise.all([getDownloadedFiles({ q: query }), getStorageReport()]); // Use the API functions
       setFiles(fetchedFiles);
+      setStorageReport(report);
       toast.success('Files refreshed successfully!', { duration: 2000 });
     } catch (error) {
       console.error('Failed to fetch files:', error);
@@ -33,7 +41,7 @@ export const DownloadedFiles: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, []);
 
   const handleDeleteFile = async (filename: string) => {
     if (!window.confirm(`Are you sure you want to delete "${filename}"? This cannot be undone.`)) {
@@ -53,6 +61,25 @@ export const DownloadedFiles: React.FC = () => {
     }
   };
 
+  const handleTogglePin = async (file: DownloadedFile) => {
+    setPinningFile(file.filename);
+    try {
+      await setFilePinned(file.filename, !file.pinned);
+      setFiles(prevFiles => prevFiles.map(f => (f.filename === file.filename ? { ...f, pinned: !file.pinned } : f)));
+      setStorageReport(await getStorageReport()); // Pinning changes what the next sweep removes
+      toast.success(file.pinned ? `"${file.filename}" can expire again.` : `"${file.filename}" will be kept.`);
+    } catch (error) {
+      console.error('Failed to update pin:', error);
+      toast.error(`Failed to update "${file.filename}". Please try again.`);
+    } finally {
+      setPinningFile(null);
+    }
+  };
+
+  // Why the next retention sweep will remove a file, if it will
+  const scheduledRemoval = (filename: string) =>
+    storageReport?.scheduled.find(entry => entry.filename === filename)?.reason ?? null;
+
   const handleDownloadFile = (file: DownloadedFile) => {
     try {
       triggerBrowserDownload(file.downloadUrl, file.filename); // Use the API function
@@ -88,11 +115,16 @@ export const DownloadedFiles: React.FC = () => {
   };
 
   useEffect(() => {
-    fetchFiles();
-  }, []); // Empty dependency array means this runs once on mount
+    fetchFiles('');
+  }, [fetchFiles]); // fetchFiles never changes, so this runs once on mount
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    fetchFiles(search);
+  };
 
-  // Conditional rendering for no files/loading state
-  if (files.length === 0 && !loading) {
+  // Conditional rendering for no files/loading state (a search with no hits keeps the list view)
+  if (files.length === 0 && !loading && !search.trim()) {
     return (
       <div className="max-w-4xl mx-auto">
         <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8 text-center">
@@ -100,7 +132,7 @@ export const DownloadedFiles: React.FC = () => {
           <h3 className="text-xl font-semibold text-gray-700 mb-2">No Downloaded Files</h3>
           <p className="text-gray-500">Files you download will appear here for easy access.</p>
           <button
-            onClick={fetchFiles}
+            onClick={() => fetchFiles(search)}
             className="mt-4 bg-gradient-to-r from-purple-600 to-blue-600 text-white px-4 py-2 rounded-lg font-medium hover:from-purple-700 hover:to-blue-700 transition-all duration-200 flex items-center space-x-2 mx-auto"
             disabled={loading} // Disable button while loading
           >
@@ -125,7 +157,7 @@ export const DownloadedFiles: React.FC = () => {
               </div>
             </div>
             <button
-              onClick={fetchFiles}
+              onClick={() => fetchFiles(search)}
               disabled={loading}
               className="bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-lg font-medium transition-all duration-200 flex items-center space-x-2"
             >
@@ -135,6 +167,19 @@ export const DownloadedFiles: React.FC = () => {
           </div>
         </div>
 
+        <form onSubmit={handleSearch} className="px-6 py-3 border-b border-gray-100">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by author, caption, #hashtag or @mention"
+              className="w-full pl-9 pr-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+          </div>
+        </form>
+
         {/* Loading Spinner */}
         {loading && files.length === 0 && ( // Show full-page spinner only if no files are loaded yet
           <div className="p-8 text-center text-gray-500">
@@ -146,7 +191,7 @@ export const DownloadedFiles: React.FC = () => {
         {!loading && files.length === 0 && ( // Display message if no files after loading
           <div className="p-8 text-center text-gray-500">
              <HardDrive className="h-12 w-12 text-gray-300 mx-auto mb-3" />
-             <p>No files found.</p>
+             <p>{search.trim() ? `No files match "${search.trim()}".` : 'No files found.'}</p>
           </div>
         )}
 
@@ -157,14 +202,22 @@ export const DownloadedFiles: React.FC = () => {
                 <div className="flex items-center justify-between">
                     <div className="flex-1 min-w-0">
                     <div className="flex items-center space-x-3 mb-2">
-                        <div className="bg-green-100 p-2 rounded-lg flex-shrink-0"> {/* flex-shrink-0 to prevent shrinking */}
-                        {file.filename.includes('.mp4') || file.filename.includes('.webm') || file.filename.includes('.mov') ? ( // More robust video check
-                            <div className="w-5 h-5 bg-red-500 rounded flex items-center justify-center">
-                            <div className="w-0 h-0 border-l-2 border-l-white border-y-1 border-y-transparent ml-0.5"></div>
-                            </div>
+                        <div className="relative w-16 h-16 bg-green-100 rounded-lg overflow-hidden flex items-center justify-center flex-shrink-0"> {/* flex-shrink-0 to prevent shrinking */}
+                        {file.thumbnailUrl ? (
+                            <img
+                                src={file.thumbnailUrl}
+                                alt={file.metadata?.caption || file.filename}
+                                loading="lazy"
+                                className="w-full h-full object-cover"
+                            />
+                        ) : file.mediaType === 'video' ? (
+                            <Film className="h-6 w-6 text-green-700" />
                         ) : (
-                            <div className="w-5 h-5 bg-blue-500 rounded flex items-center justify-center">
-                            <div className="w-3 h-2 bg-white rounded-sm"></div>
+                            <ImageIcon className="h-6 w-6 text-green-700" />
+                        )}
+                        {file.thumbnailUrl && file.mediaType === 'video' && ( // Poster frame: mark it as a video
+                            <div className="absolute bottom-1 right-1 bg-black/60 rounded p-0.5">
+                                <Film className="h-3 w-3 text-white" />
                             </div>
                         )}
                         </div>
@@ -176,11 +229,43 @@ export const DownloadedFiles: React.FC = () => {
                                 <span>Size: {formatFileSize(file.size)}</span>
                                 <span>Date: {formatDate(file.created)}</span>
                             </div>
+                            {file.metadata?.author && (
+                                <div className="flex items-center gap-x-1 text-sm text-gray-600">
+                                    <User className="h-3.5 w-3.5" />
+                                    <span>{file.metadata.author.handle ? `@${file.metadata.author.handle}` : file.metadata.author.displayName}</span>
+                                    {file.pageUrl && (
+                                        <a href={file.pageUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline ml-1">
+                                            original post
+                                        </a>
+                                    )}
+                                </div>
+                            )}
+                            {file.metadata?.caption && (
+                                <p className="text-sm text-gray-500 truncate max-w-xs sm:max-w-md md:max-w-lg">{file.metadata.caption}</p>
+                            )}
+                            {scheduledRemoval(file.filename) && (
+                                <div className="flex items-center gap-x-1 text-sm text-amber-600">
+                                    <Clock className="h-3.5 w-3.5" />
+                                    <span>
+                                        {scheduledRemoval(file.filename) === 'expired' ? 'Expired' : 'Over the storage quota'}: removed at the next cleanup unless pinned
+                                    </span>
+                                </div>
+                            )}
                         </div>
                     </div>
                     </div>
 
                     <div className="flex items-center space-x-2 ml-4 flex-shrink-0"> {/* flex-shrink-0 for buttons */}
+                    <button
+                        onClick={() => handleTogglePin(file)}
+                        disabled={pinningFile === file.filename}
+                        className={`p-2 rounded-lg transition-colors duration-200 ${
+                        file.pinned ? 'text-amber-600 hover:text-amber-700 hover:bg-amber-50' : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+                        }`}
+                        title={file.pinned ? 'Unpin (let retention remove it)' : 'Pin (never remove automatically)'}
+                    >
+                        {file.pinned ? <PinOff className="h-5 w-5" /> : <Pin className="h-5 w-5" />}
+                    </button>
                     <button
                         onClick={() => handlePreviewFile(file)}
                         className="p-2 text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded-lg transition-colors duration-200"
@@ -221,8 +306,19 @@ export const DownloadedFiles: React.FC = () => {
               <span>{files.length} file{files.length !== 1 ? 's' : ''} total</span>
               <span>
                 Total size: {formatFileSize(files.reduce((total, file) => total + file.size, 0))}
+                {storageReport?.policy.maxBytes != null && (
+                  <> · Quota: {formatFileSize(storageReport.usedBytes)} of {formatFileSize(storageReport.policy.maxBytes)} used</>
+                )}
               </span>
             </div>
+            {storageReport?.policy.maxBytes != null && (
+              <div className="mt-2 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className={`h-full ${storageReport.usedBytes > storageReport.policy.maxBytes ? 'bg-amber-500' : 'bg-green-500'}`}
+                  style={{ width: `${Math.min(100, (storageReport.usedBytes / storageReport.policy.maxBytes) * 100)}%` }}
+                />
+              </div>
+            )}
           </div>
         )}
       </div>
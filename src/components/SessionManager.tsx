@@ -0,0 +1,158 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { KeyRound, Upload, Trash2, RefreshCw, CheckCircle, AlertTriangle } from 'lucide-react';
+import { getPlatforms, getSessions, importSession, revokeSession, PlatformInfo, SessionInfo } from '../services/api';
+
+// Imported login sessions per platform: upload a cookie export, see whether it still works, revoke it
+export const SessionManager: React.FC = () => {
+  const [platforms, setPlatforms] = useState<PlatformInfo[]>([]);
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyPlatform, setBusyPlatform] = useState<string | null>(null); // Import or revoke in flight
+  const [errors, setErrors] = useState<Record<string, string>>({}); // Last failure per platform
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [available, stored] = await Promise.all([getPlatforms(), getSessions()]);
+      setPlatforms(available.filter(p => p.supportsSessions));
+      setSessions(stored);
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+      setErrors({ '*': error instanceof Error ? error.message : 'Failed to load sessions' });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const runFor = async (platform: string, action: () => Promise<void>) => {
+    setBusyPlatform(platform);
+    setErrors(prev => ({ ...prev, [platform]: '' }));
+    try {
+      await action();
+    } catch (error) {
+      setErrors(prev => ({ ...prev, [platform]: error instanceof Error ? error.message : 'Request failed' }));
+    } finally {
+      setBusyPlatform(null);
+    }
+  };
+
+  const handleImport = (platform: string, file: File) => runFor(platform, async () => {
+    const session = await importSession(platform, file);
+    setSessions(prev => [...prev.filter(s => s.platform !== platform), session]);
+  });
+
+  const handleRevoke = (platform: string) => {
+    if (!window.confirm(`Forget the imported ${platform} session? Downloads will go out logged out.`)) return;
+    runFor(platform, async () => {
+      await revokeSession(platform);
+      setSessions(prev => prev.filter(s => s.platform !== platform));
+    });
+  };
+
+  const formatDate = (value: string | null) => value ? new Date(value).toLocaleString() : null;
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="bg-white rounded-2xl shadow-xl border border-gray-100">
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <KeyRound className="h-6 w-6 text-purple-600" />
+            <h2 className="text-xl font-bold text-gray-800">Sessions</h2>
+          </div>
+          <button
+            onClick={refresh}
+            disabled={loading}
+            className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </button>
+        </div>
+
+        <p className="px-6 pt-4 text-sm text-gray-600">
+          Stories, many reels and posts behind a login wall need a logged-in session. Export your cookies from a logged-in
+          browser (a Netscape <code className="bg-gray-100 px-1 rounded">cookies.txt</code> or a JSON export) and import them here.
+          They are stored encrypted on the server and can be revoked at any time.
+        </p>
+        {errors['*'] && <p className="px-6 pt-2 text-sm text-red-600">{errors['*']}</p>}
+
+        <div className="divide-y divide-gray-100">
+          {platforms.map(platform => {
+            const session = sessions.find(s => s.platform === platform.id);
+            const busy = busyPlatform === platform.id;
+            return (
+              <div key={platform.id} className="p-6 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    <span className="font-semibold text-gray-800">{platform.name}</span>
+                    {!session ? (
+                      <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600 border border-gray-200">Logged out</span>
+                    ) : session.status === 'active' ? (
+                      <span className="flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800 border border-green-200">
+                        <CheckCircle className="h-3 w-3" />
+                        <span>Active</span>
+                      </span>
+                    ) : (
+                      <span className="flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800 border border-amber-200">
+                        <AlertTriangle className="h-3 w-3" />
+                        <span>Expired</span>
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <label className={`flex items-center space-x-2 px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 ${busy ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+                      <Upload className="h-4 w-4" />
+                      <span>{session ? 'Replace cookies' : 'Import cookies'}</span>
+                      <input
+                        type="file"
+                        accept=".txt,.json,text/plain,application/json"
+                        className="hidden"
+                        disabled={busy}
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          e.target.value = ''; // Picking the same file again should still register
+                          if (file) handleImport(platform.id, file);
+                        }}
+                      />
+                    </label>
+                    {session && (
+                      <button
+                        onClick={() => handleRevoke(platform.id)}
+                        disabled={busy}
+                        className="flex items-center space-x-1 px-3 py-1.5 text-sm text-red-700 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span>Revoke</span>
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {session && (
+                  <div className="text-xs text-gray-500 space-y-1">
+                    <p>
+                      {session.cookieCount} cookie{session.cookieCount !== 1 ? 's' : ''} for {session.domains.join(', ')} · imported {formatDate(session.importedAt)}
+                      {session.lastUsedAt && <> · last used {formatDate(session.lastUsedAt)}</>}
+                    </p>
+                    <p>{session.expiresAt ? `Login expires ${formatDate(session.expiresAt)}` : 'Login lasts until the platform ends it'}</p>
+                    {session.status === 'expired' && session.statusReason && (
+                      <p className="text-amber-700">{session.statusReason} Import fresh cookies to log in again.</p>
+                    )}
+                  </div>
+                )}
+                {errors[platform.id] && <p className="text-sm text-red-600">{errors[platform.id]}</p>}
+              </div>
+            );
+          })}
+          {platforms.length === 0 && !loading && (
+            <p className="p-6 text-sm text-gray-500">No platform supports imported sessions.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { LogIn, Lock } from 'lucide-react';
+import { signIn, AuthSession } from '../services/api';
+
+interface SignInProps {
+  onSignedIn: (session: AuthSession) => void;
+}
+
+// Shown instead of the app when the server requires an API key; the key is traded for a session cookie
+export const SignIn: React.FC<SignInProps> = ({ onSignedIn }) => {
+  const [apiKey, setApiKey] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!apiKey.trim()) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      onSignedIn(await signIn(apiKey.trim()));
+      setApiKey('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto">
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-xl border border-gray-100 p-6 space-y-4">
+        <div className="flex items-center space-x-3">
+          <Lock className="h-6 w-6 text-purple-600" />
+          <h2 className="text-xl font-bold text-gray-800">Sign in</h2>
+        </div>
+        <p className="text-sm text-gray-600">
+          This server needs an API key. Ask its admin for one; you will only see the files downloaded with it.
+        </p>
+        <input
+          type="password"
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          placeholder="smd_..."
+          autoComplete="current-password"
+          className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={submitting || !apiKey.trim()}
+          className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-gradient-to-r from-purple-600 to-blue-600 text-white font-medium rounded-xl disabled:opacity-50"
+        >
+          <LogIn className="h-4 w-4" />
+          <span>{submitting ? 'Signing in...' : 'Sign in'}</span>
+        </button>
+      </form>
+    </div>
+  );
+};
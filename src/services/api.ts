@@ -0,0 +1,522 @@
+// Use import.meta.env for environment variables provided by Vite
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
+
+// Logger for better debugging visibility on the client side
+const logger = {
+  info: (...args: unknown[]) => console.log('[API Client INFO]', ...args),
+  warn: (...args: unknown[]) => console.warn('[API Client WARN]', ...args),
+  error: (...args: unknown[]) => console.error('[API Client ERROR]', ...args),
+};
+
+// Request/response shapes live in shared/apiContract.js so client and server can't drift
+import type {
+  ApiKeyInfo,
+  ApiKeyRole,
+  AuthSession,
+  BatchJob,
+  BatchProgressEvent,
+  ContentType,
+  CreatedApiKey,
+  DownloadJob,
+  DownloadRequest,
+  DownloadProgressEvent,
+  DownloadedFile,
+  EnumerateRequest,
+  ErrorEnvelope,
+  PlatformInfo,
+  SessionInfo,
+  StorageReport,
+  VideoQuality,
+} from '../../shared/apiContract.js';
+import { REQUEST_ID_HEADER } from '../../shared/apiContract.js';
+
+export type {
+  ApiKeyInfo,
+  ApiKeyRole,
+  AuthSession,
+  BatchEntry,
+  BatchJob,
+  BatchProgressEvent,
+  BatchSourceInfo,
+  ContentType,
+  CreatedApiKey,
+  DownloadFailure,
+  DownloadItem,
+  DownloadJob,
+  DownloadPhase,
+  DownloadProgressEvent,
+  DownloadRequest,
+  DownloadResult,
+  DownloadedFile,
+  EnumerateRequest,
+  FailureCode,
+  MediaType,
+  PlatformInfo,
+  PostMetadata,
+  Principal,
+  ScheduledEviction,
+  SessionInfo,
+  StorageReport,
+  VideoQuality,
+  VideoRendition,
+} from '../../shared/apiContract.js';
+export { API_ERROR_CODES, API_KEY_ROLES, BATCH_MAX_URLS, CONTENT_TYPES, FAILURE_CODES, VIDEO_QUALITY_PRESETS, parseUrlList } from '../../shared/apiContract.js';
+
+// Error thrown for non-2xx responses, carrying the server's machine-readable code
+export class ApiError extends Error {
+  readonly code: string;
+  readonly status: number;
+  readonly details?: unknown;
+  readonly retryAfterSeconds: number | null; // From Retry-After on 429s: when trying again can work
+  readonly requestId: string | null; // The server logs the request under this id; quote it in bug reports
+
+  constructor(status: number, envelope: Pick<ErrorEnvelope, 'code' | 'message' | 'details'>, retryAfterSeconds: number | null = null, requestId: string | null = null) {
+    super(envelope.message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = envelope.code;
+    this.details = envelope.details;
+    this.retryAfterSeconds = retryAfterSeconds;
+    this.requestId = requestId;
+  }
+}
+
+// Told when the server turns a request away with 401 (the session expired or its key was revoked),
+// so the app can go back to signing in. Returns an unsubscribe function.
+const unauthorizedListeners = new Set<() => void>();
+export function onUnauthorized(listener: () => void): () => void {
+  unauthorizedListeners.add(listener);
+  return () => {
+    unauthorizedListeners.delete(listener);
+  };
+}
+
+// Every request carries the session cookie (see signIn); the API may be on another origin
+async function apiFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const response = await fetch(url, { credentials: 'include', ...init });
+  // A rejected sign-in is the sign-in form's to report
+  if (response.status === 401 && !url.startsWith(`${API_BASE_URL}/auth/`)) {
+    logger.warn('Not signed in (any more); the server answered 401 for', url);
+    unauthorizedListeners.forEach(listener => listener());
+  }
+  return response;
+}
+
+// Turn an error response into an ApiError, tolerating bodies that aren't an ErrorEnvelope
+async function toApiError(response: Response, fallbackMessage: string): Promise<ApiError> {
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  const retryAfterSeconds = response.status === 429 ? (retryAfter > 0 ? retryAfter : 1) : null;
+  const requestId = response.headers.get(REQUEST_ID_HEADER);
+  try {
+    const envelope: Partial<ErrorEnvelope> = await response.json();
+    return new ApiError(response.status, {
+      code: envelope.code ?? 'UNKNOWN',
+      message: envelope.message || `${fallbackMessage} with status: ${response.status}`,
+      details: envelope.details,
+    }, retryAfterSeconds, requestId);
+  } catch {
+    return new ApiError(response.status, { code: 'UNKNOWN', message: `${fallbackMessage} with status: ${response.status}` }, retryAfterSeconds, requestId);
+  }
+}
+
+export async function requestDownload(request: DownloadRequest): Promise<DownloadJob> {
+  logger.info('Requesting download:', request);
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/download`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      const apiError = await toApiError(response, 'Download request failed');
+      logger.error('Backend download request failed:', apiError.code, apiError.message, `(request ${apiError.requestId})`);
+      throw apiError;
+    }
+
+    const job: DownloadJob = await response.json();
+    logger.info('Download job queued:', job);
+    return job;
+  } catch (error) {
+    logger.error('API request failed (network or unexpected):', error);
+    // Re-throw the error to be handled by the calling component (App.tsx)
+    throw error;
+  }
+}
+
+// Follow a download job over Server-Sent Events. Returns a function that closes the stream.
+export function subscribeToDownloadProgress(
+  jobId: string,
+  onUpdate: (event: DownloadProgressEvent) => void,
+  onConnectionError: (error: Error) => void
+): () => void {
+  const source = new EventSource(`${API_BASE_URL}/download/${encodeURIComponent(jobId)}/progress`, { withCredentials: true });
+
+  source.addEventListener('progress', (message) => {
+    const event: DownloadProgressEvent = JSON.parse((message as MessageEvent<string>).data);
+    onUpdate(event);
+    if (event.phase === 'completed' || event.phase === 'failed') {
+      source.close(); // Server ends the stream after a terminal event; don't let EventSource reconnect
+    }
+  });
+
+  source.onerror = () => {
+    // EventSource retries on its own while CONNECTING; only a CLOSED stream is fatal
+    if (source.readyState === EventSource.CLOSED) {
+      logger.error(`Progress stream for job ${jobId} closed unexpectedly.`);
+      onConnectionError(new Error('Lost connection to the download progress stream'));
+    }
+  };
+
+  return () => source.close();
+}
+
+// URLs for a batch: either pasted (one per line) or an uploaded .txt/.csv file
+export type BatchSource = { urls: string[] } | { file: File };
+
+export interface BatchOptions {
+  contentType: ContentType;
+  allowFallback?: boolean;
+  quality?: VideoQuality;
+}
+
+export async function requestBatchDownload(source: BatchSource, { contentType, allowFallback = false, quality = 'best' }: BatchOptions): Promise<BatchJob> {
+  logger.info('Requesting batch download:', 'file' in source ? source.file.name : `${source.urls.length} URL(s)`);
+  try {
+    let response: Response;
+    if ('file' in source) {
+      // Let the browser set the multipart boundary; the server validates these fields like JSON ones
+      const form = new FormData();
+      form.append('file', source.file);
+      form.append('contentType', contentType);
+      form.append('allowFallback', String(allowFallback));
+      form.append('quality', quality);
+      response = await apiFetch(`${API_BASE_URL}/batch`, { method: 'POST', body: form });
+    } else {
+      response = await apiFetch(`${API_BASE_URL}/batch`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ urls: source.urls, contentType, allowFallback, quality }),
+      });
+    }
+
+    if (!response.ok) {
+      const apiError = await toApiError(response, 'Batch request failed');
+      logger.error('Backend batch request failed:', apiError.code, apiError.message);
+      throw apiError;
+    }
+
+    const batchJob: BatchJob = await response.json();
+    logger.info('Batch queued:', batchJob.batchId, batchJob.batch.counts);
+    return batchJob;
+  } catch (error) {
+    logger.error('Batch request failed (network or unexpected):', error);
+    throw error;
+  }
+}
+
+// List a profile, page or highlight and download what it holds. The batch starts empty and fills
+// as the server discovers items, so follow it with subscribeToBatchProgress.
+export async function requestEnumeration(request: EnumerateRequest): Promise<BatchJob> {
+  logger.info('Requesting enumeration:', request);
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/enumerate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      const apiError = await toApiError(response, 'Enumeration request failed');
+      logger.error('Backend enumeration request failed:', apiError.code, apiError.message);
+      throw apiError;
+    }
+
+    const batchJob: BatchJob = await response.json();
+    logger.info('Enumeration started:', batchJob.batchId);
+    return batchJob;
+  } catch (error) {
+    logger.error('Enumeration request failed (network or unexpected):', error);
+    throw error;
+  }
+}
+
+// Queue the failed URLs of a batch again. Follow the batch's progress stream again afterwards.
+export async function retryFailedBatchEntries(batchId: string): Promise<BatchJob> {
+  const response = await apiFetch(`${API_BASE_URL}/batch/${encodeURIComponent(batchId)}/retry`, { method: 'POST' });
+  if (!response.ok) {
+    const apiError = await toApiError(response, 'Batch retry failed');
+    logger.error('Backend batch retry failed:', apiError.code, apiError.message);
+    throw apiError;
+  }
+  return response.json();
+}
+
+// Follow a batch over Server-Sent Events: one stream carries every URL's job, so large batches
+// don't need a connection per job. Returns a function that closes the stream.
+export function subscribeToBatchProgress(
+  batchId: string,
+  onUpdate: (event: BatchProgressEvent) => void,
+  onConnectionError: (error: Error) => void
+): () => void {
+  const source = new EventSource(`${API_BASE_URL}/batch/${encodeURIComponent(batchId)}/progress`, { withCredentials: true });
+
+  source.addEventListener('progress', (message) => {
+    const event: BatchProgressEvent = JSON.parse((message as MessageEvent<string>).data);
+    onUpdate(event);
+    if (event.phase === 'completed') {
+      source.close(); // Server ends the stream once the batch is done; don't let EventSource reconnect
+    }
+  });
+
+  source.onerror = () => {
+    if (source.readyState === EventSource.CLOSED) {
+      logger.error(`Progress stream for batch ${batchId} closed unexpectedly.`);
+      onConnectionError(new Error('Lost connection to the batch progress stream'));
+    }
+  };
+
+  return () => source.close();
+}
+
+// Simplified and more focused downloadFile function
+export async function downloadFile(url: string, filename: string): Promise<void> {
+  logger.info(`Attempting direct browser download for: ${filename} from ${url}`);
+  try {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename; // Suggests filename to browser
+    // No target="_blank" needed for direct downloads, as it's not opening a new tab
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    logger.info(`Browser download initiated for: ${filename}`);
+  } catch (error) {
+    logger.error('Direct file download failed in browser:', error);
+    // Re-throw the error to be handled by the calling component (App.tsx)
+    throw error;
+  }
+}
+
+export async function checkServerHealth(): Promise<boolean> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/health`, { signal: AbortSignal.timeout(5000) }); // Add a timeout for health check
+    const isOnline = response.ok;
+    if (isOnline) {
+      logger.info('Server health check: Online');
+    } else {
+      logger.warn(`Server health check: Offline (Status: ${response.status})`);
+    }
+    return isOnline;
+  } catch (error) {
+    logger.error('Server health check failed (network error):', error);
+    return false;
+  }
+}
+
+export async function getPlatforms(): Promise<PlatformInfo[]> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/platforms`);
+    if (!response.ok) {
+      logger.warn(`Failed to fetch platforms (Status: ${response.status})`);
+      return [];
+    }
+    return await response.json();
+  } catch (error) {
+    logger.error('Failed to fetch platforms (network error):', error);
+    return [];
+  }
+}
+
+// Search filters for the downloaded files list; all optional and case-insensitive
+export interface DownloadedFileFilters {
+  q?: string;
+  author?: string;
+  hashtag?: string;
+  platform?: string;
+}
+
+export async function getDownloadedFiles(filters: DownloadedFileFilters = {}): Promise<DownloadedFile[]> {
+  logger.info('Fetching list of downloaded files...', filters);
+  try {
+    const params = new URLSearchParams(
+      Object.entries(filters).filter((entry): entry is [string, string] => Boolean(entry[1]?.trim()))
+    );
+    const query = params.toString();
+    const response = await apiFetch(`${API_BASE_URL}/downloads${query ? `?${query}` : ''}`);
+    if (!response.ok) {
+      const apiError = await toApiError(response, 'Failed to fetch downloaded files');
+      logger.error('Failed to fetch downloaded files from backend:', apiError.code, apiError.message);
+      throw apiError;
+    }
+    const files: DownloadedFile[] = await response.json();
+    logger.info('Successfully fetched downloaded files:', files);
+    return files;
+  } catch (error) {
+    // The server's refusals (signed out, forbidden) must not look like an empty library
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    logger.error('Failed to get downloaded files (network or unexpected):', error);
+    // Returning empty array is often user-friendlier for lists
+    return [];
+  }
+}
+
+export async function deleteDownloadedFile(filename: string): Promise<void> {
+  logger.info(`Requesting deletion of file: ${filename}`);
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/downloads/${encodeURIComponent(filename)}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const apiError = await toApiError(response, 'Failed to delete file');
+      logger.error('Backend file deletion failed:', apiError.code, apiError.message);
+      throw apiError;
+    }
+    logger.info(`File ${filename} deleted successfully on backend.`);
+  } catch (error) {
+    logger.error(`API request to delete file ${filename} failed:`, error);
+    throw error;
+  }
+}
+
+// Pinned files are never removed by the server's retention rules
+export async function setFilePinned(filename: string, pinned: boolean): Promise<void> {
+  logger.info(`${pinned ? 'Pinning' : 'Unpinning'} ${filename}`);
+  const response = await apiFetch(`${API_BASE_URL}/downloads/${encodeURIComponent(filename)}/pin`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ pinned }),
+  });
+  if (!response.ok) {
+    const apiError = await toApiError(response, 'Failed to update pin');
+    logger.error('Backend pin update failed:', apiError.code, apiError.message);
+    throw apiError;
+  }
+}
+
+// Storage usage, the retention quota and what the next sweep will remove; null if unavailable
+export async function getStorageReport(): Promise<StorageReport | null> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/storage`);
+    if (!response.ok) {
+      logger.warn(`Failed to fetch storage report (Status: ${response.status})`);
+      return null;
+    }
+    return await response.json();
+  } catch (error) {
+    logger.error('Failed to fetch storage report (network error):', error);
+    return null;
+  }
+}
+
+// Imported login sessions, one per platform; the server never returns the cookies themselves
+export async function getSessions(): Promise<SessionInfo[]> {
+  const response = await apiFetch(`${API_BASE_URL}/sessions`);
+  if (!response.ok) {
+    const apiError = await toApiError(response, 'Failed to fetch sessions');
+    logger.error('Failed to fetch sessions:', apiError.code, apiError.message);
+    throw apiError;
+  }
+  return response.json();
+}
+
+// Upload a cookies.txt or JSON cookie export as the platform's session, replacing any earlier one
+export async function importSession(platform: string, file: File): Promise<SessionInfo> {
+  logger.info(`Importing ${platform} session from ${file.name}`);
+  const form = new FormData();
+  form.append('file', file);
+  const response = await apiFetch(`${API_BASE_URL}/sessions/${encodeURIComponent(platform)}`, { method: 'POST', body: form });
+  if (!response.ok) {
+    const apiError = await toApiError(response, 'Session import failed');
+    logger.error('Backend session import failed:', apiError.code, apiError.message);
+    throw apiError;
+  }
+  return response.json();
+}
+
+export async function revokeSession(platform: string): Promise<void> {
+  logger.info(`Revoking ${platform} session`);
+  const response = await apiFetch(`${API_BASE_URL}/sessions/${encodeURIComponent(platform)}`, { method: 'DELETE' });
+  if (!response.ok && response.status !== 404) { // Already gone is fine
+    const apiError = await toApiError(response, 'Session revoke failed');
+    logger.error('Backend session revoke failed:', apiError.code, apiError.message);
+    throw apiError;
+  }
+}
+
+// Whether the server needs signing in, and who this browser is signed in as
+export async function getAuthSession(): Promise<AuthSession> {
+  const response = await apiFetch(`${API_BASE_URL}/auth/session`);
+  if (!response.ok) {
+    throw await toApiError(response, 'Failed to check sign-in');
+  }
+  return response.json();
+}
+
+// Trade an API key for a session cookie; the key itself isn't kept in the browser
+export async function signIn(apiKey: string): Promise<AuthSession> {
+  logger.info('Signing in with an API key');
+  const response = await apiFetch(`${API_BASE_URL}/auth/session`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ apiKey }),
+  });
+  if (!response.ok) {
+    const apiError = await toApiError(response, 'Sign-in failed');
+    logger.error('Sign-in failed:', apiError.code, apiError.message);
+    throw apiError;
+  }
+  return response.json();
+}
+
+export async function signOut(): Promise<void> {
+  logger.info('Signing out');
+  await apiFetch(`${API_BASE_URL}/auth/session`, { method: 'DELETE' });
+}
+
+// API keys, for admins; revoked ones are listed too
+export async function getApiKeys(): Promise<ApiKeyInfo[]> {
+  const response = await apiFetch(`${API_BASE_URL}/keys`);
+  if (!response.ok) {
+    const apiError = await toApiError(response, 'Failed to fetch API keys');
+    logger.error('Failed to fetch API keys:', apiError.code, apiError.message);
+    throw apiError;
+  }
+  return response.json();
+}
+
+// Issue a key; the returned `key` can't be read back later
+export async function createApiKey(name: string, role: ApiKeyRole): Promise<CreatedApiKey> {
+  logger.info(`Creating ${role} API key "${name}"`);
+  const response = await apiFetch(`${API_BASE_URL}/keys`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name, role }),
+  });
+  if (!response.ok) {
+    const apiError = await toApiError(response, 'Failed to create API key');
+    logger.error('Backend API key creation failed:', apiError.code, apiError.message);
+    throw apiError;
+  }
+  return response.json();
+}
+
+export async function revokeApiKey(id: string): Promise<ApiKeyInfo> {
+  logger.info(`Revoking API key ${id}`);
+  const response = await apiFetch(`${API_BASE_URL}/keys/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  if (!response.ok) {
+    const apiError = await toApiError(response, 'Failed to revoke API key');
+    logger.error('Backend API key revoke failed:', apiError.code, apiError.message);
+    throw apiError;
+  }
+  return response.json();
+}